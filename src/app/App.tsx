@@ -12,6 +12,7 @@ import ErrorBoundary from "app/ErrorBoundary";
 import PageRouter from "app/PageRouter";
 import ConfirmPage from "app/ConfirmPage";
 import Dialogs from "app/layouts/Dialogs";
+import ActivityTracker from "app/layouts/ActivityTracker";
 
 type AppProps = {
   env: React.ComponentProps<typeof AppEnvProvider>;
@@ -24,6 +25,8 @@ const App: React.FC<AppProps> = ({ env }) => (
         <AppProvider env={env}>
           <Dialogs />
 
+          <ActivityTracker />
+
           <DisableOutlinesForClick />
 
           <AwaitI18N />
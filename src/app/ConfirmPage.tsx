@@ -1,13 +1,21 @@
 import * as React from "react";
 import classNames from "clsx";
-import { useLocation } from "lib/woozie";
 import {
   useTempleClient,
   useAccount,
   useRelevantAccounts,
+  useStorage,
   TempleAccountType,
   TempleDAppPayload,
+  TempleDAppConfirmation,
   TempleAccount,
+  TempleOriginRisk,
+  TempleDAppScope,
+  TemplePhishingLists,
+  TempleSharedStorageKey,
+  DEFAULT_PHISHING_LISTS,
+  isRiskySignPayload,
+  isSignRiskAcceptanceRequired,
 } from "lib/temple/front";
 import { useRetryableSWR } from "lib/swr";
 import useSafeState from "lib/ui/useSafeState";
@@ -23,6 +31,7 @@ import Identicon from "app/atoms/Identicon";
 import Name from "app/atoms/Name";
 import AccountTypeBadge from "app/atoms/AccountTypeBadge";
 import Alert from "app/atoms/Alert";
+import FormCheckbox from "app/atoms/FormCheckbox";
 import Money from "app/atoms/Money";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
 import FormSecondaryButton from "app/atoms/FormSecondaryButton";
@@ -32,6 +41,8 @@ import SubTitle from "app/atoms/SubTitle";
 import DAppLogo from "app/templates/DAppLogo";
 import OperationView from "app/templates/OperationView";
 import ConnectBanner from "app/templates/ConnectBanner";
+import { ReactComponent as ChevronLeftIcon } from "app/icons/chevron-left.svg";
+import { ReactComponent as ChevronRightIcon } from "app/icons/chevron-right.svg";
 
 const ConfirmPage: React.FC = () => {
   const { ready } = useTempleClient();
@@ -48,7 +59,7 @@ const ConfirmPage: React.FC = () => {
         >
           <ErrorBoundary whileMessage={t("fetchingConfirmationDetails")}>
             <React.Suspense fallback={null}>
-              <ConfirmDAppForm />
+              <ConfirmDAppQueue />
             </React.Suspense>
           </ErrorBoundary>
         </ContentContainer>
@@ -63,46 +74,237 @@ export default ConfirmPage;
 
 const getPkh = (account: TempleAccount) => account.publicKeyHash;
 
-const ConfirmDAppForm: React.FC = () => {
+const ConfirmDAppQueue: React.FC = () => {
   const {
-    getDAppPayload,
+    getDAppConfirmations,
+    subscribeDAppConfirmations,
     confirmDAppPermission,
     confirmDAppOperation,
     confirmDAppSign,
   } = useTempleClient();
-  const allAccounts = useRelevantAccounts(false);
-  const account = useAccount();
 
-  const [accountPkhToConnect, setAccountPkhToConnect] = React.useState(
-    account.publicKeyHash
+  const { data, revalidate } = useRetryableSWR<TempleDAppConfirmation[]>(
+    "dapp-confirmations",
+    getDAppConfirmations,
+    {
+      suspense: true,
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
   );
+  const confirmations = data!;
 
-  const loc = useLocation();
-  const id = React.useMemo(() => {
-    const usp = new URLSearchParams(loc.search);
-    const id = usp.get("id");
-    if (!id) {
-      throw new Error(t("notIdentified"));
-    }
-    return id;
-  }, [loc.search]);
+  React.useEffect(() => subscribeDAppConfirmations(revalidate), [
+    subscribeDAppConfirmations,
+    revalidate,
+  ]);
 
-  const { data } = useRetryableSWR<TempleDAppPayload>([id], getDAppPayload, {
-    suspense: true,
-    shouldRetryOnError: false,
-    revalidateOnFocus: false,
-    revalidateOnReconnect: false,
-  });
-  const payload = data!;
+  const [currentId, setCurrentId] = React.useState<string | null>(null);
+  const index = Math.max(
+    confirmations.findIndex((c) => c.id === currentId),
+    0
+  );
+  const current = confirmations[index] as TempleDAppConfirmation | undefined;
+
+  const fromSameOrigin = React.useMemo(
+    () =>
+      current
+        ? confirmations.filter(
+            (c) => c.payload.origin === current.payload.origin
+          )
+        : [],
+    [confirmations, current]
+  );
+  const approvable = React.useMemo(
+    () => fromSameOrigin.filter((c) => isApprovableInBulk(c.payload)),
+    [fromSameOrigin]
+  );
+
+  const [bulkProcessing, setBulkProcessing] = useSafeState(false);
+  const [bulkError, setBulkError] = useSafeState<any>(null);
+
+  const processAll = React.useCallback(
+    async (toProcess: TempleDAppConfirmation[], confirmed: boolean) => {
+      if (bulkProcessing) return;
+
+      setBulkError(null);
+      setBulkProcessing(true);
+      for (const { id, payload } of toProcess) {
+        try {
+          switch (payload.type) {
+            case "connect":
+              await confirmDAppPermission(id, confirmed, []);
+              break;
+
+            case "confirm_operations":
+              await confirmDAppOperation(id, confirmed);
+              break;
+
+            case "sign":
+              await confirmDAppSign(id, confirmed);
+              break;
+          }
+        } catch (err) {
+          // Human delay.
+          await new Promise((res) => setTimeout(res, 300));
+          setCurrentId(id);
+          setBulkError(err);
+          break;
+        }
+      }
+      setBulkProcessing(false);
+    },
+    [
+      bulkProcessing,
+      setBulkError,
+      setBulkProcessing,
+      confirmDAppPermission,
+      confirmDAppOperation,
+      confirmDAppSign,
+    ]
+  );
+
+  // Window is closed as soon as the queue is empty
+  if (!current) return null;
+
+  return (
+    <ConfirmDAppForm
+      key={current.id}
+      id={current.id}
+      payload={current.payload}
+      queueBar={
+        confirmations.length > 1 && (
+          <div
+            className={classNames(
+              "w-full px-4 pt-2",
+              "flex items-center",
+              "text-xs text-gray-600"
+            )}
+          >
+            <button
+              type="button"
+              className="p-1 disabled:opacity-50"
+              disabled={index === 0}
+              onClick={() => setCurrentId(confirmations[index - 1].id)}
+            >
+              <ChevronLeftIcon className="w-auto h-4 stroke-current" />
+            </button>
+            <T
+              id="requestOfRequests"
+              substitutions={[String(index + 1), String(confirmations.length)]}
+            />
+            <button
+              type="button"
+              className="p-1 disabled:opacity-50"
+              disabled={index === confirmations.length - 1}
+              onClick={() => setCurrentId(confirmations[index + 1].id)}
+            >
+              <ChevronRightIcon className="w-auto h-4 stroke-current" />
+            </button>
+
+            <div className="flex-1" />
+
+            {fromSameOrigin.length > 1 && (
+              <button
+                type="button"
+                className="px-1 font-medium text-red-600 hover:underline disabled:opacity-50"
+                title={current.payload.origin}
+                disabled={bulkProcessing}
+                onClick={() => processAll(fromSameOrigin, false)}
+              >
+                <T
+                  id="rejectAll"
+                  substitutions={String(fromSameOrigin.length)}
+                />
+              </button>
+            )}
+
+            {approvable.length > 1 && (
+              <button
+                type="button"
+                className="px-1 ml-1 font-medium text-primary-orange hover:underline disabled:opacity-50"
+                title={current.payload.origin}
+                disabled={bulkProcessing}
+                onClick={() => processAll(approvable, true)}
+              >
+                <T id="approveAll" substitutions={String(approvable.length)} />
+              </button>
+            )}
+          </div>
+        )
+      }
+      queueError={bulkError}
+    />
+  );
+};
+
+/**
+ * Connections require accounts selection, risky requests
+ * require explicit acceptance, so they can't be approved in bulk
+ */
+function isApprovableInBulk(payload: TempleDAppPayload) {
+  if (payload.risk) return false;
+
+  switch (payload.type) {
+    case "confirm_operations":
+      return true;
+
+    case "sign":
+      return !isSignRiskAcceptanceRequired(payload);
+
+    default:
+      return false;
+  }
+}
+
+type ConfirmDAppFormProps = {
+  id: string;
+  payload: TempleDAppPayload;
+  queueBar?: React.ReactNode;
+  queueError?: any;
+};
+
+const ConfirmDAppForm: React.FC<ConfirmDAppFormProps> = ({
+  id,
+  payload,
+  queueBar,
+  queueError,
+}) => {
+  const {
+    confirmDAppPermission,
+    confirmDAppOperation,
+    confirmDAppSign,
+  } = useTempleClient();
+  const allAccounts = useRelevantAccounts(false);
+  const account = useAccount();
+
+  const [accountPkhsToConnect, setAccountPkhsToConnect] = React.useState([
+    account.publicKeyHash,
+  ]);
+
+  const toggleAccountToConnect = React.useCallback(
+    (pkh: string) =>
+      setAccountPkhsToConnect((pkhs) => {
+        if (!pkhs.includes(pkh)) {
+          return [...pkhs, pkh];
+        }
+        // At least one account should be connected
+        return pkhs.length > 1 ? pkhs.filter((p) => p !== pkh) : pkhs;
+      }),
+    [setAccountPkhsToConnect]
+  );
 
   const connectedAccount = React.useMemo(
     () =>
       allAccounts.find(
         (a) =>
           a.publicKeyHash ===
-          (payload.type === "connect" ? accountPkhToConnect : payload.sourcePkh)
+          (payload.type === "connect"
+            ? accountPkhsToConnect[0]
+            : payload.sourcePkh)
       ),
-    [payload, allAccounts, accountPkhToConnect]
+    [payload, allAccounts, accountPkhsToConnect]
   );
 
   const AccountOptionContent = React.useMemo(
@@ -110,26 +312,51 @@ const ConfirmDAppForm: React.FC = () => {
     [payload.networkRpc]
   );
 
+  const [, setPhishingLists] = useStorage<TemplePhishingLists>(
+    TempleSharedStorageKey.PhishingLists,
+    DEFAULT_PHISHING_LISTS
+  );
+  const [riskAccepted, setRiskAccepted] = React.useState(false);
+  const [signRiskAccepted, setSignRiskAccepted] = React.useState(false);
+  const signRiskRequired =
+    payload.type === "sign" && isRiskySignPayload(payload);
+
   const onConfirm = React.useCallback(
     async (confimed: boolean) => {
       switch (payload.type) {
         case "connect":
-          return confirmDAppPermission(id, confimed, accountPkhToConnect);
+          if (confimed && payload.risk) {
+            // Don't warn about this origin anymore
+            setPhishingLists((lists) => ({
+              ...lists,
+              overrides: [...lists.overrides, payload.origin],
+            }));
+          }
+          return confirmDAppPermission(id, confimed, accountPkhsToConnect);
 
         case "confirm_operations":
           return confirmDAppOperation(id, confimed);
 
         case "sign":
-          return confirmDAppSign(id, confimed);
+          return confirmDAppSign(
+            id,
+            confimed,
+            (!payload.risk || riskAccepted) &&
+              (!signRiskRequired || signRiskAccepted)
+          );
       }
     },
     [
       id,
-      payload.type,
+      payload,
+      riskAccepted,
+      signRiskRequired,
+      signRiskAccepted,
+      setPhishingLists,
       confirmDAppPermission,
       confirmDAppOperation,
       confirmDAppSign,
-      accountPkhToConnect,
+      accountPkhsToConnect,
     ]
   );
 
@@ -137,6 +364,12 @@ const ConfirmDAppForm: React.FC = () => {
   const [confirming, setConfirming] = useSafeState(false);
   const [declining, setDeclining] = useSafeState(false);
 
+  React.useEffect(() => {
+    if (queueError) {
+      setError(queueError);
+    }
+  }, [queueError, setError]);
+
   const confirm = React.useCallback(
     async (confirmed: boolean) => {
       setError(null);
@@ -270,6 +503,8 @@ const ConfirmDAppForm: React.FC = () => {
         height: 578,
       }}
     >
+      {queueBar}
+
       <div className="flex flex-col items-center px-4 py-2">
         <SubTitle
           className={payload.type === "connect" ? "mt-4 mb-6" : "mt-4 mb-2"}
@@ -288,6 +523,23 @@ const ConfirmDAppForm: React.FC = () => {
 
         {content.want}
 
+        {payload.risk && (
+          <>
+            <OriginRiskAlert origin={payload.origin} risk={payload.risk} />
+
+            {(payload.type === "connect" || payload.type === "sign") && (
+              <FormCheckbox
+                checked={riskAccepted}
+                onChange={(evt) => setRiskAccepted(evt.target.checked)}
+                name="riskAccepted"
+                label={t("iUnderstandTheRisk")}
+                labelDescription={t("iUnderstandTheRiskDescription")}
+                containerClassName="w-full mb-2"
+              />
+            )}
+          </>
+        )}
+
         {payload.type === "connect" && (
           <T id="viewAccountAddressWarning">
             {(message) => (
@@ -298,6 +550,10 @@ const ConfirmDAppForm: React.FC = () => {
           </T>
         )}
 
+        {payload.type === "connect" && payload.scopes && (
+          <DAppScopesView scopes={payload.scopes} />
+        )}
+
         {error ? (
           <Alert
             closable
@@ -333,7 +589,7 @@ const ConfirmDAppForm: React.FC = () => {
                     "flex flex-col"
                   )}
                 >
-                  <T id="account">
+                  <T id="accounts">
                     {(message) => (
                       <span className="text-base font-semibold text-gray-700">
                         {message}
@@ -354,14 +610,30 @@ const ConfirmDAppForm: React.FC = () => {
                       </span>
                     )}
                   </T>
+
+                  {accountPkhsToConnect.length > 1 && (
+                    <T id="firstAccountIsReportedToDApp">
+                      {(message) => (
+                        <span
+                          className={classNames(
+                            "mt-px",
+                            "text-xs font-light text-gray-600"
+                          )}
+                          style={{ maxWidth: "90%" }}
+                        >
+                          {message}
+                        </span>
+                      )}
+                    </T>
+                  )}
                 </h2>
 
                 <CustomSelect<TempleAccount, string>
-                  activeItemId={accountPkhToConnect}
+                  activeItemIds={accountPkhsToConnect}
                   getItemId={getPkh}
                   items={allAccounts}
                   maxHeight="8rem"
-                  onSelect={setAccountPkhToConnect}
+                  onSelect={toggleAccountToConnect}
                   OptionIcon={AccountIcon}
                   OptionContent={AccountOptionContent}
                   autoFocus
@@ -373,6 +645,17 @@ const ConfirmDAppForm: React.FC = () => {
                 networkRpc={payload.networkRpc}
               />
             )}
+
+            {signRiskRequired && (
+              <FormCheckbox
+                checked={signRiskAccepted}
+                onChange={(evt) => setSignRiskAccepted(evt.target.checked)}
+                name="signRiskAccepted"
+                label={t("iUnderstand")}
+                labelDescription={t("iUnderstandSignRiskDescription")}
+                containerClassName="w-full mt-4"
+              />
+            )}
           </>
         )}
       </div>
@@ -403,6 +686,12 @@ const ConfirmDAppForm: React.FC = () => {
             type="button"
             className="justify-center w-full"
             loading={confirming}
+            disabled={
+              ((payload.type === "connect" || payload.type === "sign") &&
+                Boolean(payload.risk) &&
+                !riskAccepted) ||
+              (signRiskRequired && !signRiskAccepted)
+            }
             onClick={handleConfirmClick}
           >
             {content.confirmActionTitle}
@@ -417,6 +706,65 @@ const ConfirmDAppForm: React.FC = () => {
   );
 };
 
+type OriginRiskAlertProps = {
+  origin: string;
+  risk: TempleOriginRisk;
+};
+
+const OriginRiskAlert: React.FC<OriginRiskAlertProps> = ({ origin, risk }) => (
+  <Alert
+    type="error"
+    title={t("phishingWarning")}
+    description={
+      risk.level === "blocked"
+        ? t(
+            risk.byUser ? "originBlockedByYou" : "originIsKnownPhishing",
+            origin
+          )
+        : t("originLooksLikeKnownDApp", [origin, risk.similarTo])
+    }
+    className="w-full mb-4"
+  />
+);
+
+const SCOPE_I18N_KEYS: Record<TempleDAppScope, string> = {
+  operation_request: "operationRequestScope",
+  sign: "signScope",
+  threshold: "thresholdScope",
+};
+
+type DAppScopesViewProps = {
+  scopes: TempleDAppScope[];
+};
+
+const DAppScopesView: React.FC<DAppScopesViewProps> = ({ scopes }) => (
+  <div className="w-full mb-4">
+    <h2 className={classNames("mb-2", "leading-tight", "flex flex-col")}>
+      <T id="requestedPermissions">
+        {(message) => (
+          <span className="text-base font-semibold text-gray-700">
+            {message}
+          </span>
+        )}
+      </T>
+    </h2>
+
+    {scopes.length > 0 ? (
+      <ul className="pl-4 text-sm text-gray-700 list-disc">
+        {scopes.map((scope) => (
+          <li key={scope}>{t(SCOPE_I18N_KEYS[scope])}</li>
+        ))}
+      </ul>
+    ) : (
+      <T id="noPermissionsRequested">
+        {(message) => (
+          <p className="text-xs font-light text-gray-600">{message}</p>
+        )}
+      </T>
+    )}
+  </div>
+);
+
 const AccountIcon: React.FC<OptionRenderProps<TempleAccount>> = ({ item }) => (
   <Identicon
     type="bottts"
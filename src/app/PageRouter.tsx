@@ -14,6 +14,7 @@ import Send from "app/pages/Send";
 import Delegate from "app/pages/Delegate";
 import ManageAssets from "app/pages/ManageAssets";
 import AddToken from "app/pages/AddToken";
+import Approvals from "app/pages/Approvals";
 import Settings from "app/pages/Settings";
 import ConnectLedger from "app/pages/ConnectLedger";
 
@@ -28,8 +29,8 @@ type RouteFactory = Woozie.Router.ResolveResult<RouteContext>;
 
 const ROUTE_MAP = Woozie.Router.createMap<RouteContext>([
   [
-    "/import-wallet",
-    (_p, ctx) => {
+    "/import-wallet/:tabSlug?",
+    ({ tabSlug }, ctx) => {
       switch (true) {
         case ctx.ready:
           return Woozie.Router.SKIP;
@@ -38,7 +39,7 @@ const ROUTE_MAP = Woozie.Router.createMap<RouteContext>([
           return <OpenInFullPage />;
 
         default:
-          return <ImportWallet />;
+          return <ImportWallet tabSlug={tabSlug} />;
       }
     },
   ],
@@ -77,6 +78,7 @@ const ROUTE_MAP = Woozie.Router.createMap<RouteContext>([
   ["/delegate", onlyReady(() => <Delegate />)],
   ["/manage-assets", onlyReady(() => <ManageAssets />)],
   ["/add-token", onlyReady(onlyInFullPage(() => <AddToken />))],
+  ["/approvals", onlyReady(() => <Approvals />)],
   [
     "/settings/:tabSlug?",
     onlyReady(({ tabSlug }) => <Settings tabSlug={tabSlug} />),
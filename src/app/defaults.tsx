@@ -1,21 +1,14 @@
 import * as React from "react";
-import { BcdNetwork } from "lib/better-call-dev";
 import {
   TempleAccount,
   TempleAsset,
   TempleAssetType,
   TempleAccountType,
-  TempleChainId,
 } from "lib/temple/types";
+import { sanitizeImgUri } from "lib/image-uri";
 import { T, t } from "lib/i18n/react";
 import tezImgUrl from "app/misc/tez.png";
 
-export const BCD_NETWORKS_NAMES = new Map<TempleChainId, BcdNetwork>([
-  [TempleChainId.Mainnet, "mainnet"],
-  [TempleChainId.Edo2net, "edo2net"],
-  [TempleChainId.Delphinet, "delphinet"],
-]);
-
 export class ArtificialError extends Error {}
 export class NotEnoughFundsError extends ArtificialError {}
 export class ZeroBalanceError extends NotEnoughFundsError {}
@@ -54,8 +47,20 @@ export function formatMnemonic(m: string) {
   return m.replace(/\n/g, " ").trim();
 }
 
-export function getAssetIconUrl(asset: TempleAsset) {
-  return asset.type === TempleAssetType.TEZ ? tezImgUrl : asset.iconUrl;
+export function getAssetIconUrl(asset: TempleAsset, ipfsGateway?: string) {
+  switch (asset.type) {
+    case TempleAssetType.TEZ:
+      return tezImgUrl;
+
+    case TempleAssetType.FA2:
+      const iconUri = asset.iconUrl ?? asset.collectible?.thumbnailUri;
+      return iconUri ? sanitizeImgUri(iconUri, ipfsGateway) : undefined;
+
+    default:
+      return asset.iconUrl
+        ? sanitizeImgUri(asset.iconUrl, ipfsGateway)
+        : undefined;
+  }
 }
 
 export function getAccountBadgeTitle(account: Pick<TempleAccount, "type">) {
@@ -72,6 +77,9 @@ export function getAccountBadgeTitle(account: Pick<TempleAccount, "type">) {
     case TempleAccountType.WatchOnly:
       return t("watchOnlyAccount");
 
+    case TempleAccountType.Multisig:
+      return t("multisigAccount");
+
     default:
       return null;
   }
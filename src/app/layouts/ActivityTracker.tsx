@@ -0,0 +1,43 @@
+import * as React from "react";
+import { useTempleClient } from "lib/temple/front";
+
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "touchstart", "wheel"];
+const PING_THROTTLE = 10_000;
+
+/**
+ * Reports user input to the background, so auto lock is postponed
+ * only by the user, not by requests pages make on their own
+ * (e.g. revalidation on storage changes).
+ */
+const ActivityTracker: React.FC = () => {
+  const { ready, pingActivity } = useTempleClient();
+
+  React.useEffect(() => {
+    if (!ready) return;
+
+    let lastPingAt = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastPingAt < PING_THROTTLE) return;
+
+      lastPingAt = now;
+      pingActivity().catch(() => {});
+    };
+
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, handleActivity, {
+        capture: true,
+        passive: true,
+      });
+    }
+    return () => {
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, handleActivity, { capture: true });
+      }
+    };
+  }, [ready, pingActivity]);
+
+  return null;
+};
+
+export default ActivityTracker;
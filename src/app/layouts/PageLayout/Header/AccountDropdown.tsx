@@ -2,13 +2,15 @@ import * as React from "react";
 import classNames from "clsx";
 import { Link } from "lib/woozie";
 import {
+  TempleAccount,
+  TempleAccountType,
   useTempleClient,
   useRelevantAccounts,
   useAccount,
   useSetAccountPkh,
 } from "lib/temple/front";
 import { PopperRenderProps } from "lib/ui/Popper";
-import { T } from "lib/i18n/react";
+import { T, t } from "lib/i18n/react";
 import { useAppEnv, openInFullPage } from "app/env";
 import DropdownWrapper from "app/atoms/DropdownWrapper";
 import Identicon from "app/atoms/Identicon";
@@ -20,22 +22,52 @@ import { ReactComponent as PeopleIcon } from "app/icons/people.svg";
 import { ReactComponent as AddIcon } from "app/icons/add.svg";
 import { ReactComponent as DownloadIcon } from "app/icons/download.svg";
 import { ReactComponent as LinkIcon } from "app/icons/link.svg";
+import { ReactComponent as KeyIcon } from "app/icons/key.svg";
 import { ReactComponent as SettingsIcon } from "app/icons/settings.svg";
 import { ReactComponent as MaximiseIcon } from "app/icons/maximise.svg";
 
 type ExcludesFalse = <T>(x: T | false) => x is T;
 type AccountDropdownProps = PopperRenderProps;
 
+type AccountGroup = {
+  key: string;
+  title: string | null;
+  accounts: TempleAccount[];
+};
+
 const AccountDropdown: React.FC<AccountDropdownProps> = ({
   opened,
   setOpened,
 }) => {
   const appEnv = useAppEnv();
-  const { lock } = useTempleClient();
+  const { lock, hdWallets } = useTempleClient();
   const allAccounts = useRelevantAccounts();
   const account = useAccount();
   const setAccountPkh = useSetAccountPkh();
 
+  const accountGroups = React.useMemo<AccountGroup[]>(() => {
+    if (hdWallets.length < 2) {
+      return [{ key: "all", title: null, accounts: allAccounts }];
+    }
+
+    return [
+      ...hdWallets.map(({ id, name }) => ({
+        key: id,
+        title: name,
+        accounts: allAccounts.filter(
+          (acc) => acc.type === TempleAccountType.HD && acc.walletId === id
+        ),
+      })),
+      {
+        key: "other",
+        title: t("otherAccounts"),
+        accounts: allAccounts.filter(
+          (acc) => acc.type !== TempleAccountType.HD
+        ),
+      },
+    ].filter(({ accounts }) => accounts.length > 0);
+  }, [hdWallets, allAccounts]);
+
   const closeDropdown = React.useCallback(() => {
     setOpened(false);
   }, [setOpened]);
@@ -77,6 +109,13 @@ const AccountDropdown: React.FC<AccountDropdownProps> = ({
           linkTo: "/connect-ledger",
           onClick: closeDropdown,
         },
+        {
+          key: "approvals",
+          Icon: KeyIcon,
+          i18nKey: "approvals",
+          linkTo: "/approvals",
+          onClick: closeDropdown,
+        },
         {
           key: "settings",
           Icon: SettingsIcon,
@@ -144,72 +183,88 @@ const AccountDropdown: React.FC<AccountDropdownProps> = ({
         style={{ maxHeight: "10rem" }}
       >
         <div className="flex flex-col">
-          {allAccounts.map((acc) => {
-            const selected = acc.publicKeyHash === account.publicKeyHash;
-            const handleAccountClick = () => {
-              if (!selected) {
-                setAccountPkh(acc.publicKeyHash);
-              }
-              setOpened(false);
-            };
+          {accountGroups.map(({ key, title, accounts }) => (
+            <React.Fragment key={key}>
+              {title && (
+                <h4
+                  className={classNames(
+                    "px-2 pt-2 pb-1",
+                    "text-xs font-medium text-white text-opacity-75",
+                    "text-shadow-black"
+                  )}
+                >
+                  {title}
+                </h4>
+              )}
 
-            return (
-              <button
-                key={acc.publicKeyHash}
-                className={classNames(
-                  "block w-full",
-                  "overflow-hidden",
-                  "flex items-center",
-                  "text-white text-shadow-black",
-                  "transition ease-in-out duration-200",
-                  selected && "shadow",
-                  selected
-                    ? "bg-white bg-opacity-10"
-                    : "hover:bg-white hover:bg-opacity-5",
-                  !selected && "opacity-75 hover:opacity-100"
-                )}
-                style={{
-                  padding: "0.375rem",
-                }}
-                onClick={handleAccountClick}
-                autoFocus={selected}
-              >
-                <Identicon
-                  type="bottts"
-                  hash={acc.publicKeyHash}
-                  size={32}
-                  className="flex-shrink-0 shadow-xs-white"
-                />
+              {accounts.map((acc) => {
+                const selected = acc.publicKeyHash === account.publicKeyHash;
+                const handleAccountClick = () => {
+                  if (!selected) {
+                    setAccountPkh(acc.publicKeyHash);
+                  }
+                  setOpened(false);
+                };
 
-                <div className="flex flex-col items-start ml-2">
-                  <Name
-                    className="text-sm font-medium leading-none"
-                    style={{ paddingBottom: 3 }}
+                return (
+                  <button
+                    key={acc.publicKeyHash}
+                    className={classNames(
+                      "block w-full",
+                      "overflow-hidden",
+                      "flex items-center",
+                      "text-white text-shadow-black",
+                      "transition ease-in-out duration-200",
+                      selected && "shadow",
+                      selected
+                        ? "bg-white bg-opacity-10"
+                        : "hover:bg-white hover:bg-opacity-5",
+                      !selected && "opacity-75 hover:opacity-100"
+                    )}
+                    style={{
+                      padding: "0.375rem",
+                    }}
+                    onClick={handleAccountClick}
+                    autoFocus={selected}
                   >
-                    {acc.name}
-                  </Name>
+                    <Identicon
+                      type="bottts"
+                      hash={acc.publicKeyHash}
+                      size={32}
+                      className="flex-shrink-0 shadow-xs-white"
+                    />
 
-                  <div className="flex flex-wrap items-center">
-                    <Balance address={acc.publicKeyHash}>
-                      {(bal) => (
-                        <span
-                          className={classNames(
-                            "text-xs leading-tight",
-                            "text-white text-opacity-75"
+                    <div className="flex flex-col items-start ml-2">
+                      <Name
+                        className="text-sm font-medium leading-none"
+                        style={{ paddingBottom: 3 }}
+                      >
+                        {acc.name}
+                      </Name>
+
+                      <div className="flex flex-wrap items-center">
+                        <Balance address={acc.publicKeyHash}>
+                          {(bal) => (
+                            <span
+                              className={classNames(
+                                "text-xs leading-tight",
+                                "text-white text-opacity-75"
+                              )}
+                            >
+                              <Money>{bal}</Money>{" "}
+                              <span style={{ fontSize: "0.5rem" }}>tez</span>
+                            </span>
                           )}
-                        >
-                          <Money>{bal}</Money>{" "}
-                          <span style={{ fontSize: "0.5rem" }}>tez</span>
-                        </span>
-                      )}
-                    </Balance>
+                        </Balance>
 
-                    <AccountTypeBadge account={acc} darkTheme />
-                  </div>
-                </div>
-              </button>
-            );
-          })}
+                        <AccountTypeBadge account={acc} darkTheme />
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </React.Fragment>
+          ))}
         </div>
       </div>
 
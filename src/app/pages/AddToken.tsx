@@ -1,6 +1,4 @@
-import { WalletContract, compose } from "@taquito/taquito";
-import { tzip16 } from "@taquito/tzip16";
-import { tzip12 } from "@taquito/tzip12";
+import { WalletContract } from "@taquito/taquito";
 import * as React from "react";
 import classNames from "clsx";
 import { Controller, FormContextValues, useForm } from "react-hook-form";
@@ -8,6 +6,8 @@ import { navigate } from "lib/woozie";
 import {
   TempleToken,
   TempleAssetType,
+  TempleCollectibleMetadata,
+  TempleTokenMetadata,
   useTokens,
   useTezos,
   validateContractAddress,
@@ -16,8 +16,9 @@ import {
   NotMatchingStandardError,
   loadContractForCallLambdaView,
   getAssetKey,
+  loadTokenMetadata,
+  useChainId,
 } from "lib/temple/front";
-import { sanitizeImgUri } from "lib/image-uri";
 import { T, t } from "lib/i18n/react";
 import useSafeState from "lib/ui/useSafeState";
 import { withErrorHumanDelay } from "lib/ui/humanDelay";
@@ -72,6 +73,7 @@ const Form: React.FC = () => {
   const { addToken } = useTokens();
   const tezos = useTezos();
   const { id: networkId } = useNetwork();
+  const chainId = useChainId(true)!;
 
   const {
     control,
@@ -98,10 +100,15 @@ const Form: React.FC = () => {
   ] = React.useState<React.ReactNode>(null);
   const [bottomSectionVisible, setBottomSectionVisible] = useSafeState(false);
   const [loadingToken, setLoadingToken] = React.useState(false);
+  const [
+    collectible,
+    setCollectible,
+  ] = React.useState<TempleCollectibleMetadata | null>(null);
 
   React.useEffect(() => {
     setTokenValidationError(null);
     setBottomSectionVisible(false);
+    setCollectible(null);
     if (
       validateContractAddress(contractAddress) !== true ||
       tokenId === undefined ||
@@ -126,9 +133,6 @@ const Form: React.FC = () => {
           throw new TokenValidationError(t("contractNotAvailable"));
         }
 
-        let tokenData: any;
-        let latestErrMessage;
-
         try {
           /**
            * Assert token standard
@@ -138,48 +142,8 @@ const Form: React.FC = () => {
           } else {
             await assertTokenType(tokenType, contract, tezos, tokenId!);
           }
-
-          /**
-           * Fetch taquito contract instance that is capable of metadata
-           */
-          const metadataContract = await tezos.wallet.at(
-            contractAddress,
-            compose(tzip12, tzip16)
-          );
-
-          /**
-           * Try fetch token data with TZIP12
-           */
-          try {
-            tokenData = await metadataContract
-              .tzip12()
-              .getTokenMetadata(tokenId ?? 0);
-          } catch (err) {
-            latestErrMessage = err.message;
-          }
-
-          /**
-           * Try fetch token data with TZIP16
-           * Get them from plain tzip16 structure/scheme
-           */
-          if (!tokenData || Object.keys(tokenData).length === 0) {
-            try {
-              const {
-                metadata,
-              } = await metadataContract.tzip16().getMetadata();
-              tokenData = metadata;
-            } catch (err) {
-              latestErrMessage = err.message;
-            }
-          }
-
-          if (!tokenData) {
-            throw new MetadataParseError(latestErrMessage ?? "Unknown error");
-          }
         } catch (err) {
-          if (err instanceof MetadataParseError) {
-            throw err;
-          } else if (err instanceof NotMatchingStandardError) {
+          if (err instanceof NotMatchingStandardError) {
             throw new TokenValidationError(
               `${t(
                 "tokenDoesNotMatchStandard",
@@ -191,14 +155,27 @@ const Form: React.FC = () => {
           }
         }
 
-        const { symbol = "", name = "", decimals = 0 } = tokenData || {};
-        const iconUrl =
-          tokenData.thumbnailUri ??
-          tokenData.logo ??
-          tokenData.icon ??
-          tokenData.iconUri ??
-          tokenData.iconUrl ??
-          "";
+        let tokenMetadata: TempleTokenMetadata | null;
+        try {
+          tokenMetadata = await loadTokenMetadata(
+            tezos,
+            chainId,
+            contractAddress,
+            tokenType === TempleAssetType.FA2 ? Number(tokenId) : 0
+          );
+        } catch (err) {
+          throw new MetadataParseError(err.message);
+        }
+
+        if (!tokenMetadata) {
+          throw new MetadataParseError(t("tokenMetadataNotFound"));
+        }
+
+        const { symbol, name, decimals, iconUrl = "" } = tokenMetadata;
+
+        if (tokenType === TempleAssetType.FA2 && tokenMetadata.collectible) {
+          setCollectible(tokenMetadata.collectible);
+        }
 
         setValue([
           { symbol: symbol.substr(0, 5) },
@@ -233,6 +210,7 @@ const Form: React.FC = () => {
     setValue,
     setBottomSectionVisible,
     networkId,
+    chainId,
     tokenType,
     triggerValidation,
     tokenId,
@@ -262,7 +240,7 @@ const Form: React.FC = () => {
           symbol,
           name,
           decimals: decimals || 0,
-          iconUrl: iconUrl ? sanitizeImgUri(iconUrl) : undefined,
+          iconUrl: iconUrl || undefined,
           fungible: true,
         };
 
@@ -276,6 +254,7 @@ const Form: React.FC = () => {
                 type: TempleAssetType.FA2,
                 id: Number(id!),
                 ...tokenCommonProps,
+                ...(collectible ? { fungible: false, collectible } : {}),
               };
 
         addToken(newToken);
@@ -294,7 +273,7 @@ const Form: React.FC = () => {
         setSubmitError(err.message);
       }
     },
-    [formState.isSubmitting, addToken]
+    [formState.isSubmitting, addToken, collectible]
   );
 
   const isFA12Token = tokenType === TempleAssetType.FA1_2;
@@ -371,6 +350,15 @@ const Form: React.FC = () => {
         />
       )}
 
+      {collectible && bottomSectionVisible && !loadingToken && (
+        <Alert
+          type="success"
+          title={t("collectibleDetected")}
+          description={t("collectibleDetectedDescription")}
+          className="mb-8"
+        />
+      )}
+
       <div
         className={classNames("w-full", {
           hidden: !bottomSectionVisible || loadingToken,
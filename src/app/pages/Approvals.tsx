@@ -0,0 +1,329 @@
+import * as React from "react";
+import classNames from "clsx";
+import BigNumber from "bignumber.js";
+import { WalletOperation } from "@taquito/taquito";
+import {
+  useAccount,
+  useAssets,
+  useChainId,
+  useTezos,
+  isKnownChainId,
+  isKTAddress,
+  fetchApprovals,
+  getApprovalKey,
+  toRevokeApprovalParams,
+  TempleAccountType,
+  TempleApproval,
+  TempleAsset,
+  TempleAssetType,
+  TempleChainId,
+  TempleToken,
+} from "lib/temple/front";
+import { useRetryableSWR } from "lib/swr";
+import useSafeState from "lib/ui/useSafeState";
+import { T, t } from "lib/i18n/react";
+import ErrorBoundary from "app/ErrorBoundary";
+import PageLayout from "app/layouts/PageLayout";
+import AssetIcon from "app/templates/AssetIcon";
+import HashChip from "app/templates/HashChip";
+import OperationStatus from "app/templates/OperationStatus";
+import Alert from "app/atoms/Alert";
+import Money from "app/atoms/Money";
+import Name from "app/atoms/Name";
+import Spinner from "app/atoms/Spinner";
+import { ReactComponent as KeyIcon } from "app/icons/key.svg";
+
+const Approvals: React.FC = () => (
+  <PageLayout
+    pageTitle={
+      <>
+        <KeyIcon className="w-auto h-4 mr-1 stroke-current" />
+        <T id="approvals" />
+      </>
+    }
+  >
+    <div className="w-full max-w-sm mx-auto my-8">
+      <T id="approvalsDescription">
+        {(message) => (
+          <p className="mb-6 text-xs font-light text-gray-600">{message}</p>
+        )}
+      </T>
+
+      <ErrorBoundary whileMessage={t("approvalsWhileMessage")}>
+        <React.Suspense fallback={<SpinnerSection />}>
+          <ApprovalsContent />
+        </React.Suspense>
+      </ErrorBoundary>
+    </div>
+  </PageLayout>
+);
+
+export default Approvals;
+
+const ApprovalsContent: React.FC = () => {
+  const chainId = useChainId(true)!;
+
+  if (!isKnownChainId(chainId)) {
+    return (
+      <Alert
+        type="warn"
+        title={t("approvalsNotAvailable")}
+        description={t("approvalsNotAvailableDescription")}
+      />
+    );
+  }
+
+  return <ApprovalsList chainId={chainId} />;
+};
+
+type ApprovalsListProps = {
+  chainId: TempleChainId;
+};
+
+const ApprovalsList: React.FC<ApprovalsListProps> = ({ chainId }) => {
+  const account = useAccount();
+  const tezos = useTezos();
+  const { allAssets } = useAssets();
+  const accountPkh = account.publicKeyHash;
+  const canRevoke =
+    account.type !== TempleAccountType.WatchOnly && !isKTAddress(accountPkh);
+
+  const { data, revalidate } = useRetryableSWR(
+    ["approvals", tezos.checksum, chainId, accountPkh],
+    () => fetchApprovals(tezos, chainId, accountPkh),
+    {
+      suspense: true,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      dedupingInterval: 30_000,
+    }
+  );
+  const approvals = data!;
+
+  const [operation, setOperation] = useSafeState<WalletOperation | null>(
+    null,
+    tezos.checksum
+  );
+  const [error, setError] = useSafeState<any>(null, tezos.checksum);
+  const [revoking, setRevoking] = useSafeState<string | null>(null);
+
+  const handleRevoke = React.useCallback(
+    async (approval: TempleApproval) => {
+      if (revoking) return;
+
+      setError(null);
+      setOperation(null);
+      setRevoking(getApprovalKey(approval));
+      try {
+        const params = await toRevokeApprovalParams(
+          tezos,
+          accountPkh,
+          approval
+        );
+        const op = await tezos.wallet.transfer(params).send();
+        setOperation(op);
+        op.confirmation()
+          .then(() => revalidate())
+          .catch(() => {});
+      } catch (err) {
+        if (err.message !== "Declined") {
+          if (process.env.NODE_ENV === "development") {
+            console.error(err);
+          }
+
+          // Human delay.
+          await new Promise((res) => setTimeout(res, 300));
+          setError(err);
+        }
+      } finally {
+        setRevoking(null);
+      }
+    },
+    [
+      revoking,
+      setError,
+      setOperation,
+      setRevoking,
+      tezos,
+      accountPkh,
+      revalidate,
+    ]
+  );
+
+  return (
+    <>
+      {operation && (
+        <OperationStatus typeTitle={t("revoke")} operation={operation} />
+      )}
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          description={error?.message ?? t("smthWentWrong")}
+          autoFocus
+          className="mb-8"
+        />
+      )}
+
+      {approvals.length > 0 ? (
+        <div
+          className={classNames(
+            "w-full overflow-hidden",
+            "border rounded-md",
+            "flex flex-col",
+            "text-gray-700 text-sm leading-tight"
+          )}
+        >
+          {approvals.map((approval, i) => {
+            const key = getApprovalKey(approval);
+
+            return (
+              <ApprovalItem
+                key={key}
+                approval={approval}
+                token={findToken(allAssets, approval)}
+                last={i === approvals.length - 1}
+                canRevoke={canRevoke}
+                revoking={revoking === key}
+                disabled={Boolean(revoking)}
+                onRevoke={handleRevoke}
+              />
+            );
+          })}
+        </div>
+      ) : (
+        <p className="my-8 text-center text-base font-light text-gray-600">
+          <T id="noApprovalsFound" />
+        </p>
+      )}
+    </>
+  );
+};
+
+type ApprovalItemProps = {
+  approval: TempleApproval;
+  token?: TempleToken;
+  last: boolean;
+  canRevoke: boolean;
+  revoking: boolean;
+  disabled: boolean;
+  onRevoke: (approval: TempleApproval) => void;
+};
+
+const ApprovalItem: React.FC<ApprovalItemProps> = ({
+  approval,
+  token,
+  last,
+  canRevoke,
+  revoking,
+  disabled,
+  onRevoke,
+}) => {
+  const handleRevokeClick = React.useCallback(() => onRevoke(approval), [
+    onRevoke,
+    approval,
+  ]);
+
+  return (
+    <div
+      className={classNames(
+        "flex items-center py-2 px-3",
+        !last && "border-b border-gray-200"
+      )}
+    >
+      {token && <AssetIcon asset={token} size={32} className="mr-3" />}
+
+      <div className="flex flex-col flex-1 min-w-0">
+        <div className="flex items-center">
+          {token ? (
+            <Name className="text-sm font-medium text-gray-700">
+              {token.symbol || token.name}
+            </Name>
+          ) : (
+            <HashChip hash={approval.contract} small />
+          )}
+
+          <span className="ml-2 text-xs text-gray-500">
+            {approval.type === "allowance" ? (
+              <AllowanceAmount amount={approval.amount} token={token} />
+            ) : (
+              <T
+                id="operatorOfToken"
+                substitutions={String(approval.tokenId)}
+              />
+            )}
+          </span>
+        </div>
+
+        <div className="mt-1 flex items-center text-xs font-light text-gray-600">
+          <T id={approval.type === "allowance" ? "spender" : "operator"} />
+          :
+          <HashChip
+            hash={
+              approval.type === "allowance"
+                ? approval.spender
+                : approval.operator
+            }
+            small
+            className="ml-1"
+          />
+        </div>
+      </div>
+
+      {canRevoke && (
+        <button
+          type="button"
+          className={classNames(
+            "ml-2 flex-shrink-0",
+            "px-2 py-1 rounded",
+            "border border-red-500",
+            "text-xs font-medium text-red-600",
+            "hover:bg-red-100",
+            "transition ease-in-out duration-200",
+            "disabled:opacity-50"
+          )}
+          disabled={disabled}
+          onClick={handleRevokeClick}
+        >
+          {revoking ? <T id="revoking" /> : <T id="revoke" />}
+        </button>
+      )}
+    </div>
+  );
+};
+
+type AllowanceAmountProps = {
+  amount: BigNumber | null;
+  token?: TempleToken;
+};
+
+const AllowanceAmount: React.FC<AllowanceAmountProps> = ({ amount, token }) => {
+  if (!amount) {
+    return <T id="unknownAllowance" />;
+  }
+
+  return token ? (
+    <>
+      <Money>{amount.div(10 ** token.decimals)}</Money> {token.symbol}
+    </>
+  ) : (
+    <Money>{amount}</Money>
+  );
+};
+
+const SpinnerSection: React.FC = () => (
+  <div className="flex justify-center my-12">
+    <Spinner theme="gray" className="w-20" />
+  </div>
+);
+
+function findToken(assets: TempleAsset[], approval: TempleApproval) {
+  return assets.find(
+    (a): a is TempleToken =>
+      a.type !== TempleAssetType.TEZ &&
+      a.address === approval.contract &&
+      (approval.type === "allowance" ||
+        (a.type === TempleAssetType.FA2 && a.id === approval.tokenId))
+  );
+}
@@ -7,6 +7,7 @@ import {
   useSetAccountPkh,
   useAllAccounts,
   TempleAccountType,
+  TempleCurve,
   validateDerivationPath,
 } from "lib/temple/front";
 import { T, t } from "lib/i18n/react";
@@ -17,6 +18,7 @@ import Alert from "app/atoms/Alert";
 import { ReactComponent as LinkIcon } from "app/icons/link.svg";
 import { ReactComponent as OkIcon } from "app/icons/ok.svg";
 import ConfirmLedgerOverlay from "app/atoms/ConfirmLedgerOverlay";
+import CurveSelect from "app/templates/CurveSelect";
 
 type FormData = {
   name: string;
@@ -71,6 +73,7 @@ const ConnectLedger: React.FC = () => {
   const [derivationPath, setDerivationPath] = React.useState(
     DERIVATION_PATHS[0]
   );
+  const [curve, setCurve] = React.useState(TempleCurve.ED25519);
 
   const onSubmit = React.useCallback(
     async ({ name, customDerivationPath }: FormData) => {
@@ -78,7 +81,7 @@ const ConnectLedger: React.FC = () => {
       setError(null);
 
       try {
-        await createLedgerAccount(name, customDerivationPath);
+        await createLedgerAccount(name, customDerivationPath, curve);
       } catch (err) {
         if (process.env.NODE_ENV === "development") {
           console.error(err);
@@ -89,7 +92,7 @@ const ConnectLedger: React.FC = () => {
         setError(err.message);
       }
     },
-    [submitting, createLedgerAccount, setError]
+    [submitting, createLedgerAccount, setError, curve]
   );
 
   return (
@@ -233,6 +236,8 @@ const ConnectLedger: React.FC = () => {
               />
             )}
 
+            <CurveSelect value={curve} onChange={setCurve} className="mb-4" />
+
             <T id="addLedgerAccount">
               {(message) => (
                 <FormSubmitButton loading={submitting} className="mt-8">
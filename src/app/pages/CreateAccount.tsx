@@ -5,12 +5,15 @@ import {
   TempleAccountType,
   useTempleClient,
   useAllAccounts,
+  useAccount,
   useSetAccountPkh,
 } from "lib/temple/front";
 import { T, t } from "lib/i18n/react";
 import PageLayout from "app/layouts/PageLayout";
 import FormField from "app/atoms/FormField";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
+import AccountDiscovery from "app/templates/AccountDiscovery";
+import HDWalletSelect from "app/templates/HDWalletSelect";
 import { ReactComponent as AddIcon } from "app/icons/add.svg";
 
 type FormData = {
@@ -20,10 +23,15 @@ type FormData = {
 const SUBMIT_ERROR_TYPE = "submit-error";
 
 const CreateAccount: React.FC = () => {
-  const { createAccount } = useTempleClient();
+  const { createAccount, hdWallets } = useTempleClient();
   const allAccounts = useAllAccounts();
+  const account = useAccount();
   const setAccountPkh = useSetAccountPkh();
 
+  const [walletId, setWalletId] = React.useState(() =>
+    account.type === TempleAccountType.HD ? account.walletId : hdWallets[0].id
+  );
+
   const allHDOrImported = React.useMemo(
     () =>
       allAccounts.filter((acc) =>
@@ -37,6 +45,8 @@ const CreateAccount: React.FC = () => {
     [allHDOrImported.length]
   );
 
+  const discoverySource = React.useMemo(() => ({ walletId }), [walletId]);
+
   const prevAccLengthRef = React.useRef(allAccounts.length);
   React.useEffect(() => {
     const accLength = allAccounts.length;
@@ -63,7 +73,7 @@ const CreateAccount: React.FC = () => {
 
       clearError("name");
       try {
-        await createAccount(name);
+        await createAccount(walletId, name);
       } catch (err) {
         if (process.env.NODE_ENV === "development") {
           console.error(err);
@@ -74,7 +84,7 @@ const CreateAccount: React.FC = () => {
         setError("name", SUBMIT_ERROR_TYPE, err.message);
       }
     },
-    [submitting, clearError, setError, createAccount]
+    [submitting, clearError, setError, createAccount, walletId]
   );
 
   return (
@@ -87,6 +97,12 @@ const CreateAccount: React.FC = () => {
       }
     >
       <div className="w-full max-w-sm mx-auto mt-6">
+        <HDWalletSelect
+          value={walletId}
+          onChange={setWalletId}
+          className="mb-6"
+        />
+
         <form onSubmit={handleSubmit(onSubmit)}>
           <FormField
             ref={register({
@@ -113,6 +129,8 @@ const CreateAccount: React.FC = () => {
             )}
           </T>
         </form>
+
+        <AccountDiscovery source={discoverySource} className="mt-10 mb-6" />
       </div>
     </PageLayout>
   );
@@ -1,27 +1,38 @@
 import * as React from "react";
 import { T } from "lib/i18n/react";
+import { TempleAccountType, useAccount } from "lib/temple/front";
 import PageLayout from "app/layouts/PageLayout";
 import DelegateForm from "app/templates/DelegateForm";
+import MultisigProposal from "app/templates/MultisigProposal";
 import { ReactComponent as DiamondIcon } from "app/icons/diamond.svg";
 
-const Delegate: React.FC = () => (
-  <PageLayout
-    pageTitle={
-      <T id="delegate">
-        {(message) => (
-          <>
-            <DiamondIcon className="mr-1 h-4 w-auto stroke-current" /> {message}
-          </>
-        )}
-      </T>
-    }
-  >
-    <div className="py-4">
-      <div className="w-full max-w-sm mx-auto">
-        <DelegateForm />
+const Delegate: React.FC = () => {
+  const account = useAccount();
+
+  return (
+    <PageLayout
+      pageTitle={
+        <T id="delegate">
+          {(message) => (
+            <>
+              <DiamondIcon className="mr-1 h-4 w-auto stroke-current" />{" "}
+              {message}
+            </>
+          )}
+        </T>
+      }
+    >
+      <div className="py-4">
+        <div className="w-full max-w-sm mx-auto">
+          {account.type === TempleAccountType.Multisig ? (
+            <MultisigProposal actionType="delegate" />
+          ) : (
+            <DelegateForm />
+          )}
+        </div>
       </div>
-    </div>
-  </PageLayout>
-);
+    </PageLayout>
+  );
+};
 
 export default Delegate;
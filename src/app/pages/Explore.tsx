@@ -8,6 +8,7 @@ import {
   TempleAssetType,
   useAccount,
   useAssetBySlug,
+  isCollectible,
   TEZ_ASSET,
 } from "lib/temple/front";
 import { T, t } from "lib/i18n/react";
@@ -25,9 +26,11 @@ import { ReactComponent as SendIcon } from "app/icons/send.svg";
 import EditableTitle from "./Explore/EditableTitle";
 import AddressChip from "./Explore/AddressChip";
 import MainAssetBanner from "./Explore/MainAssetBanner";
+import CollectibleBanner from "./Explore/CollectibleBanner";
 import BakingSection from "./Explore/BakingSection";
 import Assets from "./Explore/Assets";
-import AddUnknownTokens from "./Explore/AddUnknownTokens";
+import Collectibles from "./Explore/Collectibles";
+import NewAssets from "./Explore/NewAssets";
 
 type ExploreProps = {
   assetSlug?: string | null;
@@ -54,7 +57,9 @@ const Explore: React.FC<ExploreProps> = ({ assetSlug }) => {
           {asset && (
             <>
               <ChevronRightIcon className="w-auto h-4 mx-px stroke-current opacity-75" />
-              <span className="font-normal">{asset.symbol}</span>
+              <span className="font-normal">
+                {isCollectible(asset) ? asset.name : asset.symbol}
+              </span>
             </>
           )}
         </>
@@ -73,9 +78,15 @@ const Explore: React.FC<ExploreProps> = ({ assetSlug }) => {
           fullPage ? "mb-10" : "mb-6"
         )}
       >
+        {!asset && <NewAssets className="mb-6" />}
+
         <AddressChip pkh={accountPkh} className="mb-6" />
 
-        <MainAssetBanner accountPkh={accountPkh} asset={asset ?? TEZ_ASSET} />
+        {asset && isCollectible(asset) ? (
+          <CollectibleBanner collectible={asset} accountPkh={accountPkh} />
+        ) : (
+          <MainAssetBanner accountPkh={accountPkh} asset={asset ?? TEZ_ASSET} />
+        )}
 
         <div
           className="flex items-stretch w-full mx-auto mt-4"
@@ -115,8 +126,6 @@ const Explore: React.FC<ExploreProps> = ({ assetSlug }) => {
       </div>
 
       <SecondarySection asset={asset} />
-
-      <AddUnknownTokens />
     </PageLayout>
   );
 };
@@ -197,7 +206,8 @@ const Activity: React.FC<ActivityProps> = ({ asset }) => {
       <OperationHistory
         accountPkh={account.publicKeyHash}
         accountOwner={
-          account.type === TempleAccountType.ManagedKT
+          account.type === TempleAccountType.ManagedKT ||
+          account.type === TempleAccountType.Multisig
             ? account.owner
             : undefined
         }
@@ -242,6 +252,11 @@ const SecondarySection: React.FC<SecondarySectionProps> = ({
           title: t("assets"),
           Component: Assets,
         },
+        {
+          slug: "collectibles",
+          title: t("collectibles"),
+          Component: Collectibles,
+        },
         {
           slug: "delegation",
           title: t("delegation"),
@@ -304,7 +319,7 @@ const SecondarySection: React.FC<SecondarySectionProps> = ({
               to={(lctn) => ({ ...lctn, search: `?tab=${t.slug}` })}
               replace
               className={classNames(
-                "w-1/3",
+                tabs.length > 3 ? "w-1/4" : "w-1/3",
                 "text-center cursor-pointer mb-1 pb-1 pt-2 px-3",
                 "text-gray-500 text-sm font-medium",
                 "border-t-2",
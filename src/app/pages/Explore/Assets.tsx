@@ -9,6 +9,7 @@ import {
   searchAssets,
   useAccount,
   useBalanceSWRKey,
+  isCollectible,
   TempleAsset,
 } from "lib/temple/front";
 import Money from "app/atoms/Money";
@@ -23,6 +24,10 @@ import { ReactComponent as ChevronRightIcon } from "app/icons/chevron-right.svg"
 const Assets: React.FC = () => {
   const account = useAccount();
   const { allAssets } = useAssets();
+  const fungibleAssets = React.useMemo(
+    () => allAssets.filter((a) => !isCollectible(a)),
+    [allAssets]
+  );
 
   const [searchValue, setSearchValue] = React.useState("");
   const [searchFocused, setSearchFocused] = React.useState(false);
@@ -33,8 +38,8 @@ const Assets: React.FC = () => {
   ]);
 
   const filteredAssets = React.useMemo(
-    () => searchAssets(allAssets, searchValue),
-    [allAssets, searchValue]
+    () => searchAssets(fungibleAssets, searchValue),
+    [fungibleAssets, searchValue]
   );
 
   const activeAssetKey = React.useMemo(() => {
@@ -0,0 +1,58 @@
+import * as React from "react";
+import classNames from "clsx";
+import { T } from "lib/i18n/react";
+import { TempleFA2Asset } from "lib/temple/front";
+import Balance from "app/templates/Balance";
+import CollectibleImage from "app/templates/CollectibleImage";
+import Money from "app/atoms/Money";
+
+type CollectibleBannerProps = {
+  collectible: TempleFA2Asset;
+  accountPkh: string;
+  className?: string;
+};
+
+const CollectibleBanner: React.FC<CollectibleBannerProps> = ({
+  collectible,
+  accountPkh,
+  className,
+}) => (
+  <div
+    className={classNames(
+      "w-full mx-auto",
+      "flex flex-col items-center",
+      className
+    )}
+    style={{ maxWidth: "19rem" }}
+  >
+    <CollectibleImage
+      asset={collectible}
+      full
+      className="w-full border rounded-md overflow-hidden"
+      style={{ height: "16rem" }}
+    />
+
+    <h3 className="mt-3 text-lg font-medium leading-tight text-center text-gray-800 break-words">
+      {collectible.name}
+    </h3>
+
+    <Balance address={accountPkh} asset={collectible}>
+      {(balance) => (
+        <span className="mt-1 text-sm font-light text-gray-600">
+          <T
+            id="editionsOwned"
+            substitutions={<Money key="editions">{balance}</Money>}
+          />
+        </span>
+      )}
+    </Balance>
+
+    {collectible.collectible?.description && (
+      <p className="mt-2 text-xs font-light text-center text-gray-600 break-words">
+        {collectible.collectible.description}
+      </p>
+    )}
+  </div>
+);
+
+export default CollectibleBanner;
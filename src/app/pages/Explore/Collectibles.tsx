@@ -0,0 +1,143 @@
+import * as React from "react";
+import classNames from "clsx";
+import { Link } from "lib/woozie";
+import { T } from "lib/i18n/react";
+import {
+  useAccount,
+  useCollectibles,
+  getAssetKey,
+  searchAssets,
+  TempleFA2Asset,
+} from "lib/temple/front";
+import Name from "app/atoms/Name";
+import Money from "app/atoms/Money";
+import Balance from "app/templates/Balance";
+import CollectibleImage from "app/templates/CollectibleImage";
+import SearchAssetField from "app/templates/SearchAssetField";
+import { ReactComponent as AddToListIcon } from "app/icons/add-to-list.svg";
+import { ReactComponent as SearchIcon } from "app/icons/search.svg";
+
+const Collectibles: React.FC = () => {
+  const account = useAccount();
+  const collectibles = useCollectibles();
+
+  const [searchValue, setSearchValue] = React.useState("");
+
+  const filteredCollectibles = React.useMemo(
+    () => searchAssets(collectibles, searchValue),
+    [collectibles, searchValue]
+  );
+
+  return (
+    <div className={classNames("w-full max-w-sm mx-auto")}>
+      <div className="mt-1 mb-3 w-full flex items-strech">
+        <SearchAssetField value={searchValue} onValueChange={setSearchValue} />
+
+        <Link
+          to="/manage-assets"
+          className={classNames(
+            "ml-2 flex-shrink-0",
+            "px-3 py-1",
+            "rounded overflow-hidden",
+            "flex items-center",
+            "text-gray-600 text-sm",
+            "transition ease-in-out duration-200",
+            "hover:bg-gray-100",
+            "opacity-75 hover:opacity-100 focus:opacity-100"
+          )}
+        >
+          <AddToListIcon
+            className={classNames("mr-1 h-5 w-auto stroke-current stroke-2")}
+          />
+          <T id="manage" />
+        </Link>
+      </div>
+
+      {filteredCollectibles.length > 0 ? (
+        <div className="flex flex-wrap -mx-1">
+          {filteredCollectibles.map((collectible) => (
+            <GridItem
+              key={getAssetKey(collectible)}
+              collectible={collectible}
+              accountPkh={account.publicKeyHash}
+            />
+          ))}
+        </div>
+      ) : (
+        <div
+          className={classNames(
+            "my-8",
+            "flex flex-col items-center justify-center",
+            "text-gray-500"
+          )}
+        >
+          <p
+            className={classNames(
+              "mb-2",
+              "flex items-center justify-center",
+              "text-gray-600 text-base font-light"
+            )}
+          >
+            {searchValue && (
+              <SearchIcon className="w-5 h-auto mr-1 stroke-current" />
+            )}
+
+            <span>
+              <T id="noCollectiblesFound" />
+            </span>
+          </p>
+
+          <p className={classNames("text-center text-xs font-light")}>
+            <T id="collectiblesDescription" />
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Collectibles;
+
+type GridItemProps = {
+  collectible: TempleFA2Asset;
+  accountPkh: string;
+};
+
+const GridItem = React.memo<GridItemProps>(({ collectible, accountPkh }) => (
+  <div className="w-1/2 p-1">
+    <Link
+      to={`/explore/${getAssetKey(collectible)}`}
+      className={classNames(
+        "block w-full",
+        "border rounded-md overflow-hidden",
+        "hover:bg-gray-100 focus:bg-gray-100",
+        "transition ease-in-out duration-200",
+        "focus:outline-none"
+      )}
+    >
+      <CollectibleImage
+        asset={collectible}
+        className="w-full"
+        style={{ height: "9rem" }}
+      />
+
+      <div className="flex items-center px-2 py-1">
+        <Name className="flex-1 text-xs font-medium text-gray-700">
+          {collectible.name}
+        </Name>
+
+        <Balance address={accountPkh} asset={collectible}>
+          {(balance) => (
+            <span className="ml-1 text-xs text-gray-500">
+              {balance.isGreaterThan(1) && (
+                <>
+                  ×<Money>{balance}</Money>
+                </>
+              )}
+            </span>
+          )}
+        </Balance>
+      </div>
+    </Link>
+  </div>
+));
@@ -0,0 +1,205 @@
+import * as React from "react";
+import classNames from "clsx";
+import {
+  useChainId,
+  useNewTokens,
+  useTezos,
+  useTokens,
+  getDiscoveredTokenKey,
+  toTempleToken,
+  TempleDiscoveredToken,
+} from "lib/temple/front";
+import useSafeState from "lib/ui/useSafeState";
+import { withErrorHumanDelay } from "lib/ui/humanDelay";
+import { T, t } from "lib/i18n/react";
+import HashChip from "app/templates/HashChip";
+import Alert from "app/atoms/Alert";
+import Name from "app/atoms/Name";
+
+type NewAssetsProps = {
+  className?: string;
+};
+
+const NewAssets: React.FC<NewAssetsProps> = ({ className }) => {
+  const tezos = useTezos();
+  const chainId = useChainId(true)!;
+  const { addToken } = useTokens();
+  const { newTokens, dismissNewTokens } = useNewTokens();
+
+  const [adding, setAdding] = useSafeState<string | null>(null);
+  const [error, setError] = useSafeState<any>(null);
+
+  const handleAdd = React.useCallback(
+    async (token: TempleDiscoveredToken) => {
+      if (adding) return;
+
+      setError(null);
+      setAdding(getDiscoveredTokenKey(token));
+      try {
+        addToken(await toTempleToken(tezos, chainId, token));
+        dismissNewTokens([token]);
+      } catch (err) {
+        await withErrorHumanDelay(err, () => setError(err));
+      } finally {
+        setAdding(null);
+      }
+    },
+    [adding, setError, setAdding, addToken, tezos, chainId, dismissNewTokens]
+  );
+
+  const handleDismiss = React.useCallback(
+    (token: TempleDiscoveredToken) => dismissNewTokens([token]),
+    [dismissNewTokens]
+  );
+
+  const handleDismissAll = React.useCallback(
+    () => dismissNewTokens(newTokens),
+    [dismissNewTokens, newTokens]
+  );
+
+  if (newTokens.length === 0) return null;
+
+  return (
+    <div
+      className={classNames(
+        "w-full max-w-sm mx-auto",
+        "border rounded-md overflow-hidden",
+        className
+      )}
+    >
+      <div className="flex items-center px-3 py-2 bg-gray-100 border-b border-gray-200">
+        <span className="flex-1 text-sm font-semibold text-gray-700">
+          <T id="newAssets" substitutions={String(newTokens.length)} />
+        </span>
+
+        <button
+          type="button"
+          className={classNames(
+            "text-xs text-gray-600",
+            "hover:underline",
+            "disabled:opacity-50"
+          )}
+          disabled={Boolean(adding)}
+          onClick={handleDismissAll}
+        >
+          <T id="dismissAll" />
+        </button>
+      </div>
+
+      <p className="px-3 pt-2 text-xs font-light text-gray-600">
+        <T id="newAssetsDescription" />
+      </p>
+
+      {error && (
+        <div className="px-3 pt-2">
+          <Alert
+            type="error"
+            title={t("error")}
+            description={error?.message ?? t("smthWentWrong")}
+            autoFocus
+          />
+        </div>
+      )}
+
+      <div
+        className="flex flex-col px-3 py-1 overflow-y-auto"
+        style={{ maxHeight: "12rem" }}
+      >
+        {newTokens.map((token, i) => {
+          const key = getDiscoveredTokenKey(token);
+
+          return (
+            <NewAssetItem
+              key={key}
+              token={token}
+              last={i === newTokens.length - 1}
+              adding={adding === key}
+              disabled={Boolean(adding)}
+              onAdd={handleAdd}
+              onDismiss={handleDismiss}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NewAssets;
+
+type NewAssetItemProps = {
+  token: TempleDiscoveredToken;
+  last: boolean;
+  adding: boolean;
+  disabled: boolean;
+  onAdd: (token: TempleDiscoveredToken) => void;
+  onDismiss: (token: TempleDiscoveredToken) => void;
+};
+
+const NewAssetItem: React.FC<NewAssetItemProps> = ({
+  token,
+  last,
+  adding,
+  disabled,
+  onAdd,
+  onDismiss,
+}) => {
+  const handleAddClick = React.useCallback(() => onAdd(token), [onAdd, token]);
+  const handleDismissClick = React.useCallback(() => onDismiss(token), [
+    onDismiss,
+    token,
+  ]);
+
+  return (
+    <div
+      className={classNames(
+        "flex items-center py-2",
+        !last && "border-b border-gray-200"
+      )}
+    >
+      <div className="flex flex-col flex-1 min-w-0">
+        <Name className="text-sm font-medium text-gray-700">
+          {token.name || token.symbol || t("unknownToken")}
+        </Name>
+
+        <div className="mt-1 flex items-center text-xs font-light text-gray-600">
+          {token.symbol && <span className="mr-1">{token.symbol}</span>}
+          <HashChip hash={token.contract} small />
+        </div>
+      </div>
+
+      <button
+        type="button"
+        className={classNames(
+          "ml-2 flex-shrink-0",
+          "px-2 py-1 rounded",
+          "border border-blue-500",
+          "text-xs font-medium text-blue-600",
+          "hover:bg-blue-100",
+          "transition ease-in-out duration-200",
+          "disabled:opacity-50"
+        )}
+        disabled={disabled}
+        onClick={handleAddClick}
+      >
+        {adding ? <T id="adding" /> : <T id="add" />}
+      </button>
+
+      <button
+        type="button"
+        className={classNames(
+          "ml-2 flex-shrink-0",
+          "px-2 py-1 rounded",
+          "text-xs text-gray-600",
+          "hover:bg-gray-100",
+          "transition ease-in-out duration-200",
+          "disabled:opacity-50"
+        )}
+        disabled={disabled}
+        onClick={handleDismissClick}
+      >
+        <T id="dismiss" />
+      </button>
+    </div>
+  );
+};
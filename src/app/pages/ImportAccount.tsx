@@ -18,6 +18,7 @@ import {
   isKTAddress,
   confirmOperation,
   useNetwork,
+  TempleCurve,
 } from "lib/temple/front";
 import useSafeState from "lib/ui/useSafeState";
 import { MNEMONIC_ERROR_CAPTION, formatMnemonic } from "app/defaults";
@@ -28,7 +29,10 @@ import Alert from "app/atoms/Alert";
 import NoSpaceField from "app/atoms/NoSpaceField";
 import { ReactComponent as DownloadIcon } from "app/icons/download.svg";
 import { ReactComponent as OkIcon } from "app/icons/ok.svg";
+import AccountDiscovery from "app/templates/AccountDiscovery";
+import CurveSelect from "app/templates/CurveSelect";
 import ManagedKTForm from "app/templates/ManagedKTForm";
+import MultisigForm from "app/templates/MultisigForm";
 
 type ImportAccountProps = {
   tabSlug: string | null;
@@ -69,6 +73,11 @@ const ImportAccount: React.FC<ImportAccountProps> = ({ tabSlug }) => {
           i18nKey: "mnemonic",
           Form: ByMnemonicForm,
         },
+        {
+          slug: "hd-wallet",
+          i18nKey: "hdWallet",
+          Form: ByHDWalletForm,
+        },
         {
           slug: "fundraiser",
           i18nKey: "fundraiser",
@@ -86,6 +95,11 @@ const ImportAccount: React.FC<ImportAccountProps> = ({ tabSlug }) => {
           i18nKey: "managedKTAccount",
           Form: ManagedKTForm,
         },
+        {
+          slug: "multisig",
+          i18nKey: "multisigAccount",
+          Form: MultisigForm,
+        },
         {
           slug: "watch-only",
           i18nKey: "watchOnlyAccount",
@@ -276,6 +290,10 @@ const DERIVATION_PATHS = [
     type: "custom",
     i18nKey: "customDerivationPath",
   },
+  {
+    type: "discover",
+    i18nKey: "discoverAccounts",
+  },
 ];
 
 interface ByMnemonicFormData {
@@ -288,6 +306,7 @@ const ByMnemonicForm: React.FC = () => {
   const { importMnemonicAccount } = useTempleClient();
 
   const {
+    watch,
     register,
     handleSubmit,
     errors,
@@ -299,6 +318,18 @@ const ByMnemonicForm: React.FC = () => {
   const [derivationPath, setDerivationPath] = React.useState(
     DERIVATION_PATHS[0]
   );
+  const discovering = derivationPath.type === "discover";
+  const [curve, setCurve] = React.useState(TempleCurve.ED25519);
+
+  const mnemonicValue = watch("mnemonic");
+  const passwordValue = watch("password");
+  const discoverySource = React.useMemo(() => {
+    if (!discovering || !mnemonicValue) return null;
+    const mnemonic = formatMnemonic(mnemonicValue);
+    return validateMnemonic(mnemonic)
+      ? { mnemonic, password: passwordValue || undefined }
+      : null;
+  }, [discovering, mnemonicValue, passwordValue]);
 
   const onSubmit = React.useCallback(
     async ({
@@ -306,14 +337,15 @@ const ByMnemonicForm: React.FC = () => {
       password,
       customDerivationPath,
     }: ByMnemonicFormData) => {
-      if (formState.isSubmitting) return;
+      if (formState.isSubmitting || discovering) return;
 
       setError(null);
       try {
         await importMnemonicAccount(
           formatMnemonic(mnemonic),
           password || undefined,
-          derivationPath.type === "custom" ? customDerivationPath : undefined
+          derivationPath.type === "custom" ? customDerivationPath : undefined,
+          curve
         );
       } catch (err) {
         if (process.env.NODE_ENV === "development") {
@@ -325,7 +357,14 @@ const ByMnemonicForm: React.FC = () => {
         setError(err.message);
       }
     },
-    [formState.isSubmitting, setError, importMnemonicAccount, derivationPath]
+    [
+      formState.isSubmitting,
+      discovering,
+      setError,
+      importMnemonicAccount,
+      derivationPath,
+      curve,
+    ]
   );
 
   return (
@@ -482,6 +521,123 @@ const ByMnemonicForm: React.FC = () => {
         />
       )}
 
+      {!discovering && (
+        <CurveSelect value={curve} onChange={setCurve} className="mb-4" />
+      )}
+
+      {discovering ? (
+        <AccountDiscovery source={discoverySource} className="mt-8" />
+      ) : (
+        <T id="importAccount">
+          {(message) => (
+            <FormSubmitButton loading={formState.isSubmitting} className="mt-8">
+              {message}
+            </FormSubmitButton>
+          )}
+        </T>
+      )}
+    </form>
+  );
+};
+
+interface ByHDWalletFormData {
+  name: string;
+  mnemonic: string;
+}
+
+const ByHDWalletForm: React.FC = () => {
+  const { createHDWallet } = useTempleClient();
+
+  const {
+    register,
+    handleSubmit,
+    errors,
+    formState,
+  } = useForm<ByHDWalletFormData>();
+  const [error, setError] = React.useState<React.ReactNode>(null);
+
+  const onSubmit = React.useCallback(
+    async ({ name, mnemonic }: ByHDWalletFormData) => {
+      if (formState.isSubmitting) return;
+
+      setError(null);
+      try {
+        await createHDWallet(name || undefined, formatMnemonic(mnemonic));
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [formState.isSubmitting, setError, createHDWallet]
+  );
+
+  return (
+    <form
+      className="w-full max-w-sm mx-auto my-8"
+      onSubmit={handleSubmit(onSubmit)}
+    >
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-6"
+        />
+      )}
+
+      <FormField
+        ref={register({
+          pattern: {
+            value: /^[a-zA-Z0-9 _-]{0,16}$/,
+            message: t("accountNameInputTitle"),
+          },
+        })}
+        label={
+          <>
+            <T id="hdWalletName" />{" "}
+            <T id="optionalComment">
+              {(message) => (
+                <span className="text-sm font-light text-gray-600">
+                  {message}
+                </span>
+              )}
+            </T>
+          </>
+        }
+        labelDescription={t("hdWalletNameInputDescription")}
+        id="importhdwallet-name"
+        type="text"
+        name="name"
+        errorCaption={errors.name?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        secret
+        textarea
+        rows={4}
+        name="mnemonic"
+        ref={register({
+          required: t("required"),
+          validate: (val) =>
+            validateMnemonic(formatMnemonic(val)) || MNEMONIC_ERROR_CAPTION,
+        })}
+        errorCaption={errors.mnemonic?.message}
+        label={t("mnemonicInputLabel")}
+        labelDescription={t("hdWalletMnemonicInputDescription")}
+        id="importhdwallet-mnemonic"
+        placeholder={t("mnemonicInputPlaceholder")}
+        spellCheck={false}
+        containerClassName="mb-4"
+        className="resize-none"
+      />
+
       <T id="importAccount">
         {(message) => (
           <FormSubmitButton loading={formState.isSubmitting} className="mt-8">
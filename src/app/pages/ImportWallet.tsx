@@ -1,12 +1,93 @@
 import * as React from "react";
-import { t } from "lib/i18n/react";
+import classNames from "clsx";
+import { Link } from "lib/woozie";
+import { T, t } from "lib/i18n/react";
 import PageLayout from "app/layouts/PageLayout";
 import NewWallet from "app/templates/NewWallet";
+import RestoreBackup from "app/templates/RestoreBackup";
 
-const ImportWallet: React.FC = () => (
-  <PageLayout>
-    <NewWallet ownMnemonic title={t("restoreWalletWithSeedPhrase")} />
-  </PageLayout>
+type ImportWalletProps = {
+  tabSlug: string | null;
+};
+
+const SeedPhraseForm: React.FC = () => (
+  <NewWallet ownMnemonic title={t("restoreWalletWithSeedPhrase")} />
+);
+
+const BackupFileForm: React.FC = () => (
+  <div className="py-4">
+    <h1
+      className={classNames(
+        "mb-2",
+        "text-2xl font-light text-gray-700 text-center"
+      )}
+    >
+      <T id="restoreWalletFromBackup" />
+    </h1>
+
+    <hr className="my-4" />
+
+    <RestoreBackup />
+  </div>
 );
 
+const TABS = [
+  {
+    slug: "seed-phrase",
+    i18nKey: "seedPhrase",
+    Form: SeedPhraseForm,
+  },
+  {
+    slug: "backup-file",
+    i18nKey: "backupFile",
+    Form: BackupFileForm,
+  },
+];
+
+const ImportWallet: React.FC<ImportWalletProps> = ({ tabSlug }) => {
+  const { slug, Form } = React.useMemo(
+    () => TABS.find((t) => t.slug === tabSlug) ?? TABS[0],
+    [tabSlug]
+  );
+
+  return (
+    <PageLayout>
+      <div
+        className={classNames(
+          "w-full max-w-md mx-auto",
+          "pt-4",
+          "flex flex-wrap items-center justify-center"
+        )}
+      >
+        {TABS.map((t) => {
+          const active = slug === t.slug;
+
+          return (
+            <T key={t.slug} id={t.i18nKey}>
+              {(message) => (
+                <Link
+                  to={`/import-wallet/${t.slug}`}
+                  replace
+                  className={classNames(
+                    "text-center cursor-pointer rounded-md mx-1 py-2 px-3 mb-1",
+                    "text-gray-600 text-sm",
+                    active
+                      ? "text-primary-orange bg-primary-orange bg-opacity-10"
+                      : "hover:bg-gray-100 focus:bg-gray-100",
+                    "transition ease-in-out duration-200"
+                  )}
+                >
+                  {message}
+                </Link>
+              )}
+            </T>
+          );
+        })}
+      </div>
+
+      <Form />
+    </PageLayout>
+  );
+};
+
 export default ImportWallet;
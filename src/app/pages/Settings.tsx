@@ -4,13 +4,22 @@ import { Link } from "lib/woozie";
 import { T } from "lib/i18n/react";
 import About from "app/templates/About";
 import ActivateAccount from "app/templates/ActivateAccount";
+import AddressBook from "app/templates/AddressBook";
 import { ReactComponent as AppsIcon } from "app/icons/apps.svg";
+import ChangePassword from "app/templates/ChangePassword";
+import { ReactComponent as DownloadIcon } from "app/icons/download.svg";
 import CustomNetworksSettings from "app/templates/CustomNetworksSettings";
 import DAppSettings from "app/templates/DAppSettings";
+import ExportBackup from "app/templates/ExportBackup";
 import { ReactComponent as ExtensionIcon } from "app/icons/extension.svg";
+import { ReactComponent as GlassesIcon } from "app/icons/glasses.svg";
 import { ReactComponent as KeyIcon } from "app/icons/key.svg";
+import { ReactComponent as LayersIcon } from "app/icons/layers.svg";
+import { ReactComponent as LockAltIcon } from "app/icons/lock-alt.svg";
 import { ReactComponent as MinusIcon } from "app/icons/minus.svg";
+import OfflineSigning from "app/templates/OfflineSigning";
 import { ReactComponent as OkIcon } from "app/icons/ok.svg";
+import { ReactComponent as PeopleIcon } from "app/icons/people.svg";
 import PageLayout from "app/layouts/PageLayout";
 import GeneralSettings from "app/templates/GeneralSettings";
 import RemoveAccount from "app/templates/RemoveAccount";
@@ -18,6 +27,7 @@ import RevealSecret from "app/templates/RevealSecret";
 import { ReactComponent as SettingsIcon } from "app/icons/settings.svg";
 import { ReactComponent as SignalAltIcon } from "app/icons/signal-alt.svg";
 import { ReactComponent as StickerIcon } from "app/icons/sticker.svg";
+import VerifySignature from "app/templates/VerifySignature";
 
 type SettingsProps = {
   tabSlug?: string | null;
@@ -51,6 +61,30 @@ const TABS = [
     color: "#F6AD55",
     descriptionI18nKey: "revealSeedPhraseDescription",
   },
+  {
+    slug: "export-backup",
+    titleI18nKey: "exportBackup",
+    Icon: DownloadIcon,
+    Component: ExportBackup,
+    color: "#38B2AC",
+    descriptionI18nKey: "exportBackupDescription",
+  },
+  {
+    slug: "change-password",
+    titleI18nKey: "changePassword",
+    Icon: LockAltIcon,
+    Component: ChangePassword,
+    color: "#ED64A6",
+    descriptionI18nKey: "changePasswordDescription",
+  },
+  {
+    slug: "address-book",
+    titleI18nKey: "addressBook",
+    Icon: PeopleIcon,
+    Component: AddressBook,
+    color: "#48BB78",
+    descriptionI18nKey: "addressBookDescription",
+  },
   {
     slug: "dapps",
     titleI18nKey: "dApps",
@@ -67,6 +101,22 @@ const TABS = [
     color: "#F6C90E",
     descriptionI18nKey: "networksDescription",
   },
+  {
+    slug: "offline-signing",
+    titleI18nKey: "offlineSigning",
+    Icon: LayersIcon,
+    Component: OfflineSigning,
+    color: "#4299E1",
+    descriptionI18nKey: "offlineSigningDescription",
+  },
+  {
+    slug: "verify-signature",
+    titleI18nKey: "verifySignature",
+    Icon: GlassesIcon,
+    Component: VerifySignature,
+    color: "#D69E2E",
+    descriptionI18nKey: "verifySignatureDescription",
+  },
   {
     slug: "activate-account",
     titleI18nKey: "activateAccount",
@@ -0,0 +1,235 @@
+import * as React from "react";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+import {
+  DEFAULT_DISCOVERY_GAP_LIMIT,
+  MAX_DISCOVERY_GAP_LIMIT,
+  TempleDiscoveredAccount,
+  TempleDiscoverySource,
+  mutezToTz,
+  useNetwork,
+  useTempleClient,
+} from "lib/temple/front";
+import { T, t } from "lib/i18n/react";
+import useSafeState from "lib/ui/useSafeState";
+import FormField from "app/atoms/FormField";
+import FormCheckbox from "app/atoms/FormCheckbox";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import HashShortView from "app/atoms/HashShortView";
+import Money from "app/atoms/Money";
+import Alert from "app/atoms/Alert";
+
+type AccountDiscoveryProps = {
+  source: TempleDiscoverySource | null;
+  className?: string;
+};
+
+type FormData = {
+  gapLimit: number;
+};
+
+const AccountDiscovery: React.FC<AccountDiscoveryProps> = ({
+  source,
+  className,
+}) => {
+  const { discoverAccounts, addDiscoveredAccounts } = useTempleClient();
+  const network = useNetwork();
+
+  const { register, handleSubmit, errors, formState } = useForm<FormData>({
+    defaultValues: { gapLimit: DEFAULT_DISCOVERY_GAP_LIMIT },
+  });
+  const scanning = formState.isSubmitting;
+
+  const [discovered, setDiscovered] = React.useState<
+    TempleDiscoveredAccount[] | null
+  >(null);
+  const [selected, setSelected] = React.useState<number[]>([]);
+  const [adding, setAdding] = useSafeState(false);
+  const [error, setError] = useSafeState<React.ReactNode>(null);
+
+  const gapLimitRangeMessage = t(
+    "discoveryGapLimitRange",
+    String(MAX_DISCOVERY_GAP_LIMIT)
+  );
+
+  const sourceKey = source && JSON.stringify(source);
+  React.useEffect(() => {
+    setDiscovered(null);
+    setSelected([]);
+    setError(null);
+  }, [sourceKey, network.rpcBaseURL, setError]);
+
+  const onScan = React.useCallback(
+    async ({ gapLimit }: FormData) => {
+      if (scanning || !source) return;
+
+      setError(null);
+      setDiscovered(null);
+      try {
+        const accounts = await discoverAccounts(
+          source,
+          network.rpcBaseURL,
+          +gapLimit
+        );
+        setDiscovered(accounts);
+        setSelected(
+          accounts.filter((acc) => !acc.added).map((acc) => acc.index)
+        );
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [scanning, source, discoverAccounts, network.rpcBaseURL, setError]
+  );
+
+  const handleAddClick = React.useCallback(async () => {
+    if (adding || !source) return;
+
+    setError(null);
+    setAdding(true);
+    try {
+      await addDiscoveredAccounts(source, selected);
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      // Human delay
+      await new Promise((r) => setTimeout(r, 300));
+      setError(err.message);
+    }
+    setAdding(false);
+  }, [adding, source, selected, addDiscoveredAccounts, setAdding, setError]);
+
+  return (
+    <div className={className}>
+      <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+        <span className="text-base font-semibold text-gray-700">
+          <T id="discoverAccounts" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="discoverAccountsDescription" />
+        </span>
+      </h2>
+
+      <div className="flex items-end mb-4">
+        <FormField
+          ref={register({
+            required: t("required"),
+            min: { value: 1, message: gapLimitRangeMessage },
+            max: {
+              value: MAX_DISCOVERY_GAP_LIMIT,
+              message: gapLimitRangeMessage,
+            },
+          })}
+          min={1}
+          max={MAX_DISCOVERY_GAP_LIMIT}
+          type="number"
+          name="gapLimit"
+          id="account-discovery-gaplimit"
+          label={t("discoveryGapLimit")}
+          labelDescription={t("discoveryGapLimitInputDescription")}
+          errorCaption={errors.gapLimit?.message}
+          containerClassName="flex-1 mr-4"
+        />
+
+        <T id="scan">
+          {(message) => (
+            <FormSecondaryButton
+              loading={scanning}
+              disabled={!source}
+              onClick={handleSubmit(onScan)}
+              className="mb-2"
+            >
+              {message}
+            </FormSecondaryButton>
+          )}
+        </T>
+      </div>
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-4"
+        />
+      )}
+
+      {discovered && discovered.length === 0 && (
+        <p className="mb-4 text-sm font-light text-gray-600">
+          <T id="noUsedAccountsFound" />
+        </p>
+      )}
+
+      {discovered && discovered.length > 0 && (
+        <>
+          {discovered.map((acc) => {
+            const checked = acc.added || selected.includes(acc.index);
+            const handleChange = (evt: React.ChangeEvent<HTMLInputElement>) => {
+              const toCheck = evt.target.checked;
+              setSelected((current) =>
+                toCheck
+                  ? [...current, acc.index]
+                  : current.filter((index) => index !== acc.index)
+              );
+            };
+
+            return (
+              <FormCheckbox
+                key={acc.index}
+                checked={checked}
+                disabled={acc.added}
+                onChange={handleChange}
+                name={`discovered-${acc.index}`}
+                label={<HashShortView hash={acc.publicKeyHash} />}
+                labelDescription={
+                  <>
+                    {acc.derivationPath}
+                    {" · "}
+                    <Money>{mutezToTz(acc.balance)}</Money> tez
+                    {acc.added && (
+                      <>
+                        {" · "}
+                        <T id="alreadyAdded" />
+                      </>
+                    )}
+                  </>
+                }
+                containerClassName="mb-2"
+              />
+            );
+          })}
+
+          <T id="addSelectedAccounts">
+            {(message) => (
+              <FormSubmitButton
+                type="button"
+                loading={adding}
+                disabled={selected.length === 0}
+                onClick={handleAddClick}
+                className="mt-4"
+              >
+                {message}
+              </FormSubmitButton>
+            )}
+          </T>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccountDiscovery;
@@ -0,0 +1,499 @@
+import classNames from "clsx";
+import React, { useCallback, useState } from "react";
+import { useForm } from "react-hook-form";
+import {
+  ContactsFileFormat,
+  MAX_CONTACT_NAME_LENGTH,
+  TempleChainId,
+  TempleContact,
+  isAddressValid,
+  isDomainNameValid,
+  parseContacts,
+  serializeContacts,
+  useChainId,
+  useContacts,
+  useTezosDomainsClient,
+} from "lib/temple/front";
+import { withErrorHumanDelay } from "lib/ui/humanDelay";
+import { downloadFile } from "lib/ui/download";
+import { useConfirm } from "lib/ui/dialog";
+import { T, t, TProps } from "lib/i18n/react";
+import { ReactComponent as CloseIcon } from "app/icons/close.svg";
+import { ReactComponent as EditIcon } from "app/icons/edit.svg";
+import HashChip from "app/templates/HashChip";
+import FormField from "app/atoms/FormField";
+import FormCheckbox from "app/atoms/FormCheckbox";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import Identicon from "app/atoms/Identicon";
+import Name from "app/atoms/Name";
+import Alert from "app/atoms/Alert";
+import SubTitle from "app/atoms/SubTitle";
+
+type ContactFormData = {
+  name: string;
+  address: string;
+  domain: string;
+  note: string;
+  currentNetworkOnly: boolean;
+};
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+const AddressBook: React.FC = () => {
+  const {
+    allContacts,
+    addContact,
+    editContact,
+    removeContact,
+    importContacts,
+  } = useContacts();
+  const chainId = useChainId(true);
+  const domainsClient = useTezosDomainsClient();
+  const confirm = useConfirm();
+
+  const [editing, setEditing] = useState<TempleContact | null>(null);
+  const [importError, setImportError] = useState<React.ReactNode>(null);
+
+  const {
+    register,
+    reset: resetForm,
+    handleSubmit,
+    formState,
+    clearError,
+    setError,
+    errors,
+  } = useForm<ContactFormData>();
+  const submitting = formState.isSubmitting;
+
+  const onContactFormSubmit = useCallback(
+    async ({
+      name,
+      address,
+      domain,
+      note,
+      currentNetworkOnly,
+    }: ContactFormData) => {
+      if (submitting) return;
+      clearError();
+
+      try {
+        if (!address && domain && domainsClient.isSupported) {
+          address =
+            (await domainsClient.resolver.resolveNameToAddress(domain)) ?? "";
+          if (!address) {
+            throw new Error(t("domainDoesntResolveToAddress", domain));
+          }
+        }
+
+        const contact: TempleContact = {
+          name: name.trim(),
+          address,
+          ...(currentNetworkOnly && chainId ? { chainId } : {}),
+          ...(note.trim() ? { note: note.trim() } : {}),
+          ...(domain ? { domain } : {}),
+        };
+
+        if (editing) {
+          await editContact(editing, contact);
+        } else {
+          await addContact(contact);
+        }
+        setEditing(null);
+        resetForm();
+      } catch (err) {
+        await withErrorHumanDelay(err, () =>
+          setError("address", SUBMIT_ERROR_TYPE, err.message)
+        );
+      }
+    },
+    [
+      submitting,
+      clearError,
+      domainsClient,
+      chainId,
+      editing,
+      editContact,
+      addContact,
+      resetForm,
+      setError,
+    ]
+  );
+
+  const handleEditClick = useCallback(
+    (contact: TempleContact) => {
+      setEditing(contact);
+      resetForm({
+        name: contact.name,
+        address: contact.address,
+        domain: contact.domain ?? "",
+        note: contact.note ?? "",
+        currentNetworkOnly: Boolean(contact.chainId),
+      });
+    },
+    [resetForm]
+  );
+
+  const handleCancelEditClick = useCallback(() => {
+    setEditing(null);
+    resetForm();
+  }, [resetForm]);
+
+  const handleRemoveClick = useCallback(
+    async (contact: TempleContact) => {
+      if (
+        !(await confirm({
+          title: t("actionConfirmation"),
+          children: t("deleteContactConfirm"),
+        }))
+      ) {
+        return;
+      }
+
+      removeContact(contact).catch((err) =>
+        withErrorHumanDelay(err, () => setImportError(err.message))
+      );
+    },
+    [confirm, removeContact]
+  );
+
+  const handleExportClick = useCallback(
+    (format: ContactsFileFormat) => {
+      downloadFile(
+        serializeContacts(allContacts, format),
+        `temple-contacts.${format}`
+      );
+    },
+    [allContacts]
+  );
+
+  const handleImportChange = useCallback(
+    async (evt: React.ChangeEvent<HTMLInputElement>) => {
+      const file = evt.target.files?.[0];
+      evt.target.value = "";
+      if (!file) return;
+
+      setImportError(null);
+      try {
+        const format: ContactsFileFormat = file.name
+          .toLowerCase()
+          .endsWith(".csv")
+          ? "csv"
+          : "json";
+        await importContacts(parseContacts(await file.text(), format));
+      } catch (err) {
+        await withErrorHumanDelay(err, () => setImportError(err.message));
+      }
+    },
+    [importContacts]
+  );
+
+  const validateDomain = useCallback(
+    (value: string) =>
+      !value ||
+      !domainsClient.isSupported ||
+      isDomainNameValid(value, domainsClient) ||
+      t("invalidDomain"),
+    [domainsClient]
+  );
+
+  return (
+    <div className="w-full max-w-sm p-2 pb-4 mx-auto">
+      <div className="flex flex-col mb-8">
+        <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+          <T id="contacts">
+            {(message) => (
+              <span className="text-base font-semibold text-gray-700">
+                {message}
+              </span>
+            )}
+          </T>
+
+          <T id="contactsHint">
+            {(message) => (
+              <span
+                className={classNames(
+                  "mt-1",
+                  "text-xs font-light text-gray-600"
+                )}
+                style={{ maxWidth: "90%" }}
+              >
+                {message}
+              </span>
+            )}
+          </T>
+        </h2>
+
+        {importError && (
+          <Alert
+            type="error"
+            title={t("error")}
+            autoFocus
+            description={importError}
+            className="mb-4"
+          />
+        )}
+
+        {allContacts.length > 0 ? (
+          <div
+            className={classNames(
+              "rounded-md overflow-hidden",
+              "border",
+              "flex flex-col",
+              "text-gray-700 text-sm leading-tight"
+            )}
+          >
+            {allContacts.map((contact, i, arr) => (
+              <ContactsListItem
+                key={`${contact.address}_${contact.chainId ?? ""}`}
+                contact={contact}
+                last={i === arr.length - 1}
+                onEditClick={handleEditClick}
+                onRemoveClick={handleRemoveClick}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm font-light text-center text-gray-600">
+            <T id="noContacts" />
+          </p>
+        )}
+
+        <div className="mt-4 flex items-center">
+          <label className="relative">
+            <T id="importContacts">
+              {(message) => (
+                <FormSecondaryButton type="button" small tabIndex={-1}>
+                  {message}
+                </FormSecondaryButton>
+              )}
+            </T>
+            <input
+              className="absolute inset-0 w-full opacity-0 cursor-pointer"
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleImportChange}
+            />
+          </label>
+
+          <div className="flex-1" />
+
+          {allContacts.length > 0 &&
+            (["json", "csv"] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                className="ml-4 text-xs text-blue-600 hover:underline"
+                onClick={() => handleExportClick(format)}
+              >
+                <T id="exportContactsAs" substitutions={format.toUpperCase()} />
+              </button>
+            ))}
+        </div>
+      </div>
+
+      <SubTitle>
+        <T id={editing ? "editContact" : "addContact"} />
+      </SubTitle>
+
+      <form onSubmit={handleSubmit(onContactFormSubmit)}>
+        <FormField
+          ref={register({
+            required: t("required"),
+            maxLength: MAX_CONTACT_NAME_LENGTH,
+          })}
+          label={t("name")}
+          id="contact-name"
+          name="name"
+          placeholder={t("contactNamePlaceholder")}
+          errorCaption={errors.name?.message}
+          containerClassName="mb-4"
+          maxLength={MAX_CONTACT_NAME_LENGTH}
+        />
+
+        <FormField
+          ref={register({
+            validate: (value: string) =>
+              value
+                ? isAddressValid(value) || t("invalidAddress")
+                : domainsClient.isSupported || t("required"),
+          })}
+          label={t("address")}
+          labelDescription={
+            domainsClient.isSupported && t("contactAddressInputDescription")
+          }
+          id="contact-address"
+          name="address"
+          placeholder={t("recipientInputPlaceholder")}
+          errorCaption={errors.address?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({ validate: validateDomain })}
+          label={<OptionalLabel i18nKey="domain" />}
+          id="contact-domain"
+          name="domain"
+          placeholder="example.tez"
+          errorCaption={errors.domain?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({ maxLength: 64 })}
+          label={<OptionalLabel i18nKey="note" />}
+          id="contact-note"
+          name="note"
+          errorCaption={errors.note?.message}
+          containerClassName="mb-4"
+          maxLength={64}
+        />
+
+        <FormCheckbox
+          ref={register()}
+          name="currentNetworkOnly"
+          label={t("currentNetworkOnly")}
+          labelDescription={t("currentNetworkOnlyDescription")}
+          containerClassName="mb-6"
+        />
+
+        <div className="flex items-center">
+          <T id={editing ? "save" : "addContact"}>
+            {(message) => (
+              <FormSubmitButton loading={submitting}>
+                {message}
+              </FormSubmitButton>
+            )}
+          </T>
+
+          {editing && (
+            <T id="cancel">
+              {(message) => (
+                <FormSecondaryButton
+                  type="button"
+                  className="ml-4"
+                  onClick={handleCancelEditClick}
+                >
+                  {message}
+                </FormSecondaryButton>
+              )}
+            </T>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AddressBook;
+
+const OptionalLabel: React.FC<{ i18nKey: TProps["id"] }> = ({ i18nKey }) => (
+  <>
+    <T id={i18nKey} />
+    <T id="optionalComment">
+      {(message) => (
+        <span className="ml-1 text-sm font-light text-gray-600">{message}</span>
+      )}
+    </T>
+  </>
+);
+
+type ContactsListItemProps = {
+  contact: TempleContact;
+  last: boolean;
+  onEditClick: (contact: TempleContact) => void;
+  onRemoveClick: (contact: TempleContact) => void;
+};
+
+const ContactsListItem: React.FC<ContactsListItemProps> = ({
+  contact,
+  last,
+  onEditClick,
+  onRemoveClick,
+}) => {
+  const handleEditClick = useCallback(() => onEditClick(contact), [
+    onEditClick,
+    contact,
+  ]);
+  const handleRemoveClick = useCallback(() => onRemoveClick(contact), [
+    onRemoveClick,
+    contact,
+  ]);
+
+  return (
+    <div
+      className={classNames(
+        "block w-full",
+        "overflow-hidden",
+        !last && "border-b border-gray-200",
+        "flex items-center p-2",
+        "text-gray-700"
+      )}
+    >
+      <Identicon
+        type="bottts"
+        hash={contact.address}
+        size={32}
+        className="flex-shrink-0 shadow-xs"
+      />
+
+      <div className="flex flex-col items-start ml-2">
+        <div className="flex flex-wrap items-center">
+          <Name className="text-sm font-medium leading-tight">
+            {contact.name}
+          </Name>
+
+          <span
+            className={classNames(
+              "ml-2 px-1",
+              "rounded border border-gray-300",
+              "text-xs font-light leading-tight text-gray-600"
+            )}
+          >
+            {contact.chainId ? (
+              getChainName(contact.chainId)
+            ) : (
+              <T id="allNetworks" />
+            )}
+          </span>
+        </div>
+
+        <div className="mt-1 flex flex-wrap items-center text-xs leading-none">
+          <HashChip hash={contact.address} small />
+          {contact.domain && (
+            <span className="ml-2 text-gray-600">{contact.domain}</span>
+          )}
+        </div>
+
+        {contact.note && (
+          <div className="mt-1 text-xs font-light text-gray-600">
+            {contact.note}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1" />
+
+      <button
+        type="button"
+        className="flex-none p-1 text-gray-500 hover:text-gray-600 transition ease-in-out duration-200"
+        onClick={handleEditClick}
+      >
+        <EditIcon className="w-auto h-4 stroke-current" />
+      </button>
+
+      <button
+        type="button"
+        className="flex-none p-1 text-gray-500 hover:text-gray-600 transition ease-in-out duration-200"
+        onClick={handleRemoveClick}
+      >
+        <CloseIcon className="w-auto h-5 stroke-current stroke-2" />
+      </button>
+    </div>
+  );
+};
+
+function getChainName(chainId: string) {
+  const known = Object.entries(TempleChainId).find(([, id]) => id === chainId);
+  return known ? known[0] : chainId;
+}
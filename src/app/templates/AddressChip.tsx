@@ -0,0 +1,40 @@
+import * as React from "react";
+import { useContactsLookup } from "lib/temple/front";
+import CopyButton from "app/atoms/CopyButton";
+import HashChip from "app/templates/HashChip";
+
+type AddressChipProps = React.ComponentProps<typeof HashChip>;
+
+/**
+ * Shows contact name instead of the address if it's in the address book
+ */
+const AddressChip: React.FC<AddressChipProps> = ({
+  hash,
+  trim,
+  trimAfter,
+  firstCharsCount,
+  lastCharsCount,
+  type = "button",
+  ...rest
+}) => {
+  const getContact = useContactsLookup();
+  const contact = getContact(hash);
+
+  return contact ? (
+    <CopyButton text={hash} type={type} {...rest}>
+      {contact.name}
+    </CopyButton>
+  ) : (
+    <HashChip
+      hash={hash}
+      trim={trim}
+      trimAfter={trimAfter}
+      firstCharsCount={firstCharsCount}
+      lastCharsCount={lastCharsCount}
+      type={type}
+      {...rest}
+    />
+  );
+};
+
+export default AddressChip;
@@ -1,6 +1,7 @@
 import * as React from "react";
 import classNames from "clsx";
 import { TempleAsset } from "lib/temple/types";
+import { useSettings } from "lib/temple/front";
 import { getAssetIconUrl } from "app/defaults";
 import Identicon from "app/atoms/Identicon";
 
@@ -13,7 +14,8 @@ export type AssetIconProps = {
 
 const AssetIcon = React.memo((props: AssetIconProps) => {
   const { asset, className, style, size } = props;
-  const assetIconUrl = getAssetIconUrl(asset);
+  const { ipfsGateway } = useSettings();
+  const assetIconUrl = getAssetIconUrl(asset, ipfsGateway);
 
   const [imageDisplayed, setImageDisplayed] = React.useState(true);
   const handleImageError = React.useCallback(() => {
@@ -0,0 +1,165 @@
+import React, { useCallback, useMemo } from "react";
+import classNames from "clsx";
+import {
+  TempleAutoLockSettings,
+  getAutoLockSettings,
+  useSettings,
+  useTempleClient,
+} from "lib/temple/front";
+import { T, t } from "lib/i18n/react";
+import FormCheckbox from "app/atoms/FormCheckbox";
+import { ReactComponent as LockAltIcon } from "app/icons/lock-alt.svg";
+import IconifiedSelect, {
+  IconifiedSelectOptionRenderProps,
+} from "./IconifiedSelect";
+
+type TimeoutOption = {
+  minutes: number;
+};
+
+const TIMEOUTS_IN_MINUTES = [0, 5, 15, 30, 60, 240];
+
+const timeoutOptions: TimeoutOption[] = TIMEOUTS_IN_MINUTES.map((minutes) => ({
+  minutes,
+}));
+
+const getTimeoutKey = ({ minutes }: TimeoutOption) => minutes;
+
+const AutoLockSettings: React.FC = () => {
+  const { updateSettings } = useTempleClient();
+  const settings = useSettings();
+  const autoLock = useMemo(() => getAutoLockSettings(settings), [settings]);
+
+  const changingRef = React.useRef(false);
+  const [error, setError] = React.useState<any>(null);
+
+  const updateAutoLock = useCallback(
+    async (toUpdate: Partial<TempleAutoLockSettings>) => {
+      if (changingRef.current) return;
+      changingRef.current = true;
+      setError(null);
+
+      try {
+        await updateSettings({ autoLock: { ...autoLock, ...toUpdate } });
+      } catch (err) {
+        setError(err);
+      }
+
+      changingRef.current = false;
+    },
+    [autoLock, updateSettings, setError]
+  );
+
+  const value = useMemo(
+    () =>
+      timeoutOptions.find(({ minutes }) => minutes === autoLock.timeout) ||
+      timeoutOptions[0],
+    [autoLock.timeout]
+  );
+
+  const title = useMemo(
+    () => (
+      <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+        <span className="text-base font-semibold text-gray-700">
+          <T id="autoLock" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="autoLockDescription" />
+        </span>
+      </h2>
+    ),
+    []
+  );
+
+  const handleTimeoutChange = useCallback(
+    ({ minutes }: TimeoutOption) => updateAutoLock({ timeout: minutes }),
+    [updateAutoLock]
+  );
+
+  const handleSystemIdleChange = useCallback(
+    (evt) => updateAutoLock({ lockOnSystemIdle: evt.target.checked }),
+    [updateAutoLock]
+  );
+
+  const handleBrowserCloseChange = useCallback(
+    (evt) => updateAutoLock({ lockOnBrowserClose: evt.target.checked }),
+    [updateAutoLock]
+  );
+
+  return (
+    <>
+      <IconifiedSelect
+        Icon={TimeoutIcon}
+        OptionSelectedIcon={TimeoutIcon}
+        OptionInMenuContent={TimeoutInMenuContent}
+        OptionSelectedContent={TimeoutSelectContent}
+        getKey={getTimeoutKey}
+        options={timeoutOptions}
+        value={value}
+        onChange={handleTimeoutChange}
+        title={title}
+        className="mb-4"
+      />
+
+      <FormCheckbox
+        checked={autoLock.lockOnSystemIdle}
+        onChange={handleSystemIdleChange}
+        name="lockOnSystemIdle"
+        label={t("lockOnSystemIdle")}
+        labelDescription={t("lockOnSystemIdleDescription")}
+        containerClassName="mb-2"
+      />
+
+      <FormCheckbox
+        checked={autoLock.lockOnBrowserClose}
+        onChange={handleBrowserCloseChange}
+        name="lockOnBrowserClose"
+        label={t("lockOnBrowserClose")}
+        labelDescription={t("lockOnBrowserCloseDescription")}
+        errorCaption={error?.message}
+        containerClassName="mb-8"
+      />
+    </>
+  );
+};
+
+export default AutoLockSettings;
+
+const TimeoutIcon: React.FC<
+  IconifiedSelectOptionRenderProps<TimeoutOption>
+> = () => (
+  <LockAltIcon className="ml-2 mr-3 h-6 w-auto stroke-current text-gray-600" />
+);
+
+const TimeoutInMenuContent: React.FC<
+  IconifiedSelectOptionRenderProps<TimeoutOption>
+> = ({ option }) => (
+  <div className="relative w-full text-lg text-gray-700">
+    {getTimeoutLabel(option)}
+  </div>
+);
+
+const TimeoutSelectContent: React.FC<
+  IconifiedSelectOptionRenderProps<TimeoutOption>
+> = ({ option }) => (
+  <div className="flex flex-col items-start py-2">
+    <span className="text-xl text-gray-700">{getTimeoutLabel(option)}</span>
+  </div>
+);
+
+function getTimeoutLabel({ minutes }: TimeoutOption) {
+  switch (true) {
+    case minutes === 0:
+      return t("autoLockNever");
+
+    case minutes % 60 === 0:
+      return t("autoLockAfterHours", String(minutes / 60));
+
+    default:
+      return t("autoLockAfterMinutes", String(minutes));
+  }
+}
@@ -0,0 +1,167 @@
+import React, { useCallback } from "react";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+import { useTempleClient, TempleBeaconPeer } from "lib/temple/front";
+import { useRetryableSWR } from "lib/swr";
+import { useConfirm } from "lib/ui/dialog";
+import { withErrorHumanDelay } from "lib/ui/humanDelay";
+import { T, t } from "lib/i18n/react";
+import { ReactComponent as CloseIcon } from "app/icons/close.svg";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import Name from "app/atoms/Name";
+
+type BeaconPeersSettingsProps = {
+  onChange: () => void;
+};
+
+type PairingFormData = {
+  pairingString: string;
+};
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+const BeaconPeersSettings: React.FC<BeaconPeersSettingsProps> = ({
+  onChange,
+}) => {
+  const { getBeaconPeers, addBeaconPeer, removeBeaconPeer } = useTempleClient();
+  const confirm = useConfirm();
+
+  const { data, revalidate } = useRetryableSWR<TempleBeaconPeer[]>(
+    ["getBeaconPeers"],
+    getBeaconPeers,
+    {
+      suspense: true,
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+  const peers = data!;
+
+  const {
+    register,
+    handleSubmit,
+    formState,
+    clearError,
+    setError,
+    errors,
+    reset,
+  } = useForm<PairingFormData>();
+  const submitting = formState.isSubmitting;
+
+  const onSubmit = useCallback(
+    async ({ pairingString }: PairingFormData) => {
+      if (submitting) return;
+      clearError();
+
+      try {
+        await addBeaconPeer(pairingString);
+        reset();
+        revalidate();
+      } catch (err) {
+        await withErrorHumanDelay(err, () =>
+          setError("pairingString", SUBMIT_ERROR_TYPE, err.message)
+        );
+      }
+    },
+    [submitting, clearError, addBeaconPeer, reset, revalidate, setError]
+  );
+
+  const handleRemoveClick = useCallback(
+    async (peer: TempleBeaconPeer) => {
+      if (
+        await confirm({
+          title: t("actionConfirmation"),
+          children: t("removeBeaconPeerConfirmation", peer.name),
+        })
+      ) {
+        await removeBeaconPeer(peer.id);
+        revalidate();
+        onChange();
+      }
+    },
+    [confirm, removeBeaconPeer, revalidate, onChange]
+  );
+
+  return (
+    <div className="mb-6">
+      <h2 className="mb-2">
+        <T id="beaconPeers">
+          {(message) => (
+            <span className="text-base font-semibold text-gray-700">
+              {message}
+            </span>
+          )}
+        </T>
+      </h2>
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({ required: t("required") })}
+          textarea
+          rows={3}
+          id="beacon-pairing-string"
+          name="pairingString"
+          label={t("pairingString")}
+          labelDescription={t("pairingStringDescription")}
+          placeholder="tezos://?type=tzip10&data=..."
+          errorCaption={errors.pairingString?.message}
+          style={{ resize: "none" }}
+          containerClassName="mb-4"
+        />
+
+        <T id="pair">
+          {(message) => (
+            <FormSubmitButton small loading={submitting} className="mb-4">
+              {message}
+            </FormSubmitButton>
+          )}
+        </T>
+      </form>
+
+      {peers.length > 0 && (
+        <div className="flex flex-col border rounded-md">
+          {peers.map((peer, i) => (
+            <div
+              key={peer.id}
+              className={classNames(
+                "flex items-center px-2 py-1",
+                i > 0 && "border-t border-gray-200"
+              )}
+            >
+              <div className="flex flex-col">
+                <Name className="text-sm font-medium text-gray-700">
+                  {peer.name}
+                </Name>
+                <span className="text-xs text-gray-500">
+                  {peer.relayServer} ·{" "}
+                  {new Date(peer.pairedAt).toLocaleDateString()}
+                </span>
+              </div>
+
+              <div className="flex-1" />
+
+              <button
+                type="button"
+                className={classNames(
+                  "flex-none p-1",
+                  "text-gray-500 hover:text-gray-600",
+                  "transition ease-in-out duration-200"
+                )}
+                onClick={() => handleRemoveClick(peer)}
+              >
+                <CloseIcon
+                  className="w-auto h-4 stroke-current stroke-2"
+                  title={t("delete")}
+                />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BeaconPeersSettings;
@@ -0,0 +1,139 @@
+import * as React from "react";
+import { useForm } from "react-hook-form";
+import { useTempleClient } from "lib/temple/front";
+import { T, t } from "lib/i18n/react";
+import { PASSWORD_PATTERN, PASSWORD_ERROR_CAPTION } from "app/defaults";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import Alert from "app/atoms/Alert";
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+type FormData = {
+  oldPassword: string;
+  newPassword: string;
+  repassword: string;
+};
+
+const ChangePassword: React.FC = () => {
+  const { changePassword } = useTempleClient();
+
+  const {
+    watch,
+    register,
+    handleSubmit,
+    errors,
+    setError,
+    clearError,
+    triggerValidation,
+    reset,
+    formState,
+  } = useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const newPasswordValue = watch("newPassword");
+
+  React.useLayoutEffect(() => {
+    if (formState.dirtyFields.has("repassword")) {
+      triggerValidation("repassword");
+    }
+  }, [triggerValidation, formState.dirtyFields, newPasswordValue]);
+
+  const [changed, setChanged] = React.useState(false);
+
+  const onSubmit = React.useCallback(
+    async ({ oldPassword, newPassword }: FormData) => {
+      if (submitting) return;
+
+      clearError("oldPassword");
+      setChanged(false);
+      try {
+        await changePassword(oldPassword, newPassword);
+        reset();
+        setChanged(true);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay.
+        await new Promise((res) => setTimeout(res, 300));
+        setError("oldPassword", SUBMIT_ERROR_TYPE, err.message);
+      }
+    },
+    [submitting, clearError, setError, reset, changePassword]
+  );
+
+  return (
+    <div className="w-full max-w-sm mx-auto my-8">
+      {changed && (
+        <Alert
+          type="success"
+          title={t("success")}
+          description={
+            <p>
+              <T id="passwordChanged" />
+            </p>
+          }
+          className="mb-6"
+        />
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({ required: t("required") })}
+          label={t("currentPassword")}
+          labelDescription={t("currentPasswordInputDescription")}
+          id="changepassword-oldpassword"
+          type="password"
+          name="oldPassword"
+          placeholder="********"
+          errorCaption={errors.oldPassword?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            pattern: {
+              value: PASSWORD_PATTERN,
+              message: PASSWORD_ERROR_CAPTION,
+            },
+          })}
+          label={t("newPassword")}
+          labelDescription={t("unlockPasswordInputDescription")}
+          id="changepassword-newpassword"
+          type="password"
+          name="newPassword"
+          placeholder="********"
+          errorCaption={errors.newPassword?.message}
+          containerClassName="mb-4"
+        />
+
+        <FormField
+          ref={register({
+            required: t("required"),
+            validate: (val) =>
+              val === newPasswordValue || t("mustBeEqualToPasswordAbove"),
+          })}
+          label={t("repeatPassword")}
+          labelDescription={t("repeatPasswordInputDescription")}
+          id="changepassword-repassword"
+          type="password"
+          name="repassword"
+          placeholder="********"
+          errorCaption={errors.repassword?.message}
+          containerClassName="mb-6"
+        />
+
+        <T id="changePassword">
+          {(message) => (
+            <FormSubmitButton loading={submitting}>{message}</FormSubmitButton>
+          )}
+        </T>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePassword;
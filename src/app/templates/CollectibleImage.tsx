@@ -0,0 +1,62 @@
+import * as React from "react";
+import classNames from "clsx";
+import { TempleFA2Asset } from "lib/temple/types";
+import { useSettings } from "lib/temple/front";
+import { sanitizeImgUri } from "lib/image-uri";
+import AssetIcon from "app/templates/AssetIcon";
+
+type CollectibleImageProps = {
+  asset: TempleFA2Asset;
+  full?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+};
+
+const CollectibleImage = React.memo<CollectibleImageProps>(
+  ({ asset, full, className, style }) => {
+    const { ipfsGateway } = useSettings();
+    const uris = React.useMemo(() => {
+      const { artifactUri, displayUri, thumbnailUri } = asset.collectible ?? {};
+      const candidates = full
+        ? [artifactUri, displayUri, thumbnailUri]
+        : [displayUri, thumbnailUri, artifactUri];
+      return candidates
+        .filter((uri): uri is string => Boolean(uri))
+        .map((uri) => sanitizeImgUri(uri, ipfsGateway));
+    }, [asset.collectible, full, ipfsGateway]);
+
+    const [failedCount, setFailedCount] = React.useState(0);
+    const handleImageError = React.useCallback(() => {
+      setFailedCount((c) => c + 1);
+    }, [setFailedCount]);
+
+    const uri = uris[failedCount];
+    if (!uri) {
+      return (
+        <div
+          className={classNames(
+            "flex items-center justify-center",
+            "bg-gray-100",
+            className
+          )}
+          style={style}
+        >
+          <AssetIcon asset={asset} size={48} />
+        </div>
+      );
+    }
+
+    return (
+      <img
+        key={uri}
+        src={uri}
+        alt={asset.name}
+        className={classNames("object-contain bg-gray-100", className)}
+        style={style}
+        onError={handleImageError}
+      />
+    );
+  }
+);
+
+export default CollectibleImage;
@@ -0,0 +1,271 @@
+import React from "react";
+import classNames from "clsx";
+import BigNumber from "bignumber.js";
+import {
+  useTezos,
+  useTokens,
+  useRelevantAccounts,
+  loadEntrypointType,
+  loadContractName,
+  decodeCallArgs,
+  ReactiveTezosToolkit,
+  TempleAssetType,
+  TempleCallArgNode,
+  TempleToken,
+} from "lib/temple/front";
+import { useRetryableSWR } from "lib/swr";
+import { T } from "lib/i18n/react";
+import Money from "app/atoms/Money";
+import Name from "app/atoms/Name";
+import AddressChip from "app/templates/AddressChip";
+import HashChip from "app/templates/HashChip";
+
+const ADDRESS_TYPES = ["address", "contract", "key_hash"];
+const AMOUNT_FIELD_PATTERN = /amount|value|balance|quantity|qty/i;
+
+type ContractCallViewProps = {
+  opParams: any[];
+  networkRpc: string;
+};
+
+const ContractCallView: React.FC<ContractCallViewProps> = ({
+  opParams,
+  networkRpc,
+}) => {
+  const nativeTezos = useTezos();
+  const tezos = React.useMemo(
+    () =>
+      nativeTezos.rpc.getRpcUrl() === networkRpc
+        ? nativeTezos
+        : new ReactiveTezosToolkit(networkRpc, networkRpc),
+    [nativeTezos, networkRpc]
+  );
+
+  const calls = React.useMemo(
+    () => opParams.filter((op) => op?.kind === "transaction" && op.parameter),
+    [opParams]
+  );
+
+  return (
+    <div
+      className={classNames(
+        "rounded-md overflow-y-auto border",
+        "flex flex-col text-gray-700 text-sm leading-tight"
+      )}
+      style={{ height: "9.5rem" }}
+    >
+      {calls.map((op, i) => (
+        <ContractCallItem
+          key={i}
+          op={op}
+          tezos={tezos}
+          networkRpc={networkRpc}
+          last={i === calls.length - 1}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ContractCallView;
+
+type ContractCallItemProps = {
+  op: any;
+  tezos: ReactiveTezosToolkit;
+  networkRpc: string;
+  last: boolean;
+};
+
+const ContractCallItem: React.FC<ContractCallItemProps> = ({
+  op,
+  tezos,
+  networkRpc,
+  last,
+}) => {
+  const contractAddress: string = op.to;
+  const entrypoint: string = op.parameter.entrypoint ?? "default";
+
+  const { allTokens } = useTokens(networkRpc);
+  const contractTokens = React.useMemo(
+    () => allTokens.filter((token) => token.address === contractAddress),
+    [allTokens, contractAddress]
+  );
+
+  const loadSchema = React.useCallback(
+    () =>
+      Promise.all([
+        loadEntrypointType(tezos, contractAddress, entrypoint),
+        loadContractName(tezos, contractAddress),
+      ]),
+    [tezos, contractAddress, entrypoint]
+  );
+  const { data, error } = useRetryableSWR(
+    ["contract-call-schema", tezos.checksum, contractAddress, entrypoint],
+    loadSchema,
+    {
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+
+  const decoded = React.useMemo(() => {
+    if (!data) return null;
+    try {
+      return { args: decodeCallArgs(data[0], op.parameter.value) };
+    } catch (err) {
+      return { error: err };
+    }
+  }, [data, op.parameter.value]);
+
+  const contractName = data?.[1] ?? contractTokens[0]?.name;
+  const decodingError = error ?? decoded?.error;
+
+  return (
+    <div
+      className={classNames(
+        "px-2 py-2 text-xs",
+        !last && "border-b border-gray-200"
+      )}
+    >
+      <div className="flex flex-wrap items-center mb-1">
+        {contractName && (
+          <Name className="mr-1 font-medium" style={{ maxWidth: "10rem" }}>
+            {contractName}
+          </Name>
+        )}
+        <AddressChip hash={contractAddress} small />
+        <span className="ml-1 italic text-blue-600">%{entrypoint}</span>
+      </div>
+
+      {decodingError ? (
+        <p className="text-red-600 break-all">
+          <T id="failedToDecodeCall" />: {decodingError.message}
+        </p>
+      ) : decoded?.args ? (
+        <CallArgView node={decoded.args} tokens={contractTokens} root />
+      ) : (
+        <T id="loading">
+          {(message) => <p className="font-light text-gray-500">{message}</p>}
+        </T>
+      )}
+    </div>
+  );
+};
+
+type CallArgViewProps = {
+  node: TempleCallArgNode;
+  tokens: TempleToken[];
+  tokenId?: number;
+  root?: boolean;
+};
+
+const CallArgView: React.FC<CallArgViewProps> = ({
+  node,
+  tokens,
+  tokenId,
+  root,
+}) => {
+  const children = node.children;
+  if (!children) {
+    return (
+      <div className="flex flex-wrap items-center py-px">
+        <CallArgLabel node={node} />
+        <CallArgValue node={node} tokens={tokens} tokenId={tokenId} />
+      </div>
+    );
+  }
+
+  // Sibling `token_id` defines token of FA2 amounts
+  const tokenIdNode = children.find(
+    (child) => child.name === "token_id" && child.value
+  );
+  const childrenTokenId = tokenIdNode ? +tokenIdNode.value! : tokenId;
+
+  const childrenView = children.map((child, i) => (
+    <CallArgView
+      key={i}
+      node={child}
+      tokens={tokens}
+      tokenId={childrenTokenId}
+    />
+  ));
+
+  if (root && !node.name && node.type === "pair") {
+    return <>{childrenView}</>;
+  }
+
+  return (
+    <div className="py-px">
+      <CallArgLabel node={node} />
+      <div className="pl-2 ml-1 border-l border-gray-200">{childrenView}</div>
+    </div>
+  );
+};
+
+const CallArgLabel: React.FC<{ node: TempleCallArgNode }> = ({ node }) => (
+  <>
+    {node.name && <span className="mr-1 font-medium">{node.name}</span>}
+    {node.type !== "pair" && (
+      <span className="mr-1 italic text-gray-500">{node.type}</span>
+    )}
+  </>
+);
+
+type CallArgValueProps = {
+  node: TempleCallArgNode;
+  tokens: TempleToken[];
+  tokenId?: number;
+};
+
+const CallArgValue: React.FC<CallArgValueProps> = ({
+  node,
+  tokens,
+  tokenId,
+}) => {
+  const allAccounts = useRelevantAccounts();
+
+  if (ADDRESS_TYPES.includes(node.type) && node.value) {
+    const account = allAccounts.find((acc) => acc.publicKeyHash === node.value);
+    return account ? (
+      <>
+        <Name className="mr-1 text-gray-800">{account.name}</Name>
+        <HashChip hash={node.value} small />
+      </>
+    ) : (
+      <AddressChip hash={node.value} small />
+    );
+  }
+
+  const token =
+    node.type === "nat" && node.name && AMOUNT_FIELD_PATTERN.test(node.name)
+      ? findToken(tokens, tokenId)
+      : undefined;
+  if (token) {
+    return (
+      <span className="text-gray-800" title={node.value}>
+        <Money>{new BigNumber(node.value!).div(10 ** token.decimals)}</Money>{" "}
+        {token.symbol}
+      </span>
+    );
+  }
+
+  return (
+    <span className="font-mono text-gray-800 break-all">{node.value}</span>
+  );
+};
+
+function findToken(tokens: TempleToken[], tokenId?: number) {
+  const fa2Tokens = tokens.filter(
+    (token) => token.type === TempleAssetType.FA2
+  );
+  if (fa2Tokens.length === 0) {
+    return tokens[0];
+  }
+
+  return tokenId !== undefined
+    ? fa2Tokens.find(
+        (token) => token.type === TempleAssetType.FA2 && token.id === tokenId
+      )
+    : undefined;
+}
@@ -0,0 +1,99 @@
+import * as React from "react";
+import classNames from "clsx";
+import { TempleCurve } from "lib/temple/front";
+import { T } from "lib/i18n/react";
+import { ReactComponent as OkIcon } from "app/icons/ok.svg";
+
+type CurveSelectProps = {
+  value: TempleCurve;
+  onChange: (curve: TempleCurve) => void;
+  className?: string;
+};
+
+const CURVES = [
+  {
+    curve: TempleCurve.ED25519,
+    name: "Ed25519 (tz1)",
+  },
+  {
+    curve: TempleCurve.SECP256K1,
+    name: "Secp256k1 (tz2)",
+  },
+  {
+    curve: TempleCurve.P256,
+    name: "P-256 (tz3)",
+  },
+];
+
+const CurveSelect: React.FC<CurveSelectProps> = ({
+  value,
+  onChange,
+  className,
+}) => (
+  <div className={classNames("flex flex-col", className)}>
+    <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+      <span className="text-base font-semibold text-gray-700">
+        <T id="curve" />
+      </span>
+
+      <span
+        className={classNames("mt-1", "text-xs font-light text-gray-600")}
+        style={{ maxWidth: "90%" }}
+      >
+        <T id="curveSelectDescription" />
+      </span>
+    </h2>
+
+    <div
+      className={classNames(
+        "rounded-md overflow-hidden",
+        "border-2 bg-gray-100",
+        "flex flex-col",
+        "text-gray-700 text-sm leading-tight"
+      )}
+    >
+      {CURVES.map(({ curve, name }, i, arr) => {
+        const last = i === arr.length - 1;
+        const selected = value === curve;
+        const handleClick = () => {
+          onChange(curve);
+        };
+
+        return (
+          <button
+            key={curve}
+            type="button"
+            className={classNames(
+              "block w-full",
+              "overflow-hidden",
+              !last && "border-b border-gray-200",
+              selected ? "bg-gray-300" : "hover:bg-gray-200 focus:bg-gray-200",
+              "flex items-center",
+              "text-gray-700",
+              "transition ease-in-out duration-200",
+              "focus:outline-none",
+              "opacity-90 hover:opacity-100"
+            )}
+            style={{
+              padding: "0.4rem 0.375rem 0.4rem 0.375rem",
+            }}
+            onClick={handleClick}
+          >
+            {name}
+            <div className="flex-1" />
+            {selected && (
+              <OkIcon
+                className={classNames("mx-2 h-4 w-auto stroke-2")}
+                style={{
+                  stroke: "#777",
+                }}
+              />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default CurveSelect;
@@ -20,6 +20,7 @@ export type CustomSelectProps<
   A extends Actions<K> = {}
 > = {
   activeItemId?: K;
+  activeItemIds?: K[];
   actions?: A;
   className?: string;
   getItemId?: (item: T) => K;
@@ -45,6 +46,7 @@ const CustomSelect = <
   const {
     actions,
     activeItemId,
+    activeItemIds,
     className,
     getItemId,
     id,
@@ -71,15 +73,18 @@ const CustomSelect = <
       style={{ maxHeight }}
     >
       {items.map((item, index) => {
-        const itemId = getItemId ? getItemId(item) : index;
+        const itemId = (getItemId ? getItemId(item) : index) as K;
 
         return (
           <CustomSelectItem
             key={itemId}
             actions={actions}
-            active={itemId === activeItemId}
+            active={
+              itemId === activeItemId ||
+              Boolean(activeItemIds?.includes(itemId))
+            }
             last={index === items.length - 1}
-            itemId={itemId as K}
+            itemId={itemId}
             index={index}
             item={item}
             onSelect={onSelect}
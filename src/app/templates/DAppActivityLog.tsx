@@ -0,0 +1,310 @@
+import React, { useCallback, useMemo, useState } from "react";
+import classNames from "clsx";
+import {
+  mutezToTz,
+  useTempleClient,
+  TempleDAppLogEntry,
+  TempleDAppLogOperation,
+} from "lib/temple/front";
+import { useRetryableSWR } from "lib/swr";
+import { useConfirm } from "lib/ui/dialog";
+import { downloadFile } from "lib/ui/download";
+import { T, t, TProps } from "lib/i18n/react";
+import AddressChip from "app/templates/AddressChip";
+import HashChip from "app/templates/HashChip";
+import Name from "app/atoms/Name";
+
+const DAppActivityLog: React.FC = () => {
+  const { getDAppLog, clearDAppLog } = useTempleClient();
+  const confirm = useConfirm();
+
+  const { data, revalidate } = useRetryableSWR<TempleDAppLogEntry[]>(
+    ["getDAppLog"],
+    getDAppLog,
+    {
+      suspense: true,
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+  const entries = data!;
+
+  const [originFilter, setOriginFilter] = useState<string | null>(null);
+
+  const origins = useMemo(
+    () => Array.from(new Set(entries.map(({ origin }) => origin))),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(
+    () =>
+      originFilter
+        ? entries.filter(({ origin }) => origin === originFilter)
+        : entries,
+    [entries, originFilter]
+  );
+
+  const handleExportClick = useCallback(() => {
+    downloadFile(
+      JSON.stringify(filteredEntries, null, 2),
+      "temple-dapp-activity.json"
+    );
+  }, [filteredEntries]);
+
+  const handleClearClick = useCallback(async () => {
+    if (
+      await confirm({
+        title: t("actionConfirmation"),
+        children: t("clearDAppActivityConfirmation"),
+      })
+    ) {
+      await clearDAppLog();
+      setOriginFilter(null);
+      revalidate();
+    }
+  }, [confirm, clearDAppLog, revalidate]);
+
+  return (
+    <div className="mb-6">
+      <h2 className="flex items-center mb-2">
+        <T id="dAppActivity">
+          {(message) => (
+            <span className="text-base font-semibold text-gray-700">
+              {message}
+            </span>
+          )}
+        </T>
+
+        <div className="flex-1" />
+
+        {entries.length > 0 && (
+          <>
+            <button
+              type="button"
+              className="text-xs text-blue-600 hover:underline"
+              onClick={handleExportClick}
+            >
+              <T id="exportDAppActivity" />
+            </button>
+
+            <button
+              type="button"
+              className="ml-4 text-xs text-red-600 hover:underline"
+              onClick={handleClearClick}
+            >
+              <T id="clearDAppActivity" />
+            </button>
+          </>
+        )}
+      </h2>
+
+      {origins.length > 1 && (
+        <div className="flex flex-wrap items-center mb-2">
+          {[null, ...origins].map((origin) => (
+            <button
+              key={origin ?? "all"}
+              type="button"
+              className={classNames(
+                "mr-1 mb-1 px-2 py-px rounded",
+                "text-xs leading-tight truncate",
+                origin === originFilter
+                  ? "bg-gray-300 text-gray-800"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              )}
+              style={{ maxWidth: "10rem" }}
+              onClick={() => setOriginFilter(origin)}
+            >
+              {origin ?? t("allOrigins")}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {filteredEntries.length > 0 ? (
+        <div
+          className="flex flex-col overflow-y-auto border rounded-md"
+          style={{ maxHeight: "20rem" }}
+        >
+          {filteredEntries.map((entry, i) => (
+            <DAppLogEntryView
+              key={entry.id}
+              entry={entry}
+              last={i === filteredEntries.length - 1}
+            />
+          ))}
+        </div>
+      ) : (
+        <T id="noDAppActivity">
+          {(message) => (
+            <p className="text-xs font-light text-gray-600">{message}</p>
+          )}
+        </T>
+      )}
+    </div>
+  );
+};
+
+export default DAppActivityLog;
+
+const REQUEST_TITLES: Record<
+  TempleDAppLogEntry["request"]["type"],
+  TProps["id"]
+> = {
+  permission: "dAppLogPermission",
+  operation: "dAppLogOperation",
+  sign: "dAppLogSign",
+  broadcast: "dAppLogBroadcast",
+};
+
+const DECISIONS: Record<
+  TempleDAppLogEntry["decision"],
+  { i18nKey: TProps["id"]; className: string }
+> = {
+  approved: { i18nKey: "dAppLogApproved", className: "text-green-600" },
+  "auto-approved": {
+    i18nKey: "dAppLogAutoApproved",
+    className: "text-green-600",
+  },
+  "no-prompt": { i18nKey: "dAppLogNoPrompt", className: "text-gray-600" },
+  declined: { i18nKey: "dAppLogDeclined", className: "text-gray-600" },
+  failed: { i18nKey: "dAppLogFailed", className: "text-red-600" },
+};
+
+type DAppLogEntryViewProps = {
+  entry: TempleDAppLogEntry;
+  last: boolean;
+};
+
+const DAppLogEntryView: React.FC<DAppLogEntryViewProps> = ({ entry, last }) => {
+  const {
+    timestamp,
+    origin,
+    protocol,
+    request,
+    decision,
+    opHash,
+    signature,
+    error,
+  } = entry;
+
+  return (
+    <div
+      className={classNames(
+        "px-2 py-1",
+        "text-xs leading-tight text-gray-700",
+        !last && "border-b border-gray-200"
+      )}
+    >
+      <div className="flex items-center">
+        <Name className="font-medium" style={{ maxWidth: "10rem" }}>
+          {origin}
+        </Name>
+
+        {protocol === "beacon" && (
+          <span className="ml-1 text-gray-500">(Beacon)</span>
+        )}
+
+        <div className="flex-1" />
+
+        <span className="text-gray-500">
+          {new Date(timestamp).toLocaleString()}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center mt-1">
+        <T id={REQUEST_TITLES[request.type]} />
+        <span className={classNames("ml-1", DECISIONS[decision].className)}>
+          (<T id={DECISIONS[decision].i18nKey} />)
+        </span>
+      </div>
+
+      <div className="mt-1 text-gray-600">
+        <DAppLogRequestDetails entry={entry} />
+      </div>
+
+      {opHash && (
+        <div className="mt-1">
+          <HashChip hash={opHash} small />
+        </div>
+      )}
+
+      {signature && (
+        <div className="mt-1">
+          <HashChip hash={signature} small />
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-1 text-red-600 break-all">
+          <T id="error" />: {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DAppLogRequestDetails: React.FC<{ entry: TempleDAppLogEntry }> = ({
+  entry,
+}) => {
+  const { request, pkh } = entry;
+
+  switch (request.type) {
+    case "permission":
+      return (
+        <>
+          <div>
+            {request.appName} ({request.network})
+          </div>
+          {pkh && <AddressChip hash={pkh} small />}
+        </>
+      );
+
+    case "operation":
+      return (
+        <>
+          <AddressChip hash={request.sourcePkh} small />
+          {request.operations.map((op, i) => (
+            <DAppLogOperationView key={i} op={op} />
+          ))}
+        </>
+      );
+
+    case "sign":
+      return (
+        <>
+          <AddressChip hash={request.sourcePkh} small />
+          <div className="font-mono break-all">{request.payload}…</div>
+        </>
+      );
+
+    case "broadcast":
+      return (
+        <T
+          id="dAppLogBroadcastBytes"
+          substitutions={String(request.bytesLength / 2)}
+        />
+      );
+  }
+};
+
+const DAppLogOperationView: React.FC<{ op: TempleDAppLogOperation }> = ({
+  op,
+}) => (
+  <div className="flex flex-wrap items-center mt-1">
+    <span className="mr-1 capitalize">{op.kind}</span>
+
+    {op.amount && (
+      <span className="mr-1">{mutezToTz(op.amount).toFixed()} ꜩ</span>
+    )}
+
+    {op.to && (
+      <>
+        <span className="mr-1">→</span>
+        <AddressChip hash={op.to} small />
+      </>
+    )}
+
+    {op.entrypoint && <span className="ml-1 italic">%{op.entrypoint}</span>}
+  </div>
+);
@@ -0,0 +1,211 @@
+import React, { useCallback } from "react";
+import { useForm } from "react-hook-form";
+import BigNumber from "bignumber.js";
+import { TempleDAppNetwork } from "@temple-wallet/dapp/dist/types";
+import {
+  mutezToTz,
+  tzToMutez,
+  useTempleClient,
+  TempleDAppPolicy,
+} from "lib/temple/front";
+import { withErrorHumanDelay } from "lib/ui/humanDelay";
+import { T, t } from "lib/i18n/react";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import SubTitle from "app/atoms/SubTitle";
+
+type DAppPolicyFormProps = {
+  origin: string;
+  network: TempleDAppNetwork;
+  policy?: TempleDAppPolicy;
+  onDone: () => void;
+};
+
+type PolicyFormData = {
+  tezLimit: string;
+  timeframe: string;
+  allowedEntrypoints: string;
+  tokenLimits: string;
+};
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+const ENTRYPOINT_PATTERN = /^KT[1-9A-HJ-NP-Za-km-z]{34}%[a-zA-Z0-9_]{1,31}$/;
+const TOKEN_LIMIT_PATTERN = /^KT[1-9A-HJ-NP-Za-km-z]{34}_\d+:\d+$/;
+
+const DAppPolicyForm: React.FC<DAppPolicyFormProps> = ({
+  origin,
+  network,
+  policy,
+  onDone,
+}) => {
+  const { setDAppPolicy } = useTempleClient();
+
+  const {
+    register,
+    handleSubmit,
+    formState,
+    clearError,
+    setError,
+    errors,
+  } = useForm<PolicyFormData>({
+    defaultValues: policy
+      ? {
+          tezLimit: mutezToTz(policy.tezLimit).toFixed(),
+          timeframe: String(policy.timeframe / 60),
+          allowedEntrypoints: policy.allowedEntrypoints.join("\n"),
+          tokenLimits: Object.entries(policy.tokenLimits)
+            .map(([slug, limit]) => `${slug}:${limit}`)
+            .join("\n"),
+        }
+      : { timeframe: "60" },
+  });
+  const submitting = formState.isSubmitting;
+
+  const onSubmit = useCallback(
+    async ({
+      tezLimit,
+      timeframe,
+      allowedEntrypoints,
+      tokenLimits,
+    }: PolicyFormData) => {
+      if (submitting) return;
+      clearError();
+
+      try {
+        await setDAppPolicy(origin, network, {
+          tezLimit: tzToMutez(tezLimit).integerValue().toFixed(),
+          timeframe: +timeframe * 60,
+          allowedEntrypoints: splitLines(allowedEntrypoints),
+          tokenLimits: Object.fromEntries(
+            splitLines(tokenLimits).map((line) => line.split(":"))
+          ),
+          spendings: [],
+        });
+        onDone();
+      } catch (err) {
+        await withErrorHumanDelay(err, () =>
+          setError("tezLimit", SUBMIT_ERROR_TYPE, err.message)
+        );
+      }
+    },
+    [submitting, clearError, setDAppPolicy, origin, network, onDone, setError]
+  );
+
+  return (
+    <form className="mb-6" onSubmit={handleSubmit(onSubmit)}>
+      <SubTitle>
+        <T id="dAppPolicy" />
+      </SubTitle>
+
+      <FormField
+        ref={register({
+          required: t("required"),
+          validate: validateTezLimit,
+        })}
+        label={t("tezLimit")}
+        labelDescription={t("tezLimitDescription")}
+        id="dapp-policy-tez-limit"
+        name="tezLimit"
+        type="number"
+        step="any"
+        min={0}
+        errorCaption={errors.tezLimit?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({
+          required: t("required"),
+          validate: validateTimeframe,
+        })}
+        label={t("timeframeMinutes")}
+        labelDescription={t("timeframeMinutesDescription")}
+        id="dapp-policy-timeframe"
+        name="timeframe"
+        type="number"
+        min={1}
+        errorCaption={errors.timeframe?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({
+          validate: (value: string) =>
+            splitLines(value).every((line) => ENTRYPOINT_PATTERN.test(line)) ||
+            t("invalidAllowedEntrypoints"),
+        })}
+        textarea
+        rows={3}
+        label={t("allowedEntrypoints")}
+        labelDescription={t("allowedEntrypointsDescription")}
+        id="dapp-policy-entrypoints"
+        name="allowedEntrypoints"
+        placeholder="KT1...%entrypoint"
+        errorCaption={errors.allowedEntrypoints?.message}
+        style={{ resize: "none" }}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        ref={register({
+          validate: (value: string) =>
+            splitLines(value).every((line) => TOKEN_LIMIT_PATTERN.test(line)) ||
+            t("invalidTokenLimits"),
+        })}
+        textarea
+        rows={3}
+        label={t("tokenLimits")}
+        labelDescription={t("tokenLimitsDescription")}
+        id="dapp-policy-token-limits"
+        name="tokenLimits"
+        placeholder="KT1..._0:1000000"
+        errorCaption={errors.tokenLimits?.message}
+        style={{ resize: "none" }}
+        containerClassName="mb-6"
+      />
+
+      <div className="flex items-center">
+        <T id="save">
+          {(message) => (
+            <FormSubmitButton loading={submitting}>{message}</FormSubmitButton>
+          )}
+        </T>
+
+        <T id="cancel">
+          {(message) => (
+            <FormSecondaryButton
+              type="button"
+              className="ml-4"
+              onClick={onDone}
+            >
+              {message}
+            </FormSecondaryButton>
+          )}
+        </T>
+      </div>
+    </form>
+  );
+};
+
+export default DAppPolicyForm;
+
+function splitLines(value: string) {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function validateTezLimit(value: string) {
+  const bn = new BigNumber(value);
+  return (bn.isFinite() && !bn.isNegative()) || t("invalidAmount");
+}
+
+function validateTimeframe(value: string) {
+  const minutes = +value;
+  return (
+    (Number.isInteger(minutes) && minutes > 0 && minutes <= 30 * 24 * 60) ||
+    t("invalidTimeframe")
+  );
+}
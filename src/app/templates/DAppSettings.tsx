@@ -1,6 +1,7 @@
 import * as React from "react";
 import classNames from "clsx";
 import {
+  mutezToTz,
   useStorage,
   TempleSharedStorageKey,
   useTempleClient,
@@ -15,16 +16,27 @@ import { ReactComponent as CloseIcon } from "app/icons/close.svg";
 import CustomSelect, { OptionRenderProps } from "app/templates/CustomSelect";
 import HashChip from "app/templates/HashChip";
 import Name from "app/atoms/Name";
+import DAppPolicyForm from "app/templates/DAppPolicyForm";
+import DAppActivityLog from "app/templates/DAppActivityLog";
+import OriginListsSettings from "app/templates/OriginListsSettings";
+import BeaconPeersSettings from "app/templates/BeaconPeersSettings";
 
 type DAppEntry = [string, TempleDAppSession];
 type DAppActions = {
-  remove: (origin: string) => void;
+  remove: (key: string) => void;
+  editPolicy: (key: string) => void;
+  revokePolicy: (key: string) => void;
 };
 
-const getDAppKey = (entry: DAppEntry) => entry[0];
+const getDAppKey = ([origin, { network }]: DAppEntry) =>
+  `${origin}_${typeof network === "string" ? network : network.rpc}`;
 
 const DAppSettings: React.FC = () => {
-  const { getAllDAppSessions, removeDAppSession } = useTempleClient();
+  const {
+    getAllDAppSessions,
+    removeDAppSession,
+    setDAppPolicy,
+  } = useTempleClient();
   const confirm = useConfirm();
 
   const { data, revalidate } = useRetryableSWR<TempleDAppSessions>(
@@ -64,24 +76,64 @@ const DAppSettings: React.FC = () => {
     [setError, setDAppEnabled]
   );
 
+  const dAppEntries = React.useMemo(
+    () =>
+      Object.entries(dAppSessions).flatMap(([origin, sessions]) =>
+        sessions.map((session): DAppEntry => [origin, session])
+      ),
+    [dAppSessions]
+  );
+
+  const findDAppEntry = React.useCallback(
+    (key: string) => dAppEntries.find((entry) => getDAppKey(entry) === key),
+    [dAppEntries]
+  );
+
   const handleRemoveClick = React.useCallback(
-    async (origin: string) => {
+    async (key: string) => {
+      const entry = findDAppEntry(key);
+      if (!entry) return;
+
+      const [origin, { network }] = entry;
       if (
         await confirm({
           title: t("actionConfirmation"),
           children: t("resetPermissionsConfirmation", origin),
         })
       ) {
-        await removeDAppSession(origin);
+        await removeDAppSession(origin, network);
+        revalidate();
+      }
+    },
+    [findDAppEntry, removeDAppSession, revalidate, confirm]
+  );
+
+  const [policyKey, setPolicyKey] = React.useState<string | null>(null);
+  const policyEntry = policyKey ? findDAppEntry(policyKey) : undefined;
+
+  const handleRevokePolicyClick = React.useCallback(
+    async (key: string) => {
+      const entry = findDAppEntry(key);
+      if (!entry) return;
+
+      const [origin, { network }] = entry;
+      if (
+        await confirm({
+          title: t("actionConfirmation"),
+          children: t("revokePolicyConfirmation", origin),
+        })
+      ) {
+        await setDAppPolicy(origin, network, null);
         revalidate();
       }
     },
-    [removeDAppSession, revalidate, confirm]
+    [findDAppEntry, setDAppPolicy, revalidate, confirm]
   );
 
-  const dAppEntries = React.useMemo(() => Object.entries(dAppSessions), [
-    dAppSessions,
-  ]);
+  const handlePolicyFormDone = React.useCallback(() => {
+    setPolicyKey(null);
+    revalidate();
+  }, [revalidate]);
 
   return (
     <div className="w-full max-w-sm mx-auto my-8">
@@ -140,8 +192,22 @@ const DAppSettings: React.FC = () => {
             </T>
           </div>
 
+          {policyEntry && (
+            <DAppPolicyForm
+              key={getDAppKey(policyEntry)}
+              origin={policyEntry[0]}
+              network={policyEntry[1].network}
+              policy={policyEntry[1].policy}
+              onDone={handlePolicyFormDone}
+            />
+          )}
+
           <CustomSelect
-            actions={{ remove: handleRemoveClick }}
+            actions={{
+              remove: handleRemoveClick,
+              editPolicy: setPolicyKey,
+              revokePolicy: handleRevokePolicyClick,
+            }}
             className="mb-6"
             getItemId={getDAppKey}
             items={dAppEntries}
@@ -152,6 +218,12 @@ const DAppSettings: React.FC = () => {
           />
         </>
       )}
+
+      <BeaconPeersSettings onChange={revalidate} />
+
+      <OriginListsSettings />
+
+      <DAppActivityLog />
     </div>
   );
 };
@@ -172,18 +244,17 @@ const DAppIcon: React.FC<OptionRenderProps<DAppEntry, string, DAppActions>> = (
 const DAppDescription: React.FC<
   OptionRenderProps<DAppEntry, string, DAppActions>
 > = (props) => {
-  const {
-    actions,
-    item: [origin, { appMeta, network, pkh }],
-  } = props;
-  const { remove: onRemove } = actions!;
+  const { actions, item } = props;
+  const [origin, { appMeta, network, accounts, policy }] = item;
+  const { remove: onRemove, editPolicy, revokePolicy } = actions!;
+  const key = getDAppKey(item);
 
   const handleRemoveClick = React.useCallback(
     (e: React.MouseEvent<HTMLButtonElement, MouseEvent>) => {
       e.stopPropagation();
-      onRemove(origin);
+      onRemove(key);
     },
-    [onRemove, origin]
+    [onRemove, key]
   );
 
   const dAppAttributes = React.useMemo(
@@ -214,12 +285,20 @@ const DAppDescription: React.FC<
         Component: Name,
       },
       {
-        key: "pkhLabel",
-        value: <HashChip hash={pkh} type="link" small />,
+        key: accounts.length > 1 ? "accountsLabel" : "pkhLabel",
+        value: accounts.map(({ pkh }, i) => (
+          <HashChip
+            key={pkh}
+            hash={pkh}
+            type="link"
+            small
+            className={i > 0 ? "ml-1" : undefined}
+          />
+        )),
         Component: "span",
       },
     ],
-    [origin, network, pkh]
+    [origin, network, accounts]
   );
 
   return (
@@ -251,6 +330,47 @@ const DAppDescription: React.FC<
             />
           </div>
         ))}
+
+        <div className="mt-1 text-xs font-light leading-tight text-gray-600">
+          {policy ? (
+            <T
+              id="dAppPolicySummary"
+              substitutions={[
+                mutezToTz(policy.tezLimit).toFixed(),
+                String(Math.round(policy.timeframe / 60)),
+                String(policy.allowedEntrypoints.length),
+              ]}
+            />
+          ) : (
+            <T id="noDAppPolicy" />
+          )}
+        </div>
+
+        <div className="flex items-center mt-1">
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={(e) => {
+              e.stopPropagation();
+              editPolicy(key);
+            }}
+          >
+            <T id={policy ? "editPolicy" : "setPolicy"} />
+          </button>
+
+          {policy && (
+            <button
+              type="button"
+              className="ml-4 text-xs text-red-600 hover:underline"
+              onClick={(e) => {
+                e.stopPropagation();
+                revokePolicy(key);
+              }}
+            >
+              <T id="revokePolicy" />
+            </button>
+          )}
+        </div>
       </div>
 
       <button
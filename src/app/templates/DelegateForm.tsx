@@ -13,7 +13,7 @@ import {
   useBalance,
   useKnownBaker,
   useKnownBakers,
-  fetchBalance,
+  loadBalance,
   tzToMutez,
   mutezToTz,
   isAddressValid,
@@ -21,6 +21,7 @@ import {
   hasManager,
   TempleAccountType,
   loadContract,
+  useContactsLookup,
 } from "lib/temple/front";
 import { T, t, getCurrentLocale } from "lib/i18n/react";
 import { setDelegate } from "lib/michelson";
@@ -60,6 +61,7 @@ const DelegateForm: React.FC = () => {
   const net = useNetwork();
   const acc = useAccount();
   const tezos = useTezos();
+  const getContact = useContactsLookup();
 
   const accountPkh = acc.publicKeyHash;
   const assetSymbol = "ꜩ";
@@ -146,6 +148,10 @@ const DelegateForm: React.FC = () => {
   const toValue = watch("to");
 
   const toFieldRef = React.useRef<HTMLTextAreaElement>(null);
+  const toContact = React.useMemo(() => getContact(toValue), [
+    getContact,
+    toValue,
+  ]);
 
   const toFilled = React.useMemo(
     () => Boolean(toValue && isAddressValid(toValue) && !isKTAddress(toValue)),
@@ -188,7 +194,7 @@ const DelegateForm: React.FC = () => {
   const estimateBaseFee = React.useCallback(async () => {
     try {
       const balanceBN = (await mutateBalance(
-        fetchBalance(tezos, TEZ_ASSET, accountPkh)
+        loadBalance(tezos, TEZ_ASSET, accountPkh)
       ))!;
       if (balanceBN.isZero()) {
         throw new ZeroBalanceError();
@@ -398,7 +404,13 @@ const DelegateForm: React.FC = () => {
           onClean={cleanToField}
           id="delegate-to"
           label={t("baker")}
-          labelDescription={t("bakerInputDescription")}
+          labelDescription={
+            toContact ? (
+              <span className="font-normal">{toContact.name}</span>
+            ) : (
+              t("bakerInputDescription")
+            )
+          }
           placeholder={t("bakerInputPlaceholder")}
           errorCaption={errors.to?.message && t(errors.to?.message.toString())}
           style={{
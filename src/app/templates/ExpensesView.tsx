@@ -9,7 +9,7 @@ import {
 import { T, t, TProps } from "lib/i18n/react";
 import Money from "app/atoms/Money";
 import Identicon from "app/atoms/Identicon";
-import HashChip from "app/templates/HashChip";
+import AddressChip from "app/templates/AddressChip";
 import InUSD from "app/templates/InUSD";
 import { ReactComponent as ClipboardIcon } from "app/icons/clipboard.svg";
 
@@ -228,7 +228,7 @@ const OperationArgumentDisplay = React.memo<OperationArgumentDisplayProps>(
         id={i18nKey}
         substitutions={arg.map((value, index) => (
           <>
-            <HashChip
+            <AddressChip
               className="text-blue-600 opacity-75"
               key={index}
               hash={value}
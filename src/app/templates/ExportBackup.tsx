@@ -0,0 +1,96 @@
+import * as React from "react";
+import { useForm } from "react-hook-form";
+import format from "date-fns/format";
+import { useTempleClient } from "lib/temple/front";
+import { T, t } from "lib/i18n/react";
+import { downloadFile } from "lib/ui/download";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import Alert from "app/atoms/Alert";
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+type FormData = {
+  password: string;
+};
+
+const ExportBackup: React.FC = () => {
+  const { exportBackup } = useTempleClient();
+
+  const {
+    register,
+    handleSubmit,
+    errors,
+    setError,
+    clearError,
+    reset,
+    formState,
+  } = useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const [exported, setExported] = React.useState(false);
+
+  const onSubmit = React.useCallback(
+    async ({ password }: FormData) => {
+      if (submitting) return;
+
+      clearError("password");
+      setExported(false);
+      try {
+        const backup = await exportBackup(password);
+        downloadFile(
+          JSON.stringify(backup),
+          `temple-backup-${format(new Date(), "yyyy-MM-dd")}.json`
+        );
+        reset();
+        setExported(true);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay.
+        await new Promise((res) => setTimeout(res, 300));
+        setError("password", SUBMIT_ERROR_TYPE, err.message);
+      }
+    },
+    [submitting, clearError, setError, reset, exportBackup]
+  );
+
+  return (
+    <div className="w-full max-w-sm mx-auto my-8">
+      <Alert
+        type={exported ? "success" : "warn"}
+        title={exported ? t("success") : t("attentionExclamation")}
+        description={
+          <p>
+            <T id={exported ? "backupExported" : "backupFileWarning"} />
+          </p>
+        }
+        className="mb-6"
+      />
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <FormField
+          ref={register({ required: t("required") })}
+          label={t("password")}
+          labelDescription={t("exportBackupPasswordInputDescription")}
+          id="export-backup-password"
+          type="password"
+          name="password"
+          placeholder="********"
+          errorCaption={errors.password?.message}
+          containerClassName="mb-4"
+        />
+
+        <T id="exportBackup">
+          {(message) => (
+            <FormSubmitButton loading={submitting}>{message}</FormSubmitButton>
+          )}
+        </T>
+      </form>
+    </div>
+  );
+};
+
+export default ExportBackup;
@@ -1,4 +1,6 @@
 import React from "react";
+import AutoLockSettings from "app/templates/AutoLockSettings";
+import IpfsGatewaySettings from "app/templates/IpfsGatewaySettings";
 import LocaleSelect from "app/templates/LocaleSelect";
 import PopupSettings from "app/templates/PopupSettings";
 
@@ -7,7 +9,11 @@ const GeneralSettings: React.FC = () => {
     <div className="w-full max-w-sm mx-auto my-8">
       <LocaleSelect className="mb-8" />
 
+      <AutoLockSettings />
+
       <PopupSettings />
+
+      <IpfsGatewaySettings />
     </div>
   );
 };
@@ -0,0 +1,90 @@
+import React, { useCallback, useMemo } from "react";
+import classNames from "clsx";
+import { TempleHDWallet, useTempleClient } from "lib/temple/front";
+import { T } from "lib/i18n/react";
+import { ReactComponent as LayersIcon } from "app/icons/layers.svg";
+import IconifiedSelect, {
+  IconifiedSelectOptionRenderProps,
+} from "./IconifiedSelect";
+
+type HDWalletSelectProps = {
+  value: string;
+  onChange: (walletId: string) => void;
+  className?: string;
+};
+
+const getHDWalletKey = ({ id }: TempleHDWallet) => id;
+
+const HDWalletSelect: React.FC<HDWalletSelectProps> = ({
+  value,
+  onChange,
+  className,
+}) => {
+  const { hdWallets } = useTempleClient();
+
+  const selected = useMemo(
+    () => hdWallets.find(({ id }) => id === value) ?? hdWallets[0],
+    [hdWallets, value]
+  );
+
+  const handleChange = useCallback(({ id }: TempleHDWallet) => onChange(id), [
+    onChange,
+  ]);
+
+  const title = useMemo(
+    () => (
+      <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+        <span className="text-base font-semibold text-gray-700">
+          <T id="hdWallet" />
+        </span>
+
+        <span
+          className="mt-1 text-xs font-light text-gray-600"
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="hdWalletSelectDescription" />
+        </span>
+      </h2>
+    ),
+    []
+  );
+
+  if (!selected || hdWallets.length < 2) return null;
+
+  return (
+    <IconifiedSelect
+      Icon={HDWalletIcon}
+      OptionSelectedIcon={HDWalletIcon}
+      OptionInMenuContent={HDWalletInMenuContent}
+      OptionSelectedContent={HDWalletSelectContent}
+      getKey={getHDWalletKey}
+      options={hdWallets}
+      value={selected}
+      onChange={handleChange}
+      title={title}
+      className={className}
+    />
+  );
+};
+
+export default HDWalletSelect;
+
+const HDWalletIcon: React.FC<
+  IconifiedSelectOptionRenderProps<TempleHDWallet>
+> = () => (
+  <LayersIcon className="ml-2 mr-3 h-6 w-auto stroke-current text-gray-600" />
+);
+
+const HDWalletInMenuContent: React.FC<
+  IconifiedSelectOptionRenderProps<TempleHDWallet>
+> = ({ option }) => (
+  <div className="relative w-full text-lg text-gray-700">{option.name}</div>
+);
+
+const HDWalletSelectContent: React.FC<
+  IconifiedSelectOptionRenderProps<TempleHDWallet>
+> = ({ option }) => (
+  <div className="flex flex-col items-start py-2">
+    <span className="text-xl text-gray-700">{option.name}</span>
+  </div>
+);
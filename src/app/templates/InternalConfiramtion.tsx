@@ -21,6 +21,8 @@ import NetworkBanner from "app/templates/NetworkBanner";
 import RawPayloadView from "app/templates/RawPayloadView";
 import ViewsSwitcher from "app/templates/ViewsSwitcher";
 import ExpensesView from "app/templates/ExpensesView";
+import SimulationView from "app/templates/SimulationView";
+import ContractCallView from "app/templates/ContractCallView";
 import Logo from "app/atoms/Logo";
 import Alert from "app/atoms/Alert";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
@@ -30,6 +32,8 @@ import SubTitle from "app/atoms/SubTitle";
 import { ReactComponent as EyeIcon } from "app/icons/eye.svg";
 import { ReactComponent as CodeAltIcon } from "app/icons/code-alt.svg";
 import { ReactComponent as HashIcon } from "app/icons/hash.svg";
+import { ReactComponent as LineChartIcon } from "app/icons/line-chart.svg";
+import { ReactComponent as ListIcon } from "app/icons/list.svg";
 
 type InternalConfiramtionProps = {
   payload: TempleConfirmationPayload;
@@ -99,11 +103,27 @@ const InternalConfiramtion: React.FC<InternalConfiramtionProps> = ({
   const signPayloadFormats = React.useMemo(() => {
     if (payload.type === "operations") {
       return [
+        {
+          key: "simulation",
+          name: t("simulation"),
+          Icon: LineChartIcon,
+        },
         {
           key: "preview",
           name: t("preview"),
           Icon: EyeIcon,
         },
+        ...(payload.opParams.some(
+          (op) => op?.kind === "transaction" && op.parameter
+        )
+          ? [
+              {
+                key: "call",
+                name: t("contractCall"),
+                Icon: ListIcon,
+              },
+            ]
+          : []),
         {
           key: "raw",
           name: t("raw"),
@@ -124,7 +144,7 @@ const InternalConfiramtion: React.FC<InternalConfiramtionProps> = ({
         Icon: HashIcon,
       },
     ];
-  }, [payload.type]);
+  }, [payload]);
 
   const [spFormat, setSpFormat] = useSafeState(signPayloadFormats[0]);
   const [error, setError] = useSafeState<any>(null);
@@ -276,6 +296,22 @@ const InternalConfiramtion: React.FC<InternalConfiramtionProps> = ({
               {spFormat.key === "preview" && (
                 <ExpensesView expenses={expensesData} />
               )}
+
+              {payload.type === "operations" && spFormat.key === "call" && (
+                <ContractCallView
+                  opParams={payload.opParams}
+                  networkRpc={payload.networkRpc}
+                />
+              )}
+
+              {payload.type === "operations" &&
+                spFormat.key === "simulation" && (
+                  <SimulationView
+                    sourcePkh={payload.sourcePkh}
+                    networkRpc={payload.networkRpc}
+                    opParams={payload.opParams}
+                  />
+                )}
             </>
           )}
         </div>
@@ -0,0 +1,116 @@
+import React, { useCallback } from "react";
+import { useForm } from "react-hook-form";
+import {
+  getHostname,
+  isDomainValid,
+  useSettings,
+  useTempleClient,
+} from "lib/temple/front";
+import { IPFS_GATEWAY } from "lib/image-uri";
+import { withErrorHumanDelay } from "lib/ui/humanDelay";
+import { T, t } from "lib/i18n/react";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+
+type IpfsGatewayFormData = {
+  ipfsGateway: string;
+};
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+const IpfsGatewaySettings: React.FC = () => {
+  const { updateSettings } = useTempleClient();
+  const { ipfsGateway = IPFS_GATEWAY } = useSettings();
+
+  const {
+    register,
+    handleSubmit,
+    errors,
+    formState,
+    setError,
+    clearError,
+    reset,
+  } = useForm<IpfsGatewayFormData>({
+    defaultValues: { ipfsGateway },
+  });
+  const submitting = formState.isSubmitting;
+
+  const saveGateway = useCallback(
+    async (value?: string) => {
+      clearError();
+      try {
+        await updateSettings({ ipfsGateway: value });
+        reset({ ipfsGateway: value ?? IPFS_GATEWAY });
+      } catch (err) {
+        await withErrorHumanDelay(err, () =>
+          setError("ipfsGateway", SUBMIT_ERROR_TYPE, err.message)
+        );
+      }
+    },
+    [clearError, updateSettings, reset, setError]
+  );
+
+  const onSubmit = useCallback(
+    ({ ipfsGateway }: IpfsGatewayFormData) => {
+      if (submitting) return;
+      return saveGateway(toHostname(ipfsGateway));
+    },
+    [submitting, saveGateway]
+  );
+
+  const handleResetClick = useCallback(() => saveGateway(undefined), [
+    saveGateway,
+  ]);
+
+  return (
+    <form className="mb-8" onSubmit={handleSubmit(onSubmit)}>
+      <FormField
+        ref={register({
+          required: t("required"),
+          validate: (value: string) =>
+            isDomainValid(toHostname(value)) || t("invalidDomain"),
+        })}
+        id="ipfs-gateway"
+        name="ipfsGateway"
+        label={t("ipfsGateway")}
+        labelDescription={t("ipfsGatewayDescription")}
+        placeholder={IPFS_GATEWAY}
+        errorCaption={errors.ipfsGateway?.message}
+        containerClassName="mb-4"
+      />
+
+      <div className="flex items-center">
+        <T id="save">
+          {(message) => (
+            <FormSubmitButton small loading={submitting}>
+              {message}
+            </FormSubmitButton>
+          )}
+        </T>
+
+        {ipfsGateway !== IPFS_GATEWAY && (
+          <T id="resetToDefault">
+            {(message) => (
+              <FormSecondaryButton
+                type="button"
+                small
+                className="ml-4"
+                disabled={submitting}
+                onClick={handleResetClick}
+              >
+                {message}
+              </FormSecondaryButton>
+            )}
+          </T>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default IpfsGatewaySettings;
+
+function toHostname(value: string) {
+  return getHostname(value.includes("://") ? value : `https://${value}`);
+}
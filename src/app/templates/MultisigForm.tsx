@@ -0,0 +1,155 @@
+import React, { useCallback, useRef, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  isAddressValid,
+  isKTAddress,
+  loadMultisigStorage,
+  useAllAccounts,
+  useLocalSigners,
+  useTempleClient,
+  useTezos,
+} from "lib/temple/front";
+import { T, t } from "lib/i18n/react";
+import NoSpaceField from "app/atoms/NoSpaceField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import Alert from "app/atoms/Alert";
+
+type ImportMultisigFormData = {
+  contractAddress: string;
+};
+
+const MultisigForm: React.FC = () => {
+  const allAccounts = useAllAccounts();
+  const localSigners = useLocalSigners();
+  const tezos = useTezos();
+  const { importMultisigAccount } = useTempleClient();
+
+  const [error, setError] = useState<React.ReactNode>(null);
+
+  const {
+    watch,
+    handleSubmit,
+    errors,
+    control,
+    formState,
+    setValue,
+    triggerValidation,
+  } = useForm<ImportMultisigFormData>({ mode: "onChange" });
+
+  const contractAddressFieldRef = useRef<HTMLTextAreaElement>(null);
+  const contractAddress = watch("contractAddress");
+
+  const cleanContractAddressField = useCallback(() => {
+    setValue("contractAddress", "");
+    triggerValidation("contractAddress");
+  }, [setValue, triggerValidation]);
+
+  const validateContractAddress = useCallback(
+    (value?: any) => {
+      switch (false) {
+        case value?.length > 0:
+          return true;
+
+        case isAddressValid(value):
+          return t("invalidAddress");
+
+        case isKTAddress(value):
+          return t("notContractAddress");
+
+        case allAccounts.every(({ publicKeyHash }) => publicKeyHash !== value):
+          return t("contractAlreadyImported");
+
+        default:
+          return true;
+      }
+    },
+    [allAccounts]
+  );
+
+  const onSubmit = useCallback(
+    async ({ contractAddress }: ImportMultisigFormData) => {
+      if (formState.isSubmitting) return;
+
+      setError(null);
+      try {
+        const { threshold, keys } = await loadMultisigStorage(
+          tezos,
+          contractAddress
+        );
+
+        const owner = localSigners.find(({ publicKey }) =>
+          keys.includes(publicKey)
+        );
+        if (!owner) {
+          throw new Error(t("youAreNotMultisigSigner"));
+        }
+
+        const chainId = await tezos.rpc.getChainId();
+        await importMultisigAccount(
+          contractAddress,
+          chainId,
+          owner.account.publicKeyHash,
+          threshold,
+          keys
+        );
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [formState.isSubmitting, tezos, localSigners, importMultisigAccount]
+  );
+
+  return (
+    <form
+      className="w-full max-w-sm mx-auto my-8"
+      onSubmit={handleSubmit(onSubmit)}
+    >
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          description={error}
+          autoFocus
+          className="mb-6"
+        />
+      )}
+
+      <Controller
+        name="contractAddress"
+        as={<NoSpaceField ref={contractAddressFieldRef} />}
+        control={control}
+        rules={{
+          required: t("required"),
+          validate: validateContractAddress,
+        }}
+        onChange={([v]) => v}
+        onFocus={() => contractAddressFieldRef.current?.focus()}
+        textarea
+        rows={2}
+        cleanable={Boolean(contractAddress)}
+        onClean={cleanContractAddressField}
+        id="multisig-contract-address"
+        label={t("multisigContract")}
+        labelDescription={t("multisigContractInputDescription")}
+        placeholder={t("contractAddressInputPlaceholder")}
+        errorCaption={errors.contractAddress?.message}
+        style={{
+          resize: "none",
+        }}
+        containerClassName="mb-4"
+      />
+
+      <FormSubmitButton loading={formState.isSubmitting}>
+        <T id="importAccount" />
+      </FormSubmitButton>
+    </form>
+  );
+};
+
+export default MultisigForm;
@@ -0,0 +1,655 @@
+import * as React from "react";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+import {
+  TempleMultisigAccount,
+  TempleMultisigActionSummary,
+  TempleMultisigPayload,
+  TempleMultisigStorage,
+  addMultisigSignature,
+  countMultisigSignatures,
+  createMultisigPayload,
+  isAddressValid,
+  isKTAddress,
+  loadMultisigStorage,
+  mergeMultisigPayloads,
+  mutezToTz,
+  parseMultisigPayload,
+  serializeMultisigPayload,
+  toMultisigMainParameter,
+  tzToMutez,
+  useAccount,
+  useMultisigLocalSigners,
+  useTempleClient,
+  useTezos,
+  verifyMultisigPayload,
+} from "lib/temple/front";
+import { useRetryableSWR } from "lib/swr";
+import { T, t } from "lib/i18n/react";
+import useSafeState from "lib/ui/useSafeState";
+import { downloadFile } from "lib/ui/download";
+import OperationStatus from "app/templates/OperationStatus";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import HashShortView from "app/atoms/HashShortView";
+import CopyButton from "app/atoms/CopyButton";
+import Money from "app/atoms/Money";
+import Alert from "app/atoms/Alert";
+import { ReactComponent as OkIcon } from "app/icons/ok.svg";
+
+type MultisigActionType = TempleMultisigActionSummary["type"];
+
+type MultisigProposalProps = {
+  actionType: MultisigActionType;
+};
+
+const MultisigProposal: React.FC<MultisigProposalProps> = ({ actionType }) => {
+  const account = useAccount() as TempleMultisigAccount;
+  const tezos = useTezos();
+
+  const { data: storage, revalidate: revalidateStorage } = useRetryableSWR(
+    ["multisig-storage", tezos.checksum, account.publicKeyHash],
+    () => loadMultisigStorage(tezos, account.publicKeyHash),
+    { suspense: true, revalidateOnFocus: false }
+  );
+
+  const [payload, setPayload] = useSafeState<TempleMultisigPayload | null>(
+    null,
+    tezos.checksum
+  );
+  const [operation, setOperation] = useSafeState<any>(null, tezos.checksum);
+
+  const handleImport = React.useCallback(
+    async (imported: TempleMultisigPayload) => {
+      if (imported.contractAddress !== account.publicKeyHash) {
+        throw new Error(t("multisigPayloadForAnotherContract"));
+      }
+      await verifyMultisigPayload(tezos, imported);
+      setPayload(payload ? mergeMultisigPayloads(payload, imported) : imported);
+    },
+    [account.publicKeyHash, tezos, payload, setPayload]
+  );
+
+  const handleSubmitted = React.useCallback(
+    (op: any) => {
+      setOperation(op);
+      setPayload(null);
+      revalidateStorage();
+    },
+    [setOperation, setPayload, revalidateStorage]
+  );
+
+  return (
+    <>
+      {operation && (
+        <OperationStatus typeTitle={t("transaction")} operation={operation} />
+      )}
+
+      {payload ? (
+        <PayloadView
+          payload={payload}
+          storage={storage!}
+          onChange={setPayload}
+          onImport={handleImport}
+          onSubmitted={handleSubmitted}
+        />
+      ) : (
+        <>
+          <NewProposalForm
+            actionType={actionType}
+            onCreate={setPayload}
+            onBeforeCreate={() => setOperation(null)}
+          />
+
+          <PayloadImport onImport={handleImport} className="mt-8" />
+        </>
+      )}
+    </>
+  );
+};
+
+export default MultisigProposal;
+
+type NewProposalFormProps = {
+  actionType: MultisigActionType;
+  onCreate: (payload: TempleMultisigPayload) => void;
+  onBeforeCreate: () => void;
+};
+
+type NewProposalFormData = {
+  to: string;
+  amount: string;
+};
+
+const NewProposalForm: React.FC<NewProposalFormProps> = ({
+  actionType,
+  onCreate,
+  onBeforeCreate,
+}) => {
+  const account = useAccount();
+  const tezos = useTezos();
+
+  const {
+    register,
+    handleSubmit,
+    errors,
+    formState,
+  } = useForm<NewProposalFormData>();
+  const [error, setError] = useSafeState<React.ReactNode>(null);
+
+  const onSubmit = React.useCallback(
+    async ({ to, amount }: NewProposalFormData) => {
+      if (formState.isSubmitting) return;
+
+      setError(null);
+      onBeforeCreate();
+      try {
+        const summary: TempleMultisigActionSummary =
+          actionType === "transfer"
+            ? { type: "transfer", to, amount: tzToMutez(amount).toFixed() }
+            : { type: "delegate", delegate: to || null };
+
+        onCreate(
+          await createMultisigPayload(tezos, account.publicKeyHash, summary)
+        );
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [
+      formState.isSubmitting,
+      setError,
+      onBeforeCreate,
+      onCreate,
+      actionType,
+      tezos,
+      account.publicKeyHash,
+    ]
+  );
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <SectionTitle
+        title={t("newMultisigProposal")}
+        description={t("newMultisigProposalDescription")}
+      />
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-6"
+        />
+      )}
+
+      {actionType === "transfer" ? (
+        <>
+          <FormField
+            ref={register({
+              required: t("required"),
+              validate: (val) => isAddressValid(val) || t("invalidAddress"),
+            })}
+            name="to"
+            id="multisig-to"
+            label={t("recipient")}
+            placeholder={t("recipientInputPlaceholder")}
+            errorCaption={errors.to?.message}
+            containerClassName="mb-4"
+          />
+
+          <FormField
+            ref={register({
+              required: t("required"),
+              validate: (val) => +val > 0 || t("amountMustBePositive"),
+            })}
+            type="number"
+            min={0}
+            step="any"
+            name="amount"
+            id="multisig-amount"
+            label={t("amount")}
+            placeholder="0.00"
+            errorCaption={errors.amount?.message}
+            containerClassName="mb-4"
+          />
+        </>
+      ) : (
+        <FormField
+          ref={register({
+            validate: (val) =>
+              !val ||
+              (isAddressValid(val) && !isKTAddress(val)) ||
+              t("invalidAddress"),
+          })}
+          name="to"
+          id="multisig-delegate"
+          label={t("baker")}
+          labelDescription={t("multisigDelegateInputDescription")}
+          placeholder={t("bakerInputPlaceholder")}
+          errorCaption={errors.to?.message}
+          containerClassName="mb-4"
+        />
+      )}
+
+      <T id="createProposal">
+        {(message) => (
+          <FormSubmitButton loading={formState.isSubmitting}>
+            {message}
+          </FormSubmitButton>
+        )}
+      </T>
+    </form>
+  );
+};
+
+type PayloadImportProps = {
+  onImport: (payload: TempleMultisigPayload) => Promise<void>;
+  className?: string;
+};
+
+type PayloadImportFormData = {
+  payload: string;
+};
+
+const PayloadImport: React.FC<PayloadImportProps> = ({
+  onImport,
+  className,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    errors,
+    formState,
+    reset,
+  } = useForm<PayloadImportFormData>();
+  const [error, setError] = useSafeState<React.ReactNode>(null);
+
+  const importPayload = React.useCallback(
+    async (value: string) => {
+      setError(null);
+      try {
+        await onImport(parseMultisigPayload(value));
+        reset();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [setError, onImport, reset]
+  );
+
+  const onSubmit = React.useCallback(
+    ({ payload }: PayloadImportFormData) => importPayload(payload),
+    [importPayload]
+  );
+
+  const handleUploadChange = React.useCallback(
+    async (evt: React.ChangeEvent<HTMLInputElement>) => {
+      const file = evt.target.files?.[0];
+      evt.target.value = "";
+      if (file) {
+        await importPayload(await file.text());
+      }
+    },
+    [importPayload]
+  );
+
+  return (
+    <form className={className} onSubmit={handleSubmit(onSubmit)}>
+      <SectionTitle
+        title={t("importMultisigPayload")}
+        description={t("importMultisigPayloadDescription")}
+      />
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-6"
+        />
+      )}
+
+      <FormField
+        ref={register({ required: t("required") })}
+        textarea
+        rows={4}
+        name="payload"
+        id="multisig-payload"
+        placeholder="{...}"
+        spellCheck={false}
+        errorCaption={errors.payload?.message}
+        containerClassName="mb-4"
+        className="resize-none"
+      />
+
+      <div className="flex">
+        <T id="import">
+          {(message) => (
+            <FormSubmitButton loading={formState.isSubmitting} small>
+              {message}
+            </FormSubmitButton>
+          )}
+        </T>
+
+        <label className="relative ml-4">
+          <T id="importFromFile">
+            {(message) => (
+              <FormSecondaryButton type="button" small tabIndex={-1}>
+                {message}
+              </FormSecondaryButton>
+            )}
+          </T>
+          <input
+            className="absolute inset-0 w-full opacity-0 cursor-pointer"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleUploadChange}
+          />
+        </label>
+      </div>
+    </form>
+  );
+};
+
+type PayloadViewProps = {
+  payload: TempleMultisigPayload;
+  storage: TempleMultisigStorage;
+  onChange: (payload: TempleMultisigPayload | null) => void;
+  onImport: (payload: TempleMultisigPayload) => Promise<void>;
+  onSubmitted: (operation: any) => void;
+};
+
+const PayloadView: React.FC<PayloadViewProps> = ({
+  payload,
+  storage,
+  onChange,
+  onImport,
+  onSubmitted,
+}) => {
+  const tezos = useTezos();
+  const { createTaquitoSigner } = useTempleClient();
+  const localSigners = useMultisigLocalSigners(storage.keys);
+
+  const [signingKey, setSigningKey] = useSafeState<string | null>(null);
+  const [submitting, setSubmitting] = useSafeState(false);
+  const [error, setError] = useSafeState<React.ReactNode>(null);
+
+  const signaturesCount = countMultisigSignatures(payload, storage.keys);
+  const outdated = payload.counter !== storage.counter;
+  const canSubmit = !outdated && signaturesCount >= storage.threshold;
+
+  const serialized = React.useMemo(() => serializeMultisigPayload(payload), [
+    payload,
+  ]);
+
+  const handleError = React.useCallback(
+    async (err: any) => {
+      if (err.message === "Declined") {
+        return;
+      }
+
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      // Human delay
+      await new Promise((r) => setTimeout(r, 300));
+      setError(err.message);
+    },
+    [setError]
+  );
+
+  const sign = React.useCallback(
+    async (signerPkh: string, publicKey: string) => {
+      if (signingKey) return;
+
+      setError(null);
+      setSigningKey(publicKey);
+      try {
+        const { prefixSig } = await createTaquitoSigner(signerPkh).sign(
+          payload.bytes
+        );
+        onChange(addMultisigSignature(payload, publicKey, prefixSig));
+      } catch (err) {
+        await handleError(err);
+      }
+      setSigningKey(null);
+    },
+    [
+      signingKey,
+      setError,
+      setSigningKey,
+      createTaquitoSigner,
+      payload,
+      onChange,
+      handleError,
+    ]
+  );
+
+  const handleSubmitClick = React.useCallback(async () => {
+    if (submitting) return;
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      const op = await tezos.wallet
+        .transfer({
+          to: payload.contractAddress,
+          amount: 0,
+          parameter: toMultisigMainParameter(payload, storage.keys),
+        })
+        .send();
+      onSubmitted(op);
+    } catch (err) {
+      await handleError(err);
+    }
+    setSubmitting(false);
+  }, [
+    submitting,
+    setError,
+    setSubmitting,
+    tezos,
+    payload,
+    storage.keys,
+    onSubmitted,
+    handleError,
+  ]);
+
+  const handleDownloadClick = React.useCallback(() => {
+    downloadFile(
+      serialized,
+      `multisig-${payload.contractAddress}-${payload.counter}.json`
+    );
+  }, [serialized, payload]);
+
+  const handleDiscardClick = React.useCallback(() => onChange(null), [
+    onChange,
+  ]);
+
+  return (
+    <div>
+      <SectionTitle
+        title={t("multisigProposal")}
+        description={<ActionSummary summary={payload.summary} />}
+      />
+
+      {outdated && (
+        <Alert
+          type="warn"
+          title={t("attentionExclamation")}
+          description={<T id="multisigPayloadOutdated" />}
+          className="mb-4"
+        />
+      )}
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-4"
+        />
+      )}
+
+      <div className="mb-2 text-sm text-gray-700">
+        <T
+          id="multisigSignaturesCount"
+          substitutions={[String(signaturesCount), String(storage.threshold)]}
+        />
+      </div>
+
+      <div
+        className={classNames(
+          "mb-4",
+          "rounded-md overflow-hidden",
+          "border-2 bg-gray-100",
+          "text-gray-700 text-sm leading-tight"
+        )}
+      >
+        {storage.keys.map((key, i, arr) => {
+          const signed = key in payload.signatures;
+          const localSigner = localSigners.find((s) => s.publicKey === key);
+
+          return (
+            <div
+              key={key}
+              className={classNames(
+                "flex items-center",
+                "px-2 py-1",
+                i !== arr.length - 1 && "border-b border-gray-200"
+              )}
+            >
+              <div className="flex flex-col">
+                <span className="font-mono">
+                  <HashShortView hash={key} />
+                </span>
+                {localSigner && (
+                  <span className="text-xs text-gray-600">
+                    {localSigner.account.name}
+                  </span>
+                )}
+              </div>
+              <div className="flex-1" />
+              {signed ? (
+                <OkIcon
+                  className="h-4 w-auto stroke-2 mx-2"
+                  style={{ stroke: "#777" }}
+                />
+              ) : (
+                localSigner && (
+                  <T id="sign">
+                    {(message) => (
+                      <FormSecondaryButton
+                        type="button"
+                        small
+                        loading={signingKey === key}
+                        disabled={outdated || Boolean(signingKey)}
+                        onClick={() =>
+                          sign(localSigner.account.publicKeyHash, key)
+                        }
+                      >
+                        {message}
+                      </FormSecondaryButton>
+                    )}
+                  </T>
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mb-8 flex items-center">
+        <CopyButton text={serialized} type="link">
+          <T id="copyMultisigPayload" />
+        </CopyButton>
+        <button
+          type="button"
+          className="ml-4 text-xs text-blue-600 hover:underline"
+          onClick={handleDownloadClick}
+        >
+          <T id="downloadMultisigPayload" />
+        </button>
+        <div className="flex-1" />
+        <button
+          type="button"
+          className="text-xs text-red-600 hover:underline"
+          onClick={handleDiscardClick}
+        >
+          <T id="discard" />
+        </button>
+      </div>
+
+      <T id="submitMultisigProposal">
+        {(message) => (
+          <FormSubmitButton
+            type="button"
+            loading={submitting}
+            disabled={!canSubmit}
+            onClick={handleSubmitClick}
+          >
+            {message}
+          </FormSubmitButton>
+        )}
+      </T>
+
+      <PayloadImport onImport={onImport} className="mt-8" />
+    </div>
+  );
+};
+
+const ActionSummary: React.FC<{ summary: TempleMultisigActionSummary }> = ({
+  summary,
+}) => {
+  switch (summary.type) {
+    case "transfer":
+      return (
+        <>
+          <T id="transfer" />: <Money>{mutezToTz(summary.amount)}</Money> ꜩ →{" "}
+          <HashShortView hash={summary.to} />
+        </>
+      );
+
+    case "delegate":
+      return summary.delegate ? (
+        <>
+          <T id="delegate" />: <HashShortView hash={summary.delegate} />
+        </>
+      ) : (
+        <T id="resetDelegate" />
+      );
+  }
+};
+
+const SectionTitle: React.FC<{
+  title: React.ReactNode;
+  description: React.ReactNode;
+}> = ({ title, description }) => (
+  <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+    <span className="text-base font-semibold text-gray-700">{title}</span>
+
+    <span
+      className="mt-1 text-xs font-light text-gray-600"
+      style={{ maxWidth: "90%" }}
+    >
+      {description}
+    </span>
+  </h2>
+);
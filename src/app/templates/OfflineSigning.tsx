@@ -0,0 +1,682 @@
+import * as React from "react";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+import { QRCode } from "react-qr-svg";
+import { localForger } from "@taquito/local-forging";
+import {
+  TempleAccountType,
+  TempleDAppSignPayload,
+  TempleUnsignedOperation,
+  isAddressValid,
+  isKTAddress,
+  parseOfflineSignature,
+  parseUnsignedOperation,
+  serializeOfflinePayload,
+  useAccount,
+  useNetwork,
+  useTempleClient,
+} from "lib/temple/front";
+import { T, t } from "lib/i18n/react";
+import useSafeState from "lib/ui/useSafeState";
+import { downloadFile } from "lib/ui/download";
+import ViewsSwitcher from "app/templates/ViewsSwitcher";
+import OperationView from "app/templates/OperationView";
+import OperationStatus from "app/templates/OperationStatus";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import CopyButton from "app/atoms/CopyButton";
+import Alert from "app/atoms/Alert";
+import ConfirmLedgerOverlay from "app/atoms/ConfirmLedgerOverlay";
+import { ReactComponent as EditIcon } from "app/icons/edit.svg";
+import { ReactComponent as KeyIcon } from "app/icons/key.svg";
+import { ReactComponent as RocketIcon } from "app/icons/rocket.svg";
+import { ReactComponent as SendIcon } from "app/icons/send.svg";
+import { ReactComponent as AppsIcon } from "app/icons/apps.svg";
+
+const MODES = [
+  {
+    key: "prepare",
+    name: t("prepare"),
+    Icon: EditIcon,
+  },
+  {
+    key: "sign",
+    name: t("sign"),
+    Icon: KeyIcon,
+  },
+  {
+    key: "broadcast",
+    name: t("broadcast"),
+    Icon: RocketIcon,
+  },
+];
+
+// Byte mode capacity of the largest QR code with low error correction
+const QR_MAX_PAYLOAD_LENGTH = 2_953;
+
+const OPERATION_KINDS = [
+  {
+    key: "transaction",
+    name: t("transfer"),
+    Icon: SendIcon,
+  },
+  {
+    key: "delegation",
+    name: t("delegate"),
+    Icon: AppsIcon,
+  },
+];
+
+const OfflineSigning: React.FC = () => {
+  const [mode, setMode] = useSafeState(MODES[0]);
+
+  return (
+    <div className="w-full max-w-sm p-2 mx-auto">
+      <div className="mb-6 flex justify-center">
+        <ViewsSwitcher activeItem={mode} items={MODES} onChange={setMode} />
+      </div>
+
+      {(() => {
+        switch (mode.key) {
+          case "prepare":
+            return <PrepareOperation />;
+
+          case "sign":
+            return <SignOperation />;
+
+          case "broadcast":
+            return <BroadcastOperation />;
+
+          default:
+            return null;
+        }
+      })()}
+    </div>
+  );
+};
+
+export default OfflineSigning;
+
+type PrepareOperationFormData = {
+  to: string;
+  amount: string;
+};
+
+const PrepareOperation: React.FC = () => {
+  const account = useAccount();
+  const network = useNetwork();
+  const { forgeOperations } = useTempleClient();
+
+  const [kind, setKind] = useSafeState(OPERATION_KINDS[0]);
+  const [
+    operation,
+    setOperation,
+  ] = useSafeState<TempleUnsignedOperation | null>(null, account.publicKeyHash);
+  const [error, setError] = useSafeState<React.ReactNode>(null);
+
+  const {
+    register,
+    handleSubmit,
+    errors,
+    formState,
+    reset,
+  } = useForm<PrepareOperationFormData>();
+
+  const implicitAccount =
+    account.type !== TempleAccountType.ManagedKT &&
+    account.type !== TempleAccountType.Multisig;
+
+  const onSubmit = React.useCallback(
+    async ({ to, amount }: PrepareOperationFormData) => {
+      if (formState.isSubmitting) return;
+
+      setError(null);
+      try {
+        const opParams =
+          kind.key === "transaction"
+            ? { kind: "transaction", to, amount: +amount }
+            : { kind: "delegation", delegate: to || undefined };
+
+        setOperation(
+          await forgeOperations(account.publicKeyHash, network.rpcBaseURL, [
+            opParams,
+          ])
+        );
+        reset();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [
+      formState.isSubmitting,
+      setError,
+      kind.key,
+      setOperation,
+      forgeOperations,
+      account.publicKeyHash,
+      network.rpcBaseURL,
+      reset,
+    ]
+  );
+
+  if (!implicitAccount) {
+    return (
+      <Alert
+        type="warn"
+        title={t("attentionExclamation")}
+        description={<T id="offlineSigningImplicitOnly" />}
+      />
+    );
+  }
+
+  if (operation) {
+    return (
+      <PayloadExport
+        title={t("unsignedOperation")}
+        description={t("unsignedOperationDescription")}
+        payload={serializeOfflinePayload(operation)}
+        fileName={`unsigned-operation-${operation.sourcePkh}.json`}
+        onDone={() => setOperation(null)}
+      />
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <div className="mb-4 flex items-start">
+        <SectionTitle
+          title={t("prepareOperation")}
+          description={t("prepareOperationDescription")}
+        />
+
+        <ViewsSwitcher
+          activeItem={kind}
+          items={OPERATION_KINDS}
+          onChange={setKind}
+        />
+      </div>
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-6"
+        />
+      )}
+
+      {kind.key === "transaction" ? (
+        <>
+          <FormField
+            ref={register({
+              required: t("required"),
+              validate: (val) => isAddressValid(val) || t("invalidAddress"),
+            })}
+            name="to"
+            id="offline-to"
+            label={t("recipient")}
+            placeholder={t("recipientInputPlaceholder")}
+            errorCaption={errors.to?.message}
+            containerClassName="mb-4"
+          />
+
+          <FormField
+            ref={register({
+              required: t("required"),
+              validate: (val) => +val > 0 || t("amountMustBePositive"),
+            })}
+            type="number"
+            min={0}
+            step="any"
+            name="amount"
+            id="offline-amount"
+            label={t("amount")}
+            placeholder="0.00"
+            errorCaption={errors.amount?.message}
+            containerClassName="mb-4"
+          />
+        </>
+      ) : (
+        <FormField
+          ref={register({
+            validate: (val) =>
+              !val ||
+              (isAddressValid(val) && !isKTAddress(val)) ||
+              t("invalidAddress"),
+          })}
+          name="to"
+          id="offline-delegate"
+          label={t("baker")}
+          labelDescription={t("offlineDelegateInputDescription")}
+          placeholder={t("bakerInputPlaceholder")}
+          errorCaption={errors.to?.message}
+          containerClassName="mb-4"
+        />
+      )}
+
+      <T id="forgeOperation">
+        {(message) => (
+          <FormSubmitButton loading={formState.isSubmitting}>
+            {message}
+          </FormSubmitButton>
+        )}
+      </T>
+    </form>
+  );
+};
+
+type OperationToSign = {
+  operation: TempleUnsignedOperation;
+  payload: TempleDAppSignPayload;
+};
+
+const SignOperation: React.FC = () => {
+  const account = useAccount();
+  const network = useNetwork();
+  const { signOfflineOperation } = useTempleClient();
+
+  const [toSign, setToSign] = useSafeState<OperationToSign | null>(
+    null,
+    account.publicKeyHash
+  );
+  const [signature, setSignature] = useSafeState<string | null>(
+    null,
+    account.publicKeyHash
+  );
+  const [signing, setSigning] = useSafeState(false);
+  const [error, setError] = useSafeState<React.ReactNode>(null);
+
+  const handleImport = React.useCallback(
+    async (value: string) => {
+      const operation = parseUnsignedOperation(value);
+      if (operation.sourcePkh !== account.publicKeyHash) {
+        throw new Error(t("offlineOperationSourceMismatch"));
+      }
+
+      let preview: any = null;
+      try {
+        preview = await localForger.parse(operation.bytes);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+      }
+
+      setSignature(null);
+      setToSign({
+        operation,
+        payload: {
+          type: "sign",
+          origin: "",
+          networkRpc: network.rpcBaseURL,
+          appMeta: { name: t("offlineSigning") },
+          sourcePkh: operation.sourcePkh,
+          payload: operation.bytes,
+          payloadType: preview ? "operation" : "raw",
+          preview,
+        },
+      });
+    },
+    [account.publicKeyHash, network.rpcBaseURL, setSignature, setToSign]
+  );
+
+  const handleSignClick = React.useCallback(async () => {
+    if (signing || !toSign) return;
+
+    setError(null);
+    setSigning(true);
+    try {
+      const result = await signOfflineOperation(toSign.operation);
+      setSignature(serializeOfflinePayload(result));
+      setToSign(null);
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.error(err);
+      }
+
+      // Human delay
+      await new Promise((r) => setTimeout(r, 300));
+      setError(err.message);
+    }
+    setSigning(false);
+  }, [
+    signing,
+    toSign,
+    setError,
+    setSigning,
+    signOfflineOperation,
+    setSignature,
+    setToSign,
+  ]);
+
+  if (signature) {
+    return (
+      <PayloadExport
+        title={t("operationSignature")}
+        description={t("operationSignatureDescription")}
+        payload={signature}
+        fileName={`operation-signature-${account.publicKeyHash}.json`}
+        onDone={() => setSignature(null)}
+      />
+    );
+  }
+
+  if (toSign) {
+    return (
+      <div className="relative">
+        {error && (
+          <Alert
+            type="error"
+            title={t("error")}
+            autoFocus
+            description={error}
+            className="mb-4"
+          />
+        )}
+
+        <div className="mb-6">
+          <OperationView
+            payload={toSign.payload}
+            networkRpc={network.rpcBaseURL}
+          />
+        </div>
+
+        <div className="flex items-center">
+          <T id="cancel">
+            {(message) => (
+              <FormSecondaryButton
+                type="button"
+                disabled={signing}
+                onClick={() => setToSign(null)}
+              >
+                {message}
+              </FormSecondaryButton>
+            )}
+          </T>
+
+          <div className="flex-1" />
+
+          <T id="signAction">
+            {(message) => (
+              <FormSubmitButton
+                type="button"
+                loading={signing}
+                onClick={handleSignClick}
+              >
+                {message}
+              </FormSubmitButton>
+            )}
+          </T>
+        </div>
+
+        <ConfirmLedgerOverlay
+          displayed={signing && account.type === TempleAccountType.Ledger}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <PayloadImport
+      title={t("importUnsignedOperation")}
+      description={t("importUnsignedOperationDescription")}
+      onImport={handleImport}
+    />
+  );
+};
+
+const BroadcastOperation: React.FC = () => {
+  const network = useNetwork();
+  const { broadcastOfflineOperation } = useTempleClient();
+
+  const [operation, setOperation] = useSafeState<{ hash: string } | null>(
+    null,
+    network.id
+  );
+
+  const handleImport = React.useCallback(
+    async (value: string) => {
+      setOperation(null);
+      const hash = await broadcastOfflineOperation(
+        network.rpcBaseURL,
+        parseOfflineSignature(value)
+      );
+      setOperation({ hash });
+    },
+    [setOperation, broadcastOfflineOperation, network.rpcBaseURL]
+  );
+
+  return (
+    <>
+      {operation && (
+        <OperationStatus typeTitle={t("transaction")} operation={operation} />
+      )}
+
+      <PayloadImport
+        title={t("importOperationSignature")}
+        description={t("importOperationSignatureDescription")}
+        submitTitle={t("broadcastOperation")}
+        onImport={handleImport}
+      />
+    </>
+  );
+};
+
+type PayloadExportProps = {
+  title: string;
+  description: string;
+  payload: string;
+  fileName: string;
+  onDone: () => void;
+};
+
+const PayloadExport: React.FC<PayloadExportProps> = ({
+  title,
+  description,
+  payload,
+  fileName,
+  onDone,
+}) => {
+  const handleDownloadClick = React.useCallback(() => {
+    downloadFile(payload, fileName);
+  }, [payload, fileName]);
+
+  return (
+    <div>
+      <SectionTitle title={title} description={description} />
+
+      {payload.length <= QR_MAX_PAYLOAD_LENGTH ? (
+        <div className="mb-4 flex justify-center">
+          <div
+            className="p-1 bg-gray-100 border-2 border-gray-300 rounded"
+            style={{ maxWidth: "80%" }}
+          >
+            <QRCode
+              bgColor="#f7fafc"
+              fgColor="#000000"
+              level="L"
+              style={{ width: "100%" }}
+              value={payload}
+            />
+          </div>
+        </div>
+      ) : (
+        <Alert
+          type="warn"
+          title={t("attentionExclamation")}
+          description={<T id="offlinePayloadTooLargeForQR" />}
+          className="mb-4"
+        />
+      )}
+
+      <FormField
+        textarea
+        rows={4}
+        id="offline-payload-export"
+        value={payload}
+        spellCheck={false}
+        readOnly
+        containerClassName="mb-2"
+        className="resize-none"
+      />
+
+      <div className="mb-6 flex items-center">
+        <CopyButton text={payload} type="link">
+          <T id="copyToClipboard" />
+        </CopyButton>
+        <button
+          type="button"
+          className="ml-4 text-xs text-blue-600 hover:underline"
+          onClick={handleDownloadClick}
+        >
+          <T id="downloadFile" />
+        </button>
+      </div>
+
+      <T id="done">
+        {(message) => (
+          <FormSecondaryButton type="button" onClick={onDone}>
+            {message}
+          </FormSecondaryButton>
+        )}
+      </T>
+    </div>
+  );
+};
+
+type PayloadImportProps = {
+  title: string;
+  description: string;
+  submitTitle?: string;
+  onImport: (value: string) => Promise<void>;
+};
+
+type PayloadImportFormData = {
+  payload: string;
+};
+
+const PayloadImport: React.FC<PayloadImportProps> = ({
+  title,
+  description,
+  submitTitle,
+  onImport,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    errors,
+    formState,
+    reset,
+  } = useForm<PayloadImportFormData>();
+  const [error, setError] = useSafeState<React.ReactNode>(null);
+
+  const importPayload = React.useCallback(
+    async (value: string) => {
+      setError(null);
+      try {
+        await onImport(value);
+        reset();
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay
+        await new Promise((r) => setTimeout(r, 300));
+        setError(err.message);
+      }
+    },
+    [setError, onImport, reset]
+  );
+
+  const onSubmit = React.useCallback(
+    ({ payload }: PayloadImportFormData) => importPayload(payload),
+    [importPayload]
+  );
+
+  const handleUploadChange = React.useCallback(
+    async (evt: React.ChangeEvent<HTMLInputElement>) => {
+      const file = evt.target.files?.[0];
+      evt.target.value = "";
+      if (file) {
+        await importPayload(await file.text());
+      }
+    },
+    [importPayload]
+  );
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <SectionTitle title={title} description={description} />
+
+      {error && (
+        <Alert
+          type="error"
+          title={t("error")}
+          autoFocus
+          description={error}
+          className="mb-6"
+        />
+      )}
+
+      <FormField
+        ref={register({ required: t("required") })}
+        textarea
+        rows={4}
+        name="payload"
+        id="offline-payload-import"
+        placeholder="{...}"
+        spellCheck={false}
+        errorCaption={errors.payload?.message}
+        containerClassName="mb-4"
+        className="resize-none"
+      />
+
+      <div className="flex">
+        <FormSubmitButton loading={formState.isSubmitting} small>
+          {submitTitle ?? t("import")}
+        </FormSubmitButton>
+
+        <label className="relative ml-4">
+          <T id="importFromFile">
+            {(message) => (
+              <FormSecondaryButton type="button" small tabIndex={-1}>
+                {message}
+              </FormSecondaryButton>
+            )}
+          </T>
+          <input
+            className="absolute inset-0 w-full opacity-0 cursor-pointer"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleUploadChange}
+          />
+        </label>
+      </div>
+    </form>
+  );
+};
+
+const SectionTitle: React.FC<{
+  title: React.ReactNode;
+  description: React.ReactNode;
+}> = ({ title, description }) => (
+  <h2 className={classNames("mb-4", "leading-tight", "flex flex-col flex-1")}>
+    <span className="text-base font-semibold text-gray-700">{title}</span>
+
+    <span
+      className="mt-1 text-xs font-light text-gray-600"
+      style={{ maxWidth: "90%" }}
+    >
+      {description}
+    </span>
+  </h2>
+);
@@ -13,6 +13,7 @@ import {
 import Identicon from "app/atoms/Identicon";
 import OpenInExplorerChip from "app/atoms/OpenInExplorerChip";
 import HashChip from "app/templates/HashChip";
+import AddressChip from "app/templates/AddressChip";
 import { ReactComponent as ClipboardIcon } from "app/icons/clipboard.svg";
 import Money from "app/atoms/Money";
 import InUSD from "app/templates/InUSD";
@@ -355,7 +356,7 @@ const OperationArgumentDisplay = React.memo<OperationArgumentDisplayProps>(
         id={i18nKey}
         substitutions={arg.map((value, index) => (
           <>
-            <HashChip
+            <AddressChip
               className="text-blue-600 opacity-75"
               key={index}
               hash={value}
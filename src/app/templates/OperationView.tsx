@@ -3,7 +3,10 @@ import React from "react";
 import { T, t } from "lib/i18n/react";
 import {
   TempleDAppPayload,
+  TempleDAppSignPayload,
+  TempleSignPayloadType,
   TEZ_ASSET,
+  isRiskySignPayload,
   tryParseExpenses,
   useAccount,
   TempleAssetType,
@@ -14,8 +17,13 @@ import ViewsSwitcher from "app/templates/ViewsSwitcher";
 import { ReactComponent as EyeIcon } from "app/icons/eye.svg";
 import { ReactComponent as CodeAltIcon } from "app/icons/code-alt.svg";
 import { ReactComponent as HashIcon } from "app/icons/hash.svg";
+import { ReactComponent as LineChartIcon } from "app/icons/line-chart.svg";
+import { ReactComponent as ListIcon } from "app/icons/list.svg";
+import Alert from "app/atoms/Alert";
 import RawPayloadView from "app/templates/RawPayloadView";
 import ExpensesView from "app/templates/ExpensesView";
+import SimulationView from "app/templates/SimulationView";
+import ContractCallView from "app/templates/ContractCallView";
 
 type OperationViewProps = {
   payload: TempleDAppPayload;
@@ -83,23 +91,57 @@ const OperationView: React.FC<OperationViewProps> = ({
       : [];
 
     if (payload.type === "confirm_operations") {
-      return [...prettyViewFormats, rawFormat];
+      const simulationFormats = networkRpc
+        ? [
+            {
+              key: "simulation",
+              name: t("simulation"),
+              Icon: LineChartIcon,
+            },
+          ]
+        : [];
+      const callFormats =
+        networkRpc && hasContractCalls(payload.opParams)
+          ? [
+              {
+                key: "call",
+                name: t("contractCall"),
+                Icon: ListIcon,
+              },
+            ]
+          : [];
+      return [
+        ...simulationFormats,
+        ...prettyViewFormats,
+        ...callFormats,
+        rawFormat,
+      ];
     }
 
     if (payload.type === "connect") {
       return [];
     }
 
-    return [
-      ...prettyViewFormats,
-      rawFormat,
-      {
-        key: "bytes",
-        name: t("bytes"),
-        Icon: HashIcon,
-      },
-    ];
-  }, [payload.type, expensesData]);
+    const bytesFormat = {
+      key: "bytes",
+      name: t("bytes"),
+      Icon: HashIcon,
+    };
+
+    switch (payload.payloadType) {
+      case "operation":
+        return [...prettyViewFormats, rawFormat, bytesFormat];
+
+      case "micheline":
+        return [{ ...rawFormat, name: t("micheline") }, bytesFormat];
+
+      case "message":
+        return [{ key: "raw", name: t("message"), Icon: EyeIcon }, bytesFormat];
+
+      default:
+        return [bytesFormat];
+    }
+  }, [payload, expensesData, networkRpc]);
 
   const [spFormat, setSpFormat] = React.useState(signPayloadFormats[0]);
 
@@ -131,6 +173,8 @@ const OperationView: React.FC<OperationViewProps> = ({
           />
         </h2>
 
+        <SignPayloadNote payload={payload} />
+
         <OperationsBanner
           opParams={payload.preview}
           className={classNames(spFormat.key !== "raw" && "hidden")}
@@ -154,13 +198,17 @@ const OperationView: React.FC<OperationViewProps> = ({
 
   if (payload.type === "sign") {
     return (
-      <RawPayloadView
-        label={t("payloadToSign")}
-        rows={6}
-        payload={payload.payload}
-        style={{ marginBottom: 0 }}
-        fieldWrapperBottomMargin={false}
-      />
+      <div className="flex flex-col w-full">
+        <SignPayloadNote payload={payload} />
+
+        <RawPayloadView
+          label={t("payloadToSign")}
+          rows={6}
+          payload={payload.payload}
+          style={{ marginBottom: 0 }}
+          fieldWrapperBottomMargin={false}
+        />
+      </div>
     );
   }
 
@@ -202,6 +250,21 @@ const OperationView: React.FC<OperationViewProps> = ({
         <div className={classNames(spFormat.key !== "preview" && "hidden")}>
           <ExpensesView expenses={expensesData} />
         </div>
+
+        {spFormat.key === "call" && networkRpc && (
+          <ContractCallView
+            opParams={payload.opParams}
+            networkRpc={networkRpc}
+          />
+        )}
+
+        {spFormat.key === "simulation" && networkRpc && (
+          <SimulationView
+            sourcePkh={payload.sourcePkh}
+            networkRpc={networkRpc}
+            opParams={payload.opParams}
+          />
+        )}
       </div>
     );
   }
@@ -210,3 +273,47 @@ const OperationView: React.FC<OperationViewProps> = ({
 };
 
 export default OperationView;
+
+const SignPayloadNote: React.FC<{ payload: TempleDAppSignPayload }> = ({
+  payload,
+}) => {
+  if (payload.payloadType === "raw") {
+    return (
+      <Alert
+        type="error"
+        title={t("opaqueBytesToSign")}
+        description={t("opaqueBytesToSignDescription")}
+        className="mb-4"
+      />
+    );
+  }
+
+  if (payload.payloadType === "operation" && isRiskySignPayload(payload)) {
+    return (
+      <Alert
+        title={t("operationToSign")}
+        description={t("operationToSignDescription")}
+        className="mb-4"
+      />
+    );
+  }
+
+  return (
+    <T id={SIGN_PAYLOAD_DESCRIPTIONS[payload.payloadType]}>
+      {(message) => (
+        <p className="mb-3 text-xs font-light text-gray-600">{message}</p>
+      )}
+    </T>
+  );
+};
+
+const SIGN_PAYLOAD_DESCRIPTIONS: Record<TempleSignPayloadType, string> = {
+  operation: "operationBytesToSignDescription",
+  micheline: "michelineToSignDescription",
+  message: "tezosMessageToSignDescription",
+  raw: "opaqueBytesToSignDescription",
+};
+
+function hasContractCalls(opParams: any[]) {
+  return opParams.some((op) => op?.kind === "transaction" && op.parameter);
+}
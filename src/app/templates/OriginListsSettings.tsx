@@ -0,0 +1,169 @@
+import React, { useCallback } from "react";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+import {
+  useStorage,
+  getHostname,
+  isDomainValid,
+  TemplePhishingLists,
+  TempleSharedStorageKey,
+  DEFAULT_PHISHING_LISTS,
+} from "lib/temple/front";
+import { T, t, TProps } from "lib/i18n/react";
+import { ReactComponent as CloseIcon } from "app/icons/close.svg";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+import FormSecondaryButton from "app/atoms/FormSecondaryButton";
+import Name from "app/atoms/Name";
+
+type OriginListFormData = {
+  domain: string;
+};
+
+type ListKey = keyof TemplePhishingLists;
+
+const LISTS: { key: ListKey; i18nKey: TProps["id"] }[] = [
+  { key: "blocklist", i18nKey: "blockedSites" },
+  { key: "allowlist", i18nKey: "trustedSites" },
+  { key: "overrides", i18nKey: "acceptedRiskSites" },
+];
+
+const OriginListsSettings: React.FC = () => {
+  const [lists, setLists] = useStorage<TemplePhishingLists>(
+    TempleSharedStorageKey.PhishingLists,
+    DEFAULT_PHISHING_LISTS
+  );
+
+  const {
+    register,
+    handleSubmit,
+    errors,
+    reset,
+  } = useForm<OriginListFormData>();
+
+  const addTo = useCallback(
+    (key: "blocklist" | "allowlist") =>
+      handleSubmit(({ domain }) => {
+        const hostname = toHostname(domain);
+        setLists((current) => ({
+          ...current,
+          blocklist: current.blocklist.filter((d) => d !== hostname),
+          allowlist: current.allowlist.filter((d) => d !== hostname),
+          [key]: [...current[key].filter((d) => d !== hostname), hostname],
+        }));
+        reset();
+      }),
+    [handleSubmit, setLists, reset]
+  );
+
+  const handleRemoveClick = useCallback(
+    (key: ListKey, value: string) =>
+      setLists((current) => ({
+        ...current,
+        [key]: current[key].filter((v) => v !== value),
+      })),
+    [setLists]
+  );
+
+  return (
+    <div className="mb-6">
+      <h2 className="mb-2">
+        <T id="sitesLists">
+          {(message) => (
+            <span className="text-base font-semibold text-gray-700">
+              {message}
+            </span>
+          )}
+        </T>
+      </h2>
+
+      <form onSubmit={addTo("blocklist")}>
+        <FormField
+          ref={register({
+            required: t("required"),
+            validate: (value: string) =>
+              isDomainValid(toHostname(value)) || t("invalidDomain"),
+          })}
+          id="origin-lists-domain"
+          name="domain"
+          label={t("siteDomain")}
+          labelDescription={t("siteDomainDescription")}
+          placeholder="example.com"
+          errorCaption={errors.domain?.message}
+          containerClassName="mb-4"
+        />
+
+        <div className="flex items-center mb-4">
+          <T id="block">
+            {(message) => <FormSubmitButton small>{message}</FormSubmitButton>}
+          </T>
+
+          <T id="trust">
+            {(message) => (
+              <FormSecondaryButton
+                type="button"
+                small
+                className="ml-4"
+                onClick={addTo("allowlist")}
+              >
+                {message}
+              </FormSecondaryButton>
+            )}
+          </T>
+        </div>
+      </form>
+
+      {LISTS.map(
+        ({ key, i18nKey }) =>
+          lists[key].length > 0 && (
+            <div key={key} className="mb-4">
+              <T id={i18nKey}>
+                {(message) => (
+                  <h3 className="mb-1 text-sm font-medium text-gray-700">
+                    {message}
+                  </h3>
+                )}
+              </T>
+
+              <div className="flex flex-col border rounded-md">
+                {lists[key].map((value, i) => (
+                  <div
+                    key={value}
+                    className={classNames(
+                      "flex items-center px-2 py-1",
+                      i > 0 && "border-t border-gray-200"
+                    )}
+                  >
+                    <Name className="text-xs text-gray-700">{value}</Name>
+
+                    <div className="flex-1" />
+
+                    <button
+                      type="button"
+                      className={classNames(
+                        "flex-none p-1",
+                        "text-gray-500 hover:text-gray-600",
+                        "transition ease-in-out duration-200"
+                      )}
+                      onClick={() => handleRemoveClick(key, value)}
+                    >
+                      <CloseIcon
+                        className="w-auto h-4 stroke-current stroke-2"
+                        title={t("delete")}
+                      />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+      )}
+    </div>
+  );
+};
+
+export default OriginListsSettings;
+
+function toHostname(value: string) {
+  return getHostname(value.includes("://") ? value : `https://${value}`);
+}
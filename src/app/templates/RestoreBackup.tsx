@@ -0,0 +1,206 @@
+import * as React from "react";
+import classNames from "clsx";
+import { useForm } from "react-hook-form";
+import { TempleBackup, useTempleClient } from "lib/temple/front";
+import { T, t } from "lib/i18n/react";
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+
+interface FormData {
+  password: string;
+}
+
+const RestoreBackup: React.FC = () => {
+  const { locked, restoreBackup, setSeedRevealed } = useTempleClient();
+
+  const {
+    register,
+    handleSubmit,
+    errors,
+    setError,
+    clearError,
+    formState,
+  } = useForm<FormData>();
+  const submitting = formState.isSubmitting;
+
+  const [backup, setBackup] = React.useState<TempleBackup | null>(null);
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [fileError, setFileError] = React.useState<string | null>(null);
+
+  const handleUploadChange = React.useCallback(
+    async (evt) => {
+      const file: File | undefined = evt.target.files?.[0];
+      setBackup(null);
+      setFileName(null);
+      setFileError(null);
+      if (!file) return;
+
+      try {
+        const text = await new Promise<string>((res, rej) => {
+          const reader = new FileReader();
+
+          reader.onerror = () => {
+            rej();
+            reader.abort();
+          };
+
+          reader.onload = (readEvt: any) => {
+            res(readEvt.target.result);
+          };
+
+          reader.readAsText(file);
+        });
+
+        setBackup(toBackup(text));
+        setFileName(file.name);
+      } catch (_err) {
+        setFileError(t("unexpectedOrInvalidFile"));
+      }
+    },
+    [setBackup, setFileName, setFileError]
+  );
+
+  const onSubmit = React.useCallback(
+    async ({ password }: FormData) => {
+      if (submitting) return;
+
+      if (!backup) {
+        setFileError(t("required"));
+        return;
+      }
+
+      clearError("password");
+      try {
+        await restoreBackup(backup, password);
+        setSeedRevealed(true);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+
+        // Human delay.
+        await new Promise((res) => setTimeout(res, 300));
+        setError("password", SUBMIT_ERROR_TYPE, err.message);
+      }
+    },
+    [
+      submitting,
+      backup,
+      clearError,
+      setError,
+      setFileError,
+      restoreBackup,
+      setSeedRevealed,
+    ]
+  );
+
+  return (
+    <form
+      className="w-full max-w-sm mx-auto my-8"
+      onSubmit={handleSubmit(onSubmit)}
+    >
+      {locked && (
+        <Alert
+          title={t("attentionExclamation")}
+          description={
+            <p>
+              <T id="restoreBackupReplacesWallet" />
+            </p>
+          }
+          className="my-6"
+        />
+      )}
+
+      <label className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+        <span className="text-base font-semibold text-gray-700">
+          <T id="backupFile" />
+        </span>
+
+        <span
+          className={classNames("mt-1", "text-xs font-light text-gray-600")}
+          style={{ maxWidth: "90%" }}
+        >
+          <T id="backupFileInputDescription" />
+        </span>
+      </label>
+
+      <div className="relative w-full mb-2">
+        <input
+          className={classNames(
+            "appearance-none",
+            "absolute inset-0 w-full",
+            "block py-2 px-4",
+            "opacity-0",
+            "cursor-pointer"
+          )}
+          type="file"
+          name="backup"
+          accept=".json,application/json"
+          disabled={submitting}
+          onChange={handleUploadChange}
+        />
+
+        <div
+          className={classNames(
+            "w-full",
+            "px-4 py-6",
+            "border-2 border-dashed",
+            fileError ? "border-red-500" : "border-gray-300",
+            "bg-gray-100",
+            "transition ease-in-out duration-200",
+            "rounded-md",
+            "text-gray-400 text-lg leading-tight",
+            "text-center break-all"
+          )}
+        >
+          {fileName ?? (
+            <T
+              id="selectFileOfFormat"
+              substitutions={[<b key="format">JSON</b>]}
+            />
+          )}
+        </div>
+      </div>
+
+      {fileError && <div className="text-xs text-red-500">{fileError}</div>}
+
+      <FormField
+        ref={register({ required: t("required") })}
+        label={t("password")}
+        labelDescription={t("backupPasswordInputDescription")}
+        id="restore-backup-password"
+        type="password"
+        name="password"
+        placeholder="********"
+        errorCaption={errors.password?.message}
+        containerClassName="mt-4 mb-6"
+      />
+
+      <T id="restore">
+        {(message) => (
+          <FormSubmitButton loading={submitting}>{message}</FormSubmitButton>
+        )}
+      </T>
+    </form>
+  );
+};
+
+export default RestoreBackup;
+
+function toBackup(text: string): TempleBackup {
+  const data = JSON.parse(text);
+  if (
+    ![
+      typeof data?.version === "number",
+      typeof data?.salt === "string",
+      typeof data?.encrypted?.dt === "string",
+      typeof data?.encrypted?.iv === "string",
+    ].every(Boolean)
+  ) {
+    throw new Error("Invalid backup");
+  }
+  return data;
+}
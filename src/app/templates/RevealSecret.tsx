@@ -9,6 +9,7 @@ import {
 import { T, t } from "lib/i18n/react";
 import { getAccountBadgeTitle } from "app/defaults";
 import AccountBanner from "app/templates/AccountBanner";
+import HDWalletSelect from "app/templates/HDWalletSelect";
 import FormField from "app/atoms/FormField";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
 import Alert from "app/atoms/Alert";
@@ -28,9 +29,14 @@ const RevealSecret: React.FC<RevealSecretProps> = ({ reveal }) => {
     revealPrivateKey,
     revealMnemonic,
     setSeedRevealed,
+    hdWallets,
   } = useTempleClient();
   const account = useAccount();
 
+  const [walletId, setWalletId] = React.useState(() =>
+    account.type === TempleAccountType.HD ? account.walletId : hdWallets[0].id
+  );
+
   const {
     register,
     handleSubmit,
@@ -72,6 +78,14 @@ const RevealSecret: React.FC<RevealSecretProps> = ({ reveal }) => {
     return;
   }, [secret, setSecret]);
 
+  const handleWalletChange = React.useCallback(
+    (newWalletId: string) => {
+      setWalletId(newWalletId);
+      setSecret(null);
+    },
+    [setWalletId, setSecret]
+  );
+
   const formRef = React.useRef<HTMLFormElement>(null);
 
   const focusPasswordField = React.useCallback(() => {
@@ -98,7 +112,7 @@ const RevealSecret: React.FC<RevealSecretProps> = ({ reveal }) => {
             break;
 
           case "seed-phrase":
-            scrt = await revealMnemonic(password);
+            scrt = await revealMnemonic(walletId, password);
             setSeedRevealed(true);
             break;
         }
@@ -122,6 +136,7 @@ const RevealSecret: React.FC<RevealSecretProps> = ({ reveal }) => {
       setError,
       revealPrivateKey,
       revealMnemonic,
+      walletId,
       account.publicKeyHash,
       setSeedRevealed,
       setSecret,
@@ -214,6 +229,7 @@ const RevealSecret: React.FC<RevealSecretProps> = ({ reveal }) => {
     [
       TempleAccountType.Ledger,
       TempleAccountType.ManagedKT,
+      TempleAccountType.Multisig,
       TempleAccountType.WatchOnly,
     ].includes(account.type);
 
@@ -318,6 +334,14 @@ const RevealSecret: React.FC<RevealSecretProps> = ({ reveal }) => {
     <div className="w-full max-w-sm p-2 mx-auto">
       {texts.accountBanner}
 
+      {reveal === "seed-phrase" && (
+        <HDWalletSelect
+          value={walletId}
+          onChange={handleWalletChange}
+          className="mb-6"
+        />
+      )}
+
       {texts.derivationPathBanner}
 
       {mainContent}
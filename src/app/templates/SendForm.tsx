@@ -15,7 +15,7 @@ import {
   useAssetBySlug,
   useBalance,
   useTezosDomainsClient,
-  fetchBalance,
+  loadBalance,
   toTransferParams,
   tzToMutez,
   mutezToTz,
@@ -28,7 +28,12 @@ import {
   TempleAccountType,
   loadContract,
   getAssetKey,
+  isCollectible,
+  isSingleEdition,
   useUSDPrice,
+  useNetworkContacts,
+  useContactsLookup,
+  TempleContact,
 } from "lib/temple/front";
 import { transferImplicit, transferToContract } from "lib/michelson";
 import useSafeState from "lib/ui/useSafeState";
@@ -45,6 +50,7 @@ import Balance from "app/templates/Balance";
 import InUSD from "app/templates/InUSD";
 import OperationStatus from "app/templates/OperationStatus";
 import AdditionalFeeInput from "app/templates/AdditionalFeeInput";
+import CollectibleImage from "app/templates/CollectibleImage";
 import Spinner from "app/atoms/Spinner";
 import Money from "app/atoms/Money";
 import NoSpaceField from "app/atoms/NoSpaceField";
@@ -52,6 +58,7 @@ import AssetField from "app/atoms/AssetField";
 import FormSubmitButton from "app/atoms/FormSubmitButton";
 import Identicon from "app/atoms/Identicon";
 import Name from "app/atoms/Name";
+import HashShortView from "app/atoms/HashShortView";
 import AccountTypeBadge from "app/atoms/AccountTypeBadge";
 import Alert from "app/atoms/Alert";
 import { ReactComponent as ChevronRightIcon } from "app/icons/chevron-right.svg";
@@ -111,6 +118,8 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
   const tezPrice = useUSDPrice();
 
   const allAccounts = useRelevantAccounts();
+  const contacts = useNetworkContacts();
+  const getContact = useContactsLookup();
   const acc = useAccount();
   const tezos = useTezos();
   const domainsClient = useTezosDomainsClient();
@@ -124,6 +133,7 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
   );
   const balance = balanceData!;
   const balanceNum = balance.toNumber();
+  const singleEdition = isSingleEdition(localAsset, balance);
 
   const { data: tezBalanceData, mutate: mutateTezBalance } = useBalance(
     TEZ_ASSET,
@@ -236,6 +246,11 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
     [allAccounts, toResolved]
   );
 
+  const filledContact = React.useMemo(
+    () => (filledAccount ? null : getContact(toResolved)),
+    [filledAccount, getContact, toResolved]
+  );
+
   const cleanToField = React.useCallback(() => {
     setValue("to", "");
     triggerValidation("to");
@@ -263,7 +278,7 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
       const tez = localAsset.type === TempleAssetType.TEZ;
 
       const balanceBN = (await mutateBalance(
-        fetchBalance(tezos, localAsset, accountPkh)
+        loadBalance(tezos, localAsset, accountPkh)
       ))!;
       if (balanceBN.isZero()) {
         throw new ZeroBalanceError();
@@ -272,7 +287,7 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
       let tezBalanceBN: BigNumber;
       if (!tez) {
         tezBalanceBN = (await mutateTezBalance(
-          fetchBalance(tezos, TEZ_ASSET, accountPkh)
+          loadBalance(tezos, TEZ_ASSET, accountPkh)
         ))!;
         if (tezBalanceBN.isZero()) {
           throw new ZeroTEZBalanceError();
@@ -549,7 +564,11 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
             .do(michelsonLambda(toResolved, tzToMutez(amount)))
             .send({ amount: 0 });
         } else {
-          const actualAmount = shouldUseUsd ? toTEZAmount(amount) : amount;
+          const actualAmount = singleEdition
+            ? 1
+            : shouldUseUsd
+            ? toTEZAmount(amount)
+            : amount;
           const transferParams = await toTransferParams(
             tezos,
             localAsset,
@@ -590,6 +609,7 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
       reset,
       accountPkh,
       toResolved,
+      singleEdition,
       shouldUseUsd,
       toTEZAmount,
     ]
@@ -638,6 +658,21 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
               </Balance>
               )
             </div>
+          ) : filledContact ? (
+            <div className="flex flex-wrap items-center">
+              <Identicon
+                type="bottts"
+                hash={filledContact.address}
+                size={14}
+                className="flex-shrink-0 shadow-xs opacity-75"
+              />
+              <div className="ml-1 mr-px font-normal">{filledContact.name}</div>
+              {filledContact.note && (
+                <span className="ml-1 text-xs text-gray-600">
+                  ({filledContact.note})
+                </span>
+              )}
+            </div>
           ) : (
             <T
               id={
@@ -705,97 +740,127 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
             }
           })()}
 
-          <Controller
-            name="amount"
-            as={
-              <AssetField
-                ref={amountFieldRef}
-                onFocus={handleAmountFieldFocus}
+          {singleEdition && isCollectible(localAsset) ? (
+            <div
+              className={classNames(
+                "mb-4 p-2",
+                "border rounded-md",
+                "flex items-center"
+              )}
+            >
+              <CollectibleImage
+                asset={localAsset}
+                className="flex-shrink-0 mr-3 rounded"
+                style={{ width: 48, height: 48 }}
               />
-            }
-            control={control}
-            rules={{
-              validate: validateAmount,
-            }}
-            onChange={([v]) => v}
-            onFocus={() => amountFieldRef.current?.focus()}
-            id="send-amount"
-            assetSymbol={
-              canToggleUsd ? (
-                <button
-                  type="button"
-                  onClick={handleUsdToggle}
-                  className={classNames(
-                    "px-1 rounded-md",
-                    "flex items-center",
-                    "font-light",
-                    "hover:bg-black hover:bg-opacity-5",
-                    "trasition ease-in-out duration-200",
-                    "cursor-pointer pointer-events-auto"
+
+              <div className="flex flex-col">
+                <Name className="text-sm font-medium text-gray-700">
+                  {localAsset.name}
+                </Name>
+
+                <T id="singleEditionTransferDescription">
+                  {(message) => (
+                    <span className="text-xs font-light text-gray-600">
+                      {message}
+                    </span>
                   )}
-                >
-                  {shouldUseUsd ? "USD" : localAsset.symbol}
-                  <div className="ml-1 h-4 flex flex-col justify-between">
-                    <ChevronUpIcon className="h-2 w-auto stroke-current stroke-2" />
-                    <ChevronDownIcon className="h-2 w-auto stroke-current stroke-2" />
-                  </div>
-                </button>
-              ) : (
-                localAsset.symbol
-              )
-            }
-            assetDecimals={shouldUseUsd ? 2 : localAsset.decimals}
-            label={t("amount")}
-            labelDescription={
-              maxAmount && (
-                <>
-                  <T id="availableToSend" />{" "}
+                </T>
+              </div>
+            </div>
+          ) : (
+            <Controller
+              name="amount"
+              as={
+                <AssetField
+                  ref={amountFieldRef}
+                  onFocus={handleAmountFieldFocus}
+                />
+              }
+              control={control}
+              rules={{
+                validate: validateAmount,
+              }}
+              onChange={([v]) => v}
+              onFocus={() => amountFieldRef.current?.focus()}
+              id="send-amount"
+              assetSymbol={
+                canToggleUsd ? (
                   <button
                     type="button"
-                    className={classNames("underline")}
-                    onClick={handleSetMaxAmount}
+                    onClick={handleUsdToggle}
+                    className={classNames(
+                      "px-1 rounded-md",
+                      "flex items-center",
+                      "font-light",
+                      "hover:bg-black hover:bg-opacity-5",
+                      "trasition ease-in-out duration-200",
+                      "cursor-pointer pointer-events-auto"
+                    )}
                   >
-                    {shouldUseUsd ? <span className="pr-px">$</span> : null}
-                    {maxAmount.toFixed()}
+                    {shouldUseUsd ? "USD" : localAsset.symbol}
+                    <div className="ml-1 h-4 flex flex-col justify-between">
+                      <ChevronUpIcon className="h-2 w-auto stroke-current stroke-2" />
+                      <ChevronDownIcon className="h-2 w-auto stroke-current stroke-2" />
+                    </div>
                   </button>
-                  {amountValue && localAsset.type === TempleAssetType.TEZ ? (
-                    <>
-                      <br />
-                      {shouldUseUsd ? (
-                        <div className="mt-1 -mb-3">
-                          ≈{" "}
-                          <span className="font-normal text-gray-700">
-                            {toTEZAmount(amountValue)}
-                          </span>{" "}
-                          <T id="inXTZ" />
-                        </div>
-                      ) : (
-                        <InUSD
-                          volume={amountValue}
-                          roundingMode={BigNumber.ROUND_FLOOR}
-                        >
-                          {(usdAmount) => (
-                            <div className="mt-1 -mb-3">
-                              ≈{" "}
-                              <span className="font-normal text-gray-700">
-                                <span className="pr-px">$</span>
-                                {usdAmount}
-                              </span>{" "}
-                              <T id="inUSD" />
-                            </div>
-                          )}
-                        </InUSD>
-                      )}
-                    </>
-                  ) : null}
-                </>
-              )
-            }
-            placeholder={t("amountPlaceholder")}
-            errorCaption={errors.amount?.message}
-            containerClassName="mb-4"
-            autoFocus={Boolean(maxAmount)}
-          />
+                ) : (
+                  localAsset.symbol
+                )
+              }
+              assetDecimals={shouldUseUsd ? 2 : localAsset.decimals}
+              label={t("amount")}
+              labelDescription={
+                maxAmount && (
+                  <>
+                    <T id="availableToSend" />{" "}
+                    <button
+                      type="button"
+                      className={classNames("underline")}
+                      onClick={handleSetMaxAmount}
+                    >
+                      {shouldUseUsd ? <span className="pr-px">$</span> : null}
+                      {maxAmount.toFixed()}
+                    </button>
+                    {amountValue && localAsset.type === TempleAssetType.TEZ ? (
+                      <>
+                        <br />
+                        {shouldUseUsd ? (
+                          <div className="mt-1 -mb-3">
+                            ≈{" "}
+                            <span className="font-normal text-gray-700">
+                              {toTEZAmount(amountValue)}
+                            </span>{" "}
+                            <T id="inXTZ" />
+                          </div>
+                        ) : (
+                          <InUSD
+                            volume={amountValue}
+                            roundingMode={BigNumber.ROUND_FLOOR}
+                          >
+                            {(usdAmount) => (
+                              <div className="mt-1 -mb-3">
+                                ≈{" "}
+                                <span className="font-normal text-gray-700">
+                                  <span className="pr-px">$</span>
+                                  {usdAmount}
+                                </span>{" "}
+                                <T id="inUSD" />
+                              </div>
+                            )}
+                          </InUSD>
+                        )}
+                      </>
+                    ) : null}
+                  </>
+                )
+              }
+              placeholder={t("amountPlaceholder")}
+              errorCaption={errors.amount?.message}
+              containerClassName="mb-4"
+              autoFocus={Boolean(maxAmount)}
+            />
+          )}
 
           <AdditionalFeeInput
             name="fee"
@@ -819,148 +884,263 @@ const Form: React.FC<FormProps> = ({ localAsset, setOperation }) => {
           </T>
         </>
       ) : (
-        allAccounts.length > 1 && (
-          <div className={classNames("my-6", "flex flex-col")}>
-            <h2
-              className={classNames("mb-4", "leading-tight", "flex flex-col")}
-            >
-              <T id="sendToMyAccounts">
-                {(message) => (
-                  <span className="text-base font-semibold text-gray-700">
-                    {message}
-                  </span>
-                )}
-              </T>
-
-              <T id="clickOnRecipientAccount">
-                {(message) => (
-                  <span
-                    className={classNames(
-                      "mt-1",
-                      "text-xs font-light text-gray-600"
-                    )}
-                    style={{ maxWidth: "90%" }}
-                  >
-                    {message}
-                  </span>
-                )}
-              </T>
-            </h2>
+        <>
+          {allAccounts.length > 1 && (
+            <div className={classNames("my-6", "flex flex-col")}>
+              <h2
+                className={classNames("mb-4", "leading-tight", "flex flex-col")}
+              >
+                <T id="sendToMyAccounts">
+                  {(message) => (
+                    <span className="text-base font-semibold text-gray-700">
+                      {message}
+                    </span>
+                  )}
+                </T>
 
-            <div
-              className={classNames(
-                "rounded-md overflow-hidden",
-                "border",
-                "flex flex-col",
-                "text-gray-700 text-sm leading-tight"
-              )}
-            >
-              {allAccounts
-                .filter((acc) => acc.publicKeyHash !== accountPkh)
-                .map((acc, i, arr) => {
-                  const last = i === arr.length - 1;
-                  const handleAccountClick = () => {
-                    setValue("to", acc.publicKeyHash);
-                    triggerValidation("to");
-                  };
-
-                  return (
-                    <button
-                      key={acc.publicKeyHash}
-                      type="button"
+                <T id="clickOnRecipientAccount">
+                  {(message) => (
+                    <span
                       className={classNames(
-                        "relative",
-                        "block w-full",
-                        "overflow-hidden",
-                        !last && "border-b border-gray-200",
-                        "hover:bg-gray-100 focus:bg-gray-100",
-                        "flex items-center p-2",
-                        "text-gray-700",
-                        "transition ease-in-out duration-200",
-                        "focus:outline-none",
-                        "opacity-90 hover:opacity-100"
+                        "mt-1",
+                        "text-xs font-light text-gray-600"
                       )}
-                      onClick={handleAccountClick}
+                      style={{ maxWidth: "90%" }}
                     >
-                      <Identicon
-                        type="bottts"
-                        hash={acc.publicKeyHash}
-                        size={32}
-                        className="flex-shrink-0 shadow-xs"
-                      />
-
-                      <div className="flex flex-col items-start ml-2">
-                        <div className="flex flex-wrap items-center">
-                          <Name className="text-sm font-medium leading-tight">
-                            {acc.name}
-                          </Name>
-
-                          <AccountTypeBadge account={acc} />
-                        </div>
-
-                        <div className="flex flex-wrap items-center mt-1">
-                          <div
-                            className={classNames(
-                              "text-xs leading-none",
-                              "text-gray-700"
-                            )}
-                          >
-                            {(() => {
-                              const val = acc.publicKeyHash;
-                              const ln = val.length;
-                              return (
-                                <>
-                                  {val.slice(0, 7)}
-                                  <span className="opacity-75">...</span>
-                                  {val.slice(ln - 4, ln)}
-                                </>
-                              );
-                            })()}
+                      {message}
+                    </span>
+                  )}
+                </T>
+              </h2>
+
+              <div
+                className={classNames(
+                  "rounded-md overflow-hidden",
+                  "border",
+                  "flex flex-col",
+                  "text-gray-700 text-sm leading-tight"
+                )}
+              >
+                {allAccounts
+                  .filter((acc) => acc.publicKeyHash !== accountPkh)
+                  .map((acc, i, arr) => {
+                    const last = i === arr.length - 1;
+                    const handleAccountClick = () => {
+                      setValue("to", acc.publicKeyHash);
+                      triggerValidation("to");
+                    };
+
+                    return (
+                      <button
+                        key={acc.publicKeyHash}
+                        type="button"
+                        className={classNames(
+                          "relative",
+                          "block w-full",
+                          "overflow-hidden",
+                          !last && "border-b border-gray-200",
+                          "hover:bg-gray-100 focus:bg-gray-100",
+                          "flex items-center p-2",
+                          "text-gray-700",
+                          "transition ease-in-out duration-200",
+                          "focus:outline-none",
+                          "opacity-90 hover:opacity-100"
+                        )}
+                        onClick={handleAccountClick}
+                      >
+                        <Identicon
+                          type="bottts"
+                          hash={acc.publicKeyHash}
+                          size={32}
+                          className="flex-shrink-0 shadow-xs"
+                        />
+
+                        <div className="flex flex-col items-start ml-2">
+                          <div className="flex flex-wrap items-center">
+                            <Name className="text-sm font-medium leading-tight">
+                              {acc.name}
+                            </Name>
+
+                            <AccountTypeBadge account={acc} />
                           </div>
 
-                          <Balance
-                            asset={localAsset}
-                            address={acc.publicKeyHash}
-                          >
-                            {(bal) => (
-                              <div
-                                className={classNames(
-                                  "ml-2",
-                                  "text-xs leading-none",
-                                  "text-gray-600"
-                                )}
-                              >
-                                <Money>{bal}</Money>{" "}
-                                <span style={{ fontSize: "0.75em" }}>
-                                  {localAsset.symbol}
-                                </span>
-                              </div>
-                            )}
-                          </Balance>
+                          <div className="flex flex-wrap items-center mt-1">
+                            <div
+                              className={classNames(
+                                "text-xs leading-none",
+                                "text-gray-700"
+                              )}
+                            >
+                              {(() => {
+                                const val = acc.publicKeyHash;
+                                const ln = val.length;
+                                return (
+                                  <>
+                                    {val.slice(0, 7)}
+                                    <span className="opacity-75">...</span>
+                                    {val.slice(ln - 4, ln)}
+                                  </>
+                                );
+                              })()}
+                            </div>
+
+                            <Balance
+                              asset={localAsset}
+                              address={acc.publicKeyHash}
+                            >
+                              {(bal) => (
+                                <div
+                                  className={classNames(
+                                    "ml-2",
+                                    "text-xs leading-none",
+                                    "text-gray-600"
+                                  )}
+                                >
+                                  <Money>{bal}</Money>{" "}
+                                  <span style={{ fontSize: "0.75em" }}>
+                                    {localAsset.symbol}
+                                  </span>
+                                </div>
+                              )}
+                            </Balance>
+                          </div>
                         </div>
-                      </div>
 
-                      <div
-                        className={classNames(
-                          "absolute right-0 top-0 bottom-0",
-                          "flex items-center",
-                          "pr-2",
-                          "text-gray-500"
-                        )}
-                      >
-                        <ChevronRightIcon className="h-5 w-auto stroke-current" />
-                      </div>
-                    </button>
-                  );
-                })}
+                        <div
+                          className={classNames(
+                            "absolute right-0 top-0 bottom-0",
+                            "flex items-center",
+                            "pr-2",
+                            "text-gray-500"
+                          )}
+                        >
+                          <ChevronRightIcon className="h-5 w-auto stroke-current" />
+                        </div>
+                      </button>
+                    );
+                  })}
+              </div>
             </div>
-          </div>
-        )
+          )}
+
+          {contacts.length > 0 && (
+            <ContactsSection
+              contacts={contacts}
+              onSelect={(address) => {
+                setValue("to", address);
+                triggerValidation("to");
+              }}
+            />
+          )}
+        </>
       )}
     </form>
   );
 };
 
+type ContactsSectionProps = {
+  contacts: TempleContact[];
+  onSelect: (address: string) => void;
+};
+
+const ContactsSection: React.FC<ContactsSectionProps> = ({
+  contacts,
+  onSelect,
+}) => (
+  <div className={classNames("my-6", "flex flex-col")}>
+    <h2 className={classNames("mb-4", "leading-tight", "flex flex-col")}>
+      <T id="sendToContacts">
+        {(message) => (
+          <span className="text-base font-semibold text-gray-700">
+            {message}
+          </span>
+        )}
+      </T>
+
+      <T id="clickOnRecipientContact">
+        {(message) => (
+          <span
+            className={classNames("mt-1", "text-xs font-light text-gray-600")}
+            style={{ maxWidth: "90%" }}
+          >
+            {message}
+          </span>
+        )}
+      </T>
+    </h2>
+
+    <div
+      className={classNames(
+        "rounded-md overflow-hidden",
+        "border",
+        "flex flex-col",
+        "text-gray-700 text-sm leading-tight"
+      )}
+    >
+      {contacts.map((contact, i, arr) => {
+        const last = i === arr.length - 1;
+
+        return (
+          <button
+            key={`${contact.address}_${contact.chainId ?? ""}`}
+            type="button"
+            className={classNames(
+              "relative",
+              "block w-full",
+              "overflow-hidden",
+              !last && "border-b border-gray-200",
+              "hover:bg-gray-100 focus:bg-gray-100",
+              "flex items-center p-2",
+              "text-gray-700",
+              "transition ease-in-out duration-200",
+              "focus:outline-none",
+              "opacity-90 hover:opacity-100"
+            )}
+            onClick={() => onSelect(contact.address)}
+          >
+            <Identicon
+              type="bottts"
+              hash={contact.address}
+              size={32}
+              className="flex-shrink-0 shadow-xs"
+            />
+
+            <div className="flex flex-col items-start ml-2">
+              <Name className="text-sm font-medium leading-tight">
+                {contact.name}
+              </Name>
+
+              <div
+                className={classNames(
+                  "mt-1",
+                  "text-xs leading-none",
+                  "text-gray-700"
+                )}
+              >
+                <HashShortView hash={contact.address} />
+                {contact.note && (
+                  <span className="ml-2 text-gray-600">{contact.note}</span>
+                )}
+              </div>
+            </div>
+
+            <div
+              className={classNames(
+                "absolute right-0 top-0 bottom-0",
+                "flex items-center",
+                "pr-2",
+                "text-gray-500"
+              )}
+            >
+              <ChevronRightIcon className="h-5 w-auto stroke-current" />
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
 type SendErrorAlertProps = {
   type: "submit" | "estimation";
   error: Error;
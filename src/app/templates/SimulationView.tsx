@@ -0,0 +1,239 @@
+import React from "react";
+import classNames from "clsx";
+import BigNumber from "bignumber.js";
+import {
+  mutezToTz,
+  useTempleClient,
+  useTokens,
+  TempleAssetType,
+  TempleBalanceDelta,
+  TempleOpsSimulation,
+  TempleSimulatedOperation,
+} from "lib/temple/front";
+import { useRetryableSWR } from "lib/swr";
+import { T, t } from "lib/i18n/react";
+import Alert from "app/atoms/Alert";
+import Money from "app/atoms/Money";
+import Spinner from "app/atoms/Spinner";
+import AddressChip from "app/templates/AddressChip";
+
+type SimulationViewProps = {
+  sourcePkh: string;
+  networkRpc: string;
+  opParams: any[];
+};
+
+const SimulationView: React.FC<SimulationViewProps> = ({
+  sourcePkh,
+  networkRpc,
+  opParams,
+}) => {
+  const { simulateOperations } = useTempleClient();
+
+  const simulate = React.useCallback(
+    () => simulateOperations(sourcePkh, networkRpc, opParams),
+    [simulateOperations, sourcePkh, networkRpc, opParams]
+  );
+  const { data: simulation, error } = useRetryableSWR<TempleOpsSimulation>(
+    ["simulate-operations", sourcePkh, networkRpc, opParams],
+    simulate,
+    {
+      shouldRetryOnError: false,
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+    }
+  );
+
+  if (error) {
+    return (
+      <Alert
+        type="warn"
+        title={t("simulationUnavailable")}
+        description={error?.message ?? t("simulationUnavailableDescription")}
+      />
+    );
+  }
+
+  if (!simulation) {
+    return (
+      <div
+        className="flex items-center justify-center border rounded-md"
+        style={{ height: "9.5rem" }}
+      >
+        <Spinner theme="gray" className="w-16" />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={classNames(
+        "rounded-md overflow-y-auto border",
+        "flex flex-col text-gray-700 text-sm leading-tight"
+      )}
+      style={{ height: "9.5rem" }}
+    >
+      {!simulation.applied && (
+        <Alert
+          type="error"
+          title={t("simulationFailed")}
+          description={
+            simulation.errors.length > 0 ? (
+              simulation.errors.map((err, i) => (
+                <div key={i} className="break-all">
+                  {err}
+                </div>
+              ))
+            ) : (
+              <T id="simulationFailedDescription" />
+            )
+          }
+          className="m-2"
+        />
+      )}
+
+      {simulation.applied && (
+        <div className="px-2 py-2 border-b border-gray-200">
+          <T id="balanceChanges">
+            {(message) => (
+              <h3 className="mb-1 text-xs font-medium text-gray-600">
+                {message}
+              </h3>
+            )}
+          </T>
+
+          {simulation.balanceDeltas.length > 0 ? (
+            simulation.balanceDeltas.map((delta, i) => (
+              <BalanceDeltaView key={i} delta={delta} networkRpc={networkRpc} />
+            ))
+          ) : (
+            <T id="noBalanceChanges">
+              {(message) => (
+                <p className="text-xs font-light text-gray-600">{message}</p>
+              )}
+            </T>
+          )}
+        </div>
+      )}
+
+      {simulation.internalOperations.length > 0 && (
+        <div className="px-2 py-2 border-b border-gray-200">
+          <T id="internalOperations">
+            {(message) => (
+              <h3 className="mb-1 text-xs font-medium text-gray-600">
+                {message}
+              </h3>
+            )}
+          </T>
+
+          {simulation.internalOperations.map((op, i) => (
+            <SimulatedOperationView key={i} op={op} />
+          ))}
+        </div>
+      )}
+
+      <div className="px-2 py-2 text-xs text-gray-600">
+        {new BigNumber(simulation.burn).gt(0) && (
+          <div className="mb-1">
+            <T id="storageBurn" />:{" "}
+            <span className="font-medium text-gray-700">
+              <Money>{mutezToTz(simulation.burn)}</Money> ꜩ
+            </span>
+          </div>
+        )}
+
+        <T id="simulationFeesNotIncluded">
+          {(message) => <p className="font-light">{message}</p>}
+        </T>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationView;
+
+type BalanceDeltaViewProps = {
+  delta: TempleBalanceDelta;
+  networkRpc: string;
+};
+
+const BalanceDeltaView: React.FC<BalanceDeltaViewProps> = ({
+  delta,
+  networkRpc,
+}) => {
+  const { allTokens } = useTokens(networkRpc);
+
+  const token = React.useMemo(
+    () =>
+      delta.tokenAddress
+        ? allTokens.find((token) =>
+            token.type === TempleAssetType.FA2
+              ? token.address === delta.tokenAddress &&
+                token.id === delta.tokenId
+              : token.address === delta.tokenAddress
+          )
+        : undefined,
+    [allTokens, delta.tokenAddress, delta.tokenId]
+  );
+
+  const amount = new BigNumber(delta.amount);
+  const volume = delta.tokenAddress
+    ? amount.div(10 ** (token?.decimals ?? 0))
+    : mutezToTz(amount);
+
+  return (
+    <div className="flex items-center text-xs">
+      <span
+        className={classNames(
+          "mr-1 font-medium",
+          amount.isPositive() ? "text-green-600" : "text-red-700"
+        )}
+      >
+        {amount.isPositive() ? "+" : "-"}
+        <Money>{volume.abs()}</Money>
+      </span>
+
+      {!delta.tokenAddress ? (
+        "ꜩ"
+      ) : token ? (
+        token.symbol
+      ) : (
+        <>
+          <AddressChip hash={delta.tokenAddress} small />
+          {delta.tokenId !== undefined && (
+            <span className="ml-1 text-gray-500">#{delta.tokenId}</span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const SimulatedOperationView: React.FC<{ op: TempleSimulatedOperation }> = ({
+  op,
+}) => (
+  <div className="flex flex-wrap items-center mb-1 text-xs">
+    <span className="mr-1 capitalize">{op.kind}</span>
+
+    {op.amount && op.amount !== "0" && (
+      <span className="mr-1">
+        <Money>{mutezToTz(op.amount)}</Money> ꜩ
+      </span>
+    )}
+
+    <AddressChip hash={op.source} small />
+
+    {op.destination && (
+      <>
+        <span className="mx-1">→</span>
+        <AddressChip hash={op.destination} small />
+      </>
+    )}
+
+    {op.entrypoint && <span className="ml-1 italic">%{op.entrypoint}</span>}
+
+    {op.status !== "applied" && (
+      <span className="ml-1 text-red-600">({op.status})</span>
+    )}
+  </div>
+);
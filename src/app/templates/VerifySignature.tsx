@@ -0,0 +1,176 @@
+import * as React from "react";
+import { useForm } from "react-hook-form";
+import {
+  ValidationResult,
+  validatePublicKey,
+  validateSignature,
+} from "@taquito/utils";
+import { T, t } from "lib/i18n/react";
+import {
+  useTezos,
+  useAccount,
+  isAddressValid,
+  verifySignature,
+} from "lib/temple/front";
+import { withErrorHumanDelay } from "lib/ui/humanDelay";
+import Alert from "app/atoms/Alert";
+import FormField from "app/atoms/FormField";
+import FormSubmitButton from "app/atoms/FormSubmitButton";
+
+type FormData = {
+  signer: string;
+  payload: string;
+  signature: string;
+};
+
+const SUBMIT_ERROR_TYPE = "submit-error";
+const HEX_PATTERN = /^(0x)?[0-9a-fA-F]+$/;
+
+const VerifySignature: React.FC = () => {
+  const tezos = useTezos();
+  const account = useAccount();
+
+  const [valid, setValid] = React.useState<boolean | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState,
+    clearError,
+    setError,
+    errors,
+  } = useForm<FormData>({
+    defaultValues: { signer: account.publicKeyHash },
+  });
+  const submitting = formState.isSubmitting;
+
+  const onSubmit = React.useCallback(
+    async ({ signer, payload, signature }: FormData) => {
+      if (submitting) return;
+
+      clearError();
+      setValid(null);
+
+      let publicKey = signer.trim();
+      if (isAddressValid(publicKey)) {
+        try {
+          const managerKey = await tezos.rpc.getManagerKey(publicKey);
+          publicKey =
+            typeof managerKey === "string" ? managerKey : managerKey?.key;
+        } catch (err) {
+          await withErrorHumanDelay(err, () =>
+            setError("signer", SUBMIT_ERROR_TYPE, err.message)
+          );
+          return;
+        }
+
+        if (!publicKey) {
+          setError("signer", SUBMIT_ERROR_TYPE, t("publicKeyNotRevealed"));
+          return;
+        }
+      }
+
+      try {
+        setValid(
+          await verifySignature(
+            payload.trim().replace(/^0x/, ""),
+            publicKey,
+            signature.trim()
+          )
+        );
+      } catch (err) {
+        await withErrorHumanDelay(err, () =>
+          setError("signature", SUBMIT_ERROR_TYPE, err.message)
+        );
+      }
+    },
+    [submitting, clearError, setError, tezos]
+  );
+
+  return (
+    <form
+      className="w-full max-w-sm p-2 mx-auto"
+      onSubmit={handleSubmit(onSubmit)}
+    >
+      {valid !== null && (
+        <Alert
+          type={valid ? "success" : "error"}
+          title={valid ? t("signatureIsValid") : t("signatureIsInvalid")}
+          description={
+            valid
+              ? t("signatureIsValidDescription")
+              : t("signatureIsInvalidDescription")
+          }
+          autoFocus
+          className="mb-4"
+        />
+      )}
+
+      <FormField
+        ref={register({
+          required: t("required"),
+          validate: validateSigner,
+        })}
+        name="signer"
+        id="verifysignature-signer"
+        label={t("signer")}
+        labelDescription={t("signerDescription")}
+        placeholder="tz1... / edpk..."
+        errorCaption={errors.signer?.message}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        textarea
+        rows={3}
+        ref={register({
+          required: t("required"),
+          pattern: { value: HEX_PATTERN, message: t("invalidBytes") },
+        })}
+        name="payload"
+        id="verifysignature-payload"
+        label={t("signedBytes")}
+        labelDescription={t("signedBytesDescription")}
+        placeholder="05..."
+        errorCaption={errors.payload?.message}
+        style={{ resize: "none" }}
+        containerClassName="mb-4"
+      />
+
+      <FormField
+        textarea
+        rows={2}
+        ref={register({
+          required: t("required"),
+          validate: (value: string) =>
+            validateSignature(value.trim()) === ValidationResult.VALID ||
+            t("invalidSignature"),
+        })}
+        name="signature"
+        id="verifysignature-signature"
+        label={t("signature")}
+        placeholder="edsig..."
+        errorCaption={errors.signature?.message}
+        style={{ resize: "none" }}
+        containerClassName="mb-4"
+      />
+
+      <T id="verify">
+        {(message) => (
+          <FormSubmitButton loading={submitting}>{message}</FormSubmitButton>
+        )}
+      </T>
+    </form>
+  );
+};
+
+export default VerifySignature;
+
+function validateSigner(value: string) {
+  const signer = value.trim();
+  return (
+    isAddressValid(signer) ||
+    validatePublicKey(signer) === ValidationResult.VALID ||
+    t("invalidSigner")
+  );
+}
@@ -1,7 +1,11 @@
 import { browser } from "webextension-polyfill-ts";
 import { IntercomClient } from "lib/intercom/client";
 import { serealizeError } from "lib/intercom/helpers";
-import { TempleMessageType, TempleResponse } from "lib/temple/types";
+import {
+  TempleMessageType,
+  TempleResponse,
+  TempleNotification,
+} from "lib/temple/types";
 import {
   TemplePageMessage,
   TemplePageMessageType,
@@ -100,21 +104,7 @@ window.addEventListener(
         })
         .then((res: TempleResponse) => {
           if (res?.type === TempleMessageType.PageResponse && res.payload) {
-            const message = {
-              target: BeaconMessageTarget.Page,
-              ...(res.encrypted
-                ? { encryptedPayload: res.payload }
-                : { payload: res.payload }),
-            };
-            send(
-              res.payload === "pong"
-                ? { ...message, sender: SENDER }
-                : {
-                    message,
-                    sender: { id: SENDER.id },
-                  },
-              evt.origin
-            );
+            sendBeacon(res.payload, evt.origin, res.encrypted);
           }
         })
         .catch((err) => console.error(err));
@@ -123,6 +113,22 @@ window.addEventListener(
   false
 );
 
+function sendBeacon(payload: any, targetOrigin: string, encrypted?: boolean) {
+  const message = {
+    target: BeaconMessageTarget.Page,
+    ...(encrypted ? { encryptedPayload: payload } : { payload }),
+  };
+  send(
+    payload === "pong"
+      ? { ...message, sender: SENDER }
+      : {
+          message,
+          sender: { id: SENDER.id },
+        },
+    targetOrigin
+  );
+}
+
 function send(
   msg: TemplePageMessage | LegacyPageMessage | BeaconPageMessage,
   targetOrigin = "*"
@@ -134,6 +140,11 @@ let intercom: IntercomClient;
 function getIntercom() {
   if (!intercom) {
     intercom = new IntercomClient();
+    intercom.subscribe((msg: TempleNotification) => {
+      if (msg?.type === TempleMessageType.BeaconAcknowledged) {
+        sendBeacon(msg.payload, msg.origin, msg.encrypted);
+      }
+    });
   }
   return intercom;
 }
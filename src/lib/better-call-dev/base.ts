@@ -1,9 +1,16 @@
 import axios, { AxiosRequestConfig } from "axios";
+import { TempleChainId } from "lib/temple/types";
 
 export const BASE_URL = "https://api.better-call.dev/v1";
 
 export const api = axios.create({ baseURL: BASE_URL });
 
+export const BCD_NETWORKS_NAMES = new Map<TempleChainId, BcdNetwork>([
+  [TempleChainId.Mainnet, "mainnet"],
+  [TempleChainId.Edo2net, "edo2net"],
+  [TempleChainId.Delphinet, "delphinet"],
+]);
+
 export type BcdRequestParams<T> = T &
   Omit<AxiosRequestConfig, "method" | "url" | "params">;
 
@@ -1,8 +1,12 @@
 export const IPFS_GATEWAY = "ipfs.io";
 
-export function sanitizeImgUri(origin: string) {
+/**
+ * `ipfs:` URIs are stored as is and resolved via gateway on render,
+ * so changing the gateway applies to everything
+ */
+export function sanitizeImgUri(origin: string, ipfsGateway = IPFS_GATEWAY) {
   if (origin.startsWith("ipfs://")) {
-    return `https://${IPFS_GATEWAY}/ipfs/${origin.substring(7)}/`;
+    return `https://${ipfsGateway}/ipfs/${origin.substring(7)}/`;
   }
 
   return origin;
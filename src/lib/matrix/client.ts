@@ -0,0 +1,80 @@
+import axios, { AxiosInstance } from "axios";
+import { nanoid } from "nanoid";
+import {
+  MatrixLoginParams,
+  MatrixLoginResponse,
+  MatrixCreateRoomResponse,
+  MatrixSyncResponse,
+} from "lib/matrix/types";
+
+const API_PREFIX = "/_matrix/client/r0";
+const SYNC_TIMEOUT = 30_000;
+
+/**
+ * Minimal Matrix client-server API client,
+ * only what is needed for relaying Beacon messages.
+ */
+export class MatrixClient {
+  private api: AxiosInstance;
+  private accessToken: string | null = null;
+
+  constructor(public baseURL: string) {
+    this.api = axios.create({ baseURL: `${baseURL}${API_PREFIX}` });
+  }
+
+  get loggedIn() {
+    return Boolean(this.accessToken);
+  }
+
+  async login({ user, password, deviceId }: MatrixLoginParams) {
+    const { data } = await this.api.post<MatrixLoginResponse>("/login", {
+      type: "m.login.password",
+      identifier: { type: "m.id.user", user },
+      password,
+      device_id: deviceId,
+    });
+    this.accessToken = data.access_token;
+    return data;
+  }
+
+  async createRoom(invite: string[]) {
+    const { data } = await this.api.post<MatrixCreateRoomResponse>(
+      "/createRoom",
+      { invite, preset: "trusted_private_chat", is_direct: true },
+      this.getAuthConfig()
+    );
+    return data.room_id;
+  }
+
+  async joinRoom(roomId: string) {
+    await this.api.post(
+      `/rooms/${encodeURIComponent(roomId)}/join`,
+      {},
+      this.getAuthConfig()
+    );
+  }
+
+  async sendTextMessage(roomId: string, body: string) {
+    await this.api.put(
+      `/rooms/${encodeURIComponent(roomId)}/send/m.room.message/${nanoid()}`,
+      { msgtype: "m.text", body },
+      this.getAuthConfig()
+    );
+  }
+
+  async sync(since?: string) {
+    const { data } = await this.api.get<MatrixSyncResponse>("/sync", {
+      ...this.getAuthConfig(),
+      params: since ? { since, timeout: SYNC_TIMEOUT } : { timeout: 0 },
+      timeout: SYNC_TIMEOUT * 2,
+    });
+    return data;
+  }
+
+  private getAuthConfig() {
+    if (!this.accessToken) {
+      throw new Error("Not logged in to Matrix relay");
+    }
+    return { headers: { Authorization: `Bearer ${this.accessToken}` } };
+  }
+}
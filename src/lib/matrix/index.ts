@@ -0,0 +1,2 @@
+export * from "lib/matrix/types";
+export * from "lib/matrix/client";
@@ -0,0 +1,33 @@
+export interface MatrixLoginParams {
+  user: string;
+  password: string;
+  deviceId: string;
+}
+
+export interface MatrixLoginResponse {
+  user_id: string;
+  access_token: string;
+  device_id: string;
+}
+
+export interface MatrixCreateRoomResponse {
+  room_id: string;
+}
+
+export interface MatrixEvent {
+  type: string;
+  sender: string;
+  event_id: string;
+  content: {
+    msgtype?: string;
+    body?: string;
+  };
+}
+
+export interface MatrixSyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, { timeline?: { events: MatrixEvent[] } }>;
+    invite?: Record<string, unknown>;
+  };
+}
@@ -83,3 +83,13 @@ export const setDelegate = (key: string) => {
     { prim: "CONS" },
   ];
 };
+
+export const removeDelegate = () => {
+  return [
+    { prim: "DROP" },
+    { prim: "NIL", args: [{ prim: "operation" }] },
+    { prim: "NONE", args: [{ prim: "key_hash" }] },
+    { prim: "SET_DELEGATE" },
+    { prim: "CONS" },
+  ];
+};
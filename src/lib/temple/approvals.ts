@@ -0,0 +1,236 @@
+import BigNumber from "bignumber.js";
+import { TezosToolkit } from "@taquito/taquito";
+import { encodePubKey } from "@taquito/utils";
+import { getTransactions, TzktTransactionOperation } from "lib/tzkt";
+import { TempleChainId } from "lib/temple/types";
+import {
+  loadContract,
+  loadContractForCallLambdaView,
+} from "lib/temple/contract";
+
+export type TempleApproval = TempleAllowance | TempleOperatorApproval;
+
+export interface TempleAllowance {
+  type: "allowance";
+  contract: string;
+  spender: string;
+  /**
+   * Raw token amount, `null` if the contract didn't return it
+   */
+  amount: BigNumber | null;
+}
+
+export interface TempleOperatorApproval {
+  type: "operator";
+  contract: string;
+  operator: string;
+  tokenId: number;
+}
+
+type OperatorUpdate = {
+  add: boolean;
+  owner: string;
+  operator: string;
+  tokenId: number;
+};
+
+const APPROVAL_ENTRYPOINTS = ["approve", "update_operators"];
+const APPROVALS_PAGE_SIZE = 1_000;
+
+/**
+ * Discovers approvals given by the account from its operation history.
+ * FA1.2 allowances are spent by transfers, so they are read on chain.
+ * FA2 operators are replayed from add/remove updates.
+ */
+export async function fetchApprovals(
+  tezos: TezosToolkit,
+  chainId: TempleChainId,
+  accountPkh: string
+): Promise<TempleApproval[]> {
+  const operations = await fetchApprovalOperations(chainId, accountPkh);
+
+  const spenders = new Map<string, { contract: string; spender: string }>();
+  const operators = new Map<string, TempleOperatorApproval>();
+
+  for (const op of operations) {
+    const parameters = parseParameters(op.parameters);
+    const contract = op.target?.address;
+    if (!parameters || !contract) continue;
+
+    switch (parameters.entrypoint) {
+      case "approve":
+        const spender = parseApprove(parameters.value);
+        if (spender) {
+          spenders.set(`${contract}_${spender}`, { contract, spender });
+        }
+        break;
+
+      case "update_operators":
+        for (const update of parseOperatorUpdates(parameters.value)) {
+          if (update.owner !== accountPkh) continue;
+
+          const key = `${contract}_${update.operator}_${update.tokenId}`;
+          if (update.add) {
+            operators.set(key, {
+              type: "operator",
+              contract,
+              operator: update.operator,
+              tokenId: update.tokenId,
+            });
+          } else {
+            operators.delete(key);
+          }
+        }
+        break;
+    }
+  }
+
+  const allowances = await Promise.all(
+    Array.from(spenders.values()).map(
+      async ({ contract, spender }): Promise<TempleAllowance | null> => {
+        let amount: BigNumber | null = null;
+        try {
+          amount = await fetchAllowance(tezos, contract, accountPkh, spender);
+        } catch {}
+
+        return amount?.isZero()
+          ? null
+          : { type: "allowance", contract, spender, amount };
+      }
+    )
+  );
+
+  return [
+    ...allowances.filter((a): a is TempleAllowance => a !== null),
+    ...Array.from(operators.values()),
+  ];
+}
+
+/**
+ * Whole history is needed to replay operator updates,
+ * so it is fetched page by page from the oldest
+ */
+async function fetchApprovalOperations(
+  chainId: TempleChainId,
+  accountPkh: string
+) {
+  const operations: TzktTransactionOperation[] = [];
+  let page: TzktTransactionOperation[];
+  do {
+    page = await getTransactions(chainId, {
+      sender: accountPkh,
+      entrypoints: APPROVAL_ENTRYPOINTS,
+      status: "applied",
+      sort: "asc",
+      offset: operations.length,
+      limit: APPROVALS_PAGE_SIZE,
+    });
+    operations.push(...page);
+  } while (page.length === APPROVALS_PAGE_SIZE);
+  return operations;
+}
+
+export async function toRevokeApprovalParams(
+  tezos: TezosToolkit,
+  accountPkh: string,
+  approval: TempleApproval
+) {
+  const contract = await loadContract(tezos, approval.contract);
+
+  switch (approval.type) {
+    case "allowance":
+      return contract.methods.approve(approval.spender, 0).toTransferParams();
+
+    case "operator":
+      return contract.methods
+        .update_operators([
+          {
+            remove_operator: {
+              owner: accountPkh,
+              operator: approval.operator,
+              token_id: approval.tokenId,
+            },
+          },
+        ])
+        .toTransferParams();
+  }
+}
+
+export function getApprovalKey(approval: TempleApproval) {
+  return approval.type === "allowance"
+    ? `allowance_${approval.contract}_${approval.spender}`
+    : `operator_${approval.contract}_${approval.operator}_${approval.tokenId}`;
+}
+
+async function fetchAllowance(
+  tezos: TezosToolkit,
+  contractAddress: string,
+  owner: string,
+  spender: string
+) {
+  const contract = await loadContractForCallLambdaView(tezos, contractAddress);
+  const nat: BigNumber = await contract.views
+    .getAllowance(owner, spender)
+    .read((tezos as any).lambdaContract);
+  return new BigNumber(nat);
+}
+
+function parseParameters(
+  parameters?: any
+): { entrypoint: string; value: any } | null {
+  try {
+    const parsed =
+      typeof parameters === "string" ? JSON.parse(parameters) : parameters;
+    return parsed?.entrypoint ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseApprove(value: any) {
+  const [spender] = flattenPair(value);
+  return toAddress(spender);
+}
+
+/**
+ * Operator param is `(pair owner (pair operator token_id))`,
+ * wrapped with `Left` to add or `Right` to remove operator
+ */
+function parseOperatorUpdates(value: any) {
+  if (!Array.isArray(value)) return [];
+
+  const updates: OperatorUpdate[] = [];
+  for (const item of value) {
+    const [ownerExpr, operatorExpr, tokenIdExpr] = flattenPair(item?.args?.[0]);
+    const owner = toAddress(ownerExpr);
+    const operator = toAddress(operatorExpr);
+    const tokenId = Number(tokenIdExpr?.int);
+    if (
+      (item?.prim === "Left" || item?.prim === "Right") &&
+      owner &&
+      operator &&
+      Number.isInteger(tokenId)
+    ) {
+      updates.push({ add: item.prim === "Left", owner, operator, tokenId });
+    }
+  }
+  return updates;
+}
+
+function toAddress(expr: any): string | null {
+  if (typeof expr?.string === "string") return expr.string;
+  if (typeof expr?.bytes === "string") {
+    try {
+      return encodePubKey(expr.bytes);
+    } catch {}
+  }
+  return null;
+}
+
+function flattenPair(value: any): any[] {
+  if (value?.prim !== "Pair") return [value];
+  const [first, ...rest] = value.args;
+  return rest.length === 1
+    ? [first, ...flattenPair(rest[0])]
+    : [first, ...rest];
+}
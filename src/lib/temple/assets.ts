@@ -1,7 +1,13 @@
 import { browser } from "webextension-polyfill-ts";
 import { TezosToolkit, WalletContract } from "@taquito/taquito";
 import BigNumber from "bignumber.js";
-import { TempleAsset, TempleToken, TempleAssetType } from "lib/temple/types";
+import {
+  TempleAsset,
+  TempleToken,
+  TempleAssetType,
+  TempleFA2Asset,
+  TempleCollectibleMetadata,
+} from "lib/temple/types";
 import {
   loadContract,
   loadContractForCallLambdaView,
@@ -408,6 +414,59 @@ export function getAssetKey(asset: TempleAsset) {
   }
 }
 
+export function isCollectible(asset: TempleAsset): asset is TempleFA2Asset {
+  return asset.type === TempleAssetType.FA2 && !asset.fungible;
+}
+
+/**
+ * Collectible with boolean amount or the only edition owned
+ * is transferred as a whole
+ */
+export function isSingleEdition(asset: TempleAsset, balance: BigNumber) {
+  return (
+    isCollectible(asset) &&
+    (Boolean(asset.collectible?.isBooleanAmount) ||
+      balance.isLessThanOrEqualTo(1))
+  );
+}
+
+/**
+ * Detects non-fungible FA2 token by its TZIP-21 metadata
+ */
+export function isNonFungibleMetadata(metadata: any) {
+  if (!metadata) return false;
+  if (parseBooleanField(metadata.isBooleanAmount)) return true;
+
+  return (
+    !+(metadata.decimals ?? 0) &&
+    Boolean(metadata.artifactUri || metadata.displayUri)
+  );
+}
+
+export function toCollectibleMetadata(
+  metadata: any
+): TempleCollectibleMetadata {
+  const collectible: TempleCollectibleMetadata = {};
+  for (const field of [
+    "artifactUri",
+    "displayUri",
+    "thumbnailUri",
+    "description",
+  ] as const) {
+    if (typeof metadata?.[field] === "string" && metadata[field]) {
+      collectible[field] = metadata[field];
+    }
+  }
+  if (parseBooleanField(metadata?.isBooleanAmount)) {
+    collectible.isBooleanAmount = true;
+  }
+  return collectible;
+}
+
+function parseBooleanField(value: any) {
+  return value === true || value === "true";
+}
+
 export function toPenny(asset: TempleAsset) {
   return new BigNumber(1).div(10 ** asset.decimals).toNumber();
 }
@@ -5,6 +5,9 @@ import {
   TempleDAppErrorType,
   TempleDAppRequest,
   TempleDAppResponse,
+  TempleDAppNetwork,
+  TempleDAppPermissionRequest,
+  TempleDAppSignRequest,
 } from "@temple-wallet/dapp/dist/types";
 import {
   TempleState,
@@ -12,9 +15,17 @@ import {
   TempleRequest,
   TempleSettings,
   TempleSharedStorageKey,
+  TempleBackup,
+  TempleCurve,
+  TempleDiscoverySource,
+  TempleUnsignedOperation,
+  TempleOfflineSignature,
+  TempleDAppPolicy,
+  TempleDAppLogEntry,
 } from "lib/temple/types";
 import { loadChainId } from "lib/temple/helpers";
-import { intercom } from "lib/temple/back/defaults";
+import { OFFLINE_PAYLOAD_VERSION } from "lib/temple/offline";
+import { intercom, PublicError } from "lib/temple/back/defaults";
 import {
   toFront,
   store,
@@ -22,6 +33,7 @@ import {
   locked,
   unlocked,
   accountsUpdated,
+  hdWalletsUpdated,
   settingsUpdated,
   withInited,
   withUnlocked,
@@ -33,19 +45,44 @@ import {
   requestOperation,
   requestSign,
   requestBroadcast,
+  injectOperation,
   getAllDApps,
+  getDApp,
+  setDAppPolicy as setDAppPolicyPure,
   removeDApp,
+  isDAppScopeGranted,
 } from "lib/temple/back/dapp";
+import * as Discovery from "lib/temple/back/discovery";
+import * as Offline from "lib/temple/back/offline";
+import * as Simulation from "lib/temple/back/simulation";
 import * as PndOps from "lib/temple/back/pndops";
+import * as ConfirmQueue from "lib/temple/back/confirm-queue";
+import * as DAppLog from "lib/temple/back/dapp-log";
+import * as Phishing from "lib/temple/back/phishing";
+import * as BeaconP2P from "lib/temple/back/beacon-p2p";
 import * as Beacon from "lib/temple/beacon";
 
 const ACCOUNT_NAME_PATTERN = /^[a-zA-Z0-9 _-]{1,16}$/;
-const AUTODECLINE_AFTER = 60_000;
 const BEACON_ID = `temple_wallet_${browser.runtime.id}`;
+const BEACON_SUPPORTED_SCOPES = [
+  Beacon.PermissionScope.OPERATION_REQUEST,
+  Beacon.PermissionScope.SIGN,
+  Beacon.PermissionScope.THRESHOLD,
+];
+const BEACON_HEX_PATTERN = /^[0-9a-fA-F]+$/;
+const TOO_MANY_OPERATIONS_ERROR_PATTERN = /gas_exhausted\.block|oversized_operation/;
 
 export async function init() {
   const vaultExist = await Vault.isExist();
   inited(vaultExist);
+  await BeaconP2P.start(async (origin, msg, acknowledge) => {
+    if (!(await isDAppEnabled())) return;
+
+    const res = await ConfirmQueue.enqueue(null, () =>
+      processBeacon(origin, msg, false, (ack) => acknowledge(ack.payload))
+    );
+    return res?.payload;
+  });
 }
 
 export async function getFrontState(): Promise<TempleState> {
@@ -78,6 +115,27 @@ export function registerNewWallet(password: string, mnemonic?: string) {
   });
 }
 
+export function restoreBackup(backup: TempleBackup, password: string) {
+  return withInited(async () => {
+    await Vault.restoreBackup(backup, password);
+    await unlock(password);
+  });
+}
+
+export function exportBackup(password: string) {
+  return withUnlocked(() => Vault.exportBackup(password));
+}
+
+export function changePassword(oldPassword: string, newPassword: string) {
+  return withUnlocked(async () => {
+    const vault = await Vault.changePassword(oldPassword, newPassword);
+    const accounts = await vault.fetchAccounts();
+    const hdWallets = await vault.fetchHDWallets();
+    const settings = await vault.fetchSettings();
+    unlocked({ vault, accounts, hdWallets, settings });
+  });
+}
+
 export function lock() {
   return withInited(async () => {
     locked();
@@ -88,12 +146,29 @@ export function unlock(password: string) {
   return withInited(async () => {
     const vault = await Vault.setup(password);
     const accounts = await vault.fetchAccounts();
+    const hdWallets = await vault.fetchHDWallets();
     const settings = await vault.fetchSettings();
-    unlocked({ vault, accounts, settings });
+    unlocked({ vault, accounts, hdWallets, settings });
+  });
+}
+
+export function createHDAccount(walletId: string, name?: string) {
+  return withUnlocked(async ({ vault }) => {
+    if (name) {
+      name = name.trim();
+      if (!ACCOUNT_NAME_PATTERN.test(name)) {
+        throw new Error(
+          "Invalid name. It should be: 1-16 characters, without special"
+        );
+      }
+    }
+
+    const updatedAccounts = await vault.createHDAccount(walletId, name);
+    accountsUpdated(updatedAccounts);
   });
 }
 
-export function createHDAccount(name?: string) {
+export function createHDWallet(name?: string, mnemonic?: string) {
   return withUnlocked(async ({ vault }) => {
     if (name) {
       name = name.trim();
@@ -104,13 +179,37 @@ export function createHDAccount(name?: string) {
       }
     }
 
-    const updatedAccounts = await vault.createHDAccount(name);
+    const [updatedHDWallets, updatedAccounts] = await vault.createHDWallet(
+      name,
+      mnemonic
+    );
+    hdWalletsUpdated(updatedHDWallets);
+    accountsUpdated(updatedAccounts);
+  });
+}
+
+export function discoverAccounts(
+  source: TempleDiscoverySource,
+  rpcUrl: string,
+  gapLimit: number
+) {
+  return withUnlocked(({ vault, accounts }) =>
+    Discovery.discoverAccounts(vault, accounts, source, rpcUrl, gapLimit)
+  );
+}
+
+export function addDiscoveredAccounts(
+  source: TempleDiscoverySource,
+  indexes: number[]
+) {
+  return withUnlocked(async ({ vault }) => {
+    const updatedAccounts = await vault.addDiscoveredAccounts(source, indexes);
     accountsUpdated(updatedAccounts);
   });
 }
 
-export function revealMnemonic(password: string) {
-  return withUnlocked(() => Vault.revealMnemonic(password));
+export function revealMnemonic(walletId: string, password: string) {
+  return withUnlocked(() => Vault.revealMnemonic(walletId, password));
 }
 
 export function revealPrivateKey(accPublicKeyHash: string, password: string) {
@@ -155,13 +254,15 @@ export function importAccount(privateKey: string, encPassword?: string) {
 export function importMnemonicAccount(
   mnemonic: string,
   password?: string,
-  derivationPath?: string
+  derivationPath?: string,
+  curve?: TempleCurve
 ) {
   return withUnlocked(async ({ vault }) => {
     const updatedAccounts = await vault.importMnemonicAccount(
       mnemonic,
       password,
-      derivationPath
+      derivationPath,
+      curve
     );
     accountsUpdated(updatedAccounts);
   });
@@ -197,6 +298,25 @@ export function importManagedKTAccount(
   });
 }
 
+export function importMultisigAccount(
+  address: string,
+  chainId: string,
+  owner: string,
+  threshold: number,
+  signers: string[]
+) {
+  return withUnlocked(async ({ vault }) => {
+    const updatedAccounts = await vault.importMultisigAccount(
+      address,
+      chainId,
+      owner,
+      threshold,
+      signers
+    );
+    accountsUpdated(updatedAccounts);
+  });
+}
+
 export function importWatchOnlyAccount(address: string, chainId?: string) {
   return withUnlocked(async ({ vault }) => {
     const updatedAccounts = await vault.importWatchOnlyAccount(
@@ -207,11 +327,16 @@ export function importWatchOnlyAccount(address: string, chainId?: string) {
   });
 }
 
-export function craeteLedgerAccount(name: string, derivationPath?: string) {
+export function craeteLedgerAccount(
+  name: string,
+  derivationPath?: string,
+  curve?: TempleCurve
+) {
   return withUnlocked(async ({ vault }) => {
     const updatedAccounts = await vault.createLedgerAccount(
       name,
-      derivationPath
+      derivationPath,
+      curve
     );
     accountsUpdated(updatedAccounts);
   });
@@ -228,10 +353,23 @@ export function getAllDAppSessions() {
   return getAllDApps();
 }
 
-export function removeDAppSession(origin: string) {
-  return removeDApp(origin);
+export function removeDAppSession(origin: string, network?: TempleDAppNetwork) {
+  return removeDApp(origin, network);
 }
 
+export function setDAppPolicy(
+  origin: string,
+  network: TempleDAppNetwork,
+  policy: TempleDAppPolicy | null
+) {
+  return withUnlocked(() => setDAppPolicyPure(origin, network, policy));
+}
+
+/**
+ * Internal confirmations are shown in the requesting page.
+ * They are queued with DApp requests, so operations
+ * are confirmed and sent one by one.
+ */
 export function sendOperations(
   port: Runtime.Port,
   id: string,
@@ -239,95 +377,98 @@ export function sendOperations(
   networkRpc: string,
   opParams: any[]
 ): Promise<{ opHash: string }> {
-  return withUnlocked(
-    () =>
-      new Promise(async (resolve, reject) => {
-        intercom.notify(port, {
-          type: TempleMessageType.ConfirmationRequested,
-          id,
-          payload: {
-            type: "operations",
-            sourcePkh,
-            networkRpc,
-            opParams,
-          },
-        });
-
-        let closing = false;
-        const close = () => {
-          if (closing) return;
-          closing = true;
-
-          try {
-            stopTimeout();
-            stopRequestListening();
-            stopDisconnectListening();
-
-            intercom.notify(port, {
-              type: TempleMessageType.ConfirmationExpired,
-              id,
-            });
-          } catch (_err) {}
-        };
-
-        const decline = () => {
-          reject(new Error("Declined"));
-        };
-        const declineAndClose = () => {
-          decline();
-          close();
-        };
-
-        const stopRequestListening = intercom.onRequest(
-          async (req: TempleRequest, reqPort) => {
-            if (
-              reqPort === port &&
-              req?.type === TempleMessageType.ConfirmationRequest &&
-              req?.id === id
-            ) {
-              if (req.confirmed) {
-                try {
-                  const op = await withUnlocked(({ vault }) =>
-                    vault.sendOperations(sourcePkh, networkRpc, opParams)
-                  );
-
+  return withUnlocked(() =>
+    ConfirmQueue.enqueue(
+      port,
+      () =>
+        new Promise<{ opHash: string }>(async (resolve, reject) => {
+          intercom.notify(port, {
+            type: TempleMessageType.ConfirmationRequested,
+            id,
+            payload: {
+              type: "operations",
+              sourcePkh,
+              networkRpc,
+              opParams,
+            },
+          });
+
+          let closing = false;
+          const close = () => {
+            if (closing) return;
+            closing = true;
+
+            try {
+              stopTimeout();
+              stopRequestListening();
+              stopDisconnectListening();
+
+              intercom.notify(port, {
+                type: TempleMessageType.ConfirmationExpired,
+                id,
+              });
+            } catch (_err) {}
+          };
+
+          const decline = () => {
+            reject(new Error("Declined"));
+          };
+          const declineAndClose = () => {
+            decline();
+            close();
+          };
+
+          const stopRequestListening = intercom.onRequest(
+            async (req: TempleRequest, reqPort) => {
+              if (
+                reqPort === port &&
+                req?.type === TempleMessageType.ConfirmationRequest &&
+                req?.id === id
+              ) {
+                if (req.confirmed) {
                   try {
-                    const chainId = await loadChainId(networkRpc);
-                    const pndOps = PndOps.fromOpResults(op.results, op.hash);
-                    await PndOps.append(sourcePkh, chainId, pndOps);
-                  } catch {}
-
-                  resolve({ opHash: op.hash });
-                } catch (err) {
-                  if (err instanceof TezosOperationError) {
-                    reject(err);
-                  } else {
-                    throw err;
+                    const op = await withUnlocked(({ vault }) =>
+                      vault.sendOperations(sourcePkh, networkRpc, opParams)
+                    );
+
+                    try {
+                      const chainId = await loadChainId(networkRpc);
+                      const pndOps = PndOps.fromOpResults(op.results, op.hash);
+                      await PndOps.append(sourcePkh, chainId, pndOps);
+                    } catch {}
+
+                    resolve({ opHash: op.hash });
+                  } catch (err) {
+                    if (err instanceof TezosOperationError) {
+                      reject(err);
+                    } else {
+                      throw err;
+                    }
                   }
+                } else {
+                  decline();
                 }
-              } else {
-                decline();
-              }
 
-              close();
+                close();
 
-              return {
-                type: TempleMessageType.ConfirmationResponse,
-              };
+                return {
+                  type: TempleMessageType.ConfirmationResponse,
+                };
+              }
+              return;
             }
-            return;
-          }
-        );
-
-        const stopDisconnectListening = intercom.onDisconnect(
-          port,
-          declineAndClose
-        );
-
-        // Decline after timeout
-        const t = setTimeout(declineAndClose, AUTODECLINE_AFTER);
-        const stopTimeout = () => clearTimeout(t);
-      })
+          );
+
+          const stopDisconnectListening = intercom.onDisconnect(
+            port,
+            declineAndClose
+          );
+
+          // Decline after timeout
+          const t = setTimeout(declineAndClose, ConfirmQueue.AUTODECLINE_AFTER);
+          const stopTimeout = () => clearTimeout(t);
+        })
+    )
   );
 }
 
@@ -338,87 +479,194 @@ export function sign(
   bytes: string,
   watermark?: string
 ) {
-  return withUnlocked(
-    () =>
-      new Promise(async (resolve, reject) => {
-        intercom.notify(port, {
-          type: TempleMessageType.ConfirmationRequested,
-          id,
-          payload: {
-            type: "sign",
-            sourcePkh,
-            bytes,
-            watermark,
-          },
-        });
-
-        let closing = false;
-        const close = () => {
-          if (closing) return;
-          closing = true;
-
-          try {
-            stopTimeout();
-            stopRequestListening();
-            stopDisconnectListening();
-
-            intercom.notify(port, {
-              type: TempleMessageType.ConfirmationExpired,
-              id,
-            });
-          } catch (_err) {}
-        };
-
-        const decline = () => {
-          reject(new Error("Declined"));
-        };
-        const declineAndClose = () => {
-          decline();
-          close();
-        };
-
-        const stopRequestListening = intercom.onRequest(
-          async (req: TempleRequest, reqPort) => {
-            if (
-              reqPort === port &&
-              req?.type === TempleMessageType.ConfirmationRequest &&
-              req?.id === id
-            ) {
-              if (req.confirmed) {
-                const result = await withUnlocked(({ vault }) =>
-                  vault.sign(sourcePkh, bytes, watermark)
-                );
-                resolve(result);
-              } else {
-                decline();
-              }
+  return withUnlocked(() =>
+    ConfirmQueue.enqueue(
+      port,
+      () =>
+        new Promise(async (resolve, reject) => {
+          intercom.notify(port, {
+            type: TempleMessageType.ConfirmationRequested,
+            id,
+            payload: {
+              type: "sign",
+              sourcePkh,
+              bytes,
+              watermark,
+            },
+          });
+
+          let closing = false;
+          const close = () => {
+            if (closing) return;
+            closing = true;
+
+            try {
+              stopTimeout();
+              stopRequestListening();
+              stopDisconnectListening();
+
+              intercom.notify(port, {
+                type: TempleMessageType.ConfirmationExpired,
+                id,
+              });
+            } catch (_err) {}
+          };
+
+          const decline = () => {
+            reject(new Error("Declined"));
+          };
+          const declineAndClose = () => {
+            decline();
+            close();
+          };
+
+          const stopRequestListening = intercom.onRequest(
+            async (req: TempleRequest, reqPort) => {
+              if (
+                reqPort === port &&
+                req?.type === TempleMessageType.ConfirmationRequest &&
+                req?.id === id
+              ) {
+                if (req.confirmed) {
+                  const result = await withUnlocked(({ vault }) =>
+                    vault.sign(sourcePkh, bytes, watermark)
+                  );
+                  resolve(result);
+                } else {
+                  decline();
+                }
 
-              close();
+                close();
 
-              return {
-                type: TempleMessageType.ConfirmationResponse,
-              };
+                return {
+                  type: TempleMessageType.ConfirmationResponse,
+                };
+              }
+              return;
             }
-            return;
-          }
-        );
+          );
+
+          const stopDisconnectListening = intercom.onDisconnect(
+            port,
+            declineAndClose
+          );
+
+          // Decline after timeout
+          const t = setTimeout(declineAndClose, ConfirmQueue.AUTODECLINE_AFTER);
+          const stopTimeout = () => clearTimeout(t);
+        })
+    )
+  );
+}
 
-        const stopDisconnectListening = intercom.onDisconnect(
-          port,
-          declineAndClose
-        );
+export function simulateOperations(
+  sourcePkh: string,
+  networkRpc: string,
+  opParams: any[]
+) {
+  return withUnlocked(async ({ vault }) => {
+    const publicKey = await vault.revealPublicKey(sourcePkh);
+    return Simulation.simulateOperations(
+      sourcePkh,
+      publicKey,
+      networkRpc,
+      opParams
+    );
+  });
+}
+
+export function forgeOperations(
+  sourcePkh: string,
+  networkRpc: string,
+  opParams: any[]
+) {
+  return withUnlocked(async ({ vault }) => {
+    // Public key of watch-only account is unknown
+    const publicKey = await vault
+      .revealPublicKey(sourcePkh)
+      .catch(() => undefined);
+    return Offline.forgeOperations(sourcePkh, networkRpc, opParams, publicKey);
+  });
+}
+
+export function signOfflineOperation(operation: TempleUnsignedOperation) {
+  return withUnlocked(async ({ vault }) => {
+    await Offline.assertUnsignedOperation(operation);
+    const { prefixSig } = await vault.sign(
+      operation.sourcePkh,
+      operation.bytes,
+      "03"
+    );
+    const signature: TempleOfflineSignature = {
+      type: "operation_signature",
+      version: OFFLINE_PAYLOAD_VERSION,
+      chainId: operation.chainId,
+      sourcePkh: operation.sourcePkh,
+      bytes: operation.bytes,
+      signature: prefixSig,
+    };
+    return signature;
+  });
+}
+
+export async function broadcastOfflineOperation(
+  networkRpc: string,
+  signature: TempleOfflineSignature
+) {
+  const chainId = await loadChainId(networkRpc);
+  if (chainId !== signature.chainId) {
+    throw new PublicError("Operation was forged for another network");
+  }
+
+  const signedOpBytes = Offline.toSignedOperationBytes(signature);
+  try {
+    return await injectOperation(networkRpc, signedOpBytes);
+  } catch (err) {
+    throw err instanceof TezosOperationError
+      ? err
+      : new PublicError(`Failed to broadcast. ${err.message}`);
+  }
+}
+
+export function getDAppLog() {
+  return DAppLog.getAll();
+}
+
+export function clearDAppLog() {
+  return DAppLog.clear();
+}
 
-        // Decline after timeout
-        const t = setTimeout(declineAndClose, AUTODECLINE_AFTER);
-        const stopTimeout = () => clearTimeout(t);
-      })
+export function getBeaconPeers() {
+  return BeaconP2P.getPeers();
+}
+
+export function addBeaconPeer(pairingString: string) {
+  return withInited(() => BeaconP2P.addPeer(pairingString));
+}
+
+export async function removeBeaconPeer(id: string) {
+  const peer = await BeaconP2P.removePeer(id);
+  if (peer) {
+    await removeDApp(BeaconP2P.getPeerOrigin(peer));
+  }
+}
+
+export function processDApp(
+  origin: string,
+  req: TempleDAppRequest,
+  protocol: TempleDAppLogEntry["protocol"] = "temple"
+): Promise<TempleDAppResponse | void> {
+  return DAppLog.track(origin, protocol, req, () =>
+    handleDAppRequest(origin, req)
   );
 }
 
-export async function processDApp(
+async function handleDAppRequest(
   origin: string,
   req: TempleDAppRequest
 ): Promise<TempleDAppResponse | void> {
+  await Phishing.assertNotBlockedByUser(origin);
+
   switch (req?.type) {
     case TempleDAppMessageType.GetCurrentPermissionRequest:
       return withInited(() => getCurrentPermission(origin));
@@ -437,11 +685,17 @@ export async function processDApp(
   }
 }
 
+type BeaconResult = {
+  payload: string;
+  encrypted?: boolean;
+};
+
 export async function processBeacon(
   origin: string,
   msg: string,
-  encrypted = false
-) {
+  encrypted = false,
+  onAcknowledge?: (ack: BeaconResult) => Promise<void> | void
+): Promise<BeaconResult | undefined> {
   let recipientPubKey: string | null = null;
 
   if (encrypted) {
@@ -458,7 +712,7 @@ export async function processBeacon(
     } catch {
       return {
         payload: Beacon.encodeMessage<Beacon.Response>({
-          version: "2",
+          version: Beacon.BEACON_VERSION,
           senderId: await Beacon.getSenderId(),
           id: "stub",
           type: Beacon.MessageType.Disconnect,
@@ -504,42 +758,78 @@ export async function processBeacon(
     };
   }
 
+  // V2 DApps wait for acknowledgement before the request is processed
+  if (!req.beaconId && onAcknowledge) {
+    try {
+      await onAcknowledge(
+        await encodeBeaconResponse(
+          { ...resBase, type: Beacon.MessageType.Acknowledge },
+          recipientPubKey
+        )
+      );
+    } catch {}
+  }
+
   const res = await (async (): Promise<Beacon.Response> => {
     try {
       try {
-        const templeReq = ((): TempleDAppRequest | void => {
+        const templeReq = await (async (): Promise<TempleDAppRequest | void> => {
           switch (req.type) {
             case Beacon.MessageType.PermissionRequest:
               const network =
-                req.network.type === "custom"
+                req.network?.type === "custom"
                   ? {
                       name: req.network.name!,
                       rpc: req.network.rpcUrl!,
                     }
-                  : req.network.type;
+                  : req.network?.type;
 
-              return {
+              const permReq: TempleDAppPermissionRequest & {
+                scopes: Beacon.PermissionScope[];
+              } = {
                 type: TempleDAppMessageType.PermissionRequest,
                 network: network === "edonet" ? "edo2net" : (network as any),
                 appMeta: req.appMetadata,
+                scopes: getBeaconScopes(req.scopes),
                 force: true,
               };
+              return permReq;
 
             case Beacon.MessageType.OperationRequest:
+              await assertBeaconScopeGranted(
+                origin,
+                req.sourceAddress,
+                Beacon.PermissionScope.OPERATION_REQUEST
+              );
+
               return {
                 type: TempleDAppMessageType.OperationRequest,
                 sourcePkh: req.sourceAddress,
-                opParams: req.operationDetails.map(Beacon.formatOpParams),
+                opParams: req.operationDetails?.map(Beacon.formatOpParams),
               };
 
             case Beacon.MessageType.SignPayloadRequest:
-              return {
+              await assertBeaconScopeGranted(
+                origin,
+                req.sourceAddress,
+                Beacon.PermissionScope.SIGN
+              );
+
+              const signReq: TempleDAppSignRequest & {
+                signingType?: Beacon.SigningType;
+              } = {
                 type: TempleDAppMessageType.SignRequest,
                 sourcePkh: req.sourceAddress,
                 payload: req.payload,
+                ...(req.signingType ? { signingType: req.signingType } : {}),
               };
+              return signReq;
 
             case Beacon.MessageType.BroadcastRequest:
+              if (!BEACON_HEX_PATTERN.test(req.signedTransaction)) {
+                throw new Error(Beacon.ErrorType.TRANSACTION_INVALID_ERROR);
+              }
+
               return {
                 type: TempleDAppMessageType.BroadcastRequest,
                 signedOpBytes: req.signedTransaction,
@@ -548,21 +838,47 @@ export async function processBeacon(
         })();
 
         if (templeReq) {
-          const templeRes = await processDApp(origin, templeReq);
+          const templeRes = await processDApp(origin, templeReq, "beacon");
 
           if (templeRes) {
             // Map Temple DApp response to Beacon response
             switch (templeRes.type) {
               case TempleDAppMessageType.PermissionResponse:
+                const {
+                  scopes: requestedScopes,
+                } = templeReq as TempleDAppPermissionRequest & {
+                  scopes: Beacon.PermissionScope[];
+                };
+
+                // Report spending policy if DApp asks for it
+                const policy = requestedScopes.includes(
+                  Beacon.PermissionScope.THRESHOLD
+                )
+                  ? (
+                      await getDApp(
+                        origin,
+                        (templeReq as TempleDAppPermissionRequest).network
+                      )
+                    )?.policy
+                  : undefined;
+
                 return {
                   ...resBase,
                   type: Beacon.MessageType.PermissionResponse,
                   publicKey: (templeRes as any).publicKey,
                   network: (req as Beacon.PermissionRequest).network,
-                  scopes: [
-                    Beacon.PermissionScope.OPERATION_REQUEST,
-                    Beacon.PermissionScope.SIGN,
-                  ],
+                  scopes: requestedScopes.filter(
+                    (scope) =>
+                      scope !== Beacon.PermissionScope.THRESHOLD || policy
+                  ),
+                  ...(policy
+                    ? {
+                        threshold: {
+                          amount: policy.tezLimit,
+                          timeframe: String(policy.timeframe),
+                        },
+                      }
+                    : {}),
                 };
 
               case TempleDAppMessageType.OperationResponse:
@@ -573,10 +889,12 @@ export async function processBeacon(
                 };
 
               case TempleDAppMessageType.SignResponse:
+                const { signingType } = req as Beacon.SignRequest;
                 return {
                   ...resBase,
                   type: Beacon.MessageType.SignPayloadResponse,
                   signature: templeRes.signature,
+                  ...(signingType ? { signingType } : {}),
                 };
 
               case TempleDAppMessageType.BroadcastResponse:
@@ -595,20 +913,30 @@ export async function processBeacon(
           throw err;
         }
 
+        const broadcasting = req.type === Beacon.MessageType.BroadcastRequest;
+
         // Map Temple DApp error to Beacon error
         const beaconErrorType = (() => {
           switch (err?.message) {
             case TempleDAppErrorType.InvalidParams:
-              return Beacon.ErrorType.PARAMETERS_INVALID_ERROR;
+              return broadcasting
+                ? Beacon.ErrorType.TRANSACTION_INVALID_ERROR
+                : Beacon.ErrorType.PARAMETERS_INVALID_ERROR;
 
             case TempleDAppErrorType.NotFound:
+              return Beacon.ErrorType.NOT_GRANTED_ERROR;
+
+            // Declined by user
             case TempleDAppErrorType.NotGranted:
               return req.beaconId
                 ? Beacon.ErrorType.NOT_GRANTED_ERROR
                 : Beacon.ErrorType.ABORTED_ERROR;
 
             default:
-              return err?.message;
+              // Node is not available
+              return broadcasting && !(err?.message in Beacon.ErrorType)
+                ? Beacon.ErrorType.BROADCAST_ERROR
+                : err?.message;
           }
         })();
 
@@ -621,7 +949,9 @@ export async function processBeacon(
         errorType: (() => {
           switch (true) {
             case err instanceof TezosOperationError:
-              return Beacon.ErrorType.TRANSACTION_INVALID_ERROR;
+              return isTooManyOperationsError(err)
+                ? Beacon.ErrorType.TOO_MANY_OPERATIONS
+                : Beacon.ErrorType.TRANSACTION_INVALID_ERROR;
 
             case err?.message in Beacon.ErrorType:
               return err.message;
@@ -635,8 +965,15 @@ export async function processBeacon(
     }
   })();
 
+  return encodeBeaconResponse(res, recipientPubKey);
+}
+
+async function encodeBeaconResponse(
+  res: Beacon.Response,
+  recipientPubKey: string | null
+): Promise<BeaconResult> {
   const resMsg = Beacon.encodeMessage<Beacon.Response>(res);
-  if (encrypted && recipientPubKey) {
+  if (recipientPubKey) {
     return {
       payload: await Beacon.encryptMessage(resMsg, recipientPubKey),
       encrypted: true,
@@ -645,6 +982,41 @@ export async function processBeacon(
   return { payload: resMsg };
 }
 
+/**
+ * V1 DApps may not specify scopes, they used to get everything but threshold
+ */
+function getBeaconScopes(requested?: Beacon.PermissionScope[]) {
+  if (!Array.isArray(requested)) {
+    return [
+      Beacon.PermissionScope.OPERATION_REQUEST,
+      Beacon.PermissionScope.SIGN,
+    ];
+  }
+  return BEACON_SUPPORTED_SCOPES.filter((scope) => requested.includes(scope));
+}
+
+async function assertBeaconScopeGranted(
+  origin: string,
+  pkh: string,
+  scope: Beacon.PermissionScope
+) {
+  const granted = await isDAppScopeGranted(origin, pkh, scope).catch(
+    () => false
+  );
+  if (!granted) {
+    throw new Error(Beacon.ErrorType.NOT_GRANTED_ERROR);
+  }
+}
+
+/**
+ * Operations group exceeds block gas limit or max operation size
+ */
+function isTooManyOperationsError(err: TezosOperationError) {
+  return err.errors.some(({ id }: any) =>
+    TOO_MANY_OPERATIONS_ERROR_PATTERN.test(id)
+  );
+}
+
 function getErrorData(err: any) {
   return err instanceof TezosOperationError
     ? err.errors.map(({ contract_code, ...rest }: any) => rest)
@@ -0,0 +1,79 @@
+import { browser, Idle } from "webextension-polyfill-ts";
+import { TempleSettings, TempleStatus } from "lib/temple/types";
+import { getAutoLockSettings } from "lib/temple/helpers";
+import {
+  store,
+  locked,
+  unlocked,
+  settingsUpdated,
+} from "lib/temple/back/store";
+
+const IDLE_DETECTION_INTERVAL = 60; // seconds
+
+let lockTimeout: ReturnType<typeof setTimeout> | null = null;
+
+export function startAutoLock() {
+  unlocked.watch(({ settings }) => scheduleLock(settings));
+  settingsUpdated.watch(scheduleLock);
+  locked.watch(cancelLock);
+
+  browser.idle.setDetectionInterval(IDLE_DETECTION_INTERVAL);
+  browser.idle.onStateChanged.addListener(handleIdleStateChanged);
+  browser.windows.onRemoved.addListener(handleWindowRemoved);
+}
+
+/**
+ * Postpones auto lock.
+ * Should be called only on explicit user activity: input in extension
+ * pages (popup, fullpage, confirm) reported via activity pings, and
+ * decisions on DApp confirmations. Incoming DApp requests don't count,
+ * as any web page can send them without the user being present.
+ * Requests pages make on their own (e.g. polling) don't count either.
+ */
+export function trackActivity() {
+  const { status, settings } = store.getState();
+  if (status === TempleStatus.Ready) {
+    scheduleLock(settings);
+  }
+}
+
+function scheduleLock(settings: TempleSettings | null) {
+  cancelLock();
+
+  const { timeout } = getAutoLockSettings(settings);
+  if (timeout > 0) {
+    lockTimeout = setTimeout(lockIfUnlocked, timeout * 60_000);
+  }
+}
+
+function cancelLock() {
+  if (lockTimeout !== null) {
+    clearTimeout(lockTimeout);
+    lockTimeout = null;
+  }
+}
+
+function handleIdleStateChanged(idleState: Idle.IdleState) {
+  if (idleState === "active") return;
+
+  const { settings } = store.getState();
+  if (getAutoLockSettings(settings).lockOnSystemIdle) {
+    lockIfUnlocked();
+  }
+}
+
+async function handleWindowRemoved() {
+  const { settings } = store.getState();
+  if (!getAutoLockSettings(settings).lockOnBrowserClose) return;
+
+  const windows = await browser.windows.getAll();
+  if (windows.length === 0) {
+    lockIfUnlocked();
+  }
+}
+
+function lockIfUnlocked() {
+  if (store.getState().status === TempleStatus.Ready) {
+    locked();
+  }
+}
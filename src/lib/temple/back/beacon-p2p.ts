@@ -0,0 +1,256 @@
+import { browser } from "webextension-polyfill-ts";
+import { TempleBeaconPeer } from "lib/temple/types";
+import { MatrixClient, MatrixSyncResponse } from "lib/matrix";
+import * as Beacon from "lib/temple/beacon";
+import { PublicError } from "lib/temple/back/defaults";
+import { removeDApp } from "lib/temple/back/dapp";
+
+/**
+ * Relay can be replaced with a local Matrix server (or mock)
+ * by `TEMPLE_WALLET_BEACON_RELAY_URL` environment variable.
+ * Its origin is added to manifest permissions on build.
+ */
+const RELAY_URL =
+  process.env.TEMPLE_WALLET_BEACON_RELAY_URL ||
+  "https://beacon-node-1.sky.papers.tech";
+
+const PEERS_STORAGE_KEY = "beacon_p2p_peers";
+const SYNC_RETRY_DELAY = 5_000;
+
+/**
+ * Handles decrypted Beacon message from the peer,
+ * returns encoded response if there is one
+ */
+type MessageHandler = (
+  origin: string,
+  msg: string,
+  acknowledge: (ack: string) => Promise<void>
+) => Promise<string | void>;
+
+let handler: MessageHandler | null = null;
+let client: MatrixClient | null = null;
+let syncing = false;
+
+export async function start(onMessage: MessageHandler) {
+  handler = onMessage;
+  if ((await getPeers()).length > 0) {
+    startSync();
+  }
+}
+
+/**
+ * Peers are identified by synthetic origin
+ * in DApp sessions, log and confirmation window
+ */
+export function getPeerOrigin(peer: TempleBeaconPeer) {
+  return `beacon-p2p://${peer.senderId}`;
+}
+
+export async function getPeers() {
+  const peers: TempleBeaconPeer[] =
+    (await browser.storage.local.get([PEERS_STORAGE_KEY]))[PEERS_STORAGE_KEY] ||
+    [];
+  return peers;
+}
+
+export async function addPeer(pairingString: string) {
+  let req: Beacon.P2PPairingRequest;
+  try {
+    req = Beacon.parsePairingString(pairingString);
+  } catch (err) {
+    throw new PublicError(err.message);
+  }
+
+  const matrix = await getClient();
+  const recipient = await Beacon.toMatrixUserId(req.publicKey, req.relayServer);
+  const roomId = await matrix.createRoom([recipient]);
+
+  const keyPair = await Beacon.getOrCreateKeyPair();
+  const { name, icon, appUrl } = Beacon.PAIRING_RESPONSE_BASE;
+  const res: Beacon.P2PPairingResponse = {
+    id: req.id,
+    type: "p2p-pairing-response",
+    name: name!,
+    version: req.version,
+    publicKey: Beacon.toHex(keyPair.publicKey),
+    relayServer: getRelayServer(),
+    ...(icon ? { icon } : {}),
+    ...(appUrl ? { appUrl } : {}),
+  };
+  const sealed = await Beacon.sealCryptobox(
+    JSON.stringify(res),
+    Beacon.fromHex(req.publicKey)
+  );
+  await matrix.sendTextMessage(
+    roomId,
+    [Beacon.P2P_CHANNEL_OPEN_PREFIX, recipient, sealed].join(":")
+  );
+
+  const peer: TempleBeaconPeer = {
+    id: req.id,
+    name: req.name,
+    ...(req.icon ? { icon: req.icon } : {}),
+    ...(req.appUrl ? { appUrl: req.appUrl } : {}),
+    publicKey: req.publicKey,
+    relayServer: req.relayServer,
+    senderId: await Beacon.toSenderId(Beacon.fromHex(req.publicKey)),
+    roomId,
+    pairedAt: Date.now(),
+  };
+  const peers = await getPeers();
+  await setPeers([
+    ...peers.filter((p) => p.publicKey !== peer.publicKey),
+    peer,
+  ]);
+
+  startSync();
+  return peer;
+}
+
+/**
+ * Removes peer and notifies it if relay is reachable
+ */
+export async function removePeer(id: string) {
+  const peers = await getPeers();
+  const peer = peers.find((p) => p.id === id);
+  if (!peer) return null;
+
+  try {
+    const disconnect = Beacon.encodeMessage<Beacon.Response>({
+      type: Beacon.MessageType.Disconnect,
+      version: Beacon.BEACON_VERSION,
+      id: peer.id,
+      senderId: await Beacon.getSenderId(),
+    });
+    await sendMessage(peer, disconnect);
+  } catch {}
+
+  await setPeers(peers.filter((p) => p.id !== id));
+  return peer;
+}
+
+function setPeers(peers: TempleBeaconPeer[]) {
+  return browser.storage.local.set({ [PEERS_STORAGE_KEY]: peers });
+}
+
+async function startSync() {
+  if (syncing) return;
+  syncing = true;
+
+  // Messages of the first sync are history, they are skipped
+  let since: string | undefined;
+  try {
+    while ((await getPeers()).length > 0) {
+      try {
+        const matrix = await getClient();
+        const res = await matrix.sync(since);
+        await handleSync(matrix, res, Boolean(since));
+        since = res.next_batch;
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+        client = null;
+        await new Promise((r) => setTimeout(r, SYNC_RETRY_DELAY));
+      }
+    }
+  } finally {
+    syncing = false;
+  }
+}
+
+async function handleSync(
+  matrix: MatrixClient,
+  res: MatrixSyncResponse,
+  withMessages: boolean
+) {
+  for (const roomId of Object.keys(res.rooms?.invite ?? {})) {
+    try {
+      await matrix.joinRoom(roomId);
+    } catch {}
+  }
+
+  if (!withMessages) return;
+
+  const peers = await getPeers();
+  const peersByUserId = new Map<string, TempleBeaconPeer>();
+  for (const peer of peers) {
+    peersByUserId.set(
+      await Beacon.toMatrixUserId(peer.publicKey, peer.relayServer),
+      peer
+    );
+  }
+
+  for (const [roomId, room] of Object.entries(res.rooms?.join ?? {})) {
+    for (const event of room.timeline?.events ?? []) {
+      const peer = peersByUserId.get(event.sender);
+      const body = event.content.body;
+      if (
+        !peer ||
+        event.type !== "m.room.message" ||
+        event.content.msgtype !== "m.text" ||
+        !body
+      ) {
+        continue;
+      }
+
+      let msg: string;
+      try {
+        msg = await Beacon.decryptMessage(body, peer.publicKey);
+      } catch {
+        continue;
+      }
+
+      const actualPeer = peer.roomId === roomId ? peer : { ...peer, roomId };
+      if (actualPeer !== peer) {
+        await setPeers(
+          (await getPeers()).map((p) => (p.id === peer.id ? actualPeer : p))
+        );
+      }
+
+      // Requests wait for confirmation, so they are handled concurrently
+      handleMessage(actualPeer, msg);
+    }
+  }
+}
+
+async function handleMessage(peer: TempleBeaconPeer, msg: string) {
+  try {
+    const req = Beacon.decodeMessage<Beacon.Request>(msg);
+    if (req?.type === Beacon.MessageType.Disconnect) {
+      await setPeers((await getPeers()).filter((p) => p.id !== peer.id));
+      await removeDApp(getPeerOrigin(peer));
+      return;
+    }
+
+    const res = await handler?.(getPeerOrigin(peer), msg, (ack) =>
+      sendMessage(peer, ack)
+    );
+    if (res) {
+      await sendMessage(peer, res);
+    }
+  } catch (err) {
+    if (process.env.NODE_ENV === "development") {
+      console.error(err);
+    }
+  }
+}
+
+async function sendMessage(peer: TempleBeaconPeer, msg: string) {
+  const matrix = await getClient();
+  const encrypted = await Beacon.encryptMessage(msg, peer.publicKey);
+  await matrix.sendTextMessage(peer.roomId, encrypted);
+}
+
+async function getClient() {
+  if (!client?.loggedIn) {
+    const matrix = new MatrixClient(RELAY_URL);
+    await matrix.login(await Beacon.getP2PLoginCredentials());
+    client = matrix;
+  }
+  return client;
+}
+
+function getRelayServer() {
+  return new URL(RELAY_URL).host;
+}
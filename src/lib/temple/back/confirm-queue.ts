@@ -0,0 +1,262 @@
+import { browser, Runtime } from "webextension-polyfill-ts";
+import { Queue } from "queue-ts";
+import {
+  TempleMessageType,
+  TempleRequest,
+  TempleDAppPayload,
+  TempleDAppConfirmation,
+} from "lib/temple/types";
+import { isSignRiskAcceptanceRequired } from "lib/temple/helpers";
+import { intercom } from "lib/temple/back/defaults";
+import { trackActivity } from "lib/temple/back/autolock";
+
+const CONFIRM_WINDOW_WIDTH = 380;
+const CONFIRM_WINDOW_HEIGHT = 600;
+export const AUTODECLINE_AFTER = 120_000;
+
+export type ConfirmRequest = {
+  id: string;
+  payload: TempleDAppPayload;
+  onDecline: () => void;
+  handleIntercomRequest: (
+    req: TempleRequest,
+    decline: () => void
+  ) => Promise<any>;
+};
+
+type PendingRequest = ConfirmRequest & {
+  port: Runtime.Port | null;
+  stopTimeout: () => void;
+};
+
+type ProcessingRequest = {
+  port: Runtime.Port | null;
+  release: () => void;
+};
+
+/**
+ * Pending DApp requests are confirmed one by one in a single window.
+ * Each request is declined after its own timeout.
+ */
+let pending: PendingRequest[] = [];
+let confirmWinId: number | null = null;
+let confirmWinOpening: Promise<void> | null = null;
+let confirmPort: Runtime.Port | null = null;
+let stopRequestListening: (() => void) | null = null;
+
+const requestsQueue = new Queue(1);
+let processing: ProcessingRequest | null = null;
+
+/**
+ * DApp requests and internal confirmations are processed one by one,
+ * as well as DApp confirmations.
+ * Request leaves the queue once it waits for confirmation, so following
+ * ones can be confirmed in the same window. Confirmations of the port
+ * are declined when it disconnects.
+ */
+export function enqueue<T>(
+  port: Runtime.Port | null,
+  factory: () => Promise<T>
+) {
+  return new Promise<T>((response, reject) => {
+    let connected = true;
+    const stopDisconnectListening = port
+      ? intercom.onDisconnect(port, () => {
+          connected = false;
+          reject(new Error("Disconnected"));
+          declineByPort(port);
+        })
+      : () => {};
+
+    requestsQueue.add(() =>
+      new Promise<void>((release) => {
+        if (!connected) return release();
+
+        processing = { port, release };
+        factory()
+          .then(response)
+          .catch(reject)
+          .finally(() => {
+            stopDisconnectListening();
+            release();
+          });
+      }).finally(() => {
+        processing = null;
+      })
+    );
+  });
+}
+
+export async function add(req: ConfirmRequest) {
+  const port = processing?.port ?? null;
+  const t = setTimeout(() => decline(req.id), AUTODECLINE_AFTER);
+  pending = [...pending, { ...req, port, stopTimeout: () => clearTimeout(t) }];
+
+  // Let the following requests be processed
+  processing?.release();
+
+  if (!stopRequestListening) {
+    stopRequestListening = intercom.onRequest(handleIntercomRequest);
+  }
+  notifyUpdated();
+
+  try {
+    await openWindow();
+  } catch (err) {
+    decline(req.id);
+    throw err;
+  }
+}
+
+async function handleIntercomRequest(req: TempleRequest, port: Runtime.Port) {
+  if (req?.type === TempleMessageType.DAppGetConfirmationsRequest) {
+    await confirmWinOpening;
+    if (!isConfirmWindowPort(port)) return;
+
+    confirmPort = port;
+    return {
+      type: TempleMessageType.DAppGetConfirmationsResponse,
+      confirmations: pending.map(
+        ({ id, payload }): TempleDAppConfirmation => ({ id, payload })
+      ),
+    };
+  }
+
+  if (port !== confirmPort) return;
+
+  const item = pending.find((p) => p.id === (req as { id?: string })?.id);
+  if (!item) return;
+
+  // Risky signing can't be approved in bulk or without user acceptance
+  if (
+    req.type === TempleMessageType.DAppSignConfirmationRequest &&
+    req.confirmed &&
+    item.payload.type === "sign" &&
+    isSignRiskAcceptanceRequired(item.payload) &&
+    !req.riskAccepted
+  ) {
+    throw new Error("Risk of signing is not accepted");
+  }
+
+  // Decision on confirmation is made by the user
+  trackActivity();
+
+  const result = await enqueueTask(() =>
+    item.handleIntercomRequest(req, item.onDecline)
+  );
+  if (result) {
+    remove(item.id);
+  }
+  return result;
+}
+
+function enqueueTask<T>(fn: () => Promise<T>) {
+  return new Promise<T>((resolve, reject) =>
+    requestsQueue.add(() => fn().then(resolve).catch(reject))
+  );
+}
+
+/**
+ * Only the confirm window opened by the queue receives confirmations
+ */
+function isConfirmWindowPort(port: Runtime.Port) {
+  return confirmWinId !== null && port.sender?.tab?.windowId === confirmWinId;
+}
+
+function declineByPort(port: Runtime.Port) {
+  for (const item of pending) {
+    if (item.port === port) {
+      decline(item.id);
+    }
+  }
+}
+
+function decline(id: string) {
+  const item = pending.find((p) => p.id === id);
+  if (item) {
+    item.onDecline();
+    remove(id);
+  }
+}
+
+function remove(id: string) {
+  const item = pending.find((p) => p.id === id);
+  if (!item) return;
+
+  item.stopTimeout();
+  pending = pending.filter((p) => p !== item);
+  notifyUpdated();
+
+  if (pending.length === 0) {
+    stopRequestListening?.();
+    stopRequestListening = null;
+    confirmPort = null;
+    closeWindow();
+  }
+}
+
+function notifyUpdated() {
+  if (confirmPort) {
+    intercom.notify(confirmPort, {
+      type: TempleMessageType.DAppConfirmationsUpdated,
+    });
+  }
+}
+
+function openWindow() {
+  if (!confirmWinOpening) {
+    confirmWinOpening = (async () => {
+      if (confirmWinId !== null) {
+        try {
+          await browser.windows.update(confirmWinId, { focused: true });
+          return;
+        } catch {
+          confirmWinId = null;
+        }
+      }
+
+      const win = await browser.windows.getCurrent();
+      const top = Math.round(
+        win.top! + win.height! / 2 - CONFIRM_WINDOW_HEIGHT / 2
+      );
+      const left = Math.round(
+        win.left! + win.width! / 2 - CONFIRM_WINDOW_WIDTH / 2
+      );
+
+      const isWin = (await browser.runtime.getPlatformInfo()).os === "win";
+
+      const confirmWin = await browser.windows.create({
+        type: "popup",
+        url: browser.runtime.getURL("confirm.html"),
+        width: isWin ? CONFIRM_WINDOW_WIDTH + 16 : CONFIRM_WINDOW_WIDTH,
+        height: isWin ? CONFIRM_WINDOW_HEIGHT + 17 : CONFIRM_WINDOW_HEIGHT,
+        top: Math.max(top, 20),
+        left: Math.max(left, 20),
+      });
+      confirmWinId = confirmWin.id ?? null;
+    })().finally(() => {
+      confirmWinOpening = null;
+    });
+  }
+  return confirmWinOpening;
+}
+
+async function closeWindow() {
+  const winId = confirmWinId;
+  confirmWinId = null;
+  if (winId === null) return;
+
+  try {
+    await browser.windows.remove(winId);
+  } catch {}
+}
+
+browser.windows.onRemoved.addListener((winId) => {
+  if (winId !== confirmWinId) return;
+
+  // Closing the window declines everything pending
+  confirmWinId = null;
+  for (const { id } of pending) {
+    decline(id);
+  }
+});
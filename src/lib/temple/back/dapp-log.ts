@@ -0,0 +1,177 @@
+import { browser } from "webextension-polyfill-ts";
+import { Queue } from "queue-ts";
+import { nanoid } from "nanoid";
+import {
+  TempleDAppMessageType,
+  TempleDAppRequest,
+  TempleDAppResponse,
+} from "@temple-wallet/dapp/dist/types";
+import {
+  TempleDAppLogEntry,
+  TempleDAppLogRequest,
+  TempleDAppLogOperation,
+} from "lib/temple/types";
+import { tzToMutez } from "lib/temple/helpers";
+import { DeclinedError, getApproval } from "lib/temple/back/dapp";
+
+const STORAGE_KEY = "dapp_log";
+const MAX_ENTRIES = 500;
+const PAYLOAD_PREVIEW_LENGTH = 64;
+
+export async function getAll() {
+  const entries: TempleDAppLogEntry[] =
+    (await browser.storage.local.get([STORAGE_KEY]))[STORAGE_KEY] || [];
+  return entries;
+}
+
+export function clear() {
+  return enqueue(() => browser.storage.local.set({ [STORAGE_KEY]: [] }));
+}
+
+/**
+ * Handles DApp request and records how it was resolved.
+ * Only requests asking for something (permission, operation,
+ * sign, broadcast) are recorded. Responses given without
+ * confirmation (e.g. permission of existing session, broadcast)
+ * are recorded as "no-prompt". Only declined confirmations are
+ * recorded as declined, other rejections (e.g. missing permission)
+ * as failed.
+ */
+export async function track(
+  origin: string,
+  protocol: TempleDAppLogEntry["protocol"],
+  req: TempleDAppRequest,
+  handle: () => Promise<TempleDAppResponse | void>
+) {
+  const request = toLogRequest(req);
+  if (!request) {
+    return handle();
+  }
+
+  const entryBase = {
+    id: nanoid(),
+    timestamp: Date.now(),
+    origin,
+    protocol,
+    request,
+  };
+
+  try {
+    const res = await handle();
+    await append({
+      ...entryBase,
+      decision: toDecision(res),
+      ...(res ? toLogResult(res) : {}),
+    });
+    return res;
+  } catch (err) {
+    await append(
+      err instanceof DeclinedError
+        ? { ...entryBase, decision: "declined" }
+        : { ...entryBase, decision: "failed", error: err?.message }
+    );
+    throw err;
+  }
+}
+
+function toDecision(
+  res: TempleDAppResponse | void
+): TempleDAppLogEntry["decision"] {
+  switch (res && getApproval(res)) {
+    case "prompt":
+      return "approved";
+
+    case "policy":
+      return "auto-approved";
+
+    default:
+      return "no-prompt";
+  }
+}
+
+async function append(entry: TempleDAppLogEntry) {
+  try {
+    await enqueue(async () => {
+      const entries = await getAll();
+      await browser.storage.local.set({
+        [STORAGE_KEY]: [entry, ...entries].slice(0, MAX_ENTRIES),
+      });
+    });
+  } catch {}
+}
+
+const queue = new Queue(1);
+
+function enqueue(fn: () => Promise<void>) {
+  return new Promise<void>((resolve, reject) =>
+    queue.add(() => fn().then(resolve).catch(reject))
+  );
+}
+
+function toLogRequest(req: TempleDAppRequest): TempleDAppLogRequest | null {
+  switch (req?.type) {
+    case TempleDAppMessageType.PermissionRequest:
+      return {
+        type: "permission",
+        network:
+          typeof req.network === "string" ? req.network : req.network?.rpc,
+        appName: req.appMeta?.name,
+      };
+
+    case TempleDAppMessageType.OperationRequest:
+      return {
+        type: "operation",
+        sourcePkh: req.sourcePkh,
+        operations: (req.opParams ?? []).map(toLogOperation),
+      };
+
+    case TempleDAppMessageType.SignRequest:
+      return {
+        type: "sign",
+        sourcePkh: req.sourcePkh,
+        payload: req.payload?.slice(0, PAYLOAD_PREVIEW_LENGTH),
+      };
+
+    case TempleDAppMessageType.BroadcastRequest:
+      return {
+        type: "broadcast",
+        bytesLength: req.signedOpBytes?.length ?? 0,
+      };
+
+    default:
+      return null;
+  }
+}
+
+function toLogOperation(op: any): TempleDAppLogOperation {
+  if (op?.kind !== "transaction") {
+    return { kind: String(op?.kind) };
+  }
+
+  const amount = op.amount ?? 0;
+  return {
+    kind: op.kind,
+    to: op.to,
+    amount: (op.mutez ? amount : tzToMutez(amount)).toString(),
+    ...(op.parameter?.entrypoint
+      ? { entrypoint: op.parameter.entrypoint }
+      : {}),
+  };
+}
+
+function toLogResult(res: TempleDAppResponse) {
+  switch (res.type) {
+    case TempleDAppMessageType.PermissionResponse:
+      return { pkh: res.pkh };
+
+    case TempleDAppMessageType.OperationResponse:
+    case TempleDAppMessageType.BroadcastResponse:
+      return { opHash: res.opHash };
+
+    case TempleDAppMessageType.SignResponse:
+      return { signature: res.signature };
+
+    default:
+      return {};
+  }
+}
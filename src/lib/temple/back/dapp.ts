@@ -1,11 +1,14 @@
-import { browser, Runtime } from "webextension-polyfill-ts";
+import { browser } from "webextension-polyfill-ts";
 import { nanoid } from "nanoid";
 import { TezosOperationError } from "@taquito/taquito";
 import { RpcClient } from "@taquito/rpc";
-import { localForger } from "@taquito/local-forging";
-import { emitMicheline } from "@taquito/michel-codec";
-import { valueDecoder } from "@taquito/local-forging/dist/lib/michelson/codec";
-import { Uint8ArrayConsumer } from "@taquito/local-forging/dist/lib/uint8array-consumer";
+import {
+  localForger,
+  decoders,
+  CODEC,
+  Uint8ArrayConsumer,
+} from "@taquito/local-forging";
+import { emitMicheline, Expr } from "@taquito/michel-codec";
 import {
   TempleDAppMessageType,
   TempleDAppErrorType,
@@ -19,28 +22,62 @@ import {
   TempleDAppBroadcastRequest,
   TempleDAppBroadcastResponse,
   TempleDAppNetwork,
+  TempleDAppResponse,
 } from "@temple-wallet/dapp/dist/types";
 import {
   TempleMessageType,
-  TempleRequest,
-  TempleDAppPayload,
   TempleDAppSession,
   TempleDAppSessions,
+  TempleDAppPolicy,
+  TempleDAppScope,
+  TempleDAppSigningType,
+  TempleSignPayloadType,
+  TempleStatus,
 } from "lib/temple/types";
-import { intercom } from "lib/temple/back/defaults";
 import * as PndOps from "lib/temple/back/pndops";
+import * as Policy from "lib/temple/back/policy";
+import * as Simulation from "lib/temple/back/simulation";
+import * as Phishing from "lib/temple/back/phishing";
+import * as ConfirmQueue from "lib/temple/back/confirm-queue";
 import * as Beacon from "lib/temple/beacon";
-import { withUnlocked } from "lib/temple/back/store";
+import { store, withUnlocked } from "lib/temple/back/store";
 import { NETWORKS } from "lib/temple/networks";
 import { loadChainId, isAddressValid } from "lib/temple/helpers";
 
-const CONFIRM_WINDOW_WIDTH = 380;
-const CONFIRM_WINDOW_HEIGHT = 600;
-const AUTODECLINE_AFTER = 120_000;
 const STORAGE_KEY = "dapp_sessions";
 const HEX_PATTERN = /^[0-9a-fA-F]+$/;
+const OPERATION_WATERMARK = "03";
+const MICHELINE_WATERMARK = "05";
 const TEZ_MSG_SIGN_PATTERN = /^0501[a-f0-9]{8}54657a6f73205369676e6564204d6573736167653a20[a-f0-9]*$/;
 
+/**
+ * Request confirmation declined by the user.
+ * DApp receives it as `NotGranted` error.
+ */
+export class DeclinedError extends Error {
+  constructor() {
+    super(TempleDAppErrorType.NotGranted);
+  }
+}
+
+/**
+ * How responses were approved: by the user in confirmation window
+ * or by DApp policy. Responses given without any are not present.
+ */
+const approvals = new WeakMap<TempleDAppResponse, "prompt" | "policy">();
+
+export function getApproval(res: TempleDAppResponse) {
+  return approvals.get(res) ?? null;
+}
+
+function approved<T extends TempleDAppResponse>(
+  res: T,
+  by: "prompt" | "policy"
+) {
+  approvals.set(res, by);
+  return res;
+}
+
 export async function getCurrentPermission(
   origin: string
 ): Promise<TempleDAppGetCurrentPermissionResponse> {
@@ -60,7 +97,7 @@ export async function getCurrentPermission(
 
 export async function requestPermission(
   origin: string,
-  req: TempleDAppPermissionRequest
+  req: TempleDAppPermissionRequest & { scopes?: TempleDAppScope[] }
 ): Promise<TempleDAppPermissionResponse> {
   if (
     ![
@@ -72,14 +109,12 @@ export async function requestPermission(
   }
 
   const networkRpc = getNetworkRPC(req.network);
-  const dApp = await getDApp(origin);
+  const dApp = await getDApp(origin, req.network);
+
+  if (!req.force && dApp && req.appMeta.name === dApp.appMeta.name) {
+    // Make the session the most recent one
+    await setDApp(origin, dApp);
 
-  if (
-    !req.force &&
-    dApp &&
-    isNetworkEquals(req.network, dApp.network) &&
-    req.appMeta.name === dApp.appMeta.name
-  ) {
     return {
       type: TempleDAppMessageType.PermissionResponse,
       rpc: networkRpc,
@@ -98,33 +133,47 @@ export async function requestPermission(
         origin,
         networkRpc,
         appMeta: req.appMeta,
+        ...(req.scopes ? { scopes: req.scopes } : {}),
       },
       onDecline: () => {
-        reject(new Error(TempleDAppErrorType.NotGranted));
+        reject(new DeclinedError());
       },
       handleIntercomRequest: async (confirmReq, decline) => {
         if (
           confirmReq?.type === TempleMessageType.DAppPermConfirmationRequest &&
           confirmReq?.id === id
         ) {
-          const {
-            confirmed,
-            accountPublicKeyHash,
-            accountPublicKey,
-          } = confirmReq;
-          if (confirmed && accountPublicKeyHash && accountPublicKey) {
+          const { confirmed, accounts } = confirmReq;
+          if (confirmed && accounts?.length > 0) {
+            // First selected account is reported to DApp
+            const [{ pkh, publicKey }] = accounts;
+
+            // Keep policy if no new accounts were granted
+            const policy =
+              dApp && accounts.every((acc) => hasDAppAccount(dApp, acc.pkh))
+                ? dApp.policy
+                : undefined;
+
             await setDApp(origin, {
               network: req.network,
               appMeta: req.appMeta,
-              pkh: accountPublicKeyHash,
-              publicKey: accountPublicKey,
-            });
-            resolve({
-              type: TempleDAppMessageType.PermissionResponse,
-              pkh: accountPublicKeyHash,
-              publicKey: accountPublicKey,
-              rpc: networkRpc,
+              pkh,
+              publicKey,
+              accounts,
+              ...(policy ? { policy } : {}),
+              ...(req.scopes ? { scopes: req.scopes } : {}),
             });
+            resolve(
+              approved(
+                {
+                  type: TempleDAppMessageType.PermissionResponse,
+                  pkh,
+                  publicKey,
+                  rpc: networkRpc,
+                },
+                "prompt"
+              )
+            );
           } else {
             decline();
           }
@@ -153,14 +202,11 @@ export async function requestOperation(
     throw new Error(TempleDAppErrorType.InvalidParams);
   }
 
-  const dApp = await getDApp(origin);
+  const dApp = await getDAppByAccount(origin, req.sourcePkh);
 
-  if (!dApp) {
-    throw new Error(TempleDAppErrorType.NotGranted);
-  }
-
-  if (req.sourcePkh !== dApp.pkh) {
-    throw new Error(TempleDAppErrorType.NotFound);
+  const autoApproved = await tryAutoApproveOperation(origin, dApp, req);
+  if (autoApproved) {
+    return approved(autoApproved, "policy");
   }
 
   return new Promise(async (resolve, reject) => {
@@ -178,7 +224,7 @@ export async function requestOperation(
         opParams: req.opParams,
       },
       onDecline: () => {
-        reject(new Error(TempleDAppErrorType.NotGranted));
+        reject(new DeclinedError());
       },
       handleIntercomRequest: async (confirmReq, decline) => {
         if (
@@ -188,19 +234,24 @@ export async function requestOperation(
           if (confirmReq.confirmed) {
             try {
               const op = await withUnlocked(({ vault }) =>
-                vault.sendOperations(dApp.pkh, networkRpc, req.opParams)
+                vault.sendOperations(req.sourcePkh, networkRpc, req.opParams)
               );
 
               try {
                 const chainId = await loadChainId(networkRpc);
                 const pndOps = PndOps.fromOpResults(op.results, op.hash);
-                await PndOps.append(dApp.pkh, chainId, pndOps);
+                await PndOps.append(req.sourcePkh, chainId, pndOps);
               } catch {}
 
-              resolve({
-                type: TempleDAppMessageType.OperationResponse,
-                opHash: op.hash,
-              });
+              resolve(
+                approved(
+                  {
+                    type: TempleDAppMessageType.OperationResponse,
+                    opHash: op.hash,
+                  },
+                  "prompt"
+                )
+              );
             } catch (err) {
               if (err instanceof TezosOperationError) {
                 err.message = TempleDAppErrorType.TezosOperation;
@@ -223,52 +274,116 @@ export async function requestOperation(
   });
 }
 
+/**
+ * Sends operation without confirmation if it fits the DApp policy,
+ * including storage burn of its dry run.
+ * Returns nothing if confirmation is required.
+ */
+async function tryAutoApproveOperation(
+  origin: string,
+  dApp: TempleDAppSession,
+  req: TempleDAppOperationRequest
+): Promise<TempleDAppOperationResponse | void> {
+  if (!dApp.policy || store.getState().status !== TempleStatus.Ready) {
+    return;
+  }
+
+  const spending = Policy.getSpending(dApp.policy, req.sourcePkh, req.opParams);
+  if (!spending || !Policy.isWithinPolicy(dApp.policy, spending)) {
+    return;
+  }
+
+  // Risky origins always require confirmation, as well as unassessed ones
+  const risk = await Phishing.getOriginRisk(origin).catch(() => undefined);
+  if (risk !== null) {
+    return;
+  }
+
+  const networkRpc = getNetworkRPC(dApp.network);
+  const opParams = Policy.stripFeeParams(req.opParams);
+
+  // Storage is paid from the source account too, so it counts against tez limit
+  let burn: string;
+  try {
+    const publicKey = await withUnlocked(({ vault }) =>
+      vault.revealPublicKey(req.sourcePkh)
+    );
+    const simulation = await Simulation.simulateOperations(
+      req.sourcePkh,
+      publicKey,
+      networkRpc,
+      opParams
+    );
+    if (!simulation.applied) return;
+    burn = simulation.burn;
+  } catch {
+    return;
+  }
+
+  const spendingWithBurn = Policy.addBurn(spending, burn);
+  if (!Policy.isWithinPolicy(dApp.policy, spendingWithBurn)) {
+    return;
+  }
+
+  try {
+    const op = await withUnlocked(({ vault }) =>
+      vault.sendOperations(req.sourcePkh, networkRpc, opParams)
+    );
+
+    const actualDApp = await getDApp(origin, dApp.network);
+    if (actualDApp?.policy) {
+      await setDApp(origin, {
+        ...actualDApp,
+        policy: Policy.addSpending(actualDApp.policy, spendingWithBurn),
+      });
+    }
+
+    try {
+      const chainId = await loadChainId(networkRpc);
+      const pndOps = PndOps.fromOpResults(op.results, op.hash);
+      await PndOps.append(req.sourcePkh, chainId, pndOps);
+    } catch {}
+
+    return {
+      type: TempleDAppMessageType.OperationResponse,
+      opHash: op.hash,
+    };
+  } catch (err) {
+    if (err instanceof TezosOperationError) {
+      err.message = TempleDAppErrorType.TezosOperation;
+      throw err;
+    }
+
+    // Let user decide
+    return;
+  }
+}
+
 export async function requestSign(
   origin: string,
-  req: TempleDAppSignRequest
+  req: TempleDAppSignRequest & { signingType?: TempleDAppSigningType }
 ): Promise<TempleDAppSignResponse> {
   if (req?.payload?.startsWith("0x")) {
     req = { ...req, payload: req.payload.substring(2) };
   }
 
   if (
-    ![isAddressValid(req?.sourcePkh), HEX_PATTERN.test(req?.payload)].every(
-      Boolean
-    )
+    ![
+      isAddressValid(req?.sourcePkh),
+      HEX_PATTERN.test(req?.payload),
+      isPayloadOfSigningType(req?.payload, req?.signingType),
+    ].every(Boolean)
   ) {
     throw new Error(TempleDAppErrorType.InvalidParams);
   }
 
-  const dApp = await getDApp(origin);
-
-  if (!dApp) {
-    throw new Error(TempleDAppErrorType.NotGranted);
-  }
-
-  if (req.sourcePkh !== dApp.pkh) {
-    throw new Error(TempleDAppErrorType.NotFound);
-  }
+  const dApp = await getDAppByAccount(origin, req.sourcePkh);
 
   return new Promise(async (resolve, reject) => {
     const id = nanoid();
     const networkRpc = getNetworkRPC(dApp.network);
 
-    let preview: any;
-    try {
-      if (req.payload.match(TEZ_MSG_SIGN_PATTERN)) {
-        preview = emitMicheline(
-          valueDecoder(Uint8ArrayConsumer.fromHexString(req.payload.slice(2))),
-          { indent: "  ", newline: "\n" }
-        ).slice(1, -1);
-      } else {
-        const parsed = await localForger.parse(req.payload);
-        if (parsed.contents.length > 0) {
-          preview = parsed;
-        }
-      }
-    } catch {
-      preview = null;
-    }
+    const { payloadType, preview } = await parseSignPayload(req.payload);
 
     await requestConfirm({
       id,
@@ -279,10 +394,12 @@ export async function requestSign(
         appMeta: dApp.appMeta,
         sourcePkh: req.sourcePkh,
         payload: req.payload,
+        payloadType,
         preview,
+        ...(req.signingType ? { signingType: req.signingType } : {}),
       },
       onDecline: () => {
-        reject(new Error(TempleDAppErrorType.NotGranted));
+        reject(new DeclinedError());
       },
       handleIntercomRequest: async (confirmReq, decline) => {
         if (
@@ -291,12 +408,17 @@ export async function requestSign(
         ) {
           if (confirmReq.confirmed) {
             const { prefixSig: signature } = await withUnlocked(({ vault }) =>
-              vault.sign(dApp.pkh, req.payload)
+              vault.sign(req.sourcePkh, req.payload)
+            );
+            resolve(
+              approved(
+                {
+                  type: TempleDAppMessageType.SignResponse,
+                  signature,
+                },
+                "prompt"
+              )
             );
-            resolve({
-              type: TempleDAppMessageType.SignResponse,
-              signature,
-            });
           } else {
             decline();
           }
@@ -311,6 +433,73 @@ export async function requestSign(
   });
 }
 
+/**
+ * Recognizes what is going to be signed, so it can be shown properly.
+ * Anything that can't be decoded is treated as opaque bytes.
+ */
+async function parseSignPayload(
+  payload: string
+): Promise<{ payloadType: TempleSignPayloadType; preview: any }> {
+  if (payload.startsWith(MICHELINE_WATERMARK)) {
+    try {
+      const value = decodeMicheline(payload.slice(2));
+      if (TEZ_MSG_SIGN_PATTERN.test(payload) && "string" in value) {
+        return { payloadType: "message", preview: value.string };
+      }
+      return {
+        payloadType: "micheline",
+        preview: emitMicheline(value, { indent: "  ", newline: "\n" }),
+      };
+    } catch {}
+  }
+
+  try {
+    const parsed = await localForger.parse(
+      payload.startsWith(OPERATION_WATERMARK) ? payload.slice(2) : payload
+    );
+    if (parsed.contents.length > 0) {
+      return { payloadType: "operation", preview: parsed };
+    }
+  } catch {}
+
+  return { payloadType: "raw", preview: null };
+}
+
+/**
+ * Forger doesn't expose Micheline decoder, so packed data is decoded
+ * as the value of transaction parameters with default entrypoint
+ */
+function decodeMicheline(hex: string) {
+  const length = (hex.length / 2).toString(16).padStart(8, "0");
+  const { value } = decoders[CODEC.PARAMETERS](
+    Uint8ArrayConsumer.fromHexString(`ff00${length}${hex}`)
+  ) as { value: Expr };
+  return value;
+}
+
+/**
+ * Operation and Micheline payloads must carry their watermarks
+ */
+function isPayloadOfSigningType(
+  payload: string,
+  signingType?: TempleDAppSigningType
+) {
+  switch (signingType) {
+    case undefined:
+    case "raw":
+      return true;
+
+    case "operation":
+      return payload.startsWith(OPERATION_WATERMARK);
+
+    case "micheline":
+      return payload.startsWith(MICHELINE_WATERMARK);
+
+    default:
+      return false;
+  }
+}
+
 export async function requestBroadcast(
   origin: string,
   req: TempleDAppBroadcastRequest
@@ -326,8 +515,10 @@ export async function requestBroadcast(
   }
 
   try {
-    const rpc = new RpcClient(getNetworkRPC(dApp.network));
-    const opHash = await rpc.injectOperation(req.signedOpBytes);
+    const opHash = await injectOperation(
+      getNetworkRPC(dApp.network),
+      req.signedOpBytes
+    );
     return {
       type: TempleDAppMessageType.BroadcastResponse,
       opHash,
@@ -342,27 +533,127 @@ export async function requestBroadcast(
   }
 }
 
-export async function getAllDApps() {
-  const dAppsSessions: TempleDAppSessions =
+export function injectOperation(rpcUrl: string, signedOpBytes: string) {
+  return new RpcClient(rpcUrl).injectOperation(signedOpBytes);
+}
+
+export async function getAllDApps(): Promise<TempleDAppSessions> {
+  const stored: Record<string, TempleDAppSession[] | LegacyDAppSession> =
     (await browser.storage.local.get([STORAGE_KEY]))[STORAGE_KEY] || {};
-  return dAppsSessions;
+
+  return Object.fromEntries(
+    Object.entries(stored).map(([origin, sessions]) => [
+      origin,
+      Array.isArray(sessions) ? sessions : [fromLegacyDAppSession(sessions)],
+    ])
+  );
 }
 
+/**
+ * Returns session of origin for the network.
+ * If network isn't specified, the most recently used session is returned.
+ */
 export async function getDApp(
-  origin: string
+  origin: string,
+  network?: TempleDAppNetwork
 ): Promise<TempleDAppSession | undefined> {
-  return (await getAllDApps())[origin];
+  const sessions = (await getAllDApps())[origin] ?? [];
+  return network
+    ? sessions.find((s) => isNetworkEquals(s.network, network))
+    : sessions[sessions.length - 1];
+}
+
+/**
+ * Sessions without scopes are granted to do everything
+ */
+export async function isDAppScopeGranted(
+  origin: string,
+  pkh: string,
+  scope: TempleDAppScope
+) {
+  const dApp = await getDAppByAccount(origin, pkh);
+  return !dApp.scopes || dApp.scopes.includes(scope);
 }
 
-export async function setDApp(origin: string, permissions: TempleDAppSession) {
+/**
+ * Resolves the most recently used session granted for the account
+ */
+async function getDAppByAccount(origin: string, pkh: string) {
+  const sessions = (await getAllDApps())[origin];
+  if (!sessions || sessions.length === 0) {
+    throw new Error(TempleDAppErrorType.NotGranted);
+  }
+
+  const dApp = [...sessions].reverse().find((s) => hasDAppAccount(s, pkh));
+  if (!dApp) {
+    throw new Error(TempleDAppErrorType.NotFound);
+  }
+
+  return dApp;
+}
+
+/**
+ * Replaces session of the same network and makes it the most recent one
+ */
+export async function setDApp(origin: string, session: TempleDAppSession) {
   const current = await getAllDApps();
-  const newDApps = { ...current, [origin]: permissions };
+  const newDApps = {
+    ...current,
+    [origin]: [
+      ...(current[origin] ?? []).filter(
+        (s) => !isNetworkEquals(s.network, session.network)
+      ),
+      session,
+    ],
+  };
   await setDApps(newDApps);
   return newDApps;
 }
 
-export async function removeDApp(origin: string) {
-  const { [origin]: permissionsToRemove, ...restDApps } = await getAllDApps();
+export async function setDAppPolicy(
+  origin: string,
+  network: TempleDAppNetwork,
+  policy: TempleDAppPolicy | null
+) {
+  const dApp = await getDApp(origin, network);
+  if (!dApp) {
+    throw new Error("DApp not found");
+  }
+
+  if (!policy) {
+    const { policy: policyToRemove, ...rest } = dApp;
+    return setDApp(origin, rest);
+  }
+
+  if (!Policy.isPolicyValid(policy)) {
+    throw new Error("Invalid policy");
+  }
+
+  return setDApp(origin, {
+    ...dApp,
+    policy: {
+      ...policy,
+      // Spendings can't be reset by updating the policy
+      spendings: dApp.policy ? Policy.getActualSpendings(dApp.policy) : [],
+    },
+  });
+}
+
+/**
+ * Removes session of the network or all sessions of origin
+ */
+export async function removeDApp(origin: string, network?: TempleDAppNetwork) {
+  const { [origin]: sessions = [], ...restDApps } = await getAllDApps();
+
+  const restSessions = network
+    ? sessions.filter((s) => !isNetworkEquals(s.network, network))
+    : [];
+  if (restSessions.length > 0) {
+    const newDApps = { ...restDApps, [origin]: restSessions };
+    await setDApps(newDApps);
+    return newDApps;
+  }
+
   await setDApps(restDApps);
   await Beacon.removeDAppPublicKey(origin);
   return restDApps;
@@ -376,106 +667,11 @@ function setDApps(newDApps: TempleDAppSessions) {
   return browser.storage.local.set({ [STORAGE_KEY]: newDApps });
 }
 
-type RequestConfirmParams = {
-  id: string;
-  payload: TempleDAppPayload;
-  onDecline: () => void;
-  handleIntercomRequest: (
-    req: TempleRequest,
-    decline: () => void
-  ) => Promise<any>;
-};
-
-async function requestConfirm({
-  id,
-  payload,
-  onDecline,
-  handleIntercomRequest,
-}: RequestConfirmParams) {
-  const win = await browser.windows.getCurrent();
-  const top = Math.round(
-    win.top! + win.height! / 2 - CONFIRM_WINDOW_HEIGHT / 2
-  );
-  const left = Math.round(
-    win.left! + win.width! / 2 - CONFIRM_WINDOW_WIDTH / 2
-  );
-
-  let closing = false;
-  const close = async () => {
-    if (closing) return;
-    closing = true;
-
-    try {
-      stopTimeout();
-      stopRequestListening();
-      stopWinRemovedListening();
-
-      await closeWindow();
-    } catch (_err) {}
-  };
-
-  const declineAndClose = () => {
-    onDecline();
-    close();
-  };
-
-  let knownPort: Runtime.Port | undefined;
-  const stopRequestListening = intercom.onRequest(
-    async (req: TempleRequest, port) => {
-      if (
-        req?.type === TempleMessageType.DAppGetPayloadRequest &&
-        req.id === id
-      ) {
-        knownPort = port;
-
-        return {
-          type: TempleMessageType.DAppGetPayloadResponse,
-          payload,
-        };
-      } else {
-        if (knownPort !== port) return;
-
-        const result = await handleIntercomRequest(req, onDecline);
-        if (result) {
-          close();
-          return result;
-        }
-      }
-    }
+async function requestConfirm(req: ConfirmQueue.ConfirmRequest) {
+  const risk = await Phishing.getOriginRisk(req.payload.origin).catch(
+    () => null
   );
-
-  const isWin = (await browser.runtime.getPlatformInfo()).os === "win";
-
-  const confirmWin = await browser.windows.create({
-    type: "popup",
-    url: browser.runtime.getURL(`confirm.html#?id=${id}`),
-    width: isWin ? CONFIRM_WINDOW_WIDTH + 16 : CONFIRM_WINDOW_WIDTH,
-    height: isWin ? CONFIRM_WINDOW_HEIGHT + 17 : CONFIRM_WINDOW_HEIGHT,
-    top: Math.max(top, 20),
-    left: Math.max(left, 20),
-  });
-
-  const closeWindow = async () => {
-    if (confirmWin.id) {
-      const win = await browser.windows.get(confirmWin.id);
-      if (win.id) {
-        await browser.windows.remove(win.id);
-      }
-    }
-  };
-
-  const handleWinRemoved = (winId: number) => {
-    if (winId === confirmWin?.id) {
-      declineAndClose();
-    }
-  };
-  browser.windows.onRemoved.addListener(handleWinRemoved);
-  const stopWinRemovedListening = () =>
-    browser.windows.onRemoved.removeListener(handleWinRemoved);
-
-  // Decline after timeout
-  const t = setTimeout(declineAndClose, AUTODECLINE_AFTER);
-  const stopTimeout = () => clearTimeout(t);
+  await ConfirmQueue.add({ ...req, payload: { ...req.payload, risk } });
 }
 
 export function getNetworkRPC(net: TempleDAppNetwork) {
@@ -490,6 +686,19 @@ function isAllowedNetwork(net: TempleDAppNetwork) {
     : Boolean(net?.rpc);
 }
 
+function hasDAppAccount(dApp: TempleDAppSession, pkh: string) {
+  return dApp.accounts.some((acc) => acc.pkh === pkh);
+}
+
+type LegacyDAppSession = Omit<TempleDAppSession, "accounts">;
+
+function fromLegacyDAppSession(session: LegacyDAppSession): TempleDAppSession {
+  return {
+    ...session,
+    accounts: [{ pkh: session.pkh, publicKey: session.publicKey }],
+  };
+}
+
 function isNetworkEquals(fNet: TempleDAppNetwork, sNet: TempleDAppNetwork) {
   return typeof fNet !== "string" && typeof sNet !== "string"
     ? fNet?.rpc === sNet?.rpc
@@ -0,0 +1,90 @@
+import { TezosToolkit } from "@taquito/taquito";
+import {
+  TempleAccount,
+  TempleDiscoveredAccount,
+  TempleDiscoverySource,
+  isKnownChainId,
+} from "lib/temple/types";
+import { MAX_DISCOVERY_GAP_LIMIT, loadChainId } from "lib/temple/helpers";
+import { getOperations } from "lib/tzkt";
+import { PublicError } from "lib/temple/back/defaults";
+import { Vault } from "lib/temple/back/vault";
+
+const MAX_DISCOVERY_INDEX = 100;
+
+/**
+ * Derives accounts by `m/44'/1729'/i'/0'` path one by one
+ * and stops after `gapLimit` unused accounts in a row.
+ * Account is used if it has some balance or operation history.
+ */
+export async function discoverAccounts(
+  vault: Vault,
+  allAccounts: TempleAccount[],
+  source: TempleDiscoverySource,
+  rpcUrl: string,
+  gapLimit: number
+) {
+  if (
+    !Number.isInteger(gapLimit) ||
+    gapLimit < 1 ||
+    gapLimit > MAX_DISCOVERY_GAP_LIMIT
+  ) {
+    throw new PublicError(
+      `Gap limit should be from 1 to ${MAX_DISCOVERY_GAP_LIMIT}`
+    );
+  }
+
+  const tezos = new TezosToolkit(rpcUrl);
+  const chainId = await loadChainId(rpcUrl);
+
+  const discovered: TempleDiscoveredAccount[] = [];
+  let gap = 0;
+  for (
+    let fromIndex = 0;
+    gap < gapLimit && fromIndex < MAX_DISCOVERY_INDEX;
+    fromIndex += gapLimit
+  ) {
+    const derived = await vault.deriveAccounts(source, fromIndex, gapLimit);
+    const usages = await Promise.all(
+      derived.map(({ publicKeyHash }) =>
+        fetchUsage(tezos, chainId, publicKeyHash)
+      )
+    );
+
+    for (let i = 0; i < derived.length && gap < gapLimit; i++) {
+      const { balance, hasHistory } = usages[i];
+      if (balance.isZero() && !hasHistory) {
+        gap++;
+        continue;
+      }
+
+      gap = 0;
+      const { publicKeyHash } = derived[i];
+      discovered.push({
+        ...derived[i],
+        balance: balance.toFixed(),
+        hasHistory,
+        added: allAccounts.some((acc) => acc.publicKeyHash === publicKeyHash),
+      });
+    }
+  }
+
+  return discovered;
+}
+
+async function fetchUsage(
+  tezos: TezosToolkit,
+  chainId: string,
+  publicKeyHash: string
+) {
+  const [balance, hasHistory] = await Promise.all([
+    tezos.tz.getBalance(publicKeyHash),
+    isKnownChainId(chainId)
+      ? getOperations(chainId, {
+          address: publicKeyHash,
+          limit: 1,
+        }).then((operations) => operations.length > 0)
+      : false,
+  ]);
+  return { balance, hasHistory };
+}
@@ -8,13 +8,13 @@ import {
   prefix,
 } from "@taquito/utils";
 import sodium from "libsodium-wrappers";
-import elliptic from "elliptic";
 import toBuffer from "typedarray-to-buffer";
 import {
   LedgerSigner,
   LedgerTransport,
   DerivationType,
 } from "@taquito/ledger-signer";
+import { verifySignature } from "lib/temple/signature";
 import { PublicError } from "lib/temple/back/defaults";
 
 type curves = "ed" | "p2" | "sp";
@@ -24,19 +24,16 @@ const pref = {
     pk: prefix["edpk"],
     sk: prefix["edsk"],
     pkh: prefix.tz1,
-    sig: prefix.edsig,
   },
   p2: {
     pk: prefix["p2pk"],
     sk: prefix["p2sk"],
     pkh: prefix.tz3,
-    sig: prefix.p2sig,
   },
   sp: {
     pk: prefix["sppk"],
     sk: prefix["spsk"],
     pkh: prefix.tz2,
-    sig: prefix.spsig,
   },
 };
 
@@ -128,56 +125,7 @@ export class TempleLedgerSigner extends LedgerSigner {
       );
     }
 
-    let sig;
-    if (signature.substring(0, 3) === "sig") {
-      sig = b58cdecode(signature, prefix.sig);
-    } else if (signature.substring(0, 5) === `${curve}sig`) {
-      sig = b58cdecode(signature, pref[curve].sig);
-    } else {
-      throw new Error(`Invalid signature provided: ${signature}`);
-    }
-
-    const bytesHash = sodium.crypto_generichash(32, hex2buf(bytes));
-
-    if (curve === "ed") {
-      try {
-        return sodium.crypto_sign_verify_detached(sig, bytesHash, _publicKey);
-      } catch (e) {
-        return false;
-      }
-    }
-
-    if (curve === "sp") {
-      const key = new elliptic.ec("secp256k1").keyFromPublic(_publicKey);
-      const hexSig = buf2hex(toBuffer(sig));
-      const match = hexSig.match(/([a-f\d]{64})/gi);
-      if (match) {
-        try {
-          const [r, s] = match;
-          return key.verify(bytesHash, { r, s });
-        } catch (e) {
-          return false;
-        }
-      }
-      return false;
-    }
-
-    if (curve === "p2") {
-      const key = new elliptic.ec("p256").keyFromPublic(_publicKey);
-      const hexSig = buf2hex(toBuffer(sig));
-      const match = hexSig.match(/([a-f\d]{64})/gi);
-      if (match) {
-        try {
-          const [r, s] = match;
-          return key.verify(bytesHash, { r, s });
-        } catch (e) {
-          return false;
-        }
-      }
-      return false;
-    }
-
-    throw new Error(`Curve '${curve}' not supported`);
+    return verifySignature(bytes, publicKey, signature);
   }
 }
 
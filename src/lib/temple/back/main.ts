@@ -1,5 +1,4 @@
-import { Runtime } from "webextension-polyfill-ts";
-import { Queue } from "queue-ts";
+import { Runtime, browser } from "webextension-polyfill-ts";
 import {
   TempleMessageType,
   TempleRequest,
@@ -9,12 +8,17 @@ import { intercom } from "lib/temple/back/defaults";
 import { store, toFront } from "lib/temple/back/store";
 import * as Actions from "lib/temple/back/actions";
 import * as PndOps from "lib/temple/back/pndops";
+import * as ConfirmQueue from "lib/temple/back/confirm-queue";
+import * as TokenDiscovery from "lib/temple/back/token-discovery";
+import { startAutoLock, trackActivity } from "lib/temple/back/autolock";
 
 const frontStore = store.map(toFront);
 
 export async function start() {
   intercom.onRequest(processRequest);
   await Actions.init();
+  startAutoLock();
+  TokenDiscovery.start();
   frontStore.watch(() => {
     intercom.broadcast({ type: TempleMessageType.StateUpdated });
   });
@@ -36,6 +40,21 @@ async function processRequest(
       await Actions.registerNewWallet(req.password, req.mnemonic);
       return { type: TempleMessageType.NewWalletResponse };
 
+    case TempleMessageType.RestoreBackupRequest:
+      await Actions.restoreBackup(req.backup, req.password);
+      return { type: TempleMessageType.RestoreBackupResponse };
+
+    case TempleMessageType.ExportBackupRequest:
+      const backup = await Actions.exportBackup(req.password);
+      return {
+        type: TempleMessageType.ExportBackupResponse,
+        backup,
+      };
+
+    case TempleMessageType.ChangePasswordRequest:
+      await Actions.changePassword(req.oldPassword, req.newPassword);
+      return { type: TempleMessageType.ChangePasswordResponse };
+
     case TempleMessageType.UnlockRequest:
       await Actions.unlock(req.password);
       return { type: TempleMessageType.UnlockResponse };
@@ -44,10 +63,35 @@ async function processRequest(
       await Actions.lock();
       return { type: TempleMessageType.LockResponse };
 
+    case TempleMessageType.ActivityPingRequest:
+      if (isExtensionPagePort(port)) {
+        trackActivity();
+      }
+      return { type: TempleMessageType.ActivityPingResponse };
+
     case TempleMessageType.CreateAccountRequest:
-      await Actions.createHDAccount(req.name);
+      await Actions.createHDAccount(req.walletId, req.name);
       return { type: TempleMessageType.CreateAccountResponse };
 
+    case TempleMessageType.CreateHDWalletRequest:
+      await Actions.createHDWallet(req.name, req.mnemonic);
+      return { type: TempleMessageType.CreateHDWalletResponse };
+
+    case TempleMessageType.DiscoverAccountsRequest:
+      const discoveredAccounts = await Actions.discoverAccounts(
+        req.source,
+        req.rpcUrl,
+        req.gapLimit
+      );
+      return {
+        type: TempleMessageType.DiscoverAccountsResponse,
+        accounts: discoveredAccounts,
+      };
+
+    case TempleMessageType.AddDiscoveredAccountsRequest:
+      await Actions.addDiscoveredAccounts(req.source, req.indexes);
+      return { type: TempleMessageType.AddDiscoveredAccountsResponse };
+
     case TempleMessageType.RevealPublicKeyRequest:
       const publicKey = await Actions.revealPublicKey(req.accountPublicKeyHash);
       return {
@@ -66,7 +110,7 @@ async function processRequest(
       };
 
     case TempleMessageType.RevealMnemonicRequest:
-      const mnemonic = await Actions.revealMnemonic(req.password);
+      const mnemonic = await Actions.revealMnemonic(req.walletId, req.password);
       return {
         type: TempleMessageType.RevealMnemonicResponse,
         mnemonic,
@@ -94,7 +138,8 @@ async function processRequest(
       await Actions.importMnemonicAccount(
         req.mnemonic,
         req.password,
-        req.derivationPath
+        req.derivationPath,
+        req.curve
       );
       return {
         type: TempleMessageType.ImportMnemonicAccountResponse,
@@ -116,6 +161,18 @@ async function processRequest(
         type: TempleMessageType.ImportManagedKTAccountResponse,
       };
 
+    case TempleMessageType.ImportMultisigAccountRequest:
+      await Actions.importMultisigAccount(
+        req.address,
+        req.chainId,
+        req.owner,
+        req.threshold,
+        req.signers
+      );
+      return {
+        type: TempleMessageType.ImportMultisigAccountResponse,
+      };
+
     case TempleMessageType.ImportWatchOnlyAccountRequest:
       await Actions.importWatchOnlyAccount(req.address, req.chainId);
       return {
@@ -123,7 +180,11 @@ async function processRequest(
       };
 
     case TempleMessageType.CreateLedgerAccountRequest:
-      await Actions.craeteLedgerAccount(req.name, req.derivationPath);
+      await Actions.craeteLedgerAccount(
+        req.name,
+        req.derivationPath,
+        req.curve
+      );
       return {
         type: TempleMessageType.CreateLedgerAccountResponse,
       };
@@ -150,6 +211,26 @@ async function processRequest(
         type: TempleMessageType.RemovePndOpsResponse,
       };
 
+    case TempleMessageType.GetNewTokensRequest:
+      const newTokens = await TokenDiscovery.getNewTokens(
+        req.accountPublicKeyHash,
+        req.chainId
+      );
+      return {
+        type: TempleMessageType.GetNewTokensResponse,
+        tokens: newTokens,
+      };
+
+    case TempleMessageType.DismissNewTokensRequest:
+      await TokenDiscovery.dismissNewTokens(
+        req.accountPublicKeyHash,
+        req.chainId,
+        req.tokenKeys
+      );
+      return {
+        type: TempleMessageType.DismissNewTokensResponse,
+      };
+
     case TempleMessageType.OperationsRequest:
       const { opHash } = await Actions.sendOperations(
         port,
@@ -163,6 +244,45 @@ async function processRequest(
         opHash,
       };
 
+    case TempleMessageType.SimulateOperationsRequest:
+      const simulation = await Actions.simulateOperations(
+        req.sourcePkh,
+        req.networkRpc,
+        req.opParams
+      );
+      return {
+        type: TempleMessageType.SimulateOperationsResponse,
+        simulation,
+      };
+
+    case TempleMessageType.ForgeOperationsRequest:
+      const operation = await Actions.forgeOperations(
+        req.sourcePkh,
+        req.networkRpc,
+        req.opParams
+      );
+      return {
+        type: TempleMessageType.ForgeOperationsResponse,
+        operation,
+      };
+
+    case TempleMessageType.SignOfflineOperationRequest:
+      const signature = await Actions.signOfflineOperation(req.operation);
+      return {
+        type: TempleMessageType.SignOfflineOperationResponse,
+        signature,
+      };
+
+    case TempleMessageType.BroadcastOfflineOperationRequest:
+      const offlineOpHash = await Actions.broadcastOfflineOperation(
+        req.networkRpc,
+        req.signature
+      );
+      return {
+        type: TempleMessageType.BroadcastOfflineOperationResponse,
+        opHash: offlineOpHash,
+      };
+
     case TempleMessageType.SignRequest:
       const result = await Actions.sign(
         port,
@@ -184,12 +304,56 @@ async function processRequest(
       };
 
     case TempleMessageType.DAppRemoveSessionRequest:
-      const sessions = await Actions.removeDAppSession(req.origin);
+      const sessions = await Actions.removeDAppSession(req.origin, req.network);
       return {
         type: TempleMessageType.DAppRemoveSessionResponse,
         sessions,
       };
 
+    case TempleMessageType.DAppSetPolicyRequest:
+      const updatedSessions = await Actions.setDAppPolicy(
+        req.origin,
+        req.network,
+        req.policy
+      );
+      return {
+        type: TempleMessageType.DAppSetPolicyResponse,
+        sessions: updatedSessions,
+      };
+
+    case TempleMessageType.DAppGetLogRequest:
+      const dAppLogEntries = await Actions.getDAppLog();
+      return {
+        type: TempleMessageType.DAppGetLogResponse,
+        entries: dAppLogEntries,
+      };
+
+    case TempleMessageType.DAppClearLogRequest:
+      await Actions.clearDAppLog();
+      return {
+        type: TempleMessageType.DAppClearLogResponse,
+      };
+
+    case TempleMessageType.BeaconGetPeersRequest:
+      const beaconPeers = await Actions.getBeaconPeers();
+      return {
+        type: TempleMessageType.BeaconGetPeersResponse,
+        peers: beaconPeers,
+      };
+
+    case TempleMessageType.BeaconAddPeerRequest:
+      const beaconPeer = await Actions.addBeaconPeer(req.pairingString);
+      return {
+        type: TempleMessageType.BeaconAddPeerResponse,
+        peer: beaconPeer,
+      };
+
+    case TempleMessageType.BeaconRemovePeerRequest:
+      await Actions.removeBeaconPeer(req.id);
+      return {
+        type: TempleMessageType.BeaconRemovePeerResponse,
+      };
+
     case TempleMessageType.PageRequest:
       const dAppEnabled = await Actions.isDAppEnabled();
       if (dAppEnabled) {
@@ -205,7 +369,7 @@ async function processRequest(
           };
         }
 
-        return enqueueDAppPrecessing(port, async () => {
+        return ConfirmQueue.enqueue(port, async () => {
           if (!req.beacon) {
             const resPayload = await Actions.processDApp(
               req.origin,
@@ -219,7 +383,13 @@ async function processRequest(
             const res = await Actions.processBeacon(
               req.origin,
               req.payload,
-              req.encrypted
+              req.encrypted,
+              (ack) =>
+                intercom.notify(port, {
+                  type: TempleMessageType.BeaconAcknowledged,
+                  origin: req.origin,
+                  ...ack,
+                })
             );
             return {
               type: TempleMessageType.PageResponse,
@@ -233,24 +403,12 @@ async function processRequest(
   }
 }
 
-const dAppsQueue = new Queue(1);
-
-async function enqueueDAppPrecessing<T>(
-  port: Runtime.Port,
-  factory: () => Promise<T>
-) {
-  return new Promise<T>((response, reject) => {
-    let connected = true;
-    const stopDisconnectListening = intercom.onDisconnect(port, () => {
-      connected = false;
-      reject(new Error("Disconnected"));
-    });
-
-    dAppsQueue.add(async () => {
-      stopDisconnectListening();
-      if (!connected) return;
-
-      return factory().then(response).catch(reject);
-    });
-  });
+/**
+ * Popup, fullpage and confirm window.
+ * Content scripts send requests on behalf of web pages,
+ * so their ports have URL of the page.
+ */
+function isExtensionPagePort(port: Runtime.Port) {
+  const url = port.sender?.url;
+  return Boolean(url && url.startsWith(browser.runtime.getURL("/")));
 }
@@ -0,0 +1,173 @@
+import {
+  TezosToolkit,
+  createTransferOperation,
+  createSetDelegateOperation,
+  DEFAULT_FEE,
+  DEFAULT_GAS_LIMIT,
+  DEFAULT_STORAGE_LIMIT,
+} from "@taquito/taquito";
+import { localForger } from "@taquito/local-forging";
+import { b58cdecode, buf2hex, prefix, Prefix } from "@taquito/utils";
+import toBuffer from "typedarray-to-buffer";
+import {
+  TempleUnsignedOperation,
+  TempleOfflineSignature,
+} from "lib/temple/types";
+import { loadChainId } from "lib/temple/helpers";
+import { OFFLINE_PAYLOAD_VERSION } from "lib/temple/offline";
+import { PublicError } from "lib/temple/back/defaults";
+
+const SIGNATURE_PREFIXES = [
+  Prefix.EDSIG,
+  Prefix.SPSIG,
+  Prefix.P2SIG,
+  Prefix.SIG,
+];
+
+/**
+ * Forges operations without signing them, so they could be
+ * signed elsewhere. Fees and limits are taken from estimation.
+ * Only transfers and delegations are supported. Reveal is prepended
+ * for unrevealed accounts if their public key is known.
+ */
+export async function forgeOperations(
+  sourcePkh: string,
+  rpcUrl: string,
+  opParams: any[],
+  knownPublicKey?: string
+): Promise<TempleUnsignedOperation> {
+  if (
+    opParams.length === 0 ||
+    opParams.some(
+      (op) => op?.kind !== "transaction" && op?.kind !== "delegation"
+    )
+  ) {
+    throw new PublicError("Unsupported operations");
+  }
+
+  const tezos = new TezosToolkit(rpcUrl);
+  const managerKey = await tezos.rpc.getManagerKey(sourcePkh);
+  const revealedKey =
+    typeof managerKey === "string" ? managerKey : managerKey?.key;
+  const publicKey = revealedKey || knownPublicKey;
+  if (!publicKey) {
+    throw new PublicError(
+      "Account is not revealed and its public key is unknown. Reveal it first"
+    );
+  }
+  tezos.setSignerProvider(new UnsignedSigner(sourcePkh, publicKey));
+
+  const [
+    chainId,
+    estimates,
+    { hash: branch },
+    { counter },
+  ] = await Promise.all([
+    loadChainId(rpcUrl),
+    tezos.estimate.batch(opParams),
+    tezos.rpc.getBlockHeader(),
+    tezos.rpc.getContract(sourcePkh),
+  ]);
+
+  const reveal = revealedKey
+    ? []
+    : [
+        {
+          kind: "reveal",
+          fee: DEFAULT_FEE.REVEAL.toString(),
+          gas_limit: DEFAULT_GAS_LIMIT.REVEAL.toString(),
+          storage_limit: DEFAULT_STORAGE_LIMIT.REVEAL.toString(),
+          public_key: publicKey,
+        },
+      ];
+
+  const operations = await Promise.all(
+    opParams.map(async (op, i) => {
+      const limits = {
+        fee: estimates[i].suggestedFeeMutez,
+        gasLimit: estimates[i].gasLimit,
+        storageLimit: estimates[i].storageLimit,
+      };
+      return op.kind === "transaction"
+        ? createTransferOperation({ ...op, ...limits })
+        : createSetDelegateOperation({
+            ...op,
+            ...limits,
+            source: sourcePkh,
+          });
+    })
+  );
+  const contents = [...reveal, ...operations].map((content, i) => ({
+    ...content,
+    source: sourcePkh,
+    counter: (+(counter ?? 0) + i + 1).toString(),
+  }));
+
+  const bytes = await localForger.forge({ branch, contents } as any);
+
+  return {
+    type: "unsigned_operation",
+    version: OFFLINE_PAYLOAD_VERSION,
+    chainId,
+    sourcePkh,
+    bytes,
+  };
+}
+
+/**
+ * Checks that all operations of the forged bytes
+ * are sent from the account that is going to sign them.
+ */
+export async function assertUnsignedOperation(
+  operation: TempleUnsignedOperation
+) {
+  let parsed: any;
+  try {
+    parsed = await localForger.parse(operation.bytes);
+  } catch (_err) {
+    throw new PublicError("Invalid operation bytes");
+  }
+
+  if (
+    !parsed?.contents?.length ||
+    parsed.contents.some((op: any) => op.source !== operation.sourcePkh)
+  ) {
+    throw new PublicError("Operation source mismatch");
+  }
+}
+
+export function toSignedOperationBytes(signature: TempleOfflineSignature) {
+  const sigPrefix = SIGNATURE_PREFIXES.find((p) =>
+    signature.signature.startsWith(p)
+  );
+  if (!sigPrefix) {
+    throw new PublicError("Invalid signature");
+  }
+
+  const sigBytes = b58cdecode(signature.signature, prefix[sigPrefix]);
+  return signature.bytes + buf2hex(toBuffer(sigBytes));
+}
+
+/**
+ * Provides source account data for estimation,
+ * never asked to sign anything.
+ */
+class UnsignedSigner {
+  constructor(private pkh: string, private pk: string) {}
+
+  async publicKeyHash() {
+    return this.pkh;
+  }
+
+  async publicKey() {
+    return this.pk;
+  }
+
+  async secretKey(): Promise<string> {
+    throw new Error("Secret key cannot be exposed");
+  }
+
+  async sign(): Promise<any> {
+    throw new Error("Cannot sign");
+  }
+}
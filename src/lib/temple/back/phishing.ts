@@ -0,0 +1,84 @@
+import { browser } from "webextension-polyfill-ts";
+import { TempleDAppErrorType } from "@temple-wallet/dapp/dist/types";
+import {
+  TempleOriginRisk,
+  TemplePhishingLists,
+  TempleSharedStorageKey,
+} from "lib/temple/types";
+import { getDApps } from "lib/better-call-dev/dapps";
+import {
+  BUNDLED_ALLOWLIST,
+  DEFAULT_PHISHING_LISTS,
+  assessOriginRisk,
+  getHostname,
+} from "lib/temple/phishing";
+
+const KNOWN_DOMAINS_MAX_AGE = 24 * 60 * 60 * 1000;
+const FALLBACK_DOMAINS_MAX_AGE = 5 * 60 * 1000;
+const KNOWN_DOMAINS_TIMEOUT = 5_000;
+
+let knownDomainsCache: {
+  domains: string[];
+  fetchedAt: number;
+  maxAge: number;
+} | null = null;
+
+export async function getOriginRisk(
+  origin: string
+): Promise<TempleOriginRisk | null> {
+  const [lists, knownDomains] = await Promise.all([
+    getLists(),
+    getKnownDomains(),
+  ]);
+  return assessOriginRisk(origin, lists, knownDomains);
+}
+
+/**
+ * Origins blocked by user can't make any requests
+ */
+export async function assertNotBlockedByUser(origin: string) {
+  const risk = assessOriginRisk(origin, await getLists(), []);
+  if (risk?.level === "blocked" && risk.byUser) {
+    throw new Error(TempleDAppErrorType.NotGranted);
+  }
+}
+
+async function getLists(): Promise<TemplePhishingLists> {
+  const key = TempleSharedStorageKey.PhishingLists;
+  const items = await browser.storage.local.get([key]);
+  return { ...DEFAULT_PHISHING_LISTS, ...items[key] };
+}
+
+/**
+ * Bundled domains with websites of DApps listed by Better Call Dev.
+ * If Better Call Dev is unavailable, bundled domains are cached
+ * for a short time, so the fetch isn't retried on every request.
+ */
+async function getKnownDomains() {
+  if (
+    knownDomainsCache &&
+    Date.now() - knownDomainsCache.fetchedAt < knownDomainsCache.maxAge
+  ) {
+    return knownDomainsCache.domains;
+  }
+
+  try {
+    const dApps = await getDApps({ timeout: KNOWN_DOMAINS_TIMEOUT });
+    const websiteDomains = dApps
+      .filter(({ website }) => Boolean(website))
+      .map(({ website }) => getHostname(website).replace(/^www\./, ""));
+
+    knownDomainsCache = {
+      domains: Array.from(new Set([...BUNDLED_ALLOWLIST, ...websiteDomains])),
+      fetchedAt: Date.now(),
+      maxAge: KNOWN_DOMAINS_MAX_AGE,
+    };
+  } catch {
+    knownDomainsCache = {
+      domains: BUNDLED_ALLOWLIST,
+      fetchedAt: Date.now(),
+      maxAge: FALLBACK_DOMAINS_MAX_AGE,
+    };
+  }
+  return knownDomainsCache.domains;
+}
@@ -0,0 +1,162 @@
+import BigNumber from "bignumber.js";
+import { TempleDAppPolicy, TempleDAppSpending } from "lib/temple/types";
+import { isAddressValid, isKTAddress, tzToMutez } from "lib/temple/helpers";
+import { tryParseExpensesPure } from "lib/temple/expenses";
+
+const MAX_TIMEFRAME = 30 * 24 * 60 * 60;
+const ENTRYPOINT_PATTERN = /^KT[1-9A-HJ-NP-Za-km-z]{34}%[a-zA-Z0-9_]{1,31}$/;
+const TOKEN_SLUG_PATTERN = /^KT[1-9A-HJ-NP-Za-km-z]{34}_\d+$/;
+
+export function isPolicyValid(policy: any): policy is TempleDAppPolicy {
+  return (
+    isAmountValid(policy?.tezLimit) &&
+    Number.isInteger(policy.timeframe) &&
+    policy.timeframe > 0 &&
+    policy.timeframe <= MAX_TIMEFRAME &&
+    Array.isArray(policy.allowedEntrypoints) &&
+    policy.allowedEntrypoints.every(
+      (ep: any) => typeof ep === "string" && ENTRYPOINT_PATTERN.test(ep)
+    ) &&
+    policy.tokenLimits &&
+    typeof policy.tokenLimits === "object" &&
+    Object.entries(policy.tokenLimits).every(
+      ([slug, limit]) => TOKEN_SLUG_PATTERN.test(slug) && isAmountValid(limit)
+    )
+  );
+}
+
+/**
+ * Calculates what operations are going to spend.
+ * Returns `null` if they can't be approved by policy at all:
+ * not transactions or calls of not allowed entrypoints.
+ */
+export function getSpending(
+  policy: TempleDAppPolicy,
+  sourcePkh: string,
+  opParams: any[],
+  timestamp = Date.now()
+): TempleDAppSpending | null {
+  let tez = new BigNumber(0);
+  const tokens: Record<string, BigNumber> = {};
+
+  for (const op of opParams) {
+    if (op.kind !== "transaction" || !isAddressValid(op.to)) {
+      return null;
+    }
+
+    if (isKTAddress(op.to)) {
+      const entrypoint = op.parameter?.entrypoint ?? "default";
+      if (!policy.allowedEntrypoints.includes(`${op.to}%${entrypoint}`)) {
+        return null;
+      }
+    }
+
+    const amount = new BigNumber(op.amount ?? 0);
+    if (!amount.isFinite() || amount.isNegative()) {
+      return null;
+    }
+    tez = tez.plus(op.mutez ? amount : tzToMutez(amount));
+  }
+
+  for (const { expenses } of tryParseExpensesPure(opParams, sourcePkh)) {
+    for (const { tokenAddress, tokenId, amount } of expenses) {
+      if (!tokenAddress) continue;
+
+      const slug = toTokenSlug(tokenAddress, tokenId);
+      tokens[slug] = (tokens[slug] ?? new BigNumber(0)).plus(amount);
+    }
+  }
+
+  return {
+    timestamp,
+    tez: tez.integerValue().toFixed(),
+    tokens: Object.fromEntries(
+      Object.entries(tokens).map(([slug, amount]) => [slug, amount.toFixed()])
+    ),
+  };
+}
+
+/**
+ * Adds tez burned for storage to the spending
+ */
+export function addBurn(
+  spending: TempleDAppSpending,
+  burn: BigNumber.Value
+): TempleDAppSpending {
+  return {
+    ...spending,
+    tez: new BigNumber(spending.tez).plus(burn).integerValue().toFixed(),
+  };
+}
+
+/**
+ * Fee and limits set by DApp are dropped, so they are estimated
+ * by the wallet. Otherwise DApp could burn any amount of tez
+ * through them, bypassing the limit.
+ */
+export function stripFeeParams(opParams: any[]) {
+  return opParams.map(({ fee, gasLimit, storageLimit, ...op }) => op);
+}
+
+/**
+ * Checks that spendings within the rolling time window
+ * together with a new one don't exceed the limits
+ */
+export function isWithinPolicy(
+  policy: TempleDAppPolicy,
+  spending: TempleDAppSpending
+) {
+  const spendings = [
+    ...getActualSpendings(policy, spending.timestamp),
+    spending,
+  ];
+
+  const tezSpent = sumAmounts(spendings.map(({ tez }) => tez));
+  if (tezSpent.isGreaterThan(policy.tezLimit)) {
+    return false;
+  }
+
+  return Object.keys(spending.tokens).every((slug) => {
+    const limit = policy.tokenLimits[slug];
+    if (!limit) return false;
+
+    const spent = sumAmounts(spendings.map(({ tokens }) => tokens[slug] ?? 0));
+    return spent.isLessThanOrEqualTo(limit);
+  });
+}
+
+export function addSpending(
+  policy: TempleDAppPolicy,
+  spending: TempleDAppSpending
+): TempleDAppPolicy {
+  return {
+    ...policy,
+    spendings: [...getActualSpendings(policy, spending.timestamp), spending],
+  };
+}
+
+export function getActualSpendings(
+  policy: TempleDAppPolicy,
+  timestamp = Date.now()
+) {
+  const windowStart = timestamp - policy.timeframe * 1000;
+  return policy.spendings.filter((s) => s.timestamp > windowStart);
+}
+
+function toTokenSlug(tokenAddress: string, tokenId = 0) {
+  return `${tokenAddress}_${tokenId}`;
+}
+
+function sumAmounts(amounts: (string | number)[]) {
+  return amounts.reduce<BigNumber>(
+    (sum, amount) => sum.plus(amount),
+    new BigNumber(0)
+  );
+}
+
+function isAmountValid(amount: any) {
+  if (typeof amount !== "string") return false;
+
+  const bn = new BigNumber(amount);
+  return bn.isInteger() && !bn.isNegative();
+}
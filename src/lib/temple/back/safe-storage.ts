@@ -5,6 +5,7 @@ import * as Passworder from "lib/temple/passworder";
 interface EncryptedStorage {
   encrypted: Passworder.EncryptedPayload;
   salt: string;
+  kdf?: Passworder.KDFParams;
 }
 
 export async function isStored(storageKey: string) {
@@ -14,7 +15,7 @@ export async function isStored(storageKey: string) {
 
 export async function fetchAndDecryptOne<T>(
   storageKey: string,
-  passKey: CryptoKey
+  passKey: Passworder.PassKey
 ) {
   const encStorage = await fetchEncryptedOne(storageKey);
   return decrypt<T>(encStorage, passKey);
@@ -22,7 +23,15 @@ export async function fetchAndDecryptOne<T>(
 
 export async function encryptAndSaveMany(
   items: [string, any][],
-  passKey: CryptoKey
+  passKey: Passworder.PassKey
+) {
+  const encItems = await encryptMany(items, passKey);
+  await saveEncrypted(encItems);
+}
+
+export async function encryptMany(
+  items: [string, any][],
+  passKey: Passworder.PassKey
 ) {
   const encItems = await Promise.all(
     items.map(async ([storageKey, stuff]) => {
@@ -30,29 +39,37 @@ export async function encryptAndSaveMany(
       return [storageKey, encStorage] as [typeof storageKey, typeof encStorage];
     })
   );
-
-  await saveEncrypted(encItems);
+  return iterToObj(encItems);
 }
 
 export async function removeMany(keys: string[]) {
   await browser.storage.local.remove(keys);
 }
 
-async function encrypt(stuff: any, passKey: CryptoKey) {
+async function encrypt(stuff: any, passKey: Passworder.PassKey) {
   const salt = Passworder.generateSalt();
-  const derivedPassKey = await Passworder.deriveKey(passKey, salt);
+  const kdf = Passworder.KDF_PARAMS;
+  const derivedPassKey = await Passworder.deriveKey(passKey, salt, kdf);
   const encrypted = await Passworder.encrypt(stuff, derivedPassKey);
 
   return {
     encrypted,
     salt: Buffer.from(salt).toString("hex"),
+    kdf,
   };
 }
 
-async function decrypt<T>(encStorage: EncryptedStorage, passKey: CryptoKey) {
-  const { salt: saltHex, encrypted } = encStorage;
+async function decrypt<T>(
+  encStorage: EncryptedStorage,
+  passKey: Passworder.PassKey
+) {
+  const { salt: saltHex, encrypted, kdf } = encStorage;
+  if (kdf && !Passworder.isKDFParamsValid(kdf)) {
+    throw new Error("Invalid KDF params");
+  }
+
   const salt = Buffer.from(saltHex, "hex");
-  const derivedPassKey = await Passworder.deriveKey(passKey, salt);
+  const derivedPassKey = await Passworder.deriveKey(passKey, salt, kdf);
   return Passworder.decrypt<T>(encrypted, derivedPassKey);
 }
 
@@ -0,0 +1,306 @@
+import BigNumber from "bignumber.js";
+import {
+  createTransferOperation,
+  createSetDelegateOperation,
+  createOriginationOperation,
+} from "@taquito/taquito";
+import { RpcClient } from "@taquito/rpc";
+import { encodePubKey } from "@taquito/utils";
+import {
+  TempleOpsSimulation,
+  TempleBalanceDelta,
+  TempleSimulatedOperation,
+} from "lib/temple/types";
+import { loadChainId } from "lib/temple/helpers";
+import { PublicError } from "lib/temple/back/defaults";
+import { formatOpParams } from "lib/temple/back/vault";
+
+/**
+ * `run_operation` doesn't check signatures, but requires a well-formed one
+ */
+const STUB_SIGNATURE =
+  "edsigtkpiSSschcaCt9pUVrpNPf7TTcgvgDEDD6NCEHMy8NNQJCGnMfLZzYoQj74yLjo9wx6MPVV29CvVzgi7qEcEUok3k7AuMg";
+
+// Bytes burned for each allocated implicit account or originated contract
+const ORIGINATION_SIZE = 257;
+
+/**
+ * Dry runs operations with zero fees and maximum limits.
+ * Balance changes of the source account are taken from
+ * balance updates (tez, without storage burn) and `transfer`
+ * calls of FA1.2 / FA2 contracts (tokens).
+ */
+export async function simulateOperations(
+  sourcePkh: string,
+  publicKey: string,
+  rpcUrl: string,
+  opParams: any[]
+): Promise<TempleOpsSimulation> {
+  if (
+    opParams.length === 0 ||
+    opParams.some(
+      (op) =>
+        op?.kind !== "transaction" &&
+        op?.kind !== "delegation" &&
+        op?.kind !== "origination"
+    )
+  ) {
+    throw new PublicError("Unsupported operations");
+  }
+
+  const rpc = new RpcClient(rpcUrl);
+  const [
+    chainId,
+    { hash: branch },
+    { counter },
+    managerKey,
+    constants,
+  ] = await Promise.all([
+    loadChainId(rpcUrl),
+    rpc.getBlockHeader(),
+    rpc.getContract(sourcePkh),
+    rpc.getManagerKey(sourcePkh),
+    rpc.getConstants(),
+  ]);
+
+  const revealed = Boolean(
+    typeof managerKey === "string" ? managerKey : managerKey?.key
+  );
+  const contentsBase = await Promise.all(opParams.map(toOperationContent));
+  if (!revealed) {
+    contentsBase.unshift({ kind: "reveal", public_key: publicKey });
+  }
+
+  const gasLimit = BigNumber.min(
+    constants.hard_gas_limit_per_operation,
+    new BigNumber(constants.hard_gas_limit_per_block)
+      .div(contentsBase.length)
+      .integerValue(BigNumber.ROUND_FLOOR)
+  );
+  const contents = contentsBase.map((content, i) => ({
+    ...content,
+    source: sourcePkh,
+    fee: "0",
+    gas_limit: gasLimit.toFixed(),
+    storage_limit: new BigNumber(
+      constants.hard_storage_limit_per_operation
+    ).toFixed(),
+    counter: (+(counter ?? 0) + i + 1).toString(),
+  }));
+
+  let results: any[];
+  try {
+    const { contents: resultContents } = await rpc.runOperation({
+      operation: { branch, contents, signature: STUB_SIGNATURE },
+      chain_id: chainId,
+    } as any);
+    results = resultContents;
+  } catch (err) {
+    const errors = tryParseRpcErrors(err?.body);
+    if (!errors) {
+      throw err;
+    }
+
+    return {
+      applied: false,
+      errors,
+      balanceDeltas: [],
+      internalOperations: [],
+      burn: "0",
+      consumedGas: "0",
+    };
+  }
+
+  return parseResults(sourcePkh, results, constants.cost_per_byte);
+}
+
+async function toOperationContent(op: any): Promise<any> {
+  switch (op.kind) {
+    case "transaction":
+      return createTransferOperation(op);
+
+    case "delegation":
+      return createSetDelegateOperation(op);
+
+    case "origination":
+      return createOriginationOperation(formatOpParams(op));
+  }
+}
+
+function parseResults(
+  sourcePkh: string,
+  results: any[],
+  costPerByte: BigNumber.Value
+): TempleOpsSimulation {
+  const errors: string[] = [];
+  const internalOperations: TempleSimulatedOperation[] = [];
+  const tokenDeltas = new Map<string, TempleBalanceDelta>();
+  let applied = true;
+  let storageBytes = new BigNumber(0);
+  let consumedGas = new BigNumber(0);
+  let tezDelta = new BigNumber(0);
+
+  const handleResult = (op: any, result: any) => {
+    if (!result) return;
+
+    if (result.status !== "applied") {
+      applied = false;
+    }
+    if (result.errors) {
+      errors.push(...result.errors.map(formatError));
+    }
+    if (result.status !== "applied") return;
+
+    for (const update of result.balance_updates ?? []) {
+      if (update.kind === "contract" && update.contract === sourcePkh) {
+        tezDelta = tezDelta.plus(update.change);
+      }
+    }
+
+    const allocated =
+      (result.originated_contracts?.length ?? 0) +
+      (result.allocated_destination_contract ? 1 : 0);
+    storageBytes = storageBytes
+      .plus(result.paid_storage_size_diff ?? 0)
+      .plus(allocated * ORIGINATION_SIZE);
+    consumedGas = consumedGas.plus(result.consumed_gas ?? 0);
+
+    if (op.kind === "transaction" && op.parameters?.entrypoint === "transfer") {
+      for (const transfer of tryParseTokenTransfers(op.parameters.value)) {
+        const change =
+          (transfer.to === sourcePkh ? 1 : 0) -
+          (transfer.from === sourcePkh ? 1 : 0);
+        if (change === 0) continue;
+
+        const key = `${op.destination}_${transfer.tokenId ?? ""}`;
+        const current = tokenDeltas.get(key);
+        tokenDeltas.set(key, {
+          tokenAddress: op.destination,
+          ...(transfer.tokenId !== undefined
+            ? { tokenId: transfer.tokenId }
+            : {}),
+          amount: new BigNumber(current?.amount ?? 0)
+            .plus(transfer.amount.times(change))
+            .toFixed(),
+        });
+      }
+    }
+  };
+
+  for (const content of results) {
+    handleResult(content, content.metadata?.operation_result);
+
+    for (const internal of content.metadata?.internal_operation_results ?? []) {
+      internalOperations.push({
+        kind: internal.kind,
+        source: internal.source,
+        status: internal.result?.status,
+        ...(internal.destination ? { destination: internal.destination } : {}),
+        ...(internal.amount ? { amount: internal.amount } : {}),
+        ...(internal.parameters?.entrypoint
+          ? { entrypoint: internal.parameters.entrypoint }
+          : {}),
+      });
+      handleResult(internal, internal.result);
+    }
+  }
+
+  // Balance updates of the source include storage burn, as it pays
+  // for all the operations. Burn is reported separately, so it is excluded.
+  const burn = storageBytes.times(costPerByte);
+  tezDelta = tezDelta.plus(burn);
+
+  const balanceDeltas: TempleBalanceDelta[] = [
+    ...(tezDelta.isZero() ? [] : [{ amount: tezDelta.toFixed() }]),
+    ...Array.from(tokenDeltas.values()).filter(
+      ({ amount }) => !new BigNumber(amount).isZero()
+    ),
+  ];
+
+  return {
+    applied,
+    errors,
+    balanceDeltas,
+    internalOperations,
+    burn: burn.toFixed(),
+    consumedGas: consumedGas.toFixed(),
+  };
+}
+
+type TokenTransfer = {
+  from: string;
+  to: string;
+  tokenId?: number;
+  amount: BigNumber;
+};
+
+/**
+ * FA1.2: `Pair from (Pair to value)`
+ * FA2: `list (Pair from (list (Pair to (Pair token_id amount))))`
+ */
+function tryParseTokenTransfers(value: any): TokenTransfer[] {
+  try {
+    if (Array.isArray(value)) {
+      return value.flatMap((item) => {
+        const [from, txs] = flattenPair(item);
+        return (txs as any[]).map((tx) => {
+          const [to, tokenId, amount] = flattenPair(tx);
+          return {
+            from: toAddress(from),
+            to: toAddress(to),
+            tokenId: +tokenId.int,
+            amount: new BigNumber(amount.int),
+          };
+        });
+      });
+    }
+
+    const [from, to, amount] = flattenPair(value);
+    return [
+      {
+        from: toAddress(from),
+        to: toAddress(to),
+        amount: new BigNumber(amount.int),
+      },
+    ];
+  } catch {
+    return [];
+  }
+}
+
+function flattenPair(node: any): any[] {
+  return node?.prim === "Pair"
+    ? node.args.flatMap((arg: any) => flattenPair(arg))
+    : [node];
+}
+
+function toAddress(node: any) {
+  if (typeof node?.string === "string") {
+    return node.string;
+  }
+  if (typeof node?.bytes === "string") {
+    return encodePubKey(node.bytes);
+  }
+  throw new Error("Not an address");
+}
+
+function formatError(err: any) {
+  const id = String(err?.id ?? "").replace(/^proto\.[^.]+\./, "");
+  const withValue = err?.with;
+  if (!withValue) {
+    return id;
+  }
+
+  const details =
+    withValue.string ?? withValue.int ?? JSON.stringify(withValue);
+  return `${id}: ${details}`;
+}
+
+function tryParseRpcErrors(body: any) {
+  try {
+    const errors = JSON.parse(body);
+    return Array.isArray(errors) ? errors.map(formatError) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,113 @@
+import { Buffer } from "buffer";
+import BN from "bn.js";
+import elliptic from "elliptic";
+import { TempleCurve } from "lib/temple/types";
+import { PublicError } from "lib/temple/back/defaults";
+
+export type ECCurve = TempleCurve.SECP256K1 | TempleCurve.P256;
+
+const HARDENED_OFFSET = 0x80000000;
+
+const CURVE_PARAMS = {
+  [TempleCurve.SECP256K1]: {
+    seedKey: "Bitcoin seed",
+    ec: new elliptic.ec("secp256k1"),
+  },
+  [TempleCurve.P256]: {
+    seedKey: "Nist256p1 seed",
+    ec: new elliptic.ec("p256"),
+  },
+};
+
+/**
+ * SLIP-0010 private key derivation for secp256k1 and P-256 curves.
+ * Ed25519 keys are derived with `ed25519-hd-key`.
+ */
+export async function deriveECPrivateKey(
+  seed: Buffer,
+  derivationPath: string,
+  curve: ECCurve
+) {
+  const { seedKey, ec } = CURVE_PARAMS[curve];
+  const indexes = parseDerivationPath(derivationPath);
+
+  let I = await hmacSHA512(Buffer.from(seedKey), seed);
+  while (!isValidECPrivateKey(I.slice(0, 32), curve)) {
+    I = await hmacSHA512(Buffer.from(seedKey), I);
+  }
+
+  let key = I.slice(0, 32);
+  let chainCode = I.slice(32);
+  for (const index of indexes) {
+    const data =
+      index >= HARDENED_OFFSET
+        ? Buffer.concat([Buffer.alloc(1, 0), key, ser32(index)])
+        : Buffer.concat([
+            Buffer.from(ec.keyFromPrivate(key).getPublic(true, "array")),
+            ser32(index),
+          ]);
+
+    I = await hmacSHA512(chainCode, data);
+    let childKey = addPrivateKeys(I.slice(0, 32), key, curve);
+    while (!childKey) {
+      I = await hmacSHA512(
+        chainCode,
+        Buffer.concat([Buffer.alloc(1, 1), I.slice(32), ser32(index)])
+      );
+      childKey = addPrivateKeys(I.slice(0, 32), key, curve);
+    }
+
+    key = childKey;
+    chainCode = I.slice(32);
+  }
+
+  return key;
+}
+
+export function isValidECPrivateKey(key: Buffer, curve: ECCurve) {
+  const num = new BN(key);
+  return !num.isZero() && num.lt(getCurveOrder(curve));
+}
+
+function addPrivateKeys(tweak: Buffer, key: Buffer, curve: ECCurve) {
+  const n = getCurveOrder(curve);
+  const tweakNum = new BN(tweak);
+  if (tweakNum.gte(n)) return null;
+
+  const childNum = tweakNum.add(new BN(key)).umod(n);
+  return childNum.isZero() ? null : childNum.toArrayLike(Buffer, "be", 32);
+}
+
+function getCurveOrder(curve: ECCurve): BN {
+  return CURVE_PARAMS[curve].ec.curve.n;
+}
+
+function parseDerivationPath(derivationPath: string) {
+  const segments = derivationPath.replace(/^m\//, "").split("/");
+  return segments.map((segment) => {
+    const hardened = segment.endsWith("'");
+    const index = Number(hardened ? segment.slice(0, -1) : segment);
+    if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+      throw new PublicError("Invalid derivation path");
+    }
+    return hardened ? index + HARDENED_OFFSET : index;
+  });
+}
+
+function ser32(index: number) {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32BE(index, 0);
+  return buf;
+}
+
+async function hmacSHA512(key: Buffer, data: Buffer) {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-512" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", cryptoKey, data);
+  return Buffer.from(signature);
+}
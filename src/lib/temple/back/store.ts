@@ -3,6 +3,7 @@ import {
   TempleState,
   TempleStatus,
   TempleAccount,
+  TempleHDWallet,
   TempleSettings,
 } from "lib/temple/types";
 import { NETWORKS } from "lib/temple/networks";
@@ -20,12 +21,14 @@ export interface UnlockedStoreState extends StoreState {
 export function toFront({
   status,
   accounts,
+  hdWallets,
   networks,
   settings,
 }: StoreState): TempleState {
   return {
     status,
     accounts,
+    hdWallets,
     networks,
     settings,
   };
@@ -42,11 +45,16 @@ export const locked = createEvent("Locked");
 export const unlocked = createEvent<{
   vault: Vault;
   accounts: TempleAccount[];
+  hdWallets: TempleHDWallet[];
   settings: TempleSettings;
 }>("Unlocked");
 
 export const accountsUpdated = createEvent<TempleAccount[]>("Accounts updated");
 
+export const hdWalletsUpdated = createEvent<TempleHDWallet[]>(
+  "HD wallets updated"
+);
+
 export const settingsUpdated = createEvent<TempleSettings>("Settings updated");
 
 /**
@@ -58,6 +66,7 @@ export const store = createStore<StoreState>({
   vault: null,
   status: TempleStatus.Idle,
   accounts: [],
+  hdWallets: [],
   networks: [],
   settings: null,
 })
@@ -77,20 +86,26 @@ export const store = createStore<StoreState>({
     vault: null,
     status: TempleStatus.Locked,
     accounts: [],
+    hdWallets: [],
     networks: NETWORKS,
     settings: null,
   }))
-  .on(unlocked, (state, { vault, accounts, settings }) => ({
+  .on(unlocked, (state, { vault, accounts, hdWallets, settings }) => ({
     ...state,
     vault,
     status: TempleStatus.Ready,
     accounts,
+    hdWallets,
     settings,
   }))
   .on(accountsUpdated, (state, accounts) => ({
     ...state,
     accounts,
   }))
+  .on(hdWalletsUpdated, (state, hdWallets) => ({
+    ...state,
+    hdWallets,
+  }))
   .on(settingsUpdated, (state, settings) => ({
     ...state,
     settings,
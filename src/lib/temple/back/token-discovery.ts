@@ -0,0 +1,269 @@
+import { browser } from "webextension-polyfill-ts";
+import { Queue } from "queue-ts";
+import {
+  TempleAccount,
+  TempleAccountType,
+  TempleMessageType,
+  TempleNetwork,
+  TempleStatus,
+  isKnownChainId,
+} from "lib/temple/types";
+import {
+  TempleNewToken,
+  TempleReceivedToken,
+  TempleTokenHoldings,
+  createTokenIndexer,
+  getDiscoveredTokenKey,
+  scanTokenHoldings,
+} from "lib/temple/discovery";
+import { loadChainId } from "lib/temple/helpers";
+import { NETWORKS } from "lib/temple/networks";
+import { intercom } from "lib/temple/back/defaults";
+import {
+  store,
+  locked,
+  unlocked,
+  accountsUpdated,
+} from "lib/temple/back/store";
+
+type TokenDiscoveryState = {
+  holdings: TempleTokenHoldings;
+  newTokens: TempleNewToken[];
+};
+
+const SCAN_INTERVAL = 5 * 60_000;
+// Network selected in extension pages
+const NETWORK_ID_STORAGE_KEY = "network_id";
+const DEFAULT_DISCOVERY_STATE: TokenDiscoveryState = {
+  holdings: {},
+  newTokens: [],
+};
+
+let scanInterval: ReturnType<typeof setInterval> | null = null;
+let scanning = false;
+// Kept in memory to not rewrite the storage when nothing is discovered
+const scannedAt = new Map<string, number>();
+const updateQueue = new Queue(1);
+
+/**
+ * Periodically scans relevant accounts of the selected network
+ * while the wallet is unlocked. Tokens received since the previous
+ * scan are saved as new ones to be reviewed by the user.
+ *
+ * Only the selected network is scanned. Other networks are scanned
+ * when the user switches to them, so tokens received there meanwhile
+ * are reported on the switch.
+ */
+export function start() {
+  unlocked.watch(startScanning);
+  locked.watch(stopScanning);
+  accountsUpdated.watch(() => {
+    scan();
+  });
+
+  browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && NETWORK_ID_STORAGE_KEY in changes) {
+      scan();
+    }
+  });
+}
+
+export async function getNewTokens(accountPkh: string, chainId: string) {
+  const { newTokens } = await fetchState(chainId);
+  return newTokens
+    .filter(({ accountPkhs }) => accountPkhs.includes(accountPkh))
+    .map(({ token }) => token);
+}
+
+export async function dismissNewTokens(
+  accountPkh: string,
+  chainId: string,
+  tokenKeys: string[]
+) {
+  const keys = new Set(tokenKeys);
+  await updateState(chainId, (state) => ({
+    ...state,
+    newTokens: state.newTokens
+      .map((newToken) =>
+        keys.has(getDiscoveredTokenKey(newToken.token))
+          ? {
+              ...newToken,
+              accountPkhs: newToken.accountPkhs.filter(
+                (pkh) => pkh !== accountPkh
+              ),
+            }
+          : newToken
+      )
+      .filter(({ accountPkhs }) => accountPkhs.length > 0),
+  }));
+  notifyUpdated();
+}
+
+function startScanning() {
+  stopScanning();
+  setTimeout(scan);
+  scanInterval = setInterval(scan, SCAN_INTERVAL);
+}
+
+function stopScanning() {
+  if (scanInterval !== null) {
+    clearInterval(scanInterval);
+    scanInterval = null;
+  }
+}
+
+async function scan() {
+  const { status, accounts, settings } = store.getState();
+  if (scanning || status !== TempleStatus.Ready) return;
+  scanning = true;
+
+  try {
+    const network = await getSelectedNetwork(settings?.customNetworks ?? []);
+    const chainId = await loadChainId(network.rpcBaseURL);
+    if (!isKnownChainId(chainId)) return;
+
+    const accountPkhs = getRelevantAccounts(accounts, chainId).map(
+      (acc) => acc.publicKeyHash
+    );
+    const state = await fetchState(chainId);
+    if (
+      Date.now() - (scannedAt.get(chainId) ?? 0) < SCAN_INTERVAL &&
+      accountPkhs.every((pkh) => pkh in state.holdings)
+    ) {
+      return;
+    }
+
+    const { holdings, received } = await scanTokenHoldings(
+      createTokenIndexer(chainId),
+      accountPkhs,
+      state.holdings
+    );
+    await updateState(chainId, (actual) =>
+      received.length > 0 || !isSameHoldings(actual.holdings, holdings)
+        ? {
+            holdings: { ...actual.holdings, ...holdings },
+            newTokens: mergeNewTokens(actual.newTokens, received),
+          }
+        : null
+    );
+    scannedAt.set(chainId, Date.now());
+
+    if (received.length > 0) {
+      notifyUpdated();
+    }
+  } catch (err) {
+    if (process.env.NODE_ENV === "development") {
+      console.error(err);
+    }
+  } finally {
+    scanning = false;
+  }
+}
+
+async function getSelectedNetwork(customNetworks: TempleNetwork[]) {
+  const allNetworks = [...NETWORKS, ...customNetworks];
+  const items = await browser.storage.local.get([NETWORK_ID_STORAGE_KEY]);
+  const networkId = items[NETWORK_ID_STORAGE_KEY];
+  return allNetworks.find((n) => n.id === networkId) ?? allNetworks[0];
+}
+
+/**
+ * Same as relevant accounts of extension pages
+ */
+function getRelevantAccounts(accounts: TempleAccount[], chainId: string) {
+  return accounts.filter((acc) => {
+    switch (acc.type) {
+      case TempleAccountType.ManagedKT:
+      case TempleAccountType.Multisig:
+        return acc.chainId === chainId;
+
+      case TempleAccountType.WatchOnly:
+        return !acc.chainId || acc.chainId === chainId;
+
+      default:
+        return true;
+    }
+  });
+}
+
+function notifyUpdated() {
+  intercom.broadcast({ type: TempleMessageType.NewTokensUpdated });
+}
+
+async function fetchState(chainId: string): Promise<TokenDiscoveryState> {
+  const storageKey = getStorageKey(chainId);
+  const items = await browser.storage.local.get([storageKey]);
+  return items[storageKey] ?? DEFAULT_DISCOVERY_STATE;
+}
+
+/**
+ * Nothing is saved when update returns null
+ */
+function updateState(
+  chainId: string,
+  update: (state: TokenDiscoveryState) => TokenDiscoveryState | null
+) {
+  return new Promise<void>((resolve, reject) =>
+    updateQueue.add(() =>
+      fetchState(chainId)
+        .then((state) => {
+          const newState = update(state);
+          return newState
+            ? browser.storage.local.set({ [getStorageKey(chainId)]: newState })
+            : undefined;
+        })
+        .then(resolve)
+        .catch(reject)
+    )
+  );
+}
+
+function getStorageKey(chainId: string) {
+  return `token_discovery_${chainId}`;
+}
+
+/**
+ * Whether scanned holdings are already saved, order of tokens aside
+ */
+function isSameHoldings(
+  saved: TempleTokenHoldings,
+  scanned: TempleTokenHoldings
+) {
+  return Object.entries(scanned).every(([accountPkh, keys]) => {
+    const savedKeys = saved[accountPkh];
+    if (!savedKeys || savedKeys.length !== keys.length) return false;
+    const savedSet = new Set(savedKeys);
+    return keys.every((key) => savedSet.has(key));
+  });
+}
+
+function mergeNewTokens(
+  newTokens: TempleNewToken[],
+  received: TempleReceivedToken[]
+) {
+  const byKey = new Map(
+    newTokens.map((newToken) => [
+      getDiscoveredTokenKey(newToken.token),
+      newToken,
+    ])
+  );
+
+  for (const { accountPkh, token } of received) {
+    const key = getDiscoveredTokenKey(token);
+    const existing = byKey.get(key);
+    byKey.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            token,
+            accountPkhs: existing.accountPkhs.includes(accountPkh)
+              ? existing.accountPkhs
+              : [...existing.accountPkhs, accountPkh],
+          }
+        : { token, accountPkhs: [accountPkh], receivedAt: Date.now() }
+    );
+  }
+
+  return Array.from(byKey.values());
+}
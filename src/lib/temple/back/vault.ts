@@ -1,4 +1,6 @@
 import { browser } from "webextension-polyfill-ts";
+import { Buffer } from "buffer";
+import { nanoid } from "nanoid";
 import * as Bip39 from "bip39";
 import * as Ed25519 from "ed25519-hd-key";
 import * as TaquitoUtils from "@taquito/utils";
@@ -18,6 +20,10 @@ import { DerivationType } from "@taquito/ledger-signer";
 import {
   TempleAccount,
   TempleAccountType,
+  TempleBackup,
+  TempleCurve,
+  TempleDiscoverySource,
+  TempleHDWallet,
   TempleSettings,
 } from "lib/temple/types";
 import * as Passworder from "lib/temple/passworder";
@@ -26,19 +32,34 @@ import {
   isStored,
   fetchAndDecryptOne,
   encryptAndSaveMany,
+  encryptMany,
   removeMany,
 } from "lib/temple/back/safe-storage";
 import { TempleLedgerSigner } from "lib/temple/back/ledger-signer";
+import {
+  ECCurve,
+  deriveECPrivateKey,
+  isValidECPrivateKey,
+} from "lib/temple/back/slip10";
 import { getMessage } from "lib/i18n";
 
 const TEZOS_BIP44_COINTYPE = 1729;
 const STORAGE_KEY_PREFIX = "vault";
 const DEFAULT_SETTINGS: TempleSettings = {};
+const BACKUP_VERSION = 2;
+// Last backup version encrypted without KDF params
+const LEGACY_BACKUP_VERSION = 1;
+const LEDGER_DERIVATION_TYPES = {
+  [TempleCurve.ED25519]: DerivationType.ED25519,
+  [TempleCurve.SECP256K1]: DerivationType.SECP256K1,
+  [TempleCurve.P256]: DerivationType.P256,
+};
 
 enum StorageEntity {
   Check = "check",
   MigrationLevel = "mgrnlvl",
   Mnemonic = "mnemonic",
+  HDWallets = "hdwallets",
   AccPrivKey = "accprivkey",
   AccPubKey = "accpubkey",
   Accounts = "accounts",
@@ -47,12 +68,20 @@ enum StorageEntity {
 
 const checkStrgKey = createStorageKey(StorageEntity.Check);
 const migrationLevelStrgKey = createStorageKey(StorageEntity.MigrationLevel);
-const mnemonicStrgKey = createStorageKey(StorageEntity.Mnemonic);
+const legacyMnemonicStrgKey = createStorageKey(StorageEntity.Mnemonic);
+const mnemonicStrgKey = createDynamicStorageKey(StorageEntity.Mnemonic);
+const hdWalletsStrgKey = createStorageKey(StorageEntity.HDWallets);
 const accPrivKeyStrgKey = createDynamicStorageKey(StorageEntity.AccPrivKey);
 const accPubKeyStrgKey = createDynamicStorageKey(StorageEntity.AccPubKey);
 const accountsStrgKey = createStorageKey(StorageEntity.Accounts);
 const settingsStrgKey = createStorageKey(StorageEntity.Settings);
 
+interface BackupContent {
+  version: number;
+  vault: Record<string, any>;
+  storage: Record<string, any>;
+}
+
 export class Vault {
   static isExist() {
     return isStored(checkStrgKey);
@@ -73,6 +102,12 @@ export class Vault {
       }
       const seed = Bip39.mnemonicToSeedSync(mnemonic);
 
+      const initialHDWallet: TempleHDWallet = {
+        id: nanoid(),
+        name: getNewHDWalletName([]),
+      };
+      const newHDWallets = [initialHDWallet];
+
       const hdAccIndex = 0;
       const accPrivateKey = seedToHDPrivateKey(seed, hdAccIndex);
       const [accPublicKey, accPublicKeyHash] = await getPublicKeyAndHash(
@@ -84,6 +119,7 @@ export class Vault {
         name: "Account 1",
         publicKeyHash: accPublicKeyHash,
         hdIndex: hdAccIndex,
+        walletId: initialHDWallet.id,
       };
       const newAccounts = [initialAccount];
 
@@ -94,7 +130,8 @@ export class Vault {
         [
           [checkStrgKey, null],
           [migrationLevelStrgKey, MIGRATIONS.length],
-          [mnemonicStrgKey, mnemonic],
+          [mnemonicStrgKey(initialHDWallet.id), mnemonic],
+          [hdWalletsStrgKey, newHDWallets],
           [accPrivKeyStrgKey(accPublicKeyHash), accPrivateKey],
           [accPubKeyStrgKey(accPublicKeyHash), accPublicKey],
           [accountsStrgKey, newAccounts],
@@ -104,32 +141,33 @@ export class Vault {
     });
   }
 
-  static async runMigrations(passKey: CryptoKey) {
-    try {
-      const migrationLevelStored = await isStored(migrationLevelStrgKey);
-      const migrationLevel = migrationLevelStored
-        ? await fetchAndDecryptOne<number>(migrationLevelStrgKey, passKey)
-        : 0;
-      const migrationsToRun = MIGRATIONS.filter((_m, i) => i >= migrationLevel);
-      for (const migrate of migrationsToRun) {
-        await migrate(passKey);
-      }
-    } catch (err) {
-      if (process.env.NODE_ENV === "development") {
-        console.error(err);
+  /**
+   * Level is saved after each successful migration. Failed migration
+   * throws, so it runs again on the next unlock.
+   */
+  static async runMigrations(passKey: Passworder.PassKey) {
+    const migrationLevelStored = await isStored(migrationLevelStrgKey);
+    const migrationLevel = migrationLevelStored
+      ? await fetchAndDecryptOne<number>(migrationLevelStrgKey, passKey)
+      : 0;
+
+    for (let i = migrationLevel; i < MIGRATIONS.length; i++) {
+      try {
+        await MIGRATIONS[i](passKey);
+      } catch (err) {
+        if (process.env.NODE_ENV === "development") {
+          console.error(err);
+        }
+        throw err;
       }
-    } finally {
-      await encryptAndSaveMany(
-        [[migrationLevelStrgKey, MIGRATIONS.length]],
-        passKey
-      );
+      await encryptAndSaveMany([[migrationLevelStrgKey, i + 1]], passKey);
     }
   }
 
-  static async revealMnemonic(password: string) {
+  static async revealMnemonic(walletId: string, password: string) {
     const passKey = await Vault.toValidPassKey(password);
     return withError("Failed to reveal seed phrase", () =>
-      fetchAndDecryptOne<string>(mnemonicStrgKey, passKey)
+      fetchAndDecryptOne<string>(mnemonicStrgKey(walletId), passKey)
     );
   }
 
@@ -171,6 +209,87 @@ export class Vault {
     });
   }
 
+  static async exportBackup(password: string) {
+    const passKey = await Vault.toValidPassKey(password);
+    return withError("Failed to export backup", async () => {
+      const items = await browser.storage.local.get(null);
+
+      const content: BackupContent = {
+        version: BACKUP_VERSION,
+        vault: {},
+        storage: {},
+      };
+      for (const key of Object.keys(items)) {
+        if (!isVaultStorageKey(key)) {
+          content.storage[key] = items[key];
+        } else if (key !== checkStrgKey) {
+          content.vault[key] = await fetchAndDecryptOne<any>(key, passKey);
+        }
+      }
+
+      return encryptBackup(content, password);
+    });
+  }
+
+  static async restoreBackup(backup: TempleBackup, password: string) {
+    if (
+      backup?.version !== BACKUP_VERSION &&
+      backup?.version !== LEGACY_BACKUP_VERSION
+    ) {
+      throw new PublicError("Unsupported backup version");
+    }
+
+    const content = await withError(
+      "Invalid backup file or password",
+      async (doThrow) => {
+        const decrypted = await decryptBackup(backup, password);
+        if (!isBackupContentValid(decrypted, backup.version)) {
+          doThrow();
+        }
+        return decrypted;
+      }
+    );
+
+    return withError("Failed to restore wallet", async () => {
+      const passKey = await Passworder.generateKey(password);
+      const encItems = await encryptMany(
+        [[checkStrgKey, null], ...Object.entries(content.vault)],
+        passKey
+      );
+
+      // Current wallet is replaced only when the backup is ready to be saved
+      const newItems = { ...content.storage, ...encItems };
+      const staleKeys = Object.keys(
+        await browser.storage.local.get(null)
+      ).filter((key) => !(key in newItems));
+      await browser.storage.local.set(newItems);
+      await removeMany(staleKeys);
+    });
+  }
+
+  static async changePassword(oldPassword: string, newPassword: string) {
+    const passKey = await Vault.toValidPassKey(oldPassword);
+    return withError("Failed to change password", async () => {
+      const items = await browser.storage.local.get(null);
+      const decryptedItems = await decryptVaultItems(items, passKey);
+
+      const newPassKey = await Passworder.generateKey(newPassword);
+      try {
+        await encryptAndSaveMany(decryptedItems, newPassKey);
+      } catch (err) {
+        // Rollback - put back items encrypted with old password
+        await browser.storage.local.set(
+          Object.fromEntries(
+            decryptedItems.map(([key]) => [key, items[key]] as [string, any])
+          )
+        );
+        throw err;
+      }
+
+      return new Vault(newPassKey);
+    });
+  }
+
   private static toValidPassKey(password: string) {
     return withError("Invalid password", async (doThrow) => {
       const passKey = await Passworder.generateKey(password);
@@ -182,7 +301,7 @@ export class Vault {
     });
   }
 
-  constructor(private passKey: CryptoKey) {}
+  constructor(private passKey: Passworder.PassKey) {}
 
   revealPublicKey(accPublicKeyHash: string) {
     return withError("Failed to reveal public key", () =>
@@ -197,6 +316,10 @@ export class Vault {
     return fetchAndDecryptOne<TempleAccount[]>(accountsStrgKey, this.passKey);
   }
 
+  fetchHDWallets() {
+    return fetchAndDecryptOne<TempleHDWallet[]>(hdWalletsStrgKey, this.passKey);
+  }
+
   async fetchSettings() {
     let saved;
     try {
@@ -208,18 +331,26 @@ export class Vault {
     return saved ? { ...DEFAULT_SETTINGS, ...saved } : DEFAULT_SETTINGS;
   }
 
-  async createHDAccount(name?: string) {
+  async createHDAccount(walletId: string, name?: string) {
     return withError("Failed to create account", async () => {
-      const [mnemonic, allAccounts] = await Promise.all([
-        fetchAndDecryptOne<string>(mnemonicStrgKey, this.passKey),
+      const [hdWallets, allAccounts] = await Promise.all([
+        this.fetchHDWallets(),
         this.fetchAccounts(),
       ]);
+      if (hdWallets.every((w) => w.id !== walletId)) {
+        throw new PublicError("Wallet not found");
+      }
+
+      const mnemonic = await fetchAndDecryptOne<string>(
+        mnemonicStrgKey(walletId),
+        this.passKey
+      );
 
       const seed = Bip39.mnemonicToSeedSync(mnemonic);
-      const allHDAccounts = allAccounts.filter(
-        (a) => a.type === TempleAccountType.HD
+      const walletHDAccounts = allAccounts.filter(
+        (a) => a.type === TempleAccountType.HD && a.walletId === walletId
       );
-      const hdAccIndex = allHDAccounts.length;
+      const hdAccIndex = getNextHDIndex(walletHDAccounts);
       const accPrivateKey = seedToHDPrivateKey(seed, hdAccIndex);
       const [accPublicKey, accPublicKeyHash] = await getPublicKeyAndHash(
         accPrivateKey
@@ -230,6 +361,7 @@ export class Vault {
         name: name || getNewAccountName(allAccounts),
         publicKeyHash: accPublicKeyHash,
         hdIndex: hdAccIndex,
+        walletId,
       };
       const newAllAcounts = concatAccount(allAccounts, newAccount);
 
@@ -246,6 +378,139 @@ export class Vault {
     });
   }
 
+  async createHDWallet(name?: string, mnemonic?: string) {
+    return withError("Failed to create wallet", async () => {
+      if (!mnemonic) {
+        mnemonic = Bip39.generateMnemonic(128);
+      } else if (!Bip39.validateMnemonic(mnemonic)) {
+        throw new PublicError("Invalid Mnemonic");
+      }
+
+      const [hdWallets, allAccounts] = await Promise.all([
+        this.fetchHDWallets(),
+        this.fetchAccounts(),
+      ]);
+
+      if (name && hdWallets.some((w) => w.name === name)) {
+        throw new PublicError("Wallet with same name already exist");
+      }
+
+      const mnemonics = await Promise.all(
+        hdWallets.map((w) =>
+          fetchAndDecryptOne<string>(mnemonicStrgKey(w.id), this.passKey)
+        )
+      );
+      if (mnemonics.includes(mnemonic)) {
+        throw new PublicError("Wallet with same seed phrase already exist");
+      }
+
+      const newHDWallet: TempleHDWallet = {
+        id: nanoid(),
+        name: name || getNewHDWalletName(hdWallets),
+      };
+      const newHDWallets = [...hdWallets, newHDWallet];
+
+      const seed = Bip39.mnemonicToSeedSync(mnemonic);
+      const hdAccIndex = 0;
+      const accPrivateKey = seedToHDPrivateKey(seed, hdAccIndex);
+      const [accPublicKey, accPublicKeyHash] = await getPublicKeyAndHash(
+        accPrivateKey
+      );
+
+      const newAccount: TempleAccount = {
+        type: TempleAccountType.HD,
+        name: getNewAccountName(allAccounts),
+        publicKeyHash: accPublicKeyHash,
+        hdIndex: hdAccIndex,
+        walletId: newHDWallet.id,
+      };
+      const newAllAcounts = concatAccount(allAccounts, newAccount);
+
+      await encryptAndSaveMany(
+        [
+          [mnemonicStrgKey(newHDWallet.id), mnemonic],
+          [hdWalletsStrgKey, newHDWallets],
+          [accPrivKeyStrgKey(accPublicKeyHash), accPrivateKey],
+          [accPubKeyStrgKey(accPublicKeyHash), accPublicKey],
+          [accountsStrgKey, newAllAcounts],
+        ],
+        this.passKey
+      );
+
+      return [newHDWallets, newAllAcounts] as const;
+    });
+  }
+
+  async deriveAccounts(
+    source: TempleDiscoverySource,
+    fromIndex: number,
+    count: number
+  ) {
+    return withError("Failed to derive accounts", async () => {
+      const seed = await this.fetchSourceSeed(source);
+      return Promise.all(
+        Array.from({ length: count }, async (_, i) => {
+          const index = fromIndex + i;
+          const derivationPath = getMainDerivationPath(index);
+          const accPrivateKey = seedToHDPrivateKey(seed, index);
+          const [, publicKeyHash] = await getPublicKeyAndHash(accPrivateKey);
+          return { index, derivationPath, publicKeyHash };
+        })
+      );
+    });
+  }
+
+  async addDiscoveredAccounts(
+    source: TempleDiscoverySource,
+    indexes: number[]
+  ) {
+    return withError("Failed to add accounts", async () => {
+      const [seed, allAccounts] = await Promise.all([
+        this.fetchSourceSeed(source),
+        this.fetchAccounts(),
+      ]);
+
+      let newAllAcounts = allAccounts;
+      const toSave: [string, any][] = [];
+      for (const index of indexes) {
+        const accPrivateKey = seedToHDPrivateKey(seed, index);
+        const [accPublicKey, accPublicKeyHash] = await getPublicKeyAndHash(
+          accPrivateKey
+        );
+
+        const name = getNewAccountName(newAllAcounts);
+        const newAccount: TempleAccount =
+          "walletId" in source
+            ? {
+                type: TempleAccountType.HD,
+                name,
+                publicKeyHash: accPublicKeyHash,
+                hdIndex: index,
+                walletId: source.walletId,
+              }
+            : {
+                type: TempleAccountType.Imported,
+                name,
+                publicKeyHash: accPublicKeyHash,
+                curve: TempleCurve.ED25519,
+              };
+        newAllAcounts = concatAccount(newAllAcounts, newAccount);
+
+        toSave.push(
+          [accPrivKeyStrgKey(accPublicKeyHash), accPrivateKey],
+          [accPubKeyStrgKey(accPublicKeyHash), accPublicKey]
+        );
+      }
+
+      await encryptAndSaveMany(
+        [...toSave, [accountsStrgKey, newAllAcounts]],
+        this.passKey
+      );
+
+      return newAllAcounts;
+    });
+  }
+
   async importAccount(accPrivateKey: string, encPassword?: string) {
     const errMessage =
       "Failed to import account" +
@@ -268,6 +533,7 @@ export class Vault {
         type: TempleAccountType.Imported,
         name: getNewAccountName(allAccounts),
         publicKeyHash: accPublicKeyHash,
+        curve: getCurveByPublicKeyHash(accPublicKeyHash),
       };
       const newAllAcounts = concatAccount(allAccounts, newAccount);
 
@@ -287,7 +553,8 @@ export class Vault {
   async importMnemonicAccount(
     mnemonic: string,
     password?: string,
-    derivationPath?: string
+    derivationPath?: string,
+    curve = TempleCurve.ED25519
   ) {
     return withError("Failed to import account", async () => {
       let seed;
@@ -297,6 +564,15 @@ export class Vault {
         throw new PublicError("Invalid Mnemonic or Password");
       }
 
+      if (curve !== TempleCurve.ED25519) {
+        const privateKey = await seedToECPrivateKey(
+          seed,
+          curve,
+          derivationPath
+        );
+        return this.importAccount(privateKey);
+      }
+
       if (derivationPath) {
         seed = deriveSeed(seed, derivationPath);
       }
@@ -348,6 +624,38 @@ export class Vault {
     });
   }
 
+  async importMultisigAccount(
+    accPublicKeyHash: string,
+    chainId: string,
+    owner: string,
+    threshold: number,
+    signers: string[]
+  ) {
+    return withError("Failed to import Multisig account", async () => {
+      const allAccounts = await this.fetchAccounts();
+      const newAccount: TempleAccount = {
+        type: TempleAccountType.Multisig,
+        name: getNewAccountName(
+          allAccounts.filter(({ type }) => type === TempleAccountType.Multisig),
+          "defaultMultisigAccountName"
+        ),
+        publicKeyHash: accPublicKeyHash,
+        chainId,
+        owner,
+        threshold,
+        signers,
+      };
+      const newAllAcounts = concatAccount(allAccounts, newAccount);
+
+      await encryptAndSaveMany(
+        [[accountsStrgKey, newAllAcounts]],
+        this.passKey
+      );
+
+      return newAllAcounts;
+    });
+  }
+
   async importWatchOnlyAccount(accPublicKeyHash: string, chainId?: string) {
     return withError("Failed to import Watch Only account", async () => {
       const allAccounts = await this.fetchAccounts();
@@ -373,11 +681,18 @@ export class Vault {
     });
   }
 
-  async createLedgerAccount(name: string, derivationPath?: string) {
+  async createLedgerAccount(
+    name: string,
+    derivationPath?: string,
+    curve = TempleCurve.ED25519
+  ) {
     return withError("Failed to connect Ledger account", async () => {
       if (!derivationPath) derivationPath = getMainDerivationPath(0);
 
-      const { signer, cleanup } = await createLedgerSigner(derivationPath);
+      const { signer, cleanup } = await createLedgerSigner(
+        derivationPath,
+        curve
+      );
 
       try {
         const accPublicKey = await signer.publicKey();
@@ -388,6 +703,7 @@ export class Vault {
           name,
           publicKeyHash: accPublicKeyHash,
           derivationPath,
+          curve,
         };
         const allAccounts = await this.fetchAccounts();
         const newAllAcounts = concatAccount(allAccounts, newAccount);
@@ -484,6 +800,21 @@ export class Vault {
     });
   }
 
+  private async fetchSourceSeed(source: TempleDiscoverySource) {
+    if ("walletId" in source) {
+      const mnemonic = await fetchAndDecryptOne<string>(
+        mnemonicStrgKey(source.walletId),
+        this.passKey
+      );
+      return Bip39.mnemonicToSeedSync(mnemonic);
+    }
+
+    if (!Bip39.validateMnemonic(source.mnemonic)) {
+      throw new PublicError("Invalid Mnemonic");
+    }
+    return Bip39.mnemonicToSeedSync(source.mnemonic, source.password);
+  }
+
   private async withSigner<T>(
     accPublicKeyHash: string,
     factory: (signer: Signer) => Promise<T>
@@ -508,6 +839,7 @@ export class Vault {
         const publicKey = await this.revealPublicKey(accPublicKeyHash);
         return createLedgerSigner(
           acc.derivationPath,
+          acc.curve,
           publicKey,
           accPublicKeyHash
         );
@@ -515,6 +847,10 @@ export class Vault {
       case TempleAccountType.WatchOnly:
         throw new PublicError("Cannot sign Watch-only account");
 
+      // Operations of multisig are proposed and approved by its owners
+      case TempleAccountType.Multisig:
+        throw new PublicError("Multisig accounts cannot sign directly");
+
       default:
         const privateKey = await fetchAndDecryptOne<string>(
           accPrivKeyStrgKey(accPublicKeyHash),
@@ -536,9 +872,9 @@ export class Vault {
 
 const MIGRATIONS = [
   // [0] Fix derivation
-  async (passKey: CryptoKey) => {
+  async (passKey: Passworder.PassKey) => {
     const [mnemonic, accounts] = await Promise.all([
-      fetchAndDecryptOne<string>(mnemonicStrgKey, passKey),
+      fetchAndDecryptOne<string>(legacyMnemonicStrgKey, passKey),
       fetchAndDecryptOne<TempleAccount[]>(accountsStrgKey, passKey),
     ]);
     const migratedAccounts = accounts.map((acc) =>
@@ -557,7 +893,7 @@ const MIGRATIONS = [
       accPrivateKey
     );
 
-    const newInitialAccount: TempleAccount = {
+    const newInitialAccount = {
       type: TempleAccountType.HD,
       name: getNewAccountName(accounts),
       publicKeyHash: accPublicKeyHash,
@@ -576,7 +912,7 @@ const MIGRATIONS = [
   },
 
   // [1] Add hdIndex prop to HD Accounts
-  async (passKey: CryptoKey) => {
+  async (passKey: Passworder.PassKey) => {
     const accounts = await fetchAndDecryptOne<TempleAccount[]>(
       accountsStrgKey,
       passKey
@@ -591,8 +927,127 @@ const MIGRATIONS = [
 
     await encryptAndSaveMany([[accountsStrgKey, newAccounts]], passKey);
   },
+
+  // [2] Re-encrypt all items with stronger KDF
+  async (passKey: Passworder.PassKey) => {
+    const items = await browser.storage.local.get(null);
+    const decryptedItems = await decryptVaultItems(items, passKey);
+    await encryptAndSaveMany(decryptedItems, passKey);
+  },
+
+  // [3] Move single mnemonic to the initial HD wallet
+  async (passKey: Passworder.PassKey) => {
+    const [mnemonic, accounts] = await Promise.all([
+      fetchAndDecryptOne<string>(legacyMnemonicStrgKey, passKey),
+      fetchAndDecryptOne<TempleAccount[]>(accountsStrgKey, passKey),
+    ]);
+
+    const initialHDWallet: TempleHDWallet = {
+      id: nanoid(),
+      name: getNewHDWalletName([]),
+    };
+    const newAccounts = accounts.map((acc) =>
+      acc.type === TempleAccountType.HD
+        ? { ...acc, walletId: initialHDWallet.id }
+        : acc
+    );
+
+    await encryptAndSaveMany(
+      [
+        [mnemonicStrgKey(initialHDWallet.id), mnemonic],
+        [hdWalletsStrgKey, [initialHDWallet]],
+        [accountsStrgKey, newAccounts],
+      ],
+      passKey
+    );
+    await removeMany([legacyMnemonicStrgKey]);
+  },
+
+  // [4] Add curve prop to accounts with keys
+  async (passKey: Passworder.PassKey) => {
+    const accounts = await fetchAndDecryptOne<TempleAccount[]>(
+      accountsStrgKey,
+      passKey
+    );
+
+    const newAccounts = accounts.map((acc) =>
+      acc.type === TempleAccountType.Imported ||
+      acc.type === TempleAccountType.Ledger
+        ? { ...acc, curve: getCurveByPublicKeyHash(acc.publicKeyHash) }
+        : acc
+    );
+
+    await encryptAndSaveMany([[accountsStrgKey, newAccounts]], passKey);
+  },
 ];
 
+/**
+ * Backup
+ */
+
+async function encryptBackup(
+  content: BackupContent,
+  password: string
+): Promise<TempleBackup> {
+  const salt = Passworder.generateSalt();
+  const kdf = Passworder.KDF_PARAMS;
+  const passKey = await Passworder.generateKey(password);
+  const derivedPassKey = await Passworder.deriveKey(passKey, salt, kdf);
+  const encrypted = await Passworder.encrypt(content, derivedPassKey);
+
+  return {
+    version: content.version,
+    salt: Buffer.from(salt).toString("hex"),
+    kdf,
+    encrypted,
+  };
+}
+
+/**
+ * Legacy derivation is allowed only for backups made before KDF params
+ * were introduced, so stripping `kdf` can't downgrade a newer backup
+ */
+async function decryptBackup(
+  { version, salt, kdf, encrypted }: TempleBackup,
+  password: string
+) {
+  const legacy = version <= LEGACY_BACKUP_VERSION;
+  if (legacy ? kdf !== undefined : !Passworder.isKDFParamsValid(kdf)) {
+    throw new Error("Invalid KDF params");
+  }
+
+  const passKey = await Passworder.generateKey(password);
+  const derivedPassKey = await Passworder.deriveKey(
+    passKey,
+    Buffer.from(salt, "hex"),
+    legacy ? undefined : kdf
+  );
+  return Passworder.decrypt<BackupContent>(encrypted, derivedPassKey);
+}
+
+function isBackupContentValid(content: BackupContent, version: number) {
+  if (
+    content?.version !== version ||
+    !isPlainObject(content.vault) ||
+    !isPlainObject(content.storage)
+  ) {
+    return false;
+  }
+
+  const vaultKeys = Object.keys(content.vault);
+  return (
+    vaultKeys.every((key) => isVaultStorageKey(key) && key !== checkStrgKey) &&
+    Object.keys(content.storage).every((key) => !isVaultStorageKey(key)) &&
+    (typeof content.vault[legacyMnemonicStrgKey] === "string" ||
+      Array.isArray(content.vault[hdWalletsStrgKey])) &&
+    Array.isArray(content.vault[accountsStrgKey])
+  );
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
 /**
  * Misc
  */
@@ -601,7 +1056,7 @@ function removeMFromDerivationPath(dPath: string) {
   return dPath.startsWith("m/") ? dPath.substring(2) : dPath;
 }
 
-function formatOpParams(params: any) {
+export function formatOpParams(params: any) {
   if (params.kind === "origination" && params.script) {
     const newParams = { ...params, ...params.script };
     newParams.init = newParams.storage;
@@ -627,6 +1082,19 @@ function getNewAccountName(
   return getMessage(templateI18nKey, String(allAccounts.length + 1));
 }
 
+function getNextHDIndex(hdAccounts: TempleAccount[]) {
+  const usedIndexes = new Set(hdAccounts.map((acc) => acc.hdIndex));
+  let hdAccIndex = 0;
+  while (usedIndexes.has(hdAccIndex)) {
+    hdAccIndex++;
+  }
+  return hdAccIndex;
+}
+
+function getNewHDWalletName(allHDWallets: TempleHDWallet[]) {
+  return getMessage("defaultHDWalletName", String(allHDWallets.length + 1));
+}
+
 async function getPublicKeyAndHash(privateKey: string) {
   const signer = await createMemorySigner(privateKey);
   return Promise.all([signer.publicKey(), signer.publicKeyHash()]);
@@ -638,6 +1106,7 @@ async function createMemorySigner(privateKey: string, encPassword?: string) {
 
 async function createLedgerSigner(
   derivationPath: string,
+  curve = TempleCurve.ED25519,
   publicKey?: string,
   publicKeyHash?: string
 ) {
@@ -661,7 +1130,7 @@ async function createLedgerSigner(
     transport,
     removeMFromDerivationPath(derivationPath),
     true,
-    DerivationType.ED25519,
+    LEDGER_DERIVATION_TYPES[curve],
     publicKey,
     publicKeyHash
   );
@@ -681,6 +1150,38 @@ function seedToPrivateKey(seed: Buffer) {
   return TaquitoUtils.b58cencode(seed.slice(0, 32), TaquitoUtils.prefix.edsk2);
 }
 
+async function seedToECPrivateKey(
+  seed: Buffer,
+  curve: ECCurve,
+  derivationPath?: string
+) {
+  const key = derivationPath
+    ? await deriveECPrivateKey(seed, derivationPath, curve)
+    : seed.slice(0, 32);
+  if (!isValidECPrivateKey(key, curve)) {
+    throw new PublicError("Invalid private key");
+  }
+
+  const prefix =
+    curve === TempleCurve.SECP256K1
+      ? TaquitoUtils.prefix.spsk
+      : TaquitoUtils.prefix.p2sk;
+  return TaquitoUtils.b58cencode(key, prefix);
+}
+
+function getCurveByPublicKeyHash(publicKeyHash: string) {
+  switch (publicKeyHash.slice(0, 3)) {
+    case "tz2":
+      return TempleCurve.SECP256K1;
+
+    case "tz3":
+      return TempleCurve.P256;
+
+    default:
+      return TempleCurve.ED25519;
+  }
+}
+
 function deriveSeed(seed: Buffer, derivationPath: string) {
   try {
     const { key } = Ed25519.derivePath(derivationPath, seed.toString("hex"));
@@ -700,6 +1201,24 @@ function createDynamicStorageKey(id: StorageEntity) {
     combineStorageKey(keyBase, ...subKeys);
 }
 
+function isVaultStorageKey(key: string) {
+  return key.startsWith(`${STORAGE_KEY_PREFIX}_`);
+}
+
+function decryptVaultItems(
+  items: Record<string, any>,
+  passKey: Passworder.PassKey
+) {
+  return Promise.all(
+    Object.keys(items)
+      .filter(isVaultStorageKey)
+      .map(
+        async (key) =>
+          [key, await fetchAndDecryptOne<any>(key, passKey)] as [string, any]
+      )
+  );
+}
+
 function combineStorageKey(...parts: (string | number)[]) {
   return parts.join("_");
 }
@@ -0,0 +1,377 @@
+import memoize from "micro-memoize";
+import BigNumber from "bignumber.js";
+import { TezosToolkit } from "@taquito/taquito";
+import { b58cdecode, buf2hex, encodeExpr, prefix } from "@taquito/utils";
+import toBuffer from "typedarray-to-buffer";
+import {
+  TempleAsset,
+  TempleAssetType,
+  TempleToken,
+  TempleFA2Asset,
+} from "lib/temple/types";
+import { fetchBalance } from "lib/temple/assets";
+import { loadContractForCallLambdaView } from "lib/temple/contract";
+
+/**
+ * Ledger big_map recognized in the token contract storage.
+ * - `address` - address => balance (FA1.2 or single asset FA2)
+ * - `address_id` - (address, token_id) => balance (multi asset FA2)
+ * - `id_address` - (token_id, address) => balance (multi asset FA2)
+ * - `owner` - token_id => owner (NFT)
+ */
+type LedgerLayout = {
+  type: "address" | "address_id" | "id_address" | "owner";
+  bigMapId: string;
+  balancePath: number[];
+};
+
+type BalanceRequest = {
+  asset: TempleToken;
+  accountPkh: string;
+  resolve: (balance: BigNumber) => void;
+  reject: (err: any) => void;
+};
+
+const LEDGER_ANNOTS = ["%ledger", "%balances", "%tokens", "%accounts"];
+const BALANCE_ANNOTS = ["%balance", "%amount"];
+
+const ADDRESS_PREFIXES = {
+  tz1: { prefix: prefix.tz1, tag: "0000" },
+  tz2: { prefix: prefix.tz2, tag: "0001" },
+  tz3: { prefix: prefix.tz3, tag: "0002" },
+  KT1: { prefix: prefix.KT1, tag: "01" },
+};
+
+const pendingRequests = new Map<TezosToolkit, BalanceRequest[]>();
+
+/**
+ * Loads balance of the asset. Token balance requests made at the same time
+ * are fetched in one pass: ledger big_map is read directly when the contract
+ * storage layout is recognized, FA2 `balance_of` requests are batched
+ * per contract. Other tokens fall back to one lambda view per request.
+ */
+export function loadBalance(
+  tezos: TezosToolkit,
+  asset: TempleAsset,
+  accountPkh: string
+): Promise<BigNumber> {
+  if (asset.type === TempleAssetType.TEZ) {
+    return fetchBalance(tezos, asset, accountPkh);
+  }
+
+  return new Promise((resolve, reject) => {
+    let requests = pendingRequests.get(tezos);
+    if (!requests) {
+      requests = [];
+      pendingRequests.set(tezos, requests);
+      setTimeout(() => flush(tezos));
+    }
+    requests.push({ asset, accountPkh, resolve, reject });
+  });
+}
+
+async function flush(tezos: TezosToolkit) {
+  const requests = pendingRequests.get(tezos) ?? [];
+  pendingRequests.delete(tezos);
+
+  const byContract = new Map<string, BalanceRequest[]>();
+  for (const req of requests) {
+    const contractRequests = byContract.get(req.asset.address) ?? [];
+    contractRequests.push(req);
+    byContract.set(req.asset.address, contractRequests);
+  }
+
+  await Promise.all(
+    Array.from(byContract.entries()).map(([address, contractRequests]) =>
+      processContractRequests(tezos, address, contractRequests)
+    )
+  );
+}
+
+async function processContractRequests(
+  tezos: TezosToolkit,
+  address: string,
+  requests: BalanceRequest[]
+) {
+  let ledger: LedgerLayout | null = null;
+  try {
+    ledger = await detectLedger(tezos, address);
+  } catch {}
+
+  const toBatch: BalanceRequest[] = [];
+  const rest: BalanceRequest[] = [];
+  for (const req of requests) {
+    if (ledger && isLedgerApplicable(ledger, req.asset)) {
+      readLedgerBalance(tezos, ledger, req)
+        .catch(() => fetchBalance(tezos, req.asset, req.accountPkh))
+        .then(req.resolve, req.reject);
+    } else if (req.asset.type === TempleAssetType.FA2) {
+      toBatch.push(req);
+    } else {
+      rest.push(req);
+    }
+  }
+
+  if (toBatch.length > 0) {
+    try {
+      const balances = await fetchFA2Balances(tezos, address, toBatch);
+      toBatch.forEach((req, i) => req.resolve(balances[i]));
+    } catch {
+      rest.push(...toBatch);
+    }
+  }
+
+  for (const req of rest) {
+    fetchBalance(tezos, req.asset, req.accountPkh).then(
+      req.resolve,
+      req.reject
+    );
+  }
+}
+
+function isLedgerApplicable(ledger: LedgerLayout, asset: TempleToken) {
+  switch (ledger.type) {
+    case "address":
+      return asset.type !== TempleAssetType.FA2 || asset.id === 0;
+
+    default:
+      return asset.type === TempleAssetType.FA2;
+  }
+}
+
+async function readLedgerBalance(
+  tezos: TezosToolkit,
+  ledger: LedgerLayout,
+  { asset, accountPkh }: BalanceRequest
+) {
+  const tokenId = asset.type === TempleAssetType.FA2 ? asset.id : 0;
+
+  let key: string;
+  switch (ledger.type) {
+    case "address":
+      key = packAddress(accountPkh);
+      break;
+
+    case "address_id":
+      key = packPair(packAddress(accountPkh), packNat(tokenId));
+      break;
+
+    case "id_address":
+      key = packPair(packNat(tokenId), packAddress(accountPkh));
+      break;
+
+    case "owner":
+      key = packNat(tokenId);
+      break;
+  }
+
+  let value: any;
+  try {
+    value = await tezos.rpc.getBigMapExpr(
+      ledger.bigMapId,
+      encodeExpr(`05${key}`)
+    );
+  } catch (err) {
+    if (err.status === 404) {
+      return new BigNumber(0);
+    }
+    throw err;
+  }
+
+  if (ledger.type === "owner") {
+    return new BigNumber(
+      value?.string === accountPkh ||
+      value?.bytes === packAddressBytes(accountPkh)
+        ? 1
+        : 0
+    ).div(10 ** asset.decimals);
+  }
+
+  const nat = new BigNumber(getByPath(value, ledger.balancePath)?.int);
+  if (nat.isNaN()) {
+    throw new Error("Unexpected ledger value");
+  }
+  return nat.div(10 ** asset.decimals);
+}
+
+async function fetchFA2Balances(
+  tezos: TezosToolkit,
+  address: string,
+  requests: BalanceRequest[]
+) {
+  const contract = await loadContractForCallLambdaView(tezos, address);
+  const response: any[] = await contract.views
+    .balance_of(
+      requests.map(({ asset, accountPkh }) => ({
+        owner: accountPkh,
+        token_id: (asset as TempleFA2Asset).id,
+      }))
+    )
+    .read((tezos as any).lambdaContract);
+
+  return requests.map(({ asset, accountPkh }) => {
+    const item = response.find(
+      ({ request }) =>
+        request.owner === accountPkh &&
+        new BigNumber(request.token_id).isEqualTo((asset as TempleFA2Asset).id)
+    );
+    const nat = new BigNumber(item?.balance);
+    return (nat.isNaN() ? new BigNumber(0) : nat).div(10 ** asset.decimals);
+  });
+}
+
+const detectLedger = memoize(fetchLedger, {
+  isPromise: true,
+  maxSize: 100,
+});
+
+async function fetchLedger(
+  tezos: TezosToolkit,
+  address: string
+): Promise<LedgerLayout | null> {
+  const { code, storage } = await tezos.rpc.getScript(address);
+  const storageType = (code as any[]).find((s) => s.prim === "storage")
+    ?.args[0];
+
+  const bigMaps: { annots: string[]; type: any; value: any }[] = [];
+  collectBigMaps(storageType, storage, bigMaps);
+
+  for (const { annots, type, value } of bigMaps) {
+    if (!annots.some((a) => LEDGER_ANNOTS.includes(a)) || !value?.int) {
+      continue;
+    }
+
+    const layout = toLedgerLayout(type.args[0], type.args[1]);
+    if (layout) {
+      return { ...layout, bigMapId: value.int };
+    }
+  }
+
+  return null;
+}
+
+function toLedgerLayout(
+  keyType: any,
+  valueType: any
+): Omit<LedgerLayout, "bigMapId"> | null {
+  if (keyType.prim === "nat" && valueType.prim === "address") {
+    return { type: "owner", balancePath: [] };
+  }
+
+  const balancePath = findBalancePath(valueType);
+  if (!balancePath) return null;
+
+  if (keyType.prim === "address") {
+    return { type: "address", balancePath };
+  }
+
+  if (keyType.prim === "pair") {
+    const [left, right] = toPairArgs(keyType);
+    if (left.prim === "address" && right.prim === "nat") {
+      return { type: "address_id", balancePath };
+    }
+    if (left.prim === "nat" && right.prim === "address") {
+      return { type: "id_address", balancePath };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Balance is the value itself or the `%balance` field of a pair,
+ * else the first nat of it
+ */
+function findBalancePath(type: any): number[] | null {
+  if (type.prim === "nat") return [];
+  if (type.prim !== "pair") return null;
+
+  let fallback: number[] | null = null;
+  const args = toPairArgs(type);
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.prim === "nat") {
+      if (arg.annots?.some((a: string) => BALANCE_ANNOTS.includes(a))) {
+        return [i];
+      }
+      fallback = fallback ?? [i];
+    } else if (arg.prim === "pair") {
+      const path = findBalancePath(arg);
+      if (path) {
+        fallback = fallback ?? [i, ...path];
+      }
+    }
+  }
+  return fallback;
+}
+
+function collectBigMaps(
+  type: any,
+  value: any,
+  result: { annots: string[]; type: any; value: any }[]
+) {
+  if (!type || !value) return;
+
+  switch (type.prim) {
+    case "big_map":
+      result.push({ annots: type.annots ?? [], type, value });
+      break;
+
+    case "pair":
+      if (value.prim !== "Pair" && !Array.isArray(value)) return;
+      const typeArgs = toPairArgs(type);
+      const valueArgs = toPairArgs(
+        Array.isArray(value) ? { prim: "Pair", args: value } : value
+      );
+      typeArgs.forEach((t, i) => collectBigMaps(t, valueArgs[i], result));
+      break;
+  }
+}
+
+/**
+ * Right combs (`pair a b c`) are unfolded to (a, (b, c))
+ */
+function toPairArgs(expr: any): [any, any] {
+  const [first, ...rest] = expr.args;
+  return [first, rest.length > 1 ? { prim: expr.prim, args: rest } : rest[0]];
+}
+
+function getByPath(value: any, path: number[]) {
+  return path.reduce(
+    (v, i) => (v?.prim === "Pair" ? toPairArgs(v)[i] : undefined),
+    value
+  );
+}
+
+/**
+ * Packed Micheline (without 0x05 watermark) of the ledger keys
+ */
+function packPair(left: string, right: string) {
+  return `0707${left}${right}`;
+}
+
+function packNat(value: number) {
+  let n = new BigNumber(value);
+  const bytes = [n.mod(64).toNumber()];
+  n = n.idiv(64);
+  while (n.isGreaterThan(0)) {
+    bytes[bytes.length - 1] |= 0x80;
+    bytes.push(n.mod(128).toNumber());
+    n = n.idiv(128);
+  }
+  return `00${buf2hex(toBuffer(new Uint8Array(bytes)))}`;
+}
+
+function packAddress(address: string) {
+  const bytes = packAddressBytes(address);
+  const length = (bytes.length / 2).toString(16).padStart(8, "0");
+  return `0a${length}${bytes}`;
+}
+
+function packAddressBytes(address: string) {
+  const { prefix: pref, tag } = ADDRESS_PREFIXES[
+    address.substring(0, 3) as keyof typeof ADDRESS_PREFIXES
+  ];
+  const hash = buf2hex(toBuffer(b58cdecode(address, pref)));
+  return pref === prefix.KT1 ? `${tag}${hash}00` : `${tag}${hash}`;
+}
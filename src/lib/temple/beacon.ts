@@ -36,6 +36,7 @@ export type Response =
   | OperationResponse
   | SignResponse
   | BroadcastResponse
+  | AcknowledgeResponse
   | DisconnectMessage
   | PostMessagePairingResponse;
 
@@ -48,6 +49,7 @@ export enum MessageType {
   SignPayloadResponse = "sign_payload_response",
   OperationResponse = "operation_response",
   BroadcastResponse = "broadcast_response",
+  Acknowledge = "acknowledge",
   Disconnect = "disconnect",
   Error = "error",
   // Handshake
@@ -55,6 +57,8 @@ export enum MessageType {
   HandshakeResponse = "postmessage-pairing-response",
 }
 
+export const BEACON_VERSION = "2";
+
 export interface BaseMessage {
   type: MessageType;
   version: string;
@@ -99,14 +103,22 @@ export interface OperationResponse extends BaseMessage {
   transactionHash: string;
 }
 
+export enum SigningType {
+  RAW = "raw", // Arbitrary bytes
+  OPERATION = "operation", // "03" watermarked operation bytes
+  MICHELINE = "micheline", // "05" prefixed Micheline expression
+}
+
 export interface SignRequest extends BaseMessage {
   type: MessageType.SignPayloadRequest;
+  signingType?: SigningType; // Not sent by V1 DApps
   sourceAddress: string;
   payload: string;
 }
 
 export interface SignResponse extends BaseMessage {
   type: MessageType.SignPayloadResponse;
+  signingType?: SigningType;
   signature: string;
 }
 
@@ -140,6 +152,11 @@ export interface ErrorResponse extends BaseMessage {
   errorData?: any[];
 }
 
+// Sent by the wallet as soon as request is received (V2 only)
+export interface AcknowledgeResponse extends BaseMessage {
+  type: MessageType.Acknowledge;
+}
+
 export interface DisconnectMessage extends BaseMessage {
   type: MessageType.Disconnect;
 }
@@ -196,12 +213,96 @@ export const PAIRING_RESPONSE_BASE: Partial<PostMessagePairingResponse> = {
 export const KEYPAIR_SEED_STORAGE_KEY = "beacon_keypair_seed";
 
 export async function getSenderId(): Promise<string> {
-  await sodium.ready;
   const keyPair = await getOrCreateKeyPair();
-  const buffer = Buffer.from(sodium.crypto_generichash(5, keyPair.publicKey));
+  return toSenderId(keyPair.publicKey);
+}
+
+export async function toSenderId(publicKey: Uint8Array) {
+  await sodium.ready;
+  const buffer = Buffer.from(sodium.crypto_generichash(5, publicKey));
   return bs58check.encode(buffer);
 }
 
+/**
+ * Beacon V2 P2P
+ */
+export interface P2PPairingRequest {
+  id: string;
+  type: "p2p-pairing-request";
+  name: string;
+  version: string;
+  publicKey: string;
+  relayServer: string;
+  icon?: string;
+  appUrl?: string;
+}
+
+export interface P2PPairingResponse {
+  id: string;
+  type: "p2p-pairing-response";
+  name: string;
+  version: string;
+  publicKey: string;
+  relayServer: string;
+  icon?: string;
+  appUrl?: string;
+}
+
+export const P2P_CHANNEL_OPEN_PREFIX = "@channel-open";
+
+// Login signatures are valid for 5 minutes
+const P2P_LOGIN_PERIOD = 5 * 60;
+
+/**
+ * Accepts both raw pairing string and `tezos://?type=tzip10&data=...`
+ * deep link that is encoded into QR code
+ */
+export function parsePairingString(value: string): P2PPairingRequest {
+  const data = value.trim().match(/[?&]data=([^&]+)/)?.[1] ?? value.trim();
+
+  let req: any;
+  try {
+    req = decodeMessage(decodeURIComponent(data));
+  } catch {
+    throw new Error("Invalid pairing string");
+  }
+
+  if (
+    req?.type !== "p2p-pairing-request" ||
+    typeof req.id !== "string" ||
+    typeof req.name !== "string" ||
+    typeof req.relayServer !== "string" ||
+    !/^[0-9a-f]{64}$/i.test(req.publicKey)
+  ) {
+    throw new Error("Invalid pairing string");
+  }
+
+  return req;
+}
+
+export async function toMatrixUserId(publicKey: string, relayServer: string) {
+  await sodium.ready;
+  const hash = sodium.crypto_generichash(32, fromHex(publicKey));
+  return `@${toHex(hash)}:${relayServer}`;
+}
+
+export async function getP2PLoginCredentials() {
+  await sodium.ready;
+  const keyPair = await getOrCreateKeyPair();
+  const period = Math.floor(Date.now() / 1000 / P2P_LOGIN_PERIOD);
+  const digest = sodium.crypto_generichash(
+    32,
+    sodium.from_string(`login:${period}`)
+  );
+  const signature = sodium.crypto_sign_detached(digest, keyPair.privateKey);
+
+  return {
+    user: toHex(sodium.crypto_generichash(32, keyPair.publicKey)),
+    password: `ed:${toHex(signature)}:${toHex(keyPair.publicKey)}`,
+    deviceId: toHex(keyPair.publicKey),
+  };
+}
+
 export async function encryptMessage(
   message: string,
   recipientPublicKey: string
@@ -0,0 +1,174 @@
+import { TempleContact } from "lib/temple/types";
+import { isAddressValid } from "lib/temple/helpers";
+import { getMessage } from "lib/i18n";
+
+export type ContactsFileFormat = "json" | "csv";
+
+export const MAX_CONTACT_NAME_LENGTH = 32;
+
+const CSV_COLUMNS: (keyof TempleContact)[] = [
+  "name",
+  "address",
+  "chainId",
+  "note",
+  "domain",
+];
+
+export function isContactValid(contact: any): contact is TempleContact {
+  return (
+    typeof contact?.name === "string" &&
+    contact.name.length > 0 &&
+    contact.name.length <= MAX_CONTACT_NAME_LENGTH &&
+    typeof contact.address === "string" &&
+    isAddressValid(contact.address) &&
+    ["chainId", "note", "domain"].every(
+      (key) => contact[key] === undefined || typeof contact[key] === "string"
+    )
+  );
+}
+
+/**
+ * Contacts are the same if they have the same address
+ * and are visible in the same networks
+ */
+export function isSameContact(a: TempleContact, b: TempleContact) {
+  return a.address === b.address && a.chainId === b.chainId;
+}
+
+/**
+ * Adds new contacts, the existing ones with the same
+ * address and network are replaced
+ */
+export function mergeContacts(
+  current: TempleContact[],
+  imported: TempleContact[]
+) {
+  return [
+    ...current.filter((c) => imported.every((i) => !isSameContact(c, i))),
+    ...imported,
+  ];
+}
+
+export function serializeContacts(
+  contacts: TempleContact[],
+  format: ContactsFileFormat
+) {
+  if (format === "json") {
+    return JSON.stringify(contacts, null, 2);
+  }
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...contacts.map((contact) =>
+      CSV_COLUMNS.map((key) => toCSVField(contact[key] ?? "")).join(",")
+    ),
+  ].join("\n");
+}
+
+export function parseContacts(
+  content: string,
+  format: ContactsFileFormat
+): TempleContact[] {
+  let raw: any[];
+  try {
+    raw = format === "json" ? JSON.parse(content) : parseCSVContacts(content);
+  } catch (_err) {
+    throw new Error(getMessage("invalidContactsFile"));
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new Error(getMessage("invalidContactsFile"));
+  }
+
+  const contacts = raw.map(normalizeContact);
+  if (!contacts.every(isContactValid)) {
+    throw new Error(getMessage("invalidContactsFile"));
+  }
+
+  return contacts;
+}
+
+function normalizeContact(contact: any) {
+  if (!contact || typeof contact !== "object") return contact;
+
+  const normalized: Record<string, any> = {};
+  for (const key of CSV_COLUMNS) {
+    const value =
+      typeof contact[key] === "string" ? contact[key].trim() : contact[key];
+    if (value !== undefined && value !== "") {
+      normalized[key] = value;
+    }
+  }
+  return normalized;
+}
+
+function parseCSVContacts(content: string) {
+  const [header, ...rows] = parseCSV(content);
+  if (!header || CSV_COLUMNS.some((key, i) => header[i]?.trim() !== key)) {
+    throw new Error("Invalid CSV header");
+  }
+
+  return rows
+    .filter((row) => row.some(Boolean))
+    .map((row) =>
+      Object.fromEntries(CSV_COLUMNS.map((key, i) => [key, row[i] ?? ""]))
+    );
+}
+
+function parseCSV(content: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        quoted = true;
+        break;
+
+      case ",":
+        row.push(field);
+        field = "";
+        break;
+
+      case "\r":
+        break;
+
+      case "\n":
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+        break;
+
+      default:
+        field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function toCSVField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
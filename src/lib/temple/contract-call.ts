@@ -0,0 +1,198 @@
+import { Buffer } from "buffer";
+import { TezosToolkit } from "@taquito/taquito";
+import { tzip16 } from "@taquito/tzip16";
+import { encodeKeyHash, encodePubKey } from "@taquito/utils";
+import { getMessage } from "lib/i18n";
+
+export interface TempleCallArgNode {
+  // Field annotation
+  name?: string;
+  // Michelson type
+  type: string;
+  // Only for leaves
+  value?: string;
+  children?: TempleCallArgNode[];
+}
+
+/**
+ * Loads parameter type of the contract entrypoint.
+ * Contracts with unannotated parameter have no `default`
+ * in entrypoints list, so whole parameter type is used.
+ */
+export async function loadEntrypointType(
+  tezos: TezosToolkit,
+  contractAddress: string,
+  entrypoint = "default"
+) {
+  const { entrypoints } = await tezos.rpc.getEntrypoints(contractAddress);
+  if (entrypoints[entrypoint]) {
+    return entrypoints[entrypoint];
+  }
+
+  if (entrypoint === "default") {
+    const { code } = await tezos.rpc.getScript(contractAddress);
+    const parameter = (code as any[]).find((s) => s.prim === "parameter");
+    if (parameter) {
+      return parameter.args[0];
+    }
+  }
+
+  throw new Error(getMessage("entrypointNotFound", entrypoint));
+}
+
+/**
+ * Name of the contract from TZIP-16 metadata
+ */
+export async function loadContractName(
+  tezos: TezosToolkit,
+  contractAddress: string
+) {
+  try {
+    const contract = await tezos.contract.at(contractAddress, tzip16);
+    const { metadata } = await contract.tzip16().getMetadata();
+    return typeof metadata.name === "string" ? metadata.name : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes Micheline value against its type. Annotated fields
+ * of nested pairs are flattened into one level.
+ */
+export function decodeCallArgs(type: any, value: any): TempleCallArgNode {
+  const node = decodeValue(type, value);
+  const name = getFieldName(type);
+  return name ? { ...node, name } : node;
+}
+
+function decodeValue(type: any, value: any): TempleCallArgNode {
+  switch (type?.prim) {
+    case "pair": {
+      const [leftType, rightType] = toBinaryPair(type.args, "pair");
+      const [left, right] = toBinaryPair(
+        Array.isArray(value) ? value : assertPrim(value, "Pair").args,
+        "Pair"
+      );
+      const children = [
+        decodeCallArgs(leftType, left),
+        decodeCallArgs(rightType, right),
+      ].flatMap((child) =>
+        child.type === "pair" && !child.name ? child.children! : [child]
+      );
+      return { type: "pair", children };
+    }
+
+    case "or":
+      switch (value?.prim) {
+        case "Left":
+          return decodeCallArgs(type.args[0], value.args[0]);
+        case "Right":
+          return decodeCallArgs(type.args[1], value.args[0]);
+        default:
+          throw new Error("Invalid or value");
+      }
+
+    case "option":
+      return value?.prim === "None"
+        ? { type: "option", value: "None" }
+        : decodeValue(type.args[0], assertPrim(value, "Some").args[0]);
+
+    case "list":
+    case "set":
+      return {
+        type: type.prim,
+        children: assertArray(value).map((item) =>
+          decodeCallArgs(type.args[0], item)
+        ),
+      };
+
+    case "map":
+    case "big_map":
+      if (!Array.isArray(value) && value?.int) {
+        return { type: type.prim, value: value.int };
+      }
+      return {
+        type: type.prim,
+        children: assertArray(value).map((elt) => ({
+          type: "elt",
+          children: [
+            decodeCallArgs(type.args[0], assertPrim(elt, "Elt").args[0]),
+            decodeCallArgs(type.args[1], elt.args[1]),
+          ],
+        })),
+      };
+
+    case "lambda":
+      return { type: "lambda", value: JSON.stringify(value) };
+
+    case "bool":
+    case "unit":
+      return { type: type.prim, value: assertPrim(value).prim };
+
+    case "address":
+    case "contract":
+      return {
+        type: type.prim,
+        value: value?.bytes ? decodeAddressBytes(value.bytes) : value?.string,
+      };
+
+    case "key_hash":
+      return {
+        type: type.prim,
+        value: value?.bytes ? encodeKeyHash(value.bytes) : value?.string,
+      };
+
+    case "timestamp":
+      return {
+        type: type.prim,
+        value: value?.int
+          ? new Date(+value.int * 1000).toISOString()
+          : value?.string,
+      };
+
+    default:
+      const leaf = value?.string ?? value?.int ?? value?.bytes;
+      if (typeof leaf !== "string") {
+        throw new Error(`Invalid ${type?.prim} value`);
+      }
+      return { type: type.prim, value: leaf };
+  }
+}
+
+function getFieldName(type: any): string | undefined {
+  const annot = (type?.annots as string[] | undefined)?.find((a) =>
+    a.startsWith("%")
+  );
+  return annot ? annot.slice(1) : undefined;
+}
+
+/**
+ * Right combs `(pair a b c)` are the same as `(pair a (pair b c))`
+ */
+function toBinaryPair(args: any[], prim: string) {
+  return args.length > 2 ? [args[0], { prim, args: args.slice(1) }] : args;
+}
+
+function assertPrim(value: any, prim?: string) {
+  if (typeof value?.prim !== "string" || (prim && value.prim !== prim)) {
+    throw new Error(`Expected ${prim ?? "primitive"}`);
+  }
+  return value;
+}
+
+function assertArray(value: any) {
+  if (!Array.isArray(value)) {
+    throw new Error("Expected sequence");
+  }
+  return value as any[];
+}
+
+/**
+ * 22 bytes of address may be followed by entrypoint name
+ */
+function decodeAddressBytes(bytes: string) {
+  const address = encodePubKey(bytes.slice(0, 44));
+  const entrypoint = Buffer.from(bytes.slice(44), "hex").toString("utf8");
+  return entrypoint ? `${address}%${entrypoint}` : address;
+}
@@ -0,0 +1,223 @@
+import {
+  BcdNetwork,
+  BCD_NETWORKS_NAMES,
+  getAccount,
+} from "lib/better-call-dev";
+import { getTokenBalances } from "lib/tzkt";
+import {
+  TempleAssetType,
+  TempleChainId,
+  TempleDiscoveredToken,
+  TempleToken,
+} from "lib/temple/types";
+import {
+  assertTokenType,
+  isNonFungibleMetadata,
+  toCollectibleMetadata,
+} from "lib/temple/assets";
+import { loadContract } from "lib/temple/contract";
+import {
+  loadTokenMetadata,
+  MetadataTezosToolkit,
+  TempleTokenMetadata,
+} from "lib/temple/metadata";
+
+/**
+ * Source of tokens held by accounts. Any implementation can be used,
+ * e.g. a local fake with predefined holdings.
+ */
+export interface TempleTokenIndexer {
+  getAccountTokens(accountPkh: string): Promise<TempleDiscoveredToken[]>;
+}
+
+/**
+ * Discovered token keys per account
+ */
+export type TempleTokenHoldings = Record<string, string[]>;
+
+export type TempleReceivedToken = {
+  accountPkh: string;
+  token: TempleDiscoveredToken;
+};
+
+export type TempleNewToken = {
+  token: TempleDiscoveredToken;
+  accountPkhs: string[];
+  receivedAt: number;
+};
+
+const TZKT_BALANCES_LIMIT = 1_000;
+
+/**
+ * BCD is used for networks it supports, TZKT otherwise
+ */
+export function createTokenIndexer(chainId: TempleChainId) {
+  const bcdNetwork = BCD_NETWORKS_NAMES.get(chainId);
+  return bcdNetwork ? createBcdIndexer(bcdNetwork) : createTzktIndexer(chainId);
+}
+
+export function createBcdIndexer(network: BcdNetwork): TempleTokenIndexer {
+  return {
+    async getAccountTokens(accountPkh) {
+      const { tokens } = await getAccount({ network, address: accountPkh });
+      return tokens
+        .filter(({ balance }) => balance > 0)
+        .map((token) => {
+          const tokenInfo = { decimals: token.decimals, ...token.token_info };
+          return {
+            contract: token.contract,
+            tokenId: token.token_id,
+            name: token.name,
+            symbol: token.symbol,
+            decimals: token.decimals,
+            collectible: isNonFungibleMetadata(tokenInfo)
+              ? toCollectibleMetadata(tokenInfo)
+              : undefined,
+          };
+        });
+    },
+  };
+}
+
+export function createTzktIndexer(chainId: TempleChainId): TempleTokenIndexer {
+  return {
+    async getAccountTokens(accountPkh) {
+      const balances = await getTokenBalances(chainId, {
+        account: accountPkh,
+        limit: TZKT_BALANCES_LIMIT,
+      });
+      return balances.map(({ token }) => {
+        const metadata = token.metadata ?? {};
+        const decimals = parseInt(metadata.decimals, 10);
+        return {
+          contract: token.contract.address,
+          tokenId: Number(token.tokenId),
+          type:
+            token.standard === "fa2"
+              ? TempleAssetType.FA2
+              : TempleAssetType.FA1_2,
+          name: metadata.name,
+          symbol: metadata.symbol,
+          decimals: Number.isSafeInteger(decimals) ? decimals : undefined,
+          collectible: isNonFungibleMetadata(metadata)
+            ? toCollectibleMetadata(metadata)
+            : undefined,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Indexer with predefined holdings, for local development
+ * without network access
+ */
+export function createFakeIndexer(
+  tokensByAccount: Record<string, TempleDiscoveredToken[]>
+): TempleTokenIndexer {
+  return {
+    async getAccountTokens(accountPkh) {
+      return tokensByAccount[accountPkh] ?? [];
+    },
+  };
+}
+
+export function getDiscoveredTokenKey({
+  contract,
+  tokenId,
+}: TempleDiscoveredToken) {
+  return `${contract}_${tokenId}`;
+}
+
+/**
+ * Scans accounts via indexer. Tokens missing in previous holdings of
+ * the account are reported as received. First scan of the account
+ * only records its holdings. Holdings of the accounts failed to scan
+ * stay the same.
+ */
+export async function scanTokenHoldings(
+  indexer: TempleTokenIndexer,
+  accountPkhs: string[],
+  prevHoldings: TempleTokenHoldings
+) {
+  const holdings: TempleTokenHoldings = {};
+  const received: TempleReceivedToken[] = [];
+
+  for (const accountPkh of accountPkhs) {
+    let tokens: TempleDiscoveredToken[];
+    try {
+      tokens = await indexer.getAccountTokens(accountPkh);
+    } catch {
+      if (prevHoldings[accountPkh]) {
+        holdings[accountPkh] = prevHoldings[accountPkh];
+      }
+      continue;
+    }
+
+    holdings[accountPkh] = tokens.map(getDiscoveredTokenKey);
+    if (!prevHoldings[accountPkh]) continue;
+
+    const prevKeys = new Set(prevHoldings[accountPkh]);
+    for (const token of tokens) {
+      if (!prevKeys.has(getDiscoveredTokenKey(token))) {
+        received.push({ accountPkh, token });
+      }
+    }
+  }
+
+  return { holdings, received };
+}
+
+/**
+ * Builds token to be added to the wallet. Metadata is taken
+ * from the contract, indexer data is used as fallback.
+ */
+export async function toTempleToken(
+  tezos: MetadataTezosToolkit,
+  chainId: string,
+  token: TempleDiscoveredToken
+): Promise<TempleToken> {
+  let metadata: TempleTokenMetadata | null = null;
+  try {
+    metadata = await loadTokenMetadata(
+      tezos,
+      chainId,
+      token.contract,
+      token.tokenId
+    );
+  } catch {}
+
+  let type = token.type;
+  if (!type) {
+    type = TempleAssetType.FA2;
+    try {
+      await assertTokenType(
+        TempleAssetType.FA1_2,
+        await loadContract(tezos, token.contract, false),
+        tezos
+      );
+      type = TempleAssetType.FA1_2;
+    } catch {}
+  }
+
+  const baseTokenProps = {
+    address: token.contract,
+    name: metadata?.name || token.name || "",
+    symbol: metadata?.symbol || token.symbol || "",
+    decimals: metadata?.decimals ?? token.decimals ?? 0,
+    fungible: true,
+    iconUrl: metadata?.iconUrl,
+  };
+
+  if (type === TempleAssetType.FA1_2) {
+    return { ...baseTokenProps, type };
+  }
+
+  const collectible = metadata?.collectible ?? token.collectible;
+  return {
+    ...baseTokenProps,
+    type,
+    id: token.tokenId,
+    ...(collectible ? { fungible: false, collectible } : {}),
+  };
+}
@@ -4,6 +4,7 @@ import {
   useTokens,
   useAllAssetsRef,
   getAssetKey,
+  isCollectible,
   TempleAsset,
 } from "lib/temple/front";
 
@@ -24,6 +25,13 @@ export function useAssets() {
   return { allAssets, defaultAsset };
 }
 
+export function useCollectibles() {
+  const { displayedTokens } = useTokens();
+  return React.useMemo(() => displayedTokens.filter(isCollectible), [
+    displayedTokens,
+  ]);
+}
+
 export function useAssetBySlug(slug?: string | null) {
   const { allAssets } = useAssets();
   const asset = React.useMemo(
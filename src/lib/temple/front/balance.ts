@@ -3,7 +3,7 @@ import { useRetryableSWR } from "lib/swr";
 import {
   TempleAsset,
   useTezos,
-  fetchBalance,
+  loadBalance,
   getAssetKey,
   ReactiveTezosToolkit,
 } from "lib/temple/front";
@@ -37,7 +37,7 @@ export function useBalance(
   }, [opts.networkRpc, nativeTezos]);
 
   const fetchBalanceLocal = React.useCallback(
-    () => fetchBalance(tezos, asset, address),
+    () => loadBalance(tezos, asset, address),
     [tezos, asset, address]
   );
 
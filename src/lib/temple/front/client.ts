@@ -11,6 +11,7 @@ import {
 } from "@taquito/taquito";
 import { buf2hex } from "@taquito/utils";
 import { nanoid } from "nanoid";
+import { TempleDAppNetwork } from "@temple-wallet/dapp/dist/types";
 import { useRetryableSWR } from "lib/swr";
 import toBuffer from "typedarray-to-buffer";
 import { IntercomClient } from "lib/intercom";
@@ -23,6 +24,12 @@ import {
   TempleResponse,
   TempleNotification,
   TempleSettings,
+  TempleBackup,
+  TempleCurve,
+  TempleDiscoverySource,
+  TempleUnsignedOperation,
+  TempleOfflineSignature,
+  TempleDAppPolicy,
 } from "lib/temple/types";
 
 type Confirmation = {
@@ -86,7 +93,13 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
    * Aliases
    */
 
-  const { status, networks: defaultNetworks, accounts, settings } = state;
+  const {
+    status,
+    networks: defaultNetworks,
+    accounts,
+    hdWallets,
+    settings,
+  } = state;
   const idle = status === TempleStatus.Idle;
   const locked = status === TempleStatus.Locked;
   const ready = status === TempleStatus.Ready;
@@ -133,6 +146,39 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const restoreBackup = React.useCallback(
+    async (backup: TempleBackup, password: string) => {
+      const res = await request({
+        type: TempleMessageType.RestoreBackupRequest,
+        backup,
+        password,
+      });
+      assertResponse(res.type === TempleMessageType.RestoreBackupResponse);
+    },
+    []
+  );
+
+  const exportBackup = React.useCallback(async (password: string) => {
+    const res = await request({
+      type: TempleMessageType.ExportBackupRequest,
+      password,
+    });
+    assertResponse(res.type === TempleMessageType.ExportBackupResponse);
+    return res.backup;
+  }, []);
+
+  const changePassword = React.useCallback(
+    async (oldPassword: string, newPassword: string) => {
+      const res = await request({
+        type: TempleMessageType.ChangePasswordRequest,
+        oldPassword,
+        newPassword,
+      });
+      assertResponse(res.type === TempleMessageType.ChangePasswordResponse);
+    },
+    []
+  );
+
   const unlock = React.useCallback(async (password: string) => {
     const res = await request({
       type: TempleMessageType.UnlockRequest,
@@ -148,14 +194,65 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     assertResponse(res.type === TempleMessageType.LockResponse);
   }, []);
 
-  const createAccount = React.useCallback(async (name?: string) => {
+  const pingActivity = React.useCallback(async () => {
     const res = await request({
-      type: TempleMessageType.CreateAccountRequest,
-      name,
+      type: TempleMessageType.ActivityPingRequest,
     });
-    assertResponse(res.type === TempleMessageType.CreateAccountResponse);
+    assertResponse(res.type === TempleMessageType.ActivityPingResponse);
   }, []);
 
+  const createAccount = React.useCallback(
+    async (walletId: string, name?: string) => {
+      const res = await request({
+        type: TempleMessageType.CreateAccountRequest,
+        walletId,
+        name,
+      });
+      assertResponse(res.type === TempleMessageType.CreateAccountResponse);
+    },
+    []
+  );
+
+  const createHDWallet = React.useCallback(
+    async (name?: string, mnemonic?: string) => {
+      const res = await request({
+        type: TempleMessageType.CreateHDWalletRequest,
+        name,
+        mnemonic,
+      });
+      assertResponse(res.type === TempleMessageType.CreateHDWalletResponse);
+    },
+    []
+  );
+
+  const discoverAccounts = React.useCallback(
+    async (source: TempleDiscoverySource, rpcUrl: string, gapLimit: number) => {
+      const res = await request({
+        type: TempleMessageType.DiscoverAccountsRequest,
+        source,
+        rpcUrl,
+        gapLimit,
+      });
+      assertResponse(res.type === TempleMessageType.DiscoverAccountsResponse);
+      return res.accounts;
+    },
+    []
+  );
+
+  const addDiscoveredAccounts = React.useCallback(
+    async (source: TempleDiscoverySource, indexes: number[]) => {
+      const res = await request({
+        type: TempleMessageType.AddDiscoveredAccountsRequest,
+        source,
+        indexes,
+      });
+      assertResponse(
+        res.type === TempleMessageType.AddDiscoveredAccountsResponse
+      );
+    },
+    []
+  );
+
   const revealPrivateKey = React.useCallback(
     async (accountPublicKeyHash: string, password: string) => {
       const res = await request({
@@ -169,14 +266,18 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
-  const revealMnemonic = React.useCallback(async (password: string) => {
-    const res = await request({
-      type: TempleMessageType.RevealMnemonicRequest,
-      password,
-    });
-    assertResponse(res.type === TempleMessageType.RevealMnemonicResponse);
-    return res.mnemonic;
-  }, []);
+  const revealMnemonic = React.useCallback(
+    async (walletId: string, password: string) => {
+      const res = await request({
+        type: TempleMessageType.RevealMnemonicRequest,
+        walletId,
+        password,
+      });
+      assertResponse(res.type === TempleMessageType.RevealMnemonicResponse);
+      return res.mnemonic;
+    },
+    []
+  );
 
   const removeAccount = React.useCallback(
     async (accountPublicKeyHash: string, password: string) => {
@@ -215,12 +316,18 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
   );
 
   const importMnemonicAccount = React.useCallback(
-    async (mnemonic: string, password?: string, derivationPath?: string) => {
+    async (
+      mnemonic: string,
+      password?: string,
+      derivationPath?: string,
+      curve?: TempleCurve
+    ) => {
       const res = await request({
         type: TempleMessageType.ImportMnemonicAccountRequest,
         mnemonic,
         password,
         derivationPath,
+        curve,
       });
       assertResponse(
         res.type === TempleMessageType.ImportMnemonicAccountResponse
@@ -259,6 +366,29 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const importMultisigAccount = React.useCallback(
+    async (
+      address: string,
+      chainId: string,
+      owner: string,
+      threshold: number,
+      signers: string[]
+    ) => {
+      const res = await request({
+        type: TempleMessageType.ImportMultisigAccountRequest,
+        address,
+        chainId,
+        owner,
+        threshold,
+        signers,
+      });
+      assertResponse(
+        res.type === TempleMessageType.ImportMultisigAccountResponse
+      );
+    },
+    []
+  );
+
   const importWatchOnlyAccount = React.useCallback(
     async (address: string, chainId?: string) => {
       const res = await request({
@@ -274,11 +404,12 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
   );
 
   const createLedgerAccount = React.useCallback(
-    async (name: string, derivationPath?: string) => {
+    async (name: string, derivationPath?: string, curve?: TempleCurve) => {
       const res = await request({
         type: TempleMessageType.CreateLedgerAccountRequest,
         name,
         derivationPath,
+        curve,
       });
       assertResponse(
         res.type === TempleMessageType.CreateLedgerAccountResponse
@@ -324,6 +455,103 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
+  const getNewTokens = React.useCallback(
+    async (accountPublicKeyHash: string, chainId: string) => {
+      const res = await request({
+        type: TempleMessageType.GetNewTokensRequest,
+        accountPublicKeyHash,
+        chainId,
+      });
+      assertResponse(res.type === TempleMessageType.GetNewTokensResponse);
+      return res.tokens;
+    },
+    []
+  );
+
+  const dismissNewTokens = React.useCallback(
+    async (
+      accountPublicKeyHash: string,
+      chainId: string,
+      tokenKeys: string[]
+    ) => {
+      const res = await request({
+        type: TempleMessageType.DismissNewTokensRequest,
+        accountPublicKeyHash,
+        chainId,
+        tokenKeys,
+      });
+      assertResponse(res.type === TempleMessageType.DismissNewTokensResponse);
+    },
+    []
+  );
+
+  const subscribeNewTokens = React.useCallback(
+    (callback: () => void) =>
+      intercom.subscribe((msg: TempleNotification) => {
+        if (msg?.type === TempleMessageType.NewTokensUpdated) {
+          callback();
+        }
+      }),
+    []
+  );
+
+  const simulateOperations = React.useCallback(
+    async (sourcePkh: string, networkRpc: string, opParams: any[]) => {
+      const res = await request({
+        type: TempleMessageType.SimulateOperationsRequest,
+        sourcePkh,
+        networkRpc,
+        opParams,
+      });
+      assertResponse(res.type === TempleMessageType.SimulateOperationsResponse);
+      return res.simulation;
+    },
+    []
+  );
+
+  const forgeOperations = React.useCallback(
+    async (sourcePkh: string, networkRpc: string, opParams: any[]) => {
+      const res = await request({
+        type: TempleMessageType.ForgeOperationsRequest,
+        sourcePkh,
+        networkRpc,
+        opParams,
+      });
+      assertResponse(res.type === TempleMessageType.ForgeOperationsResponse);
+      return res.operation;
+    },
+    []
+  );
+
+  const signOfflineOperation = React.useCallback(
+    async (operation: TempleUnsignedOperation) => {
+      const res = await request({
+        type: TempleMessageType.SignOfflineOperationRequest,
+        operation,
+      });
+      assertResponse(
+        res.type === TempleMessageType.SignOfflineOperationResponse
+      );
+      return res.signature;
+    },
+    []
+  );
+
+  const broadcastOfflineOperation = React.useCallback(
+    async (networkRpc: string, signature: TempleOfflineSignature) => {
+      const res = await request({
+        type: TempleMessageType.BroadcastOfflineOperationRequest,
+        networkRpc,
+        signature,
+      });
+      assertResponse(
+        res.type === TempleMessageType.BroadcastOfflineOperationResponse
+      );
+      return res.opHash;
+    },
+    []
+  );
+
   const confirmInternal = React.useCallback(
     async (id: string, confirmed: boolean) => {
       const res = await request({
@@ -336,23 +564,36 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     []
   );
 
-  const getDAppPayload = React.useCallback(async (id: string) => {
+  const getDAppConfirmations = React.useCallback(async () => {
     const res = await request({
-      type: TempleMessageType.DAppGetPayloadRequest,
-      id,
+      type: TempleMessageType.DAppGetConfirmationsRequest,
     });
-    assertResponse(res.type === TempleMessageType.DAppGetPayloadResponse);
-    return res.payload;
+    assertResponse(res.type === TempleMessageType.DAppGetConfirmationsResponse);
+    return res.confirmations;
   }, []);
 
+  const subscribeDAppConfirmations = React.useCallback(
+    (callback: () => void) =>
+      intercom.subscribe((msg: TempleNotification) => {
+        if (msg?.type === TempleMessageType.DAppConfirmationsUpdated) {
+          callback();
+        }
+      }),
+    []
+  );
+
   const confirmDAppPermission = React.useCallback(
-    async (id: string, confirmed: boolean, pkh: string) => {
+    async (id: string, confirmed: boolean, pkhs: string[]) => {
       const res = await request({
         type: TempleMessageType.DAppPermConfirmationRequest,
         id,
         confirmed,
-        accountPublicKeyHash: pkh,
-        accountPublicKey: await getPublicKey(pkh),
+        accounts: await Promise.all(
+          pkhs.map(async (pkh) => ({
+            pkh,
+            publicKey: await getPublicKey(pkh),
+          }))
+        ),
       });
       assertResponse(
         res.type === TempleMessageType.DAppPermConfirmationResponse
@@ -376,11 +617,12 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
   );
 
   const confirmDAppSign = React.useCallback(
-    async (id: string, confirmed: boolean) => {
+    async (id: string, confirmed: boolean, riskAccepted = false) => {
       const res = await request({
         type: TempleMessageType.DAppSignConfirmationRequest,
         id,
         confirmed,
+        riskAccepted,
       });
       assertResponse(
         res.type === TempleMessageType.DAppSignConfirmationResponse
@@ -415,15 +657,77 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     return res.sessions;
   }, []);
 
-  const removeDAppSession = React.useCallback(async (origin: string) => {
+  const removeDAppSession = React.useCallback(
+    async (origin: string, network?: TempleDAppNetwork) => {
+      const res = await request({
+        type: TempleMessageType.DAppRemoveSessionRequest,
+        origin,
+        network,
+      });
+      assertResponse(res.type === TempleMessageType.DAppRemoveSessionResponse);
+      return res.sessions;
+    },
+    []
+  );
+
+  const getDAppLog = React.useCallback(async () => {
     const res = await request({
-      type: TempleMessageType.DAppRemoveSessionRequest,
-      origin,
+      type: TempleMessageType.DAppGetLogRequest,
     });
-    assertResponse(res.type === TempleMessageType.DAppRemoveSessionResponse);
-    return res.sessions;
+    assertResponse(res.type === TempleMessageType.DAppGetLogResponse);
+    return res.entries;
+  }, []);
+
+  const clearDAppLog = React.useCallback(async () => {
+    const res = await request({
+      type: TempleMessageType.DAppClearLogRequest,
+    });
+    assertResponse(res.type === TempleMessageType.DAppClearLogResponse);
   }, []);
 
+  const getBeaconPeers = React.useCallback(async () => {
+    const res = await request({
+      type: TempleMessageType.BeaconGetPeersRequest,
+    });
+    assertResponse(res.type === TempleMessageType.BeaconGetPeersResponse);
+    return res.peers;
+  }, []);
+
+  const addBeaconPeer = React.useCallback(async (pairingString: string) => {
+    const res = await request({
+      type: TempleMessageType.BeaconAddPeerRequest,
+      pairingString,
+    });
+    assertResponse(res.type === TempleMessageType.BeaconAddPeerResponse);
+    return res.peer;
+  }, []);
+
+  const removeBeaconPeer = React.useCallback(async (id: string) => {
+    const res = await request({
+      type: TempleMessageType.BeaconRemovePeerRequest,
+      id,
+    });
+    assertResponse(res.type === TempleMessageType.BeaconRemovePeerResponse);
+  }, []);
+
+  const setDAppPolicy = React.useCallback(
+    async (
+      origin: string,
+      network: TempleDAppNetwork,
+      policy: TempleDAppPolicy | null
+    ) => {
+      const res = await request({
+        type: TempleMessageType.DAppSetPolicyRequest,
+        origin,
+        network,
+        policy,
+      });
+      assertResponse(res.type === TempleMessageType.DAppSetPolicyResponse);
+      return res.sessions;
+    },
+    []
+  );
+
   return {
     state,
 
@@ -433,6 +737,7 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     customNetworks: defaultNetworksWithLambdaContracts,
     networks,
     accounts,
+    hdWallets,
     settings,
     idle,
     locked,
@@ -446,9 +751,16 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
 
     // Actions
     registerWallet,
+    restoreBackup,
+    exportBackup,
+    changePassword,
     unlock,
     lock,
+    pingActivity,
     createAccount,
+    createHDWallet,
+    discoverAccounts,
+    addDiscoveredAccounts,
     revealPrivateKey,
     revealMnemonic,
     removeAccount,
@@ -457,13 +769,22 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     importMnemonicAccount,
     importFundraiserAccount,
     importKTManagedAccount,
+    importMultisigAccount,
     importWatchOnlyAccount,
     createLedgerAccount,
     updateSettings,
     getAllPndOps,
     removePndOps,
+    getNewTokens,
+    dismissNewTokens,
+    subscribeNewTokens,
+    simulateOperations,
+    forgeOperations,
+    signOfflineOperation,
+    broadcastOfflineOperation,
     confirmInternal,
-    getDAppPayload,
+    getDAppConfirmations,
+    subscribeDAppConfirmations,
     confirmDAppPermission,
     confirmDAppOperation,
     confirmDAppSign,
@@ -471,6 +792,12 @@ export const [TempleClientProvider, useTempleClient] = constate(() => {
     createTaquitoSigner,
     getAllDAppSessions,
     removeDAppSession,
+    setDAppPolicy,
+    getDAppLog,
+    clearDAppLog,
+    getBeaconPeers,
+    addBeaconPeer,
+    removeBeaconPeer,
   };
 });
 
@@ -0,0 +1,104 @@
+import * as React from "react";
+import {
+  TempleContact,
+  isSameContact,
+  mergeContacts,
+  useChainId,
+  useSettings,
+  useTempleClient,
+} from "lib/temple/front";
+import { t } from "lib/i18n/react";
+
+export function useContacts() {
+  const { contacts: allContacts = [] } = useSettings();
+  const { updateSettings } = useTempleClient();
+
+  const addContact = React.useCallback(
+    async (contact: TempleContact) => {
+      if (allContacts.some((c) => isSameContact(c, contact))) {
+        throw new Error(t("contactAlreadyExists"));
+      }
+      await updateSettings({ contacts: [...allContacts, contact] });
+    },
+    [allContacts, updateSettings]
+  );
+
+  const editContact = React.useCallback(
+    async (prev: TempleContact, contact: TempleContact) => {
+      if (
+        allContacts.some(
+          (c) => !isSameContact(c, prev) && isSameContact(c, contact)
+        )
+      ) {
+        throw new Error(t("contactAlreadyExists"));
+      }
+      await updateSettings({
+        contacts: allContacts.map((c) =>
+          isSameContact(c, prev) ? contact : c
+        ),
+      });
+    },
+    [allContacts, updateSettings]
+  );
+
+  const removeContact = React.useCallback(
+    (contact: TempleContact) =>
+      updateSettings({
+        contacts: allContacts.filter((c) => !isSameContact(c, contact)),
+      }),
+    [allContacts, updateSettings]
+  );
+
+  const importContacts = React.useCallback(
+    (imported: TempleContact[]) =>
+      updateSettings({ contacts: mergeContacts(allContacts, imported) }),
+    [allContacts, updateSettings]
+  );
+
+  return {
+    allContacts,
+    addContact,
+    editContact,
+    removeContact,
+    importContacts,
+  };
+}
+
+/**
+ * Contacts available in the current network
+ */
+export function useNetworkContacts() {
+  const { contacts: allContacts = [] } = useSettings();
+  const chainId = useChainId();
+
+  return React.useMemo(
+    () =>
+      allContacts
+        .filter((c) => !c.chainId || c.chainId === chainId)
+        // Network specific contacts go first
+        .sort(
+          (a, b) => Number(Boolean(b.chainId)) - Number(Boolean(a.chainId))
+        ),
+    [allContacts, chainId]
+  );
+}
+
+export function useContactsLookup() {
+  const contacts = useNetworkContacts();
+
+  const contactsMap = React.useMemo(() => {
+    const map = new Map<string, TempleContact>();
+    for (const contact of contacts) {
+      if (!map.has(contact.address)) {
+        map.set(contact.address, contact);
+      }
+    }
+    return map;
+  }, [contacts]);
+
+  return React.useCallback(
+    (address?: string | null) =>
+      address ? contactsMap.get(address) ?? null : null,
+    [contactsMap]
+  );
+}
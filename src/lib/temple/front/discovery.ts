@@ -0,0 +1,58 @@
+import * as React from "react";
+import { useRetryableSWR } from "lib/swr";
+import {
+  useAccount,
+  useChainId,
+  useTempleClient,
+  useTokens,
+  getAssetKey,
+  getDiscoveredTokenKey,
+  TempleDiscoveredToken,
+} from "lib/temple/front";
+
+/**
+ * New tokens of the current account which are not added or hidden yet.
+ * Tokens are discovered in background while the wallet is unlocked.
+ */
+export function useNewTokens() {
+  const {
+    getNewTokens,
+    dismissNewTokens: dismissNewTokensByKeys,
+    subscribeNewTokens,
+  } = useTempleClient();
+  const chainId = useChainId(true)!;
+  const { publicKeyHash: accountPkh } = useAccount();
+  const { allTokens, hiddenTokens } = useTokens();
+
+  const { data, revalidate } = useRetryableSWR<TempleDiscoveredToken[]>(
+    ["new-tokens", chainId, accountPkh],
+    () => getNewTokens(accountPkh, chainId),
+    { revalidateOnFocus: false, revalidateOnReconnect: false }
+  );
+
+  React.useEffect(() => subscribeNewTokens(revalidate), [
+    subscribeNewTokens,
+    revalidate,
+  ]);
+
+  const newTokens = React.useMemo(() => {
+    const knownKeys = new Set([...allTokens, ...hiddenTokens].map(getAssetKey));
+    return (data ?? []).filter(
+      (token) => !knownKeys.has(getDiscoveredTokenKey(token))
+    );
+  }, [data, allTokens, hiddenTokens]);
+
+  const dismissNewTokens = React.useCallback(
+    async (tokens: TempleDiscoveredToken[]) => {
+      await dismissNewTokensByKeys(
+        accountPkh,
+        chainId,
+        tokens.map(getDiscoveredTokenKey)
+      );
+      revalidate();
+    },
+    [dismissNewTokensByKeys, accountPkh, chainId, revalidate]
+  );
+
+  return { newTokens, dismissNewTokens };
+}
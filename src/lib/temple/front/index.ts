@@ -1,8 +1,19 @@
 export * from "lib/temple/types";
 export * from "lib/temple/helpers";
 export * from "lib/temple/assets";
+export * from "lib/temple/balances";
+export * from "lib/temple/approvals";
+export * from "lib/temple/metadata";
+export * from "lib/temple/discovery";
 export * from "lib/temple/contract";
 export * from "lib/temple/operation";
+export * from "lib/temple/expenses";
+export * from "lib/temple/multisig";
+export * from "lib/temple/offline";
+export * from "lib/temple/contacts";
+export * from "lib/temple/phishing";
+export * from "lib/temple/contract-call";
+export * from "lib/temple/signature";
 export * from "lib/temple/front/tzdns";
 export * from "lib/temple/front/provider";
 export * from "lib/temple/front/storage";
@@ -15,3 +26,6 @@ export * from "lib/temple/front/baking";
 export * from "lib/temple/front/tokens";
 export * from "lib/temple/front/assets";
 export * from "lib/temple/front/expenses";
+export * from "lib/temple/front/multisig";
+export * from "lib/temple/front/contacts";
+export * from "lib/temple/front/discovery";
@@ -0,0 +1,70 @@
+import * as React from "react";
+import { useRetryableSWR } from "lib/swr";
+import {
+  TempleAccount,
+  TempleAccountType,
+  useAllAccounts,
+  useTempleClient,
+} from "lib/temple/front";
+
+const SIGNABLE_ACCOUNT_TYPES = [
+  TempleAccountType.HD,
+  TempleAccountType.Imported,
+  TempleAccountType.Ledger,
+];
+
+export type MultisigLocalSigner = {
+  account: TempleAccount;
+  publicKey: string;
+};
+
+/**
+ * Local accounts that are able to sign, with their public keys
+ */
+export function useLocalSigners() {
+  const allAccounts = useAllAccounts();
+  const { createTaquitoSigner } = useTempleClient();
+
+  const signableAccounts = React.useMemo(
+    () =>
+      allAccounts.filter((acc) => SIGNABLE_ACCOUNT_TYPES.includes(acc.type)),
+    [allAccounts]
+  );
+
+  const fetchPublicKeys = React.useCallback(
+    (_k: string, ...pkhs: string[]) =>
+      Promise.all(pkhs.map((pkh) => createTaquitoSigner(pkh).publicKey())),
+    [createTaquitoSigner]
+  );
+
+  const { data: publicKeys } = useRetryableSWR(
+    [
+      "multisig-local-public-keys",
+      ...signableAccounts.map(({ publicKeyHash }) => publicKeyHash),
+    ],
+    fetchPublicKeys,
+    { revalidateOnFocus: false }
+  );
+
+  return React.useMemo<MultisigLocalSigner[]>(
+    () =>
+      publicKeys
+        ? signableAccounts.map((account, i) => ({
+            account,
+            publicKey: publicKeys[i],
+          }))
+        : [],
+    [signableAccounts, publicKeys]
+  );
+}
+
+/**
+ * Local accounts which keys are among multisig signer keys
+ */
+export function useMultisigLocalSigners(keys: string[]) {
+  const localSigners = useLocalSigners();
+  return React.useMemo(
+    () => localSigners.filter(({ publicKey }) => keys.includes(publicKey)),
+    [localSigners, keys]
+  );
+}
@@ -1,8 +1,9 @@
 import * as React from "react";
 import constate from "constate";
 import { TezosToolkit } from "@taquito/taquito";
-import { Tzip16Module } from "@taquito/tzip16";
+import { MetadataProvider, Tzip16Module } from "@taquito/tzip16";
 import {
+  createMetadataProvider,
   ReadyTempleState,
   TempleAccountType,
   TempleStatus,
@@ -116,19 +117,27 @@ function useReadyTemple() {
     const checksum = [network.id, account.publicKeyHash].join("_");
     const rpc = network.rpcBaseURL;
     const pkh =
-      account.type === TempleAccountType.ManagedKT
+      account.type === TempleAccountType.ManagedKT ||
+      account.type === TempleAccountType.Multisig
         ? account.owner
         : account.publicKeyHash;
 
     const t = new ReactiveTezosToolkit(
       new FastRpcClient(rpc),
       checksum,
-      network.lambdaContract
+      network.lambdaContract,
+      settings.ipfsGateway
     );
     t.setSignerProvider(createTaquitoSigner(pkh));
     t.setWalletProvider(createTaquitoWallet(pkh, rpc));
     return t;
-  }, [createTaquitoSigner, createTaquitoWallet, network, account]);
+  }, [
+    createTaquitoSigner,
+    createTaquitoWallet,
+    network,
+    account,
+    settings.ipfsGateway,
+  ]);
 
   React.useEffect(() => {
     if (process.env.NODE_ENV === "development") {
@@ -195,6 +204,7 @@ export function useRelevantAccounts(withExtraTypes = true) {
       allAccounts.filter((acc) => {
         switch (acc.type) {
           case TempleAccountType.ManagedKT:
+          case TempleAccountType.Multisig:
             return withExtraTypes && acc.chainId === lazyChainId;
 
           case TempleAccountType.WatchOnly:
@@ -238,13 +248,17 @@ function useRefs() {
 }
 
 export class ReactiveTezosToolkit extends TezosToolkit {
+  public metadataProvider: MetadataProvider;
+
   constructor(
     rpc: string | FastRpcClient,
     public checksum: string,
-    public lambdaContract?: string
+    public lambdaContract?: string,
+    ipfsGateway?: string
   ) {
     super(rpc);
-    this.addExtension(new Tzip16Module());
+    this.metadataProvider = createMetadataProvider(ipfsGateway);
+    this.addExtension(new Tzip16Module(this.metadataProvider));
   }
 }
 
@@ -3,6 +3,20 @@ import memoize from "micro-memoize";
 import { RpcClient } from "@taquito/rpc";
 import { ValidationResult, validateAddress } from "@taquito/utils";
 import { getMessage } from "lib/i18n";
+import {
+  TempleAutoLockSettings,
+  TempleSettings,
+  TempleDAppSignPayload,
+} from "lib/temple/types";
+
+export const DEFAULT_AUTO_LOCK_SETTINGS: TempleAutoLockSettings = {
+  timeout: 0,
+  lockOnSystemIdle: false,
+  lockOnBrowserClose: false,
+};
+
+export const DEFAULT_DISCOVERY_GAP_LIMIT = 5;
+export const MAX_DISCOVERY_GAP_LIMIT = 20;
 
 export const loadChainId = memoize(fetchChainId, {
   isPromise: true,
@@ -14,6 +28,12 @@ export function fetchChainId(rpcUrl: string) {
   return rpc.getChainId();
 }
 
+export function getAutoLockSettings(
+  settings: TempleSettings | null
+): TempleAutoLockSettings {
+  return { ...DEFAULT_AUTO_LOCK_SETTINGS, ...settings?.autoLock };
+}
+
 export function hasManager(manager: any) {
   return manager && typeof manager === "object" ? !!manager.key : !!manager;
 }
@@ -71,3 +91,18 @@ export function validateContractAddress(value: any) {
       return true;
   }
 }
+
+/**
+ * Signature of opaque bytes or watermarked operation may be used
+ * to spend funds, so user has to explicitly accept that
+ */
+export function isRiskySignPayload(payload: TempleDAppSignPayload) {
+  return payload.payloadType === "raw" || payload.payload.startsWith("03");
+}
+
+/**
+ * Sign requests from risky origins are accepted explicitly as well
+ */
+export function isSignRiskAcceptanceRequired(payload: TempleDAppSignPayload) {
+  return Boolean(payload.risk) || isRiskySignPayload(payload);
+}
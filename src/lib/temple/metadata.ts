@@ -0,0 +1,281 @@
+import { browser } from "webextension-polyfill-ts";
+import { Context, MichelsonMap, TezosToolkit } from "@taquito/taquito";
+import {
+  tzip16,
+  bytes2Char,
+  DEFAULT_HANDLERS,
+  Handler,
+  IpfsHttpHandler,
+  MetadataProvider,
+} from "@taquito/tzip16";
+import { IPFS_GATEWAY } from "lib/image-uri";
+import { TempleCollectibleMetadata } from "lib/temple/types";
+import {
+  isNonFungibleMetadata,
+  toCollectibleMetadata,
+} from "lib/temple/assets";
+
+export interface TempleTokenMetadata {
+  symbol: string;
+  name: string;
+  decimals: number;
+  iconUrl?: string;
+  description?: string;
+  /**
+   * Present only for non-fungible tokens
+   */
+  collectible?: TempleCollectibleMetadata;
+}
+
+/**
+ * Toolkit extended with the metadata provider
+ */
+export type MetadataTezosToolkit = TezosToolkit & {
+  metadataProvider: MetadataProvider;
+};
+
+type MetadataCacheEntry = {
+  metadata: TempleTokenMetadata | null;
+  fetchedAt: number;
+};
+
+type MetadataCache = Record<string, MetadataCacheEntry>;
+
+type MetadataContract = ReturnType<typeof tzip16>;
+
+const METADATA_TTL = 24 * 60 * 60 * 1000;
+const MISSING_METADATA_TTL = 60 * 60 * 1000;
+const ICON_FIELDS = ["thumbnailUri", "logo", "icon", "iconUri", "iconUrl"];
+
+const pendingLoads = new Map<string, Promise<TempleTokenMetadata | null>>();
+let cacheWriting = Promise.resolve();
+
+/**
+ * TZIP-16 metadata provider which fetches `ipfs:` URIs via given gateway.
+ * `tezos-storage:`, `http(s):` and `sha256://` URIs use default handlers.
+ */
+export function createMetadataProvider(ipfsGateway = IPFS_GATEWAY) {
+  const handlers = new Map<string, Handler>(DEFAULT_HANDLERS);
+  handlers.set("ipfs", new IpfsHttpHandler(ipfsGateway));
+  return new MetadataProvider(handlers);
+}
+
+/**
+ * Loads token metadata, cached per network.
+ * Returns `null` if the contract provides no metadata for the token.
+ */
+export async function loadTokenMetadata(
+  tezos: MetadataTezosToolkit,
+  chainId: string,
+  address: string,
+  tokenId = 0,
+  force = false
+) {
+  const storageKey = getCacheStorageKey(chainId);
+  const key = `${address}_${tokenId}`;
+
+  if (!force) {
+    const cached = (await fetchCache(storageKey))[key];
+    if (cached && !isExpired(cached)) {
+      return cached.metadata;
+    }
+  }
+
+  const pendingKey = `${chainId}_${key}`;
+  let pending = pendingLoads.get(pendingKey);
+  if (!pending) {
+    pending = fetchTokenMetadata(tezos, address, tokenId)
+      .then(async (metadata) => {
+        await saveToCache(storageKey, key, {
+          metadata,
+          fetchedAt: Date.now(),
+        });
+        return metadata;
+      })
+      .finally(() => pendingLoads.delete(pendingKey));
+    pendingLoads.set(pendingKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * Resolves token metadata without cache. TZIP-12 `token_metadata` big_map
+ * is looked up first, then `token_metadata` off-chain view.
+ * Contract-level TZIP-16 metadata is used if neither is available.
+ */
+export async function fetchTokenMetadata(
+  tezos: MetadataTezosToolkit,
+  address: string,
+  tokenId = 0
+): Promise<TempleTokenMetadata | null> {
+  const contract = await tezos.contract.at(address, tzip16);
+
+  let tokenInfo = await fetchTokenInfoFromStorage(contract, tokenId);
+  if (!tokenInfo) {
+    tokenInfo = await fetchTokenInfoFromView(contract, tokenId);
+  }
+
+  let raw: Record<string, any> | null = null;
+  if (tokenInfo) {
+    const { "": uri, ...onChainFields } = tokenInfo;
+    let offChainFields = {};
+    if (uri) {
+      try {
+        offChainFields = await resolveMetadataUri(tezos, contract, uri);
+      } catch {}
+    }
+    raw = { ...offChainFields, ...onChainFields };
+  } else {
+    try {
+      raw = (await contract.tzip16().getMetadata()).metadata;
+    } catch {}
+  }
+
+  return raw ? toTokenMetadata(raw) : null;
+}
+
+async function fetchTokenInfoFromStorage(
+  contract: MetadataContract,
+  tokenId: number
+) {
+  const storage = await contract.storage<any>();
+  const bigMap = findTokenMetadataBigMap(storage);
+  if (!bigMap) return null;
+
+  const value = await bigMap.get(String(tokenId));
+  return toTokenInfo(value);
+}
+
+async function fetchTokenInfoFromView(
+  contract: MetadataContract,
+  tokenId: number
+) {
+  try {
+    const views = await contract.tzip16().metadataViews();
+    if (!views.token_metadata) return null;
+
+    const value = await views.token_metadata().executeView(tokenId);
+    return toTokenInfo(value);
+  } catch {
+    return null;
+  }
+}
+
+async function resolveMetadataUri(
+  tezos: MetadataTezosToolkit,
+  contract: MetadataContract,
+  uri: string
+) {
+  const {
+    metadata,
+    integrityCheckResult,
+  } = await tezos.metadataProvider.provideMetadata(
+    contract,
+    uri,
+    new Context(tezos.rpc)
+  );
+  if (integrityCheckResult === false) {
+    throw new Error("Metadata integrity check failed");
+  }
+  return metadata;
+}
+
+/**
+ * `token_metadata` is at the root of storage or nested into
+ * some record of it (e.g. `assets`)
+ */
+function findTokenMetadataBigMap(storage: any, depth = 0): any {
+  if (!storage || typeof storage !== "object" || depth > 3) return null;
+
+  const bigMap = storage.token_metadata;
+  if (
+    typeof bigMap?.get === "function" &&
+    !MichelsonMap.isMichelsonMap(bigMap)
+  ) {
+    return bigMap;
+  }
+
+  for (const value of Object.values(storage)) {
+    const nested = findTokenMetadataBigMap(value, depth + 1);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/**
+ * Token info is `(pair (nat %token_id) (map %token_info string bytes))`
+ */
+function toTokenInfo(value: any): Record<string, string> | null {
+  const map = MichelsonMap.isMichelsonMap(value)
+    ? value
+    : Object.values(value ?? {}).find((v) => MichelsonMap.isMichelsonMap(v));
+  if (!map) return null;
+
+  const tokenInfo: Record<string, string> = {};
+  (map as MichelsonMap<string, string>).forEach((bytes, key) => {
+    tokenInfo[key] = bytes2Char(bytes);
+  });
+  return tokenInfo;
+}
+
+function toTokenMetadata(raw: Record<string, any>): TempleTokenMetadata | null {
+  const name = typeof raw.name === "string" ? raw.name : "";
+  const symbol = typeof raw.symbol === "string" ? raw.symbol : "";
+  if (!name && !symbol) return null;
+
+  const decimals = parseInt(raw.decimals, 10);
+  const iconUrl = ICON_FIELDS.map((field) => raw[field]).find(
+    (value) => typeof value === "string" && value
+  );
+
+  const metadata: TempleTokenMetadata = {
+    symbol,
+    name,
+    decimals: Number.isSafeInteger(decimals) && decimals > 0 ? decimals : 0,
+  };
+  if (iconUrl) {
+    metadata.iconUrl = iconUrl;
+  }
+  if (typeof raw.description === "string" && raw.description) {
+    metadata.description = raw.description;
+  }
+  if (isNonFungibleMetadata(raw)) {
+    metadata.collectible = toCollectibleMetadata(raw);
+  }
+  return metadata;
+}
+
+function getCacheStorageKey(chainId: string) {
+  return `token_metadata_${chainId}`;
+}
+
+function isExpired({ metadata, fetchedAt }: MetadataCacheEntry) {
+  const ttl = metadata ? METADATA_TTL : MISSING_METADATA_TTL;
+  return Date.now() - fetchedAt > ttl;
+}
+
+async function fetchCache(storageKey: string): Promise<MetadataCache> {
+  const items = await browser.storage.local.get([storageKey]);
+  return items[storageKey] ?? {};
+}
+
+function saveToCache(
+  storageKey: string,
+  key: string,
+  entry: MetadataCacheEntry
+) {
+  cacheWriting = cacheWriting
+    .then(async () => {
+      const cache = await fetchCache(storageKey);
+      const actual: MetadataCache = {};
+      for (const [k, e] of Object.entries(cache)) {
+        if (!isExpired(e)) {
+          actual[k] = e;
+        }
+      }
+      actual[key] = entry;
+      await browser.storage.local.set({ [storageKey]: actual });
+    })
+    .catch(() => {});
+  return cacheWriting;
+}
@@ -0,0 +1,292 @@
+import BigNumber from "bignumber.js";
+import { TezosToolkit } from "@taquito/taquito";
+import { encodeKey, validateSignature, ValidationResult } from "@taquito/utils";
+import {
+  transferImplicit,
+  transferToContract,
+  setDelegate,
+  removeDelegate,
+} from "lib/michelson";
+import { getMessage } from "lib/i18n";
+
+export const MULTISIG_PAYLOAD_VERSION = 1;
+
+export interface TempleMultisigStorage {
+  counter: string;
+  threshold: number;
+  keys: string[];
+}
+
+export type TempleMultisigActionSummary =
+  | { type: "transfer"; to: string; amount: string }
+  | { type: "delegate"; delegate: string | null };
+
+export interface TempleMultisigPayload {
+  version: number;
+  chainId: string;
+  contractAddress: string;
+  counter: string;
+  action: any;
+  summary: TempleMultisigActionSummary;
+  bytes: string;
+  signatures: Record<string, string>;
+}
+
+const MULTISIG_ACTION_TYPE = {
+  prim: "or",
+  args: [
+    {
+      prim: "lambda",
+      args: [{ prim: "unit" }, { prim: "list", args: [{ prim: "operation" }] }],
+    },
+    {
+      prim: "pair",
+      args: [{ prim: "nat" }, { prim: "list", args: [{ prim: "key" }] }],
+    },
+  ],
+};
+
+const MULTISIG_PACK_TYPE = {
+  prim: "pair",
+  args: [
+    { prim: "pair", args: [{ prim: "chain_id" }, { prim: "address" }] },
+    { prim: "pair", args: [{ prim: "nat" }, MULTISIG_ACTION_TYPE] },
+  ],
+};
+
+/**
+ * Reads storage of the generic multisig contract
+ * `(pair (nat %stored_counter) (pair (nat %threshold) (list %keys key)))`
+ */
+export async function loadMultisigStorage(
+  tezos: TezosToolkit,
+  contractAddress: string
+): Promise<TempleMultisigStorage> {
+  const [{ entrypoints }, storage] = await Promise.all([
+    tezos.rpc.getEntrypoints(contractAddress),
+    tezos.rpc.getStorage(contractAddress),
+  ]);
+
+  const [counter, threshold, keys] = flattenPair(storage);
+  if (
+    !entrypoints.main ||
+    !counter?.int ||
+    !threshold?.int ||
+    !Array.isArray(keys)
+  ) {
+    throw new Error(getMessage("invalidMultisigContract"));
+  }
+
+  return {
+    counter: counter.int,
+    threshold: +threshold.int,
+    keys: keys.map((key: any) => key.string ?? encodeKey(key.bytes)),
+  };
+}
+
+export function createMultisigAction(summary: TempleMultisigActionSummary) {
+  let lambda;
+  switch (summary.type) {
+    case "transfer":
+      const mutez = new BigNumber(summary.amount);
+      lambda = summary.to.startsWith("KT")
+        ? transferToContract(summary.to, mutez)
+        : transferImplicit(summary.to, mutez);
+      break;
+
+    case "delegate":
+      lambda = summary.delegate
+        ? setDelegate(summary.delegate)
+        : removeDelegate();
+      break;
+  }
+
+  return { prim: "Left", args: [lambda] };
+}
+
+/**
+ * Builds a payload to be signed by multisig signers.
+ * Packed bytes are the same that `CHECK_SIGNATURE` of the contract expects.
+ */
+export async function createMultisigPayload(
+  tezos: TezosToolkit,
+  contractAddress: string,
+  summary: TempleMultisigActionSummary
+): Promise<TempleMultisigPayload> {
+  const [chainId, { counter }] = await Promise.all([
+    tezos.rpc.getChainId(),
+    loadMultisigStorage(tezos, contractAddress),
+  ]);
+  const action = createMultisigAction(summary);
+  const bytes = await packMultisigPayload(
+    tezos,
+    chainId,
+    contractAddress,
+    counter,
+    action
+  );
+
+  return {
+    version: MULTISIG_PAYLOAD_VERSION,
+    chainId,
+    contractAddress,
+    counter,
+    action,
+    summary,
+    bytes,
+    signatures: {},
+  };
+}
+
+/**
+ * Checks that an imported payload does exactly what its summary says,
+ * so signers never sign bytes they can't see.
+ */
+export async function verifyMultisigPayload(
+  tezos: TezosToolkit,
+  payload: TempleMultisigPayload
+) {
+  const action = createMultisigAction(payload.summary);
+  const bytes = await packMultisigPayload(
+    tezos,
+    payload.chainId,
+    payload.contractAddress,
+    payload.counter,
+    action
+  );
+
+  if (
+    JSON.stringify(action) !== JSON.stringify(payload.action) ||
+    bytes !== payload.bytes
+  ) {
+    throw new Error(getMessage("invalidMultisigPayload"));
+  }
+}
+
+export function addMultisigSignature(
+  payload: TempleMultisigPayload,
+  publicKey: string,
+  signature: string
+): TempleMultisigPayload {
+  if (validateSignature(signature) !== ValidationResult.VALID) {
+    throw new Error(getMessage("invalidSignature"));
+  }
+
+  return {
+    ...payload,
+    signatures: { ...payload.signatures, [publicKey]: signature },
+  };
+}
+
+/**
+ * Merges signatures of the same payload signed elsewhere
+ */
+export function mergeMultisigPayloads(
+  payload: TempleMultisigPayload,
+  other: TempleMultisigPayload
+): TempleMultisigPayload {
+  if (payload.bytes !== other.bytes) {
+    throw new Error(getMessage("multisigPayloadsMismatch"));
+  }
+
+  return {
+    ...payload,
+    signatures: { ...payload.signatures, ...other.signatures },
+  };
+}
+
+export function countMultisigSignatures(
+  payload: TempleMultisigPayload,
+  keys: string[]
+) {
+  return keys.filter((key) => key in payload.signatures).length;
+}
+
+/**
+ * Parameter of the `main` entrypoint.
+ * Signatures go in the same order as keys in the contract storage.
+ */
+export function toMultisigMainParameter(
+  payload: TempleMultisigPayload,
+  keys: string[]
+) {
+  return {
+    entrypoint: "main",
+    value: {
+      prim: "Pair",
+      args: [
+        {
+          prim: "Pair",
+          args: [{ int: payload.counter }, payload.action],
+        },
+        keys.map((key) =>
+          key in payload.signatures
+            ? { prim: "Some", args: [{ string: payload.signatures[key] }] }
+            : { prim: "None" }
+        ),
+      ],
+    },
+  };
+}
+
+export function serializeMultisigPayload(payload: TempleMultisigPayload) {
+  return JSON.stringify(payload);
+}
+
+export function parseMultisigPayload(value: string): TempleMultisigPayload {
+  let payload: any;
+  try {
+    payload = JSON.parse(value);
+  } catch (_err) {}
+
+  if (
+    !payload ||
+    payload.version !== MULTISIG_PAYLOAD_VERSION ||
+    typeof payload.chainId !== "string" ||
+    typeof payload.contractAddress !== "string" ||
+    typeof payload.counter !== "string" ||
+    typeof payload.bytes !== "string" ||
+    !payload.action ||
+    !["transfer", "delegate"].includes(payload.summary?.type) ||
+    !payload.signatures ||
+    typeof payload.signatures !== "object" ||
+    Object.values(payload.signatures).some(
+      (sig) => validateSignature(sig) !== ValidationResult.VALID
+    )
+  ) {
+    throw new Error(getMessage("invalidMultisigPayload"));
+  }
+
+  return payload;
+}
+
+async function packMultisigPayload(
+  tezos: TezosToolkit,
+  chainId: string,
+  contractAddress: string,
+  counter: string,
+  action: any
+) {
+  const { packed } = await tezos.rpc.packData({
+    data: {
+      prim: "Pair",
+      args: [
+        {
+          prim: "Pair",
+          args: [{ string: chainId }, { string: contractAddress }],
+        },
+        { prim: "Pair", args: [{ int: counter }, action] },
+      ],
+    },
+    type: MULTISIG_PACK_TYPE,
+  });
+  return packed;
+}
+
+function flattenPair(value: any): any[] {
+  if (value?.prim !== "Pair") return [value];
+  const [first, ...rest] = value.args;
+  return rest.length === 1
+    ? [first, ...flattenPair(rest[0])]
+    : [first, ...rest];
+}
@@ -0,0 +1,56 @@
+import { validateSignature, ValidationResult } from "@taquito/utils";
+import {
+  TempleUnsignedOperation,
+  TempleOfflineSignature,
+} from "lib/temple/types";
+import { getMessage } from "lib/i18n";
+
+export const OFFLINE_PAYLOAD_VERSION = 1;
+
+const HEX_PATTERN = /^[0-9a-fA-F]+$/;
+
+export function serializeOfflinePayload(
+  payload: TempleUnsignedOperation | TempleOfflineSignature
+) {
+  return JSON.stringify(payload);
+}
+
+export function parseUnsignedOperation(value: string): TempleUnsignedOperation {
+  const payload = parsePayload(value);
+  if (payload?.type !== "unsigned_operation" || !isPayloadBaseValid(payload)) {
+    throw new Error(getMessage("invalidUnsignedOperation"));
+  }
+
+  return payload;
+}
+
+export function parseOfflineSignature(value: string): TempleOfflineSignature {
+  const payload = parsePayload(value);
+  if (
+    payload?.type !== "operation_signature" ||
+    !isPayloadBaseValid(payload) ||
+    validateSignature(payload.signature) !== ValidationResult.VALID
+  ) {
+    throw new Error(getMessage("invalidOperationSignature"));
+  }
+
+  return payload;
+}
+
+function parsePayload(value: string): any {
+  try {
+    return JSON.parse(value.trim());
+  } catch (_err) {
+    return null;
+  }
+}
+
+function isPayloadBaseValid(payload: any) {
+  return (
+    payload.version === OFFLINE_PAYLOAD_VERSION &&
+    typeof payload.chainId === "string" &&
+    typeof payload.sourcePkh === "string" &&
+    typeof payload.bytes === "string" &&
+    HEX_PATTERN.test(payload.bytes)
+  );
+}
@@ -9,19 +9,44 @@ import { Buffer } from "buffer";
  * Encrypt
  * 1) salt = generateSalt()
  * 2) passKey = generateKey(password*)
- * 3) derivedPassKey = deriveKey(passKey, salt)
+ * 3) derivedPassKey = deriveKey(passKey, salt, KDF_PARAMS)
  * 3) encryptedStuff = encrypt(stuff*, derivedPassKey)
- * 4) persist*(salt, encryptedStuff)
+ * 4) persist*(salt, KDF_PARAMS, encryptedStuff)
  *
  * Decrypt
- * 1) load*(salt, encryptedStuff)
- * 2) derivedPassKey = deriveKey(passKey*, salt)
+ * 1) load*(salt, kdfParams, encryptedStuff)
+ * 2) derivedPassKey = deriveKey(passKey*, salt, kdfParams)
  * 3) stuff = decrypt(encryptedStuff*, derivedPassKey)
  *
  */
 
 export type EncryptedPayload = { dt: string; iv: string };
 
+export type KDFParams = {
+  name: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+};
+
+export type PassKey = {
+  key: CryptoKey;
+  // Password padded (or truncated) to 32 bytes.
+  // Used only for stuff encrypted without KDF params
+  legacyKey: CryptoKey;
+};
+
+export const KDF_PARAMS: KDFParams = {
+  name: "PBKDF2",
+  hash: "SHA-256",
+  iterations: 100_000,
+};
+
+const LEGACY_KDF_PARAMS: KDFParams = {
+  name: "PBKDF2",
+  hash: "SHA-256",
+  iterations: 10_000,
+};
+
 export async function encrypt(
   stuff: any,
   key: CryptoKey
@@ -56,31 +81,51 @@ export async function decrypt<T = any>(
   return JSON.parse(stuffStr);
 }
 
-export function generateKey(password: string) {
-  return crypto.subtle.importKey(
-    "raw",
-    Buffer.alloc(32, password),
-    "PBKDF2",
-    false,
-    ["deriveBits", "deriveKey"]
-  );
+export async function generateKey(password: string): Promise<PassKey> {
+  const [key, legacyKey] = await Promise.all([
+    importKey(Buffer.from(password)),
+    importKey(Buffer.alloc(32, password)),
+  ]);
+  return { key, legacyKey };
 }
 
-export function deriveKey(key: CryptoKey, salt: Uint8Array) {
+/**
+ * Without KDF params - derives the same way as before they were introduced
+ */
+export function deriveKey(
+  passKey: PassKey,
+  salt: Uint8Array,
+  kdfParams?: KDFParams
+) {
   return crypto.subtle.deriveKey(
     {
-      name: "PBKDF2",
+      ...(kdfParams ?? LEGACY_KDF_PARAMS),
       salt,
-      iterations: 10000,
-      hash: "SHA-256",
     },
-    key,
+    kdfParams ? passKey.key : passKey.legacyKey,
     { name: "AES-GCM", length: 256 },
     false,
     ["encrypt", "decrypt"]
   );
 }
 
+export function isKDFParamsValid(kdfParams: any): kdfParams is KDFParams {
+  return (
+    kdfParams?.name === KDF_PARAMS.name &&
+    kdfParams?.hash === KDF_PARAMS.hash &&
+    Number.isSafeInteger(kdfParams?.iterations) &&
+    kdfParams.iterations >= LEGACY_KDF_PARAMS.iterations &&
+    kdfParams.iterations <= KDF_PARAMS.iterations * 100
+  );
+}
+
+function importKey(keyData: Buffer) {
+  return crypto.subtle.importKey("raw", keyData, "PBKDF2", false, [
+    "deriveBits",
+    "deriveKey",
+  ]);
+}
+
 export function generateSalt(byteCount = 32) {
   const view = new Uint8Array(byteCount);
   crypto.getRandomValues(view);
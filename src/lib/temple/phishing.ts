@@ -0,0 +1,143 @@
+import { TempleOriginRisk, TemplePhishingLists } from "lib/temple/types";
+
+/**
+ * Known phishing domains
+ */
+export const BUNDLED_BLOCKLIST = [
+  "templewallet.co",
+  "templewallet.io",
+  "temple-wallet.com",
+  "thanoswallet.co",
+  "quipuswap.co",
+  "quipu-swap.com",
+  "dexter-exchange.com",
+  "hicetnunc.art",
+  "hicetnunc.io",
+  "kolibri-finance.com",
+  "objkt.co",
+  "tezos-airdrop.com",
+];
+
+/**
+ * Domains of well-known DApps.
+ * Similar looking domains are reported as suspicious.
+ */
+export const BUNDLED_ALLOWLIST = [
+  "templewallet.com",
+  "quipuswap.com",
+  "dexter.exchange",
+  "hicetnunc.xyz",
+  "kolibri.finance",
+  "objkt.com",
+  "tzkt.io",
+  "better-call.dev",
+  "tezos.domains",
+  "app.crunchy.network",
+  "plenty.finance",
+  "kalamint.io",
+  "bazaar.tez.page",
+];
+
+export const DEFAULT_PHISHING_LISTS: TemplePhishingLists = {
+  blocklist: [],
+  allowlist: [],
+  overrides: [],
+};
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9-]{1,63}\.)+[a-z]{2,63}$/;
+const MAX_TYPO_DISTANCE = 2;
+
+export function isDomainValid(value: string) {
+  return DOMAIN_PATTERN.test(value);
+}
+
+export function getHostname(origin: string) {
+  try {
+    return new URL(origin).hostname.toLowerCase();
+  } catch {
+    return origin.toLowerCase();
+  }
+}
+
+/**
+ * Checks whether hostname is the domain or its subdomain
+ */
+export function matchesDomain(hostname: string, domain: string) {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Checks origin against the lists.
+ * Returns `null` if origin isn't considered risky.
+ * Blocklist of the user takes precedence over accepted risks.
+ */
+export function assessOriginRisk(
+  origin: string,
+  lists: TemplePhishingLists,
+  knownDomains: string[] = BUNDLED_ALLOWLIST
+): TempleOriginRisk | null {
+  const hostname = getHostname(origin);
+
+  if (lists.blocklist.some((domain) => matchesDomain(hostname, domain))) {
+    return { level: "blocked", byUser: true };
+  }
+
+  if (lists.overrides.includes(origin)) {
+    return null;
+  }
+
+  const trusted = [...lists.allowlist, ...knownDomains];
+  if (trusted.some((domain) => matchesDomain(hostname, domain))) {
+    return null;
+  }
+
+  if (BUNDLED_BLOCKLIST.some((domain) => matchesDomain(hostname, domain))) {
+    return { level: "blocked", byUser: false };
+  }
+
+  const similarTo = knownDomains.find((domain) => looksLike(hostname, domain));
+  return similarTo ? { level: "suspicious", similarTo } : null;
+}
+
+/**
+ * Detects typosquatting, other TLDs and subdomain tricks
+ * like `quipuswap.com.example.io`
+ */
+function looksLike(hostname: string, domain: string) {
+  if (hostname.startsWith(`${domain}.`) || hostname.includes(`${domain}-`)) {
+    return true;
+  }
+
+  const name = stripTld(domain);
+  const hostnameName = stripTld(getBaseDomain(hostname));
+  if (name.length < 5) {
+    return hostnameName === name;
+  }
+
+  return levenshtein(hostnameName, name) <= MAX_TYPO_DISTANCE;
+}
+
+function getBaseDomain(hostname: string) {
+  return hostname.split(".").slice(-2).join(".");
+}
+
+function stripTld(domain: string) {
+  const parts = domain.split(".");
+  return parts.length > 1 ? parts.slice(0, -1).join(".") : domain;
+}
+
+function levenshtein(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        prev[j] + 1,
+        current[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = current;
+  }
+  return prev[b.length];
+}
@@ -0,0 +1,73 @@
+import { b58cdecode, buf2hex, hex2buf, prefix } from "@taquito/utils";
+import sodium from "libsodium-wrappers";
+import elliptic from "elliptic";
+import toBuffer from "typedarray-to-buffer";
+
+type Curve = "ed" | "p2" | "sp";
+
+const CURVE_PREFIXES = {
+  ed: {
+    pk: prefix.edpk,
+    sig: prefix.edsig,
+  },
+  p2: {
+    pk: prefix.p2pk,
+    sig: prefix.p2sig,
+  },
+  sp: {
+    pk: prefix.sppk,
+    sig: prefix.spsig,
+  },
+};
+
+/**
+ * Verifies signature of the bytes (including watermark, if there is one)
+ * against the public key. Supports all Tezos curves.
+ */
+export async function verifySignature(
+  bytes: string,
+  publicKey: string,
+  signature: string
+) {
+  await sodium.ready;
+  const curve = publicKey.substring(0, 2) as Curve;
+  if (!(curve in CURVE_PREFIXES)) {
+    throw new Error(`Curve '${curve}' not supported`);
+  }
+
+  const pk = toBuffer(b58cdecode(publicKey, CURVE_PREFIXES[curve].pk));
+
+  let sig;
+  if (signature.substring(0, 3) === "sig") {
+    sig = b58cdecode(signature, prefix.sig);
+  } else if (signature.substring(0, 5) === `${curve}sig`) {
+    sig = b58cdecode(signature, CURVE_PREFIXES[curve].sig);
+  } else {
+    throw new Error(`Invalid signature provided: ${signature}`);
+  }
+
+  const bytesHash = sodium.crypto_generichash(32, hex2buf(bytes));
+
+  if (curve === "ed") {
+    try {
+      return sodium.crypto_sign_verify_detached(sig, bytesHash, pk);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  const key = new elliptic.ec(
+    curve === "sp" ? "secp256k1" : "p256"
+  ).keyFromPublic(pk);
+  const hexSig = buf2hex(toBuffer(sig));
+  const match = hexSig.match(/([a-f\d]{64})/gi);
+  if (match) {
+    try {
+      const [r, s] = match;
+      return key.verify(bytesHash, { r, s });
+    } catch (e) {
+      return false;
+    }
+  }
+  return false;
+}
@@ -3,6 +3,7 @@ import {
   TempleDAppMetadata,
   TempleDAppNetwork,
 } from "@temple-wallet/dapp/dist/types";
+import { EncryptedPayload, KDFParams } from "lib/temple/passworder";
 
 type NonEmptyArray<T> = [T, ...T[]];
 
@@ -16,13 +17,117 @@ export interface ReadyTempleState extends TempleState {
 export interface TempleDAppSession {
   network: TempleDAppNetwork;
   appMeta: TempleDAppMetadata;
+  // Account that is reported to DApp
   pkh: string;
   publicKey: string;
+  // All granted accounts, including the reported one
+  accounts: TempleDAppAccount[];
+  policy?: TempleDAppPolicy;
+  // Permissions granted to Beacon DApp, all of them if not specified
+  scopes?: TempleDAppScope[];
+}
+
+/**
+ * Values match Beacon permission scopes
+ */
+export type TempleDAppScope = "operation_request" | "sign" | "threshold";
+
+/**
+ * Values match Beacon signing types
+ */
+export type TempleDAppSigningType = "raw" | "operation" | "micheline";
+
+/**
+ * What the payload to sign turned out to be
+ */
+export type TempleSignPayloadType =
+  | "operation"
+  | "micheline"
+  | "message" // Tezos Signed Message
+  | "raw"; // Opaque bytes
+
+export interface TempleDAppAccount {
+  pkh: string;
+  publicKey: string;
+}
+
+/**
+ * Operations that fit the policy are sent without confirmation
+ */
+export interface TempleDAppPolicy {
+  // Mutez
+  tezLimit: string;
+  // Atomic amounts by `${tokenAddress}_${tokenId}`
+  tokenLimits: Record<string, string>;
+  // Rolling window in seconds
+  timeframe: number;
+  // `${contractAddress}%${entrypoint}`
+  allowedEntrypoints: string[];
+  spendings: TempleDAppSpending[];
+}
+
+/**
+ * DApp paired via Beacon P2P relay
+ */
+export interface TempleBeaconPeer {
+  id: string;
+  name: string;
+  icon?: string;
+  appUrl?: string;
+  publicKey: string;
+  relayServer: string;
+  senderId: string;
+  roomId: string;
+  pairedAt: number;
+}
+
+/**
+ * Record of DApp request and how it was resolved
+ */
+export interface TempleDAppLogEntry {
+  id: string;
+  timestamp: number;
+  origin: string;
+  protocol: "temple" | "beacon";
+  request: TempleDAppLogRequest;
+  decision: "approved" | "auto-approved" | "no-prompt" | "declined" | "failed";
+  // Granted account for permission requests
+  pkh?: string;
+  opHash?: string;
+  // Signature given to DApp, so it can be verified later
+  signature?: string;
+  error?: string;
+}
+
+export type TempleDAppLogRequest =
+  | { type: "permission"; network: string; appName: string }
+  | {
+      type: "operation";
+      sourcePkh: string;
+      operations: TempleDAppLogOperation[];
+    }
+  | { type: "sign"; sourcePkh: string; payload: string }
+  | { type: "broadcast"; bytesLength: number };
+
+export interface TempleDAppLogOperation {
+  kind: string;
+  to?: string;
+  // Mutez
+  amount?: string;
+  entrypoint?: string;
+}
+
+export interface TempleDAppSpending {
+  timestamp: number;
+  // Mutez
+  tez: string;
+  tokens: Record<string, string>;
 }
 
 export interface TempleState {
   status: TempleStatus;
   accounts: TempleAccount[];
+  hdWallets: TempleHDWallet[];
   networks: TempleNetwork[];
   settings: TempleSettings | null;
 }
@@ -49,6 +154,7 @@ export type TempleAccount =
   | TempleImportedAccount
   | TempleLedgerAccount
   | TempleManagedKTAccount
+  | TempleMultisigAccount
   | TempleWatchOnlyAccount;
 
 export interface TempleLedgerAccount extends TempleAccountBase {
@@ -63,6 +169,7 @@ export interface TempleImportedAccount extends TempleAccountBase {
 export interface TempleHDAccount extends TempleAccountBase {
   type: TempleAccountType.HD;
   hdIndex: number;
+  walletId: string;
 }
 
 export interface TempleManagedKTAccount extends TempleAccountBase {
@@ -71,6 +178,14 @@ export interface TempleManagedKTAccount extends TempleAccountBase {
   owner: string;
 }
 
+export interface TempleMultisigAccount extends TempleAccountBase {
+  type: TempleAccountType.Multisig;
+  chainId: string;
+  owner: string;
+  threshold: number;
+  signers: string[];
+}
+
 export interface TempleWatchOnlyAccount extends TempleAccountBase {
   type: TempleAccountType.WatchOnly;
   chainId?: string;
@@ -81,7 +196,50 @@ export interface TempleAccountBase {
   name: string;
   publicKeyHash: string;
   hdIndex?: number;
+  walletId?: string;
   derivationPath?: string;
+  curve?: TempleCurve;
+}
+
+export enum TempleCurve {
+  ED25519 = "ed25519",
+  SECP256K1 = "secp256k1",
+  P256 = "p256",
+}
+
+export interface TempleHDWallet {
+  id: string;
+  name: string;
+}
+
+export type TempleDiscoverySource =
+  | { walletId: string }
+  | { mnemonic: string; password?: string };
+
+export interface TempleDiscoveredAccount {
+  index: number;
+  derivationPath: string;
+  publicKeyHash: string;
+  balance: string;
+  hasHistory: boolean;
+  added: boolean;
+}
+
+export interface TempleUnsignedOperation {
+  type: "unsigned_operation";
+  version: number;
+  chainId: string;
+  sourcePkh: string;
+  bytes: string;
+}
+
+export interface TempleOfflineSignature {
+  type: "operation_signature";
+  version: number;
+  chainId: string;
+  sourcePkh: string;
+  bytes: string;
+  signature: string;
 }
 
 export enum TempleAccountType {
@@ -90,6 +248,7 @@ export enum TempleAccountType {
   Ledger,
   ManagedKT,
   WatchOnly,
+  Multisig,
 }
 
 export interface TempleNetwork {
@@ -155,6 +314,34 @@ export interface TempleFA1_2Asset extends TempleTokenBase {
 export interface TempleFA2Asset extends TempleTokenBase {
   type: TempleAssetType.FA2;
   id: number;
+  collectible?: TempleCollectibleMetadata;
+}
+
+/**
+ * TZIP-21 metadata of non-fungible token
+ */
+export interface TempleCollectibleMetadata {
+  artifactUri?: string;
+  displayUri?: string;
+  thumbnailUri?: string;
+  description?: string;
+  isBooleanAmount?: boolean;
+}
+
+/**
+ * Token found by indexer on some account
+ */
+export interface TempleDiscoveredToken {
+  contract: string;
+  tokenId: number;
+  /**
+   * Token standard, if known by the indexer
+   */
+  type?: TempleAssetType.FA1_2 | TempleAssetType.FA2;
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  collectible?: TempleCollectibleMetadata;
 }
 
 export type TempleNetworkType = "main" | "test";
@@ -162,11 +349,53 @@ export type TempleNetworkType = "main" | "test";
 export interface TempleSettings {
   customNetworks?: TempleNetwork[];
   lambdaContracts?: Record<string, string>;
+  autoLock?: TempleAutoLockSettings;
+  contacts?: TempleContact[];
+  ipfsGateway?: string;
+}
+
+export interface TempleContact {
+  address: string;
+  name: string;
+  // Contact is shown in all networks if not set
+  chainId?: string;
+  note?: string;
+  domain?: string;
+}
+
+export interface TempleAutoLockSettings {
+  // Minutes of inactivity before lock, 0 - never
+  timeout: number;
+  lockOnSystemIdle: boolean;
+  lockOnBrowserClose: boolean;
 }
 
 export enum TempleSharedStorageKey {
   DAppEnabled = "dappenabled",
   LocaleCode = "localecode",
+  PhishingLists = "phishinglists",
+}
+
+/**
+ * User entries of origin lists
+ */
+export interface TemplePhishingLists {
+  // Domains, including subdomains
+  blocklist: string[];
+  allowlist: string[];
+  // Origins which risk user accepted
+  overrides: string[];
+}
+
+export type TempleOriginRisk =
+  | { level: "blocked"; byUser: boolean }
+  | { level: "suspicious"; similarTo: string };
+
+export interface TempleBackup {
+  version: number;
+  salt: string;
+  kdf?: KDFParams;
+  encrypted: EncryptedPayload;
 }
 
 export type TemplePendingOperation = OperationContentsAndResult & {
@@ -174,7 +403,11 @@ export type TemplePendingOperation = OperationContentsAndResult & {
   addedAt: string;
 };
 
-export type TempleDAppSessions = Record<string, TempleDAppSession>;
+/**
+ * Sessions by origin, one per network.
+ * The last one is the most recently used.
+ */
+export type TempleDAppSessions = Record<string, TempleDAppSession[]>;
 
 /**
  * Internal confirmation payloads
@@ -198,6 +431,38 @@ export interface TempleOpsConfirmationPayload
   opParams: any[];
 }
 
+/**
+ * Result of operations dry run
+ */
+export interface TempleOpsSimulation {
+  applied: boolean;
+  errors: string[];
+  // Source account balance changes, fees are not included
+  balanceDeltas: TempleBalanceDelta[];
+  internalOperations: TempleSimulatedOperation[];
+  // Mutez
+  burn: string;
+  consumedGas: string;
+}
+
+export interface TempleBalanceDelta {
+  // Tez if not specified
+  tokenAddress?: string;
+  tokenId?: number;
+  // Mutez or atomic amount, negative for spendings
+  amount: string;
+}
+
+export interface TempleSimulatedOperation {
+  kind: string;
+  source: string;
+  destination?: string;
+  // Mutez
+  amount?: string;
+  entrypoint?: string;
+  status: string;
+}
+
 export type TempleConfirmationPayload =
   | TempleSignConfirmationPayload
   | TempleOpsConfirmationPayload;
@@ -211,10 +476,12 @@ export interface TempleDAppPayloadBase {
   origin: string;
   networkRpc: string;
   appMeta: TempleDAppMetadata;
+  risk?: TempleOriginRisk | null;
 }
 
 export interface TempleDAppConnectPayload extends TempleDAppPayloadBase {
   type: "connect";
+  scopes?: TempleDAppScope[];
 }
 
 export interface TempleDAppOperationsPayload extends TempleDAppPayloadBase {
@@ -227,7 +494,9 @@ export interface TempleDAppSignPayload extends TempleDAppPayloadBase {
   type: "sign";
   sourcePkh: string;
   payload: string;
+  payloadType: TempleSignPayloadType;
   preview: any;
+  signingType?: TempleDAppSigningType;
 }
 
 export type TempleDAppPayload =
@@ -235,6 +504,14 @@ export type TempleDAppPayload =
   | TempleDAppOperationsPayload
   | TempleDAppSignPayload;
 
+/**
+ * Pending DApp request, shown in the confirm window queue
+ */
+export interface TempleDAppConfirmation {
+  id: string;
+  payload: TempleDAppPayload;
+}
+
 /**
  * Messages
  */
@@ -244,6 +521,9 @@ export enum TempleMessageType {
   StateUpdated = "TEMPLE_STATE_UPDATED",
   ConfirmationRequested = "TEMPLE_CONFIRMATION_REQUESTED",
   ConfirmationExpired = "TEMPLE_CONFIRMATION_EXPIRED",
+  BeaconAcknowledged = "TEMPLE_BEACON_ACKNOWLEDGED",
+  DAppConfirmationsUpdated = "TEMPLE_DAPP_CONFIRMATIONS_UPDATED",
+  NewTokensUpdated = "TEMPLE_NEW_TOKENS_UPDATED",
   // Request-Response pairs
   GetStateRequest = "TEMPLE_GET_STATE_REQUEST",
   GetStateResponse = "TEMPLE_GET_STATE_RESPONSE",
@@ -253,8 +533,16 @@ export enum TempleMessageType {
   UnlockResponse = "TEMPLE_UNLOCK_RESPONSE",
   LockRequest = "TEMPLE_LOCK_REQUEST",
   LockResponse = "TEMPLE_LOCK_RESPONSE",
+  ActivityPingRequest = "TEMPLE_ACTIVITY_PING_REQUEST",
+  ActivityPingResponse = "TEMPLE_ACTIVITY_PING_RESPONSE",
   CreateAccountRequest = "TEMPLE_CREATE_ACCOUNT_REQUEST",
   CreateAccountResponse = "TEMPLE_CREATE_ACCOUNT_RESPONSE",
+  CreateHDWalletRequest = "TEMPLE_CREATE_HD_WALLET_REQUEST",
+  CreateHDWalletResponse = "TEMPLE_CREATE_HD_WALLET_RESPONSE",
+  DiscoverAccountsRequest = "TEMPLE_DISCOVER_ACCOUNTS_REQUEST",
+  DiscoverAccountsResponse = "TEMPLE_DISCOVER_ACCOUNTS_RESPONSE",
+  AddDiscoveredAccountsRequest = "TEMPLE_ADD_DISCOVERED_ACCOUNTS_REQUEST",
+  AddDiscoveredAccountsResponse = "TEMPLE_ADD_DISCOVERED_ACCOUNTS_RESPONSE",
   RevealPublicKeyRequest = "TEMPLE_REVEAL_PUBLIC_KEY_REQUEST",
   RevealPublicKeyResponse = "TEMPLE_REVEAL_PUBLIC_KEY_RESPONSE",
   RevealPrivateKeyRequest = "TEMPLE_REVEAL_PRIVATE_KEY_REQUEST",
@@ -273,6 +561,8 @@ export enum TempleMessageType {
   ImportFundraiserAccountResponse = "TEMPLE_IMPORT_FUNDRAISER_ACCOUNT_RESPONSE",
   ImportManagedKTAccountRequest = "TEMPLE_IMPORT_MANAGED_KT_ACCOUNT_REQUEST",
   ImportManagedKTAccountResponse = "TEMPLE_IMPORT_MANAGED_KT_ACCOUNT_RESPONSE",
+  ImportMultisigAccountRequest = "TEMPLE_IMPORT_MULTISIG_ACCOUNT_REQUEST",
+  ImportMultisigAccountResponse = "TEMPLE_IMPORT_MULTISIG_ACCOUNT_RESPONSE",
   ImportWatchOnlyAccountRequest = "TEMPLE_IMPORT_WATCH_ONLY_ACCOUNT_REQUEST",
   ImportWatchOnlyAccountResponse = "TEMPLE_IMPORT_WATCH_ONLY_ACCOUNT_RESPONSE",
   CreateLedgerAccountRequest = "TEMPLE_CREATE_LEDGER_ACCOUNT_REQUEST",
@@ -285,14 +575,20 @@ export enum TempleMessageType {
   RemovePndOpsResponse = "TEMPLE_REMOVE_PND_OPS_RESPONSE",
   OperationsRequest = "TEMPLE_OPERATIONS_REQUEST",
   OperationsResponse = "TEMPLE_OPERATIONS_RESPONSE",
+  ForgeOperationsRequest = "TEMPLE_FORGE_OPERATIONS_REQUEST",
+  ForgeOperationsResponse = "TEMPLE_FORGE_OPERATIONS_RESPONSE",
+  SignOfflineOperationRequest = "TEMPLE_SIGN_OFFLINE_OPERATION_REQUEST",
+  SignOfflineOperationResponse = "TEMPLE_SIGN_OFFLINE_OPERATION_RESPONSE",
+  BroadcastOfflineOperationRequest = "TEMPLE_BROADCAST_OFFLINE_OPERATION_REQUEST",
+  BroadcastOfflineOperationResponse = "TEMPLE_BROADCAST_OFFLINE_OPERATION_RESPONSE",
   SignRequest = "TEMPLE_SIGN_REQUEST",
   SignResponse = "TEMPLE_SIGN_RESPONSE",
   ConfirmationRequest = "TEMPLE_CONFIRMATION_REQUEST",
   ConfirmationResponse = "TEMPLE_CONFIRMATION_RESPONSE",
   PageRequest = "TEMPLE_PAGE_REQUEST",
   PageResponse = "TEMPLE_PAGE_RESPONSE",
-  DAppGetPayloadRequest = "TEMPLE_DAPP_GET_PAYLOAD_REQUEST",
-  DAppGetPayloadResponse = "TEMPLE_DAPP_GET_PAYLOAD_RESPONSE",
+  DAppGetConfirmationsRequest = "TEMPLE_DAPP_GET_CONFIRMATIONS_REQUEST",
+  DAppGetConfirmationsResponse = "TEMPLE_DAPP_GET_CONFIRMATIONS_RESPONSE",
   DAppPermConfirmationRequest = "TEMPLE_DAPP_PERM_CONFIRMATION_REQUEST",
   DAppPermConfirmationResponse = "TEMPLE_DAPP_PERM_CONFIRMATION_RESPONSE",
   DAppOpsConfirmationRequest = "TEMPLE_DAPP_OPS_CONFIRMATION_REQUEST",
@@ -303,19 +599,50 @@ export enum TempleMessageType {
   DAppGetAllSessionsResponse = "TEMPLE_DAPP_GET_ALL_SESSIONS_RESPONSE",
   DAppRemoveSessionRequest = "TEMPLE_DAPP_REMOVE_SESSION_REQUEST",
   DAppRemoveSessionResponse = "TEMPLE_DAPP_REMOVE_SESSION_RESPONSE",
+  DAppSetPolicyRequest = "TEMPLE_DAPP_SET_POLICY_REQUEST",
+  DAppSetPolicyResponse = "TEMPLE_DAPP_SET_POLICY_RESPONSE",
+  SimulateOperationsRequest = "TEMPLE_SIMULATE_OPERATIONS_REQUEST",
+  SimulateOperationsResponse = "TEMPLE_SIMULATE_OPERATIONS_RESPONSE",
+  DAppGetLogRequest = "TEMPLE_DAPP_GET_LOG_REQUEST",
+  DAppGetLogResponse = "TEMPLE_DAPP_GET_LOG_RESPONSE",
+  DAppClearLogRequest = "TEMPLE_DAPP_CLEAR_LOG_REQUEST",
+  DAppClearLogResponse = "TEMPLE_DAPP_CLEAR_LOG_RESPONSE",
+  BeaconGetPeersRequest = "TEMPLE_BEACON_GET_PEERS_REQUEST",
+  BeaconGetPeersResponse = "TEMPLE_BEACON_GET_PEERS_RESPONSE",
+  BeaconAddPeerRequest = "TEMPLE_BEACON_ADD_PEER_REQUEST",
+  BeaconAddPeerResponse = "TEMPLE_BEACON_ADD_PEER_RESPONSE",
+  BeaconRemovePeerRequest = "TEMPLE_BEACON_REMOVE_PEER_REQUEST",
+  BeaconRemovePeerResponse = "TEMPLE_BEACON_REMOVE_PEER_RESPONSE",
+  ExportBackupRequest = "TEMPLE_EXPORT_BACKUP_REQUEST",
+  ExportBackupResponse = "TEMPLE_EXPORT_BACKUP_RESPONSE",
+  RestoreBackupRequest = "TEMPLE_RESTORE_BACKUP_REQUEST",
+  RestoreBackupResponse = "TEMPLE_RESTORE_BACKUP_RESPONSE",
+  ChangePasswordRequest = "TEMPLE_CHANGE_PASSWORD_REQUEST",
+  ChangePasswordResponse = "TEMPLE_CHANGE_PASSWORD_RESPONSE",
+  GetNewTokensRequest = "TEMPLE_GET_NEW_TOKENS_REQUEST",
+  GetNewTokensResponse = "TEMPLE_GET_NEW_TOKENS_RESPONSE",
+  DismissNewTokensRequest = "TEMPLE_DISMISS_NEW_TOKENS_REQUEST",
+  DismissNewTokensResponse = "TEMPLE_DISMISS_NEW_TOKENS_RESPONSE",
 }
 
 export type TempleNotification =
   | TempleStateUpdated
   | TempleConfirmationRequested
-  | TempleConfirmationExpired;
+  | TempleConfirmationExpired
+  | TempleBeaconAcknowledged
+  | TempleDAppConfirmationsUpdated
+  | TempleNewTokensUpdated;
 
 export type TempleRequest =
   | TempleGetStateRequest
   | TempleNewWalletRequest
   | TempleUnlockRequest
   | TempleLockRequest
+  | TempleActivityPingRequest
   | TempleCreateAccountRequest
+  | TempleCreateHDWalletRequest
+  | TempleDiscoverAccountsRequest
+  | TempleAddDiscoveredAccountsRequest
   | TempleRevealPublicKeyRequest
   | TempleRevealPrivateKeyRequest
   | TempleRevealMnemonicRequest
@@ -324,29 +651,49 @@ export type TempleRequest =
   | TempleImportMnemonicAccountRequest
   | TempleImportFundraiserAccountRequest
   | TempleImportManagedKTAccountRequest
+  | TempleImportMultisigAccountRequest
   | TempleImportWatchOnlyAccountRequest
   | TempleCreateLedgerAccountRequest
   | TempleOperationsRequest
+  | TempleForgeOperationsRequest
+  | TempleSignOfflineOperationRequest
+  | TempleBroadcastOfflineOperationRequest
   | TempleSignRequest
   | TempleConfirmationRequest
   | TempleRemoveAccountRequest
   | TemplePageRequest
-  | TempleDAppGetPayloadRequest
+  | TempleDAppGetConfirmationsRequest
   | TempleDAppPermConfirmationRequest
   | TempleDAppOpsConfirmationRequest
   | TempleDAppSignConfirmationRequest
   | TempleUpdateSettingsRequest
   | TempleGetAllDAppSessionsRequest
   | TempleRemoveDAppSessionRequest
+  | TempleSetDAppPolicyRequest
+  | TempleGetDAppLogRequest
+  | TempleSimulateOperationsRequest
+  | TempleClearDAppLogRequest
+  | TempleGetBeaconPeersRequest
+  | TempleAddBeaconPeerRequest
+  | TempleRemoveBeaconPeerRequest
   | TempleGetAllPndOpsRequest
-  | TempleRemovePndOpsRequest;
+  | TempleRemovePndOpsRequest
+  | TempleExportBackupRequest
+  | TempleRestoreBackupRequest
+  | TempleChangePasswordRequest
+  | TempleGetNewTokensRequest
+  | TempleDismissNewTokensRequest;
 
 export type TempleResponse =
   | TempleGetStateResponse
   | TempleNewWalletResponse
   | TempleUnlockResponse
   | TempleLockResponse
+  | TempleActivityPingResponse
   | TempleCreateAccountResponse
+  | TempleCreateHDWalletResponse
+  | TempleDiscoverAccountsResponse
+  | TempleAddDiscoveredAccountsResponse
   | TempleRevealPublicKeyResponse
   | TempleRevealPrivateKeyResponse
   | TempleRevealMnemonicResponse
@@ -355,22 +702,38 @@ export type TempleResponse =
   | TempleImportMnemonicAccountResponse
   | TempleImportFundraiserAccountResponse
   | TempleImportManagedKTAccountResponse
+  | TempleImportMultisigAccountResponse
   | TempleImportWatchOnlyAccountResponse
   | TempleCreateLedgerAccountResponse
   | TempleOperationsResponse
+  | TempleForgeOperationsResponse
+  | TempleSignOfflineOperationResponse
+  | TempleBroadcastOfflineOperationResponse
   | TempleSignResponse
   | TempleConfirmationResponse
   | TempleRemoveAccountResponse
   | TemplePageResponse
-  | TempleDAppGetPayloadResponse
+  | TempleDAppGetConfirmationsResponse
   | TempleDAppPermConfirmationResponse
   | TempleDAppOpsConfirmationResponse
   | TempleDAppSignConfirmationResponse
   | TempleUpdateSettingsResponse
   | TempleGetAllDAppSessionsResponse
   | TempleRemoveDAppSessionResponse
+  | TempleSetDAppPolicyResponse
+  | TempleGetDAppLogResponse
+  | TempleSimulateOperationsResponse
+  | TempleClearDAppLogResponse
+  | TempleGetBeaconPeersResponse
+  | TempleAddBeaconPeerResponse
+  | TempleRemoveBeaconPeerResponse
   | TempleGetAllPndOpsResponse
-  | TempleRemovePndOpsResponse;
+  | TempleRemovePndOpsResponse
+  | TempleExportBackupResponse
+  | TempleRestoreBackupResponse
+  | TempleChangePasswordResponse
+  | TempleGetNewTokensResponse
+  | TempleDismissNewTokensResponse;
 
 export interface TempleMessageBase {
   type: TempleMessageType;
@@ -391,6 +754,21 @@ export interface TempleConfirmationExpired extends TempleMessageBase {
   id: string;
 }
 
+export interface TempleBeaconAcknowledged extends TempleMessageBase {
+  type: TempleMessageType.BeaconAcknowledged;
+  origin: string;
+  payload: string;
+  encrypted?: boolean;
+}
+
+export interface TempleDAppConfirmationsUpdated extends TempleMessageBase {
+  type: TempleMessageType.DAppConfirmationsUpdated;
+}
+
+export interface TempleNewTokensUpdated extends TempleMessageBase {
+  type: TempleMessageType.NewTokensUpdated;
+}
+
 export interface TempleGetStateRequest extends TempleMessageBase {
   type: TempleMessageType.GetStateRequest;
 }
@@ -427,8 +805,17 @@ export interface TempleLockResponse extends TempleMessageBase {
   type: TempleMessageType.LockResponse;
 }
 
+export interface TempleActivityPingRequest extends TempleMessageBase {
+  type: TempleMessageType.ActivityPingRequest;
+}
+
+export interface TempleActivityPingResponse extends TempleMessageBase {
+  type: TempleMessageType.ActivityPingResponse;
+}
+
 export interface TempleCreateAccountRequest extends TempleMessageBase {
   type: TempleMessageType.CreateAccountRequest;
+  walletId: string;
   name?: string;
 }
 
@@ -436,6 +823,38 @@ export interface TempleCreateAccountResponse extends TempleMessageBase {
   type: TempleMessageType.CreateAccountResponse;
 }
 
+export interface TempleCreateHDWalletRequest extends TempleMessageBase {
+  type: TempleMessageType.CreateHDWalletRequest;
+  name?: string;
+  mnemonic?: string;
+}
+
+export interface TempleCreateHDWalletResponse extends TempleMessageBase {
+  type: TempleMessageType.CreateHDWalletResponse;
+}
+
+export interface TempleDiscoverAccountsRequest extends TempleMessageBase {
+  type: TempleMessageType.DiscoverAccountsRequest;
+  source: TempleDiscoverySource;
+  rpcUrl: string;
+  gapLimit: number;
+}
+
+export interface TempleDiscoverAccountsResponse extends TempleMessageBase {
+  type: TempleMessageType.DiscoverAccountsResponse;
+  accounts: TempleDiscoveredAccount[];
+}
+
+export interface TempleAddDiscoveredAccountsRequest extends TempleMessageBase {
+  type: TempleMessageType.AddDiscoveredAccountsRequest;
+  source: TempleDiscoverySource;
+  indexes: number[];
+}
+
+export interface TempleAddDiscoveredAccountsResponse extends TempleMessageBase {
+  type: TempleMessageType.AddDiscoveredAccountsResponse;
+}
+
 export interface TempleRevealPublicKeyRequest extends TempleMessageBase {
   type: TempleMessageType.RevealPublicKeyRequest;
   accountPublicKeyHash: string;
@@ -459,6 +878,7 @@ export interface TempleRevealPrivateKeyResponse extends TempleMessageBase {
 
 export interface TempleRevealMnemonicRequest extends TempleMessageBase {
   type: TempleMessageType.RevealMnemonicRequest;
+  walletId: string;
   password: string;
 }
 
@@ -502,6 +922,7 @@ export interface TempleImportMnemonicAccountRequest extends TempleMessageBase {
   mnemonic: string;
   password?: string;
   derivationPath?: string;
+  curve?: TempleCurve;
 }
 
 export interface TempleImportMnemonicAccountResponse extends TempleMessageBase {
@@ -533,6 +954,19 @@ export interface TempleImportManagedKTAccountResponse
   type: TempleMessageType.ImportManagedKTAccountResponse;
 }
 
+export interface TempleImportMultisigAccountRequest extends TempleMessageBase {
+  type: TempleMessageType.ImportMultisigAccountRequest;
+  address: string;
+  chainId: string;
+  owner: string;
+  threshold: number;
+  signers: string[];
+}
+
+export interface TempleImportMultisigAccountResponse extends TempleMessageBase {
+  type: TempleMessageType.ImportMultisigAccountResponse;
+}
+
 export interface TempleImportWatchOnlyAccountRequest extends TempleMessageBase {
   type: TempleMessageType.ImportWatchOnlyAccountRequest;
   address: string;
@@ -548,6 +982,7 @@ export interface TempleCreateLedgerAccountRequest extends TempleMessageBase {
   type: TempleMessageType.CreateLedgerAccountRequest;
   name: string;
   derivationPath?: string;
+  curve?: TempleCurve;
 }
 
 export interface TempleCreateLedgerAccountResponse extends TempleMessageBase {
@@ -598,6 +1033,41 @@ export interface TempleOperationsResponse extends TempleMessageBase {
   opHash: string;
 }
 
+export interface TempleForgeOperationsRequest extends TempleMessageBase {
+  type: TempleMessageType.ForgeOperationsRequest;
+  sourcePkh: string;
+  networkRpc: string;
+  opParams: any[];
+}
+
+export interface TempleForgeOperationsResponse extends TempleMessageBase {
+  type: TempleMessageType.ForgeOperationsResponse;
+  operation: TempleUnsignedOperation;
+}
+
+export interface TempleSignOfflineOperationRequest extends TempleMessageBase {
+  type: TempleMessageType.SignOfflineOperationRequest;
+  operation: TempleUnsignedOperation;
+}
+
+export interface TempleSignOfflineOperationResponse extends TempleMessageBase {
+  type: TempleMessageType.SignOfflineOperationResponse;
+  signature: TempleOfflineSignature;
+}
+
+export interface TempleBroadcastOfflineOperationRequest
+  extends TempleMessageBase {
+  type: TempleMessageType.BroadcastOfflineOperationRequest;
+  networkRpc: string;
+  signature: TempleOfflineSignature;
+}
+
+export interface TempleBroadcastOfflineOperationResponse
+  extends TempleMessageBase {
+  type: TempleMessageType.BroadcastOfflineOperationResponse;
+  opHash: string;
+}
+
 export interface TempleSignRequest extends TempleMessageBase {
   type: TempleMessageType.SignRequest;
   id: string;
@@ -635,22 +1105,20 @@ export interface TemplePageResponse extends TempleMessageBase {
   encrypted?: boolean;
 }
 
-export interface TempleDAppGetPayloadRequest extends TempleMessageBase {
-  type: TempleMessageType.DAppGetPayloadRequest;
-  id: string;
+export interface TempleDAppGetConfirmationsRequest extends TempleMessageBase {
+  type: TempleMessageType.DAppGetConfirmationsRequest;
 }
 
-export interface TempleDAppGetPayloadResponse extends TempleMessageBase {
-  type: TempleMessageType.DAppGetPayloadResponse;
-  payload: TempleDAppPayload;
+export interface TempleDAppGetConfirmationsResponse extends TempleMessageBase {
+  type: TempleMessageType.DAppGetConfirmationsResponse;
+  confirmations: TempleDAppConfirmation[];
 }
 
 export interface TempleDAppPermConfirmationRequest extends TempleMessageBase {
   type: TempleMessageType.DAppPermConfirmationRequest;
   id: string;
   confirmed: boolean;
-  accountPublicKey: string;
-  accountPublicKeyHash: string;
+  accounts: TempleDAppAccount[];
 }
 
 export interface TempleDAppPermConfirmationResponse extends TempleMessageBase {
@@ -671,6 +1139,7 @@ export interface TempleDAppSignConfirmationRequest extends TempleMessageBase {
   type: TempleMessageType.DAppSignConfirmationRequest;
   id: string;
   confirmed: boolean;
+  riskAccepted?: boolean;
 }
 
 export interface TempleDAppSignConfirmationResponse extends TempleMessageBase {
@@ -689,6 +1158,7 @@ export interface TempleGetAllDAppSessionsResponse extends TempleMessageBase {
 export interface TempleRemoveDAppSessionRequest extends TempleMessageBase {
   type: TempleMessageType.DAppRemoveSessionRequest;
   origin: string;
+  network?: TempleDAppNetwork;
 }
 
 export interface TempleRemoveDAppSessionResponse extends TempleMessageBase {
@@ -696,4 +1166,125 @@ export interface TempleRemoveDAppSessionResponse extends TempleMessageBase {
   sessions: TempleDAppSessions;
 }
 
+export interface TempleSetDAppPolicyRequest extends TempleMessageBase {
+  type: TempleMessageType.DAppSetPolicyRequest;
+  origin: string;
+  network: TempleDAppNetwork;
+  policy: TempleDAppPolicy | null;
+}
+
+export interface TempleSetDAppPolicyResponse extends TempleMessageBase {
+  type: TempleMessageType.DAppSetPolicyResponse;
+  sessions: TempleDAppSessions;
+}
+
+export interface TempleSimulateOperationsRequest extends TempleMessageBase {
+  type: TempleMessageType.SimulateOperationsRequest;
+  sourcePkh: string;
+  networkRpc: string;
+  opParams: any[];
+}
+
+export interface TempleSimulateOperationsResponse extends TempleMessageBase {
+  type: TempleMessageType.SimulateOperationsResponse;
+  simulation: TempleOpsSimulation;
+}
+
+export interface TempleGetDAppLogRequest extends TempleMessageBase {
+  type: TempleMessageType.DAppGetLogRequest;
+}
+
+export interface TempleGetDAppLogResponse extends TempleMessageBase {
+  type: TempleMessageType.DAppGetLogResponse;
+  entries: TempleDAppLogEntry[];
+}
+
+export interface TempleClearDAppLogRequest extends TempleMessageBase {
+  type: TempleMessageType.DAppClearLogRequest;
+}
+
+export interface TempleClearDAppLogResponse extends TempleMessageBase {
+  type: TempleMessageType.DAppClearLogResponse;
+}
+
+export interface TempleGetBeaconPeersRequest extends TempleMessageBase {
+  type: TempleMessageType.BeaconGetPeersRequest;
+}
+
+export interface TempleGetBeaconPeersResponse extends TempleMessageBase {
+  type: TempleMessageType.BeaconGetPeersResponse;
+  peers: TempleBeaconPeer[];
+}
+
+export interface TempleAddBeaconPeerRequest extends TempleMessageBase {
+  type: TempleMessageType.BeaconAddPeerRequest;
+  pairingString: string;
+}
+
+export interface TempleAddBeaconPeerResponse extends TempleMessageBase {
+  type: TempleMessageType.BeaconAddPeerResponse;
+  peer: TempleBeaconPeer;
+}
+
+export interface TempleRemoveBeaconPeerRequest extends TempleMessageBase {
+  type: TempleMessageType.BeaconRemovePeerRequest;
+  id: string;
+}
+
+export interface TempleRemoveBeaconPeerResponse extends TempleMessageBase {
+  type: TempleMessageType.BeaconRemovePeerResponse;
+}
+
+export interface TempleExportBackupRequest extends TempleMessageBase {
+  type: TempleMessageType.ExportBackupRequest;
+  password: string;
+}
+
+export interface TempleExportBackupResponse extends TempleMessageBase {
+  type: TempleMessageType.ExportBackupResponse;
+  backup: TempleBackup;
+}
+
+export interface TempleRestoreBackupRequest extends TempleMessageBase {
+  type: TempleMessageType.RestoreBackupRequest;
+  backup: TempleBackup;
+  password: string;
+}
+
+export interface TempleRestoreBackupResponse extends TempleMessageBase {
+  type: TempleMessageType.RestoreBackupResponse;
+}
+
+export interface TempleChangePasswordRequest extends TempleMessageBase {
+  type: TempleMessageType.ChangePasswordRequest;
+  oldPassword: string;
+  newPassword: string;
+}
+
+export interface TempleChangePasswordResponse extends TempleMessageBase {
+  type: TempleMessageType.ChangePasswordResponse;
+}
+
+export interface TempleGetNewTokensRequest extends TempleMessageBase {
+  type: TempleMessageType.GetNewTokensRequest;
+  accountPublicKeyHash: string;
+  chainId: string;
+}
+
+export interface TempleGetNewTokensResponse extends TempleMessageBase {
+  type: TempleMessageType.GetNewTokensResponse;
+  tokens: TempleDiscoveredToken[];
+}
+
+export interface TempleDismissNewTokensRequest extends TempleMessageBase {
+  type: TempleMessageType.DismissNewTokensRequest;
+  accountPublicKeyHash: string;
+  chainId: string;
+  tokenKeys: string[];
+}
+
+export interface TempleDismissNewTokensResponse extends TempleMessageBase {
+  type: TempleMessageType.DismissNewTokensResponse;
+}
+
 export type OperationsPreview = any[] | { branch: string; contents: any[] };
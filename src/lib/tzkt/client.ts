@@ -5,8 +5,12 @@ import {
   TzktGetOperationsParams,
   TzktGetRewardsParams,
   TzktGetRewardsResponse,
+  TzktGetTransactionsParams,
+  TzktGetTokenBalancesParams,
   TzktOperation,
+  TzktTransactionOperation,
   TzktRelatedContract,
+  TzktTokenBalance,
 } from "lib/tzkt/types";
 
 const TZKT_API_BASE_URLS = new Map([
@@ -45,6 +49,29 @@ export const getOperations = makeQuery<
   })
 );
 
+export const getTransactions = makeQuery<
+  TzktGetTransactionsParams,
+  TzktTransactionOperation[]
+>(
+  () => "/operations/transactions",
+  ({ entrypoints, sort, ...restParams }) => ({
+    "entrypoint.in": entrypoints?.join(","),
+    ...(sort ? { [`sort.${sort}`]: "id" } : {}),
+    ...restParams,
+  })
+);
+
+export const getTokenBalances = makeQuery<
+  TzktGetTokenBalancesParams,
+  TzktTokenBalance[]
+>(
+  () => "/tokens/balances",
+  (params) => ({
+    "balance.gt": 0,
+    ...params,
+  })
+);
+
 type GetUserContractsParams = {
   account: string;
 };
@@ -63,6 +63,16 @@ export type TzktGetOperationsParams = {
   quote?: TzktQuoteCurrency[];
 };
 
+export type TzktGetTransactionsParams = {
+  sender?: string;
+  target?: string;
+  entrypoints?: string[];
+  status?: TzktOperationStatus;
+  sort?: "asc" | "desc";
+  offset?: number;
+  limit?: number;
+};
+
 export type TzktQuote = Partial<Record<TzktQuoteCurrency, number>>;
 
 export interface TzktDelegationOperation extends TzktOperationBase {
@@ -113,6 +123,29 @@ export type TzktRelatedContract = {
   creationTime: string;
 };
 
+export type TzktGetTokenBalancesParams = {
+  account: string;
+  offset?: number;
+  limit?: number;
+};
+
+export type TzktTokenStandard = "fa1.2" | "fa2";
+
+export interface TzktToken {
+  id: number;
+  contract: TzktAlias;
+  tokenId: string;
+  standard: TzktTokenStandard;
+  metadata?: Record<string, any>;
+}
+
+export interface TzktTokenBalance {
+  id: number;
+  account: TzktAlias;
+  token: TzktToken;
+  balance: string;
+}
+
 type Int32ParameterKey = "eq" | "ne" | "gt" | "ge" | "lt" | "le" | "in" | "ni";
 export type Int32Parameter = Partial<Record<Int32ParameterKey, number>>;
 
@@ -0,0 +1,14 @@
+export function downloadFile(
+  content: string,
+  fileName: string,
+  type = "application/json"
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
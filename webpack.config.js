@@ -396,7 +396,8 @@ module.exports = {
         to: path.join(OUTPUT_PATH, "manifest.json"),
         toType: "file",
         transform: (content) =>
-          wextManifest[TARGET_BROWSER](JSON.parse(content)).content,
+          wextManifest[TARGET_BROWSER](withRelayPermission(JSON.parse(content)))
+            .content,
       },
     ]),
 
@@ -529,3 +530,17 @@ function getStyleLoaders(cssOptions = {}) {
     },
   ].filter(Boolean);
 }
+
+/**
+ * Custom Beacon P2P relay (e.g. a local mock) is requested
+ * the same way as the default one
+ */
+function withRelayPermission(manifest) {
+  const relayUrl = process.env.TEMPLE_WALLET_BEACON_RELAY_URL;
+  if (!relayUrl) return manifest;
+
+  const permission = `${new URL(relayUrl).origin}/`;
+  return manifest.permissions.includes(permission)
+    ? manifest
+    : { ...manifest, permissions: [...manifest.permissions, permission] };
+}